@@ -1,7 +1,8 @@
 /**
  * MYC App Header Component
  * 
- * Global header with app name on left and user profile/logout area on right.
+ * Global header with app name on left and search, notifications, language,
+ * user profile and logout on right.
  * Follows MYC design system wireframe specifications.
  */
 
@@ -11,6 +12,10 @@ import { UserOutlined, LogoutOutlined } from '@ant-design/icons';
 import { useNavigate } from 'react-router-dom';
 import { SectionTitle } from '../../ui/Typography';
 import { designTokens } from '../../ui/theme';
+import { LanguageSwitcher } from '../../shared/components/LanguageSwitcher';
+import { useTranslation } from '../../shared/hooks/useTranslation';
+import { NotificationBell } from '../../features/notifications';
+import { CommandPaletteLauncher } from '../../features/search';
 
 const { Header: AntHeader } = Layout;
 
@@ -29,6 +34,7 @@ interface HeaderProps {
  */
 export function Header({ userName = "User", onLogout }: HeaderProps) {
   const navigate = useNavigate();
+  const { t } = useTranslation();
   
   // Get initials for avatar (first letter of first and last name)
   const getInitials = (name: string): string => {
@@ -80,12 +86,21 @@ export function Header({ userName = "User", onLogout }: HeaderProps) {
           e.currentTarget.style.color = designTokens.colors.textPrimary;
         }}
       >
-        MYC Studio Management System
+        {t('header.appName')}
       </SectionTitle>
 
       {/* Profile Area - Right Side */}
       <div style={profileAreaStyle}>
         <Space size={designTokens.spacing.sm}>
+          {/* Search and Command Palette (Ctrl+K / Cmd+K) */}
+          <CommandPaletteLauncher onLogout={onLogout} />
+
+          {/* Notification Center */}
+          <NotificationBell />
+
+          {/* Language Switcher */}
+          <LanguageSwitcher />
+
           {/* User Avatar with Initials */}
           <Avatar 
             style={{ 
@@ -109,7 +124,7 @@ export function Header({ userName = "User", onLogout }: HeaderProps) {
             onClick={onLogout}
             style={{ color: designTokens.colors.textSecondary }}
           >
-            Logout
+            {t('header.logout')}
           </Button>
         </Space>
       </div>
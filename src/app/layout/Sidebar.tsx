@@ -1,15 +1,19 @@
 /**
  * MYC App Sidebar Component
  * 
- * Fixed sidebar navigation with Users and Studios menu items.
+ * Fixed sidebar navigation with Users, Roles, Studios, Schedule and Audit Log menu items.
  * Follows MYC design system wireframe specifications.
  */
 
 import React from 'react';
 import { Layout, Menu } from 'antd';
-import { UserOutlined, BankOutlined, DashboardOutlined } from '@ant-design/icons';
+import { UserOutlined, BankOutlined, DashboardOutlined, SafetyOutlined, CalendarOutlined, AuditOutlined } from '@ant-design/icons';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { designTokens } from '../../ui/theme';
+import { useAuthStore } from '../../shared/stores/authStore';
+import { usePermissionsLoader } from '../../shared/hooks/usePermission';
+import { useTranslation } from '../../shared/hooks/useTranslation';
+import type { Permission } from '../../shared/types/permission';
 
 const { Sider } = Layout;
 
@@ -27,7 +31,7 @@ interface SidebarProps {
 /**
  * MYC App Sidebar
  * 
- * Fixed sidebar with navigation menu items for Users and Studios.
+ * Fixed sidebar with navigation menu items for Users, Roles, Studios, Schedule and Audit Log.
  * Uses MYC design tokens and supports active state highlighting.
  */
 export function Sidebar({ 
@@ -38,37 +42,69 @@ export function Sidebar({
 }: SidebarProps) {
   const navigate = useNavigate();
   const location = useLocation();
+  const permissions = useAuthStore((state) => state.permissions);
+  usePermissionsLoader();
+  const { t } = useTranslation();
   
   // Determine active key from current route
   const getCurrentActiveKey = (): string => {
     const path = location.pathname;
     if (path.startsWith('/users')) return 'users';
+    if (path.startsWith('/roles')) return 'roles';
     if (path.startsWith('/studios')) return 'studios';
+    if (path.startsWith('/schedule')) return 'schedule';
+    if (path.startsWith('/audit')) return 'audit';
     return 'dashboard';
   };
   
   // Menu items configuration with route mapping
-  const menuItems = [
+  // Items with a permission are only shown when the signed-in user has it
+  const menuItems: { key: string; icon: React.ReactNode; label: string; path: string; permission?: Permission }[] = [
     {
       key: 'dashboard',
       icon: <DashboardOutlined />,
-      label: 'Dashboard',
+      label: t('nav.dashboard'),
       path: '/',
     },
     {
       key: 'users',
       icon: <UserOutlined />,
-      label: 'Users',
+      label: t('nav.users'),
       path: '/users',
+      permission: 'users:read',
+    },
+    {
+      key: 'roles',
+      icon: <SafetyOutlined />,
+      label: t('nav.roles'),
+      path: '/roles',
+      permission: 'roles:read',
     },
     {
       key: 'studios',
       icon: <BankOutlined />,
-      label: 'Studios',
+      label: t('nav.studios'),
       path: '/studios',
+      permission: 'studios:read',
+    },
+    {
+      key: 'schedule',
+      icon: <CalendarOutlined />,
+      label: t('nav.schedule'),
+      path: '/schedule',
+      permission: 'lessons:read',
+    },
+    {
+      key: 'audit',
+      icon: <AuditOutlined />,
+      label: t('nav.audit'),
+      path: '/audit',
+      permission: 'audit:read',
     },
   ];
 
+  const visibleItems = menuItems.filter(item => !item.permission || permissions.includes(item.permission));
+
   const siderStyle: React.CSSProperties = {
     backgroundColor: designTokens.colors.background, // Layout background token
     borderRight: '1px solid rgba(0, 0, 0, 0.06)', // Subtle neutral divider
@@ -106,7 +142,7 @@ export function Sidebar({
       <Menu
         mode="inline"
         selectedKeys={[getCurrentActiveKey()]}
-        items={menuItems.map(({ key, icon, label }) => ({ key, icon, label }))}
+        items={visibleItems.map(({ key, icon, label }) => ({ key, icon, label }))}
         onClick={handleMenuClick}
         style={menuStyle}
         theme="light"
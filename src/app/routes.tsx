@@ -13,22 +13,18 @@ import { RouteErrorBoundary } from '../shared/components';
 import { DashboardPage } from '../features/dashboard/pages/DashboardPage';
 import LoginPage from '../features/auth/pages/LoginPage';
 import { UsersListPage } from '../features/users/pages/UsersListPage';
+import { UserDetailPage } from '../features/users/pages/UserDetailPage';
+import { RolesPage } from '../features/roles/pages/RolesPage';
+import { StudiosListPage } from '../features/studios/pages/StudiosListPage';
+import { StudioDetailPage } from '../features/studios/pages/StudioDetailPage';
+import { SchedulePage } from '../features/schedule/pages/SchedulePage';
+import { AuditLogPage } from '../features/audit/pages/AuditLogPage';
+import { NotificationsPage } from '../features/notifications/pages/NotificationsPage';
 import { ProtectedRoute, UnauthorizedPage } from '../shared/components/routing';
 import { LogoutModal } from '../shared/components/auth';
 import { useUser } from '../shared/hooks/useAuth';
 
 
-function StudiosPlaceholder() {
-  return (
-    <Page title="Studios">
-      <div style={{ textAlign: 'center', padding: '2rem 0' }}>
-        <h2>Studios Management</h2>
-        <p>Studio management features will be implemented in future user stories.</p>
-      </div>
-    </Page>
-  );
-}
-
 function NotFoundPage() {
   return (
     <Page title="Page Not Found">
@@ -55,7 +51,10 @@ function RootLayout({ children }: { children: React.ReactNode }) {
   const getActiveMenuItem = (): string => {
     const path = location.pathname;
     if (path.startsWith('/users')) return 'users';
+    if (path.startsWith('/roles')) return 'roles';
     if (path.startsWith('/studios')) return 'studios';
+    if (path.startsWith('/schedule')) return 'schedule';
+    if (path.startsWith('/audit')) return 'audit';
     return 'dashboard'; // Default for home/dashboard
   };
 
@@ -123,19 +122,79 @@ export const router = createBrowserRouter([
   {
     path: '/users',
     element: (
-      <ProtectedRoute requiredRole="admin">
+      <ProtectedRoute requiredPermission="users:read">
         <RootLayout>
           <UsersListPage />
         </RootLayout>
       </ProtectedRoute>
     ),
   },
+  {
+    path: '/users/:id',
+    element: (
+      <ProtectedRoute requiredPermission="users:read">
+        <RootLayout>
+          <UserDetailPage />
+        </RootLayout>
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/roles',
+    element: (
+      <ProtectedRoute requiredPermission="roles:read">
+        <RootLayout>
+          <RolesPage />
+        </RootLayout>
+      </ProtectedRoute>
+    ),
+  },
   {
     path: '/studios',
+    element: (
+      <ProtectedRoute requiredPermission="studios:read">
+        <RootLayout>
+          <StudiosListPage />
+        </RootLayout>
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/studios/:id',
+    element: (
+      <ProtectedRoute requiredPermission="studios:read">
+        <RootLayout>
+          <StudioDetailPage />
+        </RootLayout>
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/schedule',
+    element: (
+      <ProtectedRoute requiredPermission="lessons:read">
+        <RootLayout>
+          <SchedulePage />
+        </RootLayout>
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/audit',
+    element: (
+      <ProtectedRoute requiredPermission="audit:read">
+        <RootLayout>
+          <AuditLogPage />
+        </RootLayout>
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/notifications',
     element: (
       <ProtectedRoute>
         <RootLayout>
-          <StudiosPlaceholder />
+          <NotificationsPage />
         </RootLayout>
       </ProtectedRoute>
     ),
@@ -0,0 +1,155 @@
+/**
+ * AuditFilters Component
+ *
+ * Filter form for the Audit Log page
+ */
+
+import React from 'react';
+import { Button, Input, Row, Col, Form, Select, Space } from 'antd';
+import { SearchOutlined, ClearOutlined } from '@ant-design/icons';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { addDays, parseDateKey } from '@/shared/utils/date';
+import type { AuditEntityType, AuditListParams } from '@/shared/types/audit';
+import { AUDIT_ENTITY_TYPES, getAuditEntityTypeLabel } from '../utils/auditDiff';
+
+interface AuditFiltersProps {
+  /** Callback when filters are applied - page and size are set by the page */
+  onFilter: (filters: Omit<AuditListParams, 'page' | 'size'>) => void;
+  /** Loading state during API calls */
+  loading?: boolean;
+}
+
+interface AuditFilterValues {
+  actor?: string;
+  entityType?: AuditEntityType;
+  from?: string; // 'YYYY-MM-DD'
+  to?: string;   // 'YYYY-MM-DD', inclusive
+}
+
+/**
+ * Audit filter form component
+ *
+ * Provides filtering for:
+ * - Actor (name or email)
+ * - Entity type (dropdown)
+ * - Date range (local days, both inclusive)
+ */
+export const AuditFilters: React.FC<AuditFiltersProps> = ({
+  onFilter,
+  loading = false,
+}) => {
+  const { t, locale } = useTranslation();
+  const [form] = Form.useForm<AuditFilterValues>();
+
+  /**
+   * Handle form submission - apply filters, dropping empty values
+   */
+  const handleSubmit = (values: AuditFilterValues) => {
+    const from = parseDateKey(values.from);
+    const to = parseDateKey(values.to);
+    onFilter({
+      actor: values.actor?.trim() || undefined,
+      entityType: values.entityType || undefined,
+      from: from?.toISOString(),
+      // The To day is included - the API range ends before the next day
+      to: to ? addDays(to, 1).toISOString() : undefined,
+    });
+  };
+
+  /**
+   * Handle form reset - clear all filters
+   */
+  const handleReset = () => {
+    form.resetFields();
+    onFilter({});
+  };
+
+  return (
+    <div style={{
+      background: '#fafafa',
+      padding: '16px',
+      borderRadius: '8px',
+      marginBottom: '16px'
+    }}>
+      <Form
+        form={form}
+        layout="vertical"
+        onFinish={handleSubmit}
+      >
+        <Row gutter={16}>
+          {/* Actor Filter */}
+          <Col xs={24} sm={12} md={8} lg={6}>
+            <Form.Item label={t('audit.column.actor')} name="actor">
+              <Input
+                placeholder={t('audit.actorPlaceholder')}
+                allowClear
+                disabled={loading}
+              />
+            </Form.Item>
+          </Col>
+
+          {/* Entity Type Filter */}
+          <Col xs={24} sm={12} md={8} lg={4}>
+            <Form.Item label={t('audit.entityType')} name="entityType">
+              <Select
+                placeholder={t('audit.allTypes')}
+                allowClear
+                options={AUDIT_ENTITY_TYPES.map(value => ({ value, label: getAuditEntityTypeLabel(value, locale) }))}
+                disabled={loading}
+              />
+            </Form.Item>
+          </Col>
+
+          {/* Date Range Filter */}
+          <Col xs={12} sm={6} md={4} lg={4}>
+            <Form.Item label={t('audit.from')} name="from">
+              <Input type="date" disabled={loading} />
+            </Form.Item>
+          </Col>
+          <Col xs={12} sm={6} md={4} lg={4}>
+            <Form.Item
+              label={t('audit.to')}
+              name="to"
+              dependencies={['from']}
+              rules={[
+                ({ getFieldValue }) => ({
+                  validator: (_, value?: string) => {
+                    const from: string | undefined = getFieldValue('from');
+                    return !value || !from || value >= from
+                      ? Promise.resolve()
+                      : Promise.reject(new Error(t('audit.toBeforeFrom')));
+                  },
+                }),
+              ]}
+            >
+              <Input type="date" disabled={loading} />
+            </Form.Item>
+          </Col>
+
+          {/* Action Buttons */}
+          <Col xs={24} sm={12} md={8} lg={6}>
+            <Form.Item label=" " style={{ marginBottom: 0 }}>
+              <Space>
+                <Button
+                  type="primary"
+                  htmlType="submit"
+                  icon={<SearchOutlined />}
+                  loading={loading}
+                >
+                  {t('userFilters.search')}
+                </Button>
+                <Button
+                  icon={<ClearOutlined />}
+                  onClick={handleReset}
+                  disabled={loading}
+                >
+                  {t('userFilters.reset')}
+                </Button>
+              </Space>
+            </Form.Item>
+          </Col>
+        </Row>
+      </Form>
+    </div>
+  );
+};
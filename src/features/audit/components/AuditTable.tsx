@@ -0,0 +1,170 @@
+/**
+ * AuditTable Component
+ *
+ * Audit events, newest first. Expanding a row shows the fields the
+ * event changed with their values before and after.
+ */
+
+import React from 'react';
+import { Table, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { Link } from 'react-router-dom';
+import type { AuditEvent } from '@/shared/types/audit';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import {
+  AUDIT_ACTIONS,
+  diffAuditSnapshots,
+  formatAuditField,
+  formatAuditValue,
+  getAuditActionLabel,
+  getAuditEntityTypeLabel,
+  type AuditFieldChange,
+} from '../utils/auditDiff';
+
+interface AuditTableProps {
+  events: AuditEvent[];
+  loading?: boolean;
+  pagination?: {
+    current: number;
+    total: number;
+    pageSize: number;
+    onChange: (page: number, pageSize?: number) => void;
+  };
+}
+
+// Detail page of a changed resource, when it has one
+const ENTITY_PATHS: Record<AuditEvent['entityType'], (id: string) => string> = {
+  user: (id) => `/users/${id}`,
+};
+
+export const AuditTable: React.FC<AuditTableProps> = ({
+  events,
+  loading = false,
+  pagination,
+}) => {
+  const { t, formatDate, locale } = useTranslation();
+  const changeColumns: ColumnsType<AuditFieldChange> = [
+    {
+      title: t('audit.column.field'),
+      dataIndex: 'field',
+      key: 'field',
+      width: 160,
+      render: (field: string) => formatAuditField(field, locale),
+    },
+    {
+      title: t('audit.column.before'),
+      dataIndex: 'before',
+      key: 'before',
+      render: (value: unknown) => formatAuditValue(value, locale),
+    },
+    {
+      title: t('audit.column.after'),
+      dataIndex: 'after',
+      key: 'after',
+      render: (value: unknown) => formatAuditValue(value, locale),
+    },
+  ];
+  const columns: ColumnsType<AuditEvent> = [
+    {
+      title: t('audit.column.time'),
+      dataIndex: 'occurredAt',
+      key: 'occurredAt',
+      width: 180,
+      render: (occurredAt: string) => formatDate(occurredAt, {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      }),
+    },
+    {
+      title: t('audit.column.actor'),
+      key: 'actor',
+      width: 220,
+      render: (_, event) => (
+        <>
+          <div>{event.actor.name}</div>
+          <Typography.Text type="secondary">{event.actor.email}</Typography.Text>
+        </>
+      ),
+    },
+    {
+      title: t('audit.column.action'),
+      dataIndex: 'action',
+      key: 'action',
+      width: 110,
+      render: (action: AuditEvent['action']) => {
+        const option = AUDIT_ACTIONS.find(item => item.value === action);
+        return <Tag color={option?.color}>{option ? getAuditActionLabel(action, locale) : action}</Tag>;
+      },
+    },
+    {
+      title: t('audit.column.entity'),
+      key: 'entity',
+      width: 220,
+      render: (_, event) => (
+        <>
+          <Typography.Text type="secondary">
+            {getAuditEntityTypeLabel(event.entityType, locale)}
+          </Typography.Text>{' '}
+          <Link to={ENTITY_PATHS[event.entityType](event.entityId)}>{event.entityName}</Link>
+        </>
+      ),
+    },
+    {
+      title: t('audit.column.changes'),
+      key: 'changes',
+      render: (_, event) => {
+        const changes = diffAuditSnapshots(event.before, event.after);
+        return changes.length > 0
+          ? changes.map(change => formatAuditField(change.field, locale)).join(', ')
+          : '-';
+      },
+    },
+    {
+      title: t('audit.column.requestId'),
+      dataIndex: 'requestId',
+      key: 'requestId',
+      width: 200,
+      render: (requestId: string) => (
+        <Typography.Text code copyable={{ text: requestId }} ellipsis style={{ maxWidth: 180 }}>
+          {requestId}
+        </Typography.Text>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={events}
+      loading={loading}
+      rowKey="id"
+      expandable={{
+        expandedRowRender: (event) => (
+          <Table
+            columns={changeColumns}
+            dataSource={diffAuditSnapshots(event.before, event.after)}
+            rowKey="field"
+            pagination={false}
+            size="small"
+            locale={{ emptyText: t('audit.noFieldChanged') }}
+          />
+        ),
+      }}
+      pagination={pagination ? {
+        current: pagination.current,
+        total: pagination.total,
+        pageSize: pagination.pageSize,
+        showSizeChanger: true,
+        showTotal: (total, range) => t('table.totalEvents', { start: range[0], end: range[1], count: total }),
+        onChange: pagination.onChange,
+      } : false}
+      scroll={{ x: 1100 }}
+      size="middle"
+      locale={{ emptyText: t('audit.empty') }}
+    />
+  );
+};
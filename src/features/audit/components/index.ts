@@ -0,0 +1,6 @@
+/**
+ * Audit Components Exports
+ */
+
+export { AuditFilters } from './AuditFilters';
+export { AuditTable } from './AuditTable';
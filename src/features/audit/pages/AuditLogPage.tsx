@@ -0,0 +1,165 @@
+/**
+ * Audit Log Page
+ *
+ * Who changed what, at /audit (audit:read permission)
+ * Lists audit events newest first with filters by actor, entity type
+ * and date range; each event expands to its before/after diff.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Layout, Typography, Button, Space, message, Alert } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import { auditAPI } from '@/shared/api/audit';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { PaginationMeta } from '@/shared/types/user';
+import type { AuditEvent, AuditListParams } from '@/shared/types/audit';
+import { AuditFilters, AuditTable } from '../components';
+
+const { Content } = Layout;
+const { Title } = Typography;
+
+const DEFAULT_PAGE_SIZE = 20;
+
+interface AuditPageState {
+  events: AuditEvent[];
+  loading: boolean;
+  error: string | null;
+  pagination: PaginationMeta;
+}
+
+export const AuditLogPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [filters, setFilters] = useState<AuditListParams>({ page: 0, size: DEFAULT_PAGE_SIZE });
+  const [state, setState] = useState<AuditPageState>({
+    events: [],
+    loading: false,
+    error: null,
+    pagination: {
+      page: 0,
+      size: DEFAULT_PAGE_SIZE,
+      totalItems: 0,
+      totalPages: 0,
+      hasNext: false,
+    },
+  });
+
+  // Fetch audit events
+  const fetchEvents = useCallback(async (params: AuditListParams) => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const response = await auditAPI.listAuditEvents(params);
+      setState(prev => ({
+        ...prev,
+        events: response.data,
+        pagination: response.meta,
+        loading: false,
+      }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('audit.fetchFailed');
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: errorMessage,
+      }));
+      message.error(errorMessage);
+    }
+  }, [t]);
+
+  // Load events whenever filters or paging change
+  useEffect(() => {
+    fetchEvents(filters);
+  }, [filters, fetchEvents]);
+
+  // Handle filter changes
+  const handleFiltersChange = useCallback((newFilters: Omit<AuditListParams, 'page' | 'size'>) => {
+    setFilters(prev => ({
+      ...newFilters,
+      page: 0, // Reset to first page when filters change
+      size: prev.size,
+    }));
+  }, []);
+
+  // Handle pagination changes
+  const handlePaginationChange = useCallback((page: number, pageSize?: number) => {
+    setFilters(prev => ({
+      ...prev,
+      page: page - 1, // Convert from 1-based to 0-based for API
+      size: pageSize || prev.size,
+    }));
+  }, []);
+
+  // Handle refresh and retry on error
+  const handleRetry = useCallback(() => {
+    fetchEvents(filters);
+  }, [fetchEvents, filters]);
+
+  return (
+    <Layout style={{ minHeight: '100vh', background: '#f0f2f5' }}>
+      <Content style={{ padding: '24px' }}>
+        <div style={{ background: '#fff', padding: '24px', borderRadius: '8px' }}>
+          {/* Page Header */}
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: '24px',
+            borderBottom: '1px solid #f0f0f0',
+            paddingBottom: '16px',
+          }}>
+            <Title level={2} style={{ margin: 0 }}>
+              {t('audit.title')}
+            </Title>
+            <Space>
+              <Button
+                icon={<ReloadOutlined />}
+                onClick={handleRetry}
+                disabled={state.loading}
+              >
+                {t('common.refresh')}
+              </Button>
+            </Space>
+          </div>
+
+          {/* Error Alert */}
+          {state.error && (
+            <Alert
+              message={t('audit.loadError')}
+              description={state.error}
+              type="error"
+              showIcon
+              closable
+              style={{ marginBottom: '16px' }}
+              action={
+                <Button size="small" onClick={handleRetry}>
+                  {t('common.retry')}
+                </Button>
+              }
+              onClose={() => setState(prev => ({ ...prev, error: null }))}
+            />
+          )}
+
+          {/* Filters Section */}
+          <div style={{ marginBottom: '24px' }}>
+            <AuditFilters
+              onFilter={handleFiltersChange}
+              loading={state.loading}
+            />
+          </div>
+
+          {/* Audit Events Table */}
+          <AuditTable
+            events={state.events}
+            loading={state.loading}
+            pagination={{
+              current: state.pagination.page + 1, // Convert to 1-based for display
+              total: state.pagination.totalItems,
+              pageSize: state.pagination.size,
+              onChange: handlePaginationChange,
+            }}
+          />
+        </div>
+      </Content>
+    </Layout>
+  );
+};
@@ -0,0 +1 @@
+export { AuditLogPage } from './AuditLogPage';
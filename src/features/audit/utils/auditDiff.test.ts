@@ -0,0 +1,45 @@
+/**
+ * Audit Log Display Helpers Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffAuditSnapshots, formatAuditField, formatAuditValue } from './auditDiff';
+
+const user = {
+  id: '01234567890123456789012347',
+  name: 'Bob Johnson',
+  roleId: '01J9WR00000000000000000002',
+  role: 'USER',
+  note: null,
+  deleted: false,
+};
+
+describe('Audit Log Display Helpers', () => {
+  describe('diffAuditSnapshots', () => {
+    it('should list only the changed fields, without ULID references', () => {
+      const after = { ...user, roleId: '01J9WR00000000000000000004', role: 'TEACHER', note: 'Guitar' };
+
+      expect(diffAuditSnapshots(user, after)).toEqual([
+        { field: 'role', before: 'USER', after: 'TEACHER' },
+        { field: 'note', before: null, after: 'Guitar' },
+      ]);
+    });
+
+    it('should list every field with a value of a created resource', () => {
+      expect(diffAuditSnapshots(null, user)).toEqual([
+        { field: 'name', before: null, after: 'Bob Johnson' },
+        { field: 'role', before: null, after: 'USER' },
+        { field: 'deleted', before: null, after: false },
+      ]);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format values and field names for display', () => {
+      expect(formatAuditValue(null)).toBe('—');
+      expect(formatAuditValue(true)).toBe('Yes');
+      expect(formatAuditValue('Guitar')).toBe('Guitar');
+      expect(formatAuditField('deletedBy')).toBe('Deleted by');
+    });
+  });
+});
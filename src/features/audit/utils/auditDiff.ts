@@ -0,0 +1,100 @@
+/**
+ * Audit Log Display Helpers
+ *
+ * - Labels and tag colors of audit actions and entity types
+ * - Fields changed between the before and after snapshots of an event
+ */
+
+import { currentLocale, translate, type MessageKey, type SupportedLocale } from '@/shared/i18n';
+import type { AuditAction, AuditEntityType, AuditEvent } from '@/shared/types/audit';
+
+export const AUDIT_ACTIONS: { value: AuditAction; color: string }[] = [
+  { value: 'create', color: 'green' },
+  { value: 'update', color: 'blue' },
+  { value: 'delete', color: 'red' },
+  { value: 'restore', color: 'gold' },
+];
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['user'];
+
+// Labels of the snapshot fields - other fields are labelled from their key
+const FIELD_LABELS: Partial<Record<string, MessageKey>> = {
+  name: 'users.field.name',
+  email: 'users.field.email',
+  phone: 'users.field.phone',
+  role: 'users.field.role',
+  country: 'users.field.country',
+  province: 'users.field.province',
+  note: 'users.field.note',
+  deleted: 'audit.field.deleted',
+};
+
+// Snapshot fields left out of the diff - ULID references change together with their resolved names
+const HIDDEN_FIELDS = ['id', 'roleId', 'countryId', 'provinceId', 'createdAt'];
+
+/**
+ * One field changed by an audit event
+ */
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Fields that differ between the snapshots, in snapshot order
+ * A missing snapshot (before a create) lists every field that has a value.
+ */
+export function diffAuditSnapshots(
+  before: AuditEvent['before'],
+  after: AuditEvent['after']
+): AuditFieldChange[] {
+  const fields = [...new Set([...Object.keys(after ?? {}), ...Object.keys(before ?? {})])];
+
+  return fields
+    .filter(field => !HIDDEN_FIELDS.includes(field))
+    .map(field => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
+
+/**
+ * Label of an audit action in a locale
+ */
+export function getAuditActionLabel(action: AuditAction, locale: SupportedLocale = currentLocale()): string {
+  return translate(locale, `audit.action.${action}`);
+}
+
+/**
+ * Label of an audited entity type in a locale
+ */
+export function getAuditEntityTypeLabel(entityType: AuditEntityType, locale: SupportedLocale = currentLocale()): string {
+  return translate(locale, `audit.entityType.${entityType}`);
+}
+
+/**
+ * Display text of a snapshot value
+ */
+export function formatAuditValue(value: unknown, locale: SupportedLocale = currentLocale()): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return translate(locale, value ? 'common.yes' : 'common.no');
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Field label of a snapshot key, e.g. 'deletedBy' -> 'Deleted by'
+ */
+export function formatAuditField(field: string, locale: SupportedLocale = currentLocale()): string {
+  const key = FIELD_LABELS[field];
+  if (key) {
+    return translate(locale, key);
+  }
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -10,6 +10,7 @@ import { Card } from '../../../ui/Card';
 import { PageTitle, BodyText } from '../../../ui/Typography';
 import { Button } from '../../../ui/Button';
 import { useLogin, useAuthError } from '../../../shared/hooks/useAuth';
+import { useTranslation } from '../../../shared/hooks/useTranslation';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 
 /**
@@ -23,6 +24,7 @@ export default function LoginPage() {
   const [searchParams] = useSearchParams();
   const { login, isLoggingIn } = useLogin();
   const { error, hasError, clearError } = useAuthError(5000);
+  const { t } = useTranslation();
 
   const handleGoogleLogin = useCallback(async () => {
     clearError(); // Clear any previous errors
@@ -60,8 +62,8 @@ export default function LoginPage() {
         <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
           {/* Header Section */}
           <div style={{ textAlign: 'center' }}>
-            <PageTitle>MYC Studio Management</PageTitle>
-            <BodyText type="secondary">Please sign in with Google to continue</BodyText>
+            <PageTitle>{t('login.title')}</PageTitle>
+            <BodyText type="secondary">{t('login.subtitle')}</BodyText>
           </div>
 
           {/* Error Display */}
@@ -157,7 +159,7 @@ export default function LoginPage() {
                 </svg>
               )}
               
-              {isLoggingIn ? 'Signing in with Google...' : 'Continue with Google'}
+              {isLoggingIn ? t('login.signingIn') : t('login.continueWithGoogle')}
             </Button>
 
             <div style={{ textAlign: 'center', marginTop: '8px' }}>
@@ -165,7 +167,7 @@ export default function LoginPage() {
                 type="secondary" 
                 style={{ fontSize: '14px', color: 'var(--myc-color-text-secondary, #666)' }}
               >
-                Secure authentication powered by Google
+                {t('login.securedByGoogle')}
               </BodyText>
             </div>
           </div>
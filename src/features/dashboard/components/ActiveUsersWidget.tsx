@@ -0,0 +1,48 @@
+/**
+ * ActiveUsersWidget Component
+ *
+ * Dashboard card with the number of active users per role
+ * (GET /dashboard/users/by-role)
+ */
+
+import React from 'react';
+import { List, Statistic } from 'antd';
+import { TeamOutlined } from '@ant-design/icons';
+import { Link } from 'react-router-dom';
+import { Card, Tag } from '@/ui';
+import { dashboardAPI } from '@/shared/api/dashboard';
+import { useRoles } from '@/shared/hooks/useRoles';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { useWidgetData } from '../hooks/useWidgetData';
+
+const loadActiveUsers = async () => (await dashboardAPI.getActiveUsersByRole()).data;
+
+export const ActiveUsersWidget: React.FC = () => {
+  const { t } = useTranslation();
+  const { data: counts, loading } = useWidgetData(loadActiveUsers);
+  const { getRoleColor } = useRoles();
+  const total = counts?.reduce((sum, entry) => sum + entry.count, 0) ?? 0;
+
+  return (
+    <Card
+      title={<><TeamOutlined /> {t('dashboard.widget.activeUsers')}</>}
+      extra={<Link to="/users">{t('dashboard.viewUsers')}</Link>}
+      loading={loading}
+      hoverable={false}
+    >
+      <Statistic title={t('dashboard.total')} value={total} />
+      <List
+        size="small"
+        dataSource={counts ?? []}
+        locale={{ emptyText: t('dashboard.noActiveUsers') }}
+        renderItem={(entry) => (
+          <List.Item extra={entry.count}>
+            <Link to={`/users?role=${encodeURIComponent(entry.role)}`}>
+              <Tag color={getRoleColor(entry.role)}>{entry.role}</Tag>
+            </Link>
+          </List.Item>
+        )}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,196 @@
+/**
+ * AttendanceCheckIn Component
+ *
+ * Dashboard card for recording attendance of today's lessons of one teacher
+ * - Signed-in teachers see their own lessons ("My Lessons Today")
+ * - Other users with attendance:write pick the teacher first
+ * Attendance is saved as soon as a status is picked; a note on blur or Enter.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Input, List, Select, message } from 'antd';
+import { CheckSquareOutlined } from '@ant-design/icons';
+import { Card } from '@/ui';
+import { lessonAPI } from '@/shared/api/lesson';
+import { attendanceAPI } from '@/shared/api/attendance';
+import { useUser } from '@/shared/hooks/useAuth';
+import { useUsersByRole } from '@/shared/hooks/useUsersByRole';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { addDays, formatTime, startOfDay } from '@/shared/utils/date';
+import { ATTENDANCE_STATUSES, getAttendanceLabel, validateAttendance } from '@/shared/utils/attendance';
+import type { Attendance, AttendanceStatus } from '@/shared/types/attendance';
+import type { Lesson } from '@/shared/types/lesson';
+
+export const AttendanceCheckIn: React.FC = () => {
+  const { t, locale } = useTranslation();
+  const { user } = useUser();
+  const { users: teachers, loading: teachersLoading } = useUsersByRole('TEACHER');
+  const [selectedTeacherId, setSelectedTeacherId] = useState<string>();
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  // The signed-in user's teacher record, matched by email
+  const myTeacher = teachers.find(
+    teacher => user && teacher.email.toLowerCase() === user.email.toLowerCase()
+  );
+  const teacherId = myTeacher?.id ?? selectedTeacherId;
+
+  useEffect(() => {
+    if (!teacherId) {
+      setLessons([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadLessons = async () => {
+      const today = startOfDay(new Date());
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await lessonAPI.listLessons({
+          from: today.toISOString(),
+          to: addDays(today, 1).toISOString(),
+          teacherId,
+        });
+        if (!cancelled) setLessons(response.data);
+      } catch (error) {
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : t('schedule.loadFailed'));
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadLessons();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [teacherId, t]);
+
+  const setLessonAttendance = (lessonId: string, attendance: Attendance | null) => {
+    setLessons(current => current.map(lesson => (
+      lesson.id === lessonId ? { ...lesson, attendance } : lesson
+    )));
+  };
+
+  /**
+   * Record the picked status, or clear the attendance when the status is removed
+   */
+  const handleStatusChange = async (lesson: Lesson, status: AttendanceStatus | undefined) => {
+    setSavingId(lesson.id);
+    try {
+      if (status) {
+        const response = await attendanceAPI.recordAttendance(lesson.id, {
+          status,
+          note: lesson.attendance?.note ?? null,
+        });
+        setLessonAttendance(lesson.id, response.data);
+      } else {
+        await attendanceAPI.clearAttendance(lesson.id);
+        setLessonAttendance(lesson.id, null);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('attendance.saveFailed');
+      message.error(errorMessage);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  /**
+   * Save a changed note with the recorded status
+   */
+  const handleNoteSave = async (lesson: Lesson, note: string) => {
+    if (!lesson.attendance || note.trim() === (lesson.attendance.note ?? '')) {
+      return;
+    }
+
+    setSavingId(lesson.id);
+    try {
+      const response = await attendanceAPI.recordAttendance(lesson.id, {
+        status: lesson.attendance.status,
+        note,
+      });
+      setLessonAttendance(lesson.id, response.data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('attendance.noteSaveFailed');
+      message.error(errorMessage);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card
+      title={<><CheckSquareOutlined /> {myTeacher ? t('dashboard.myLessonsToday') : t('dashboard.widget.attendance')}</>}
+      extra={!myTeacher && (
+        <Select
+          value={selectedTeacherId}
+          onChange={setSelectedTeacherId}
+          options={teachers.map(teacher => ({ value: teacher.id, label: teacher.name }))}
+          loading={teachersLoading}
+          placeholder={t('lesson.selectTeacher')}
+          showSearch
+          optionFilterProp="label"
+          style={{ width: 200 }}
+          aria-label={t('lesson.field.teacher')}
+        />
+      )}
+      hoverable={false}
+    >
+      {error ? (
+        <Alert message={error} type="error" showIcon />
+      ) : (
+        <List
+          loading={loading}
+          dataSource={lessons}
+          locale={{ emptyText: teacherId ? t('dashboard.noLessonsToday') : t('dashboard.selectTeacherHint') }}
+          renderItem={(lesson) => (
+            <List.Item
+              actions={[
+                <Select
+                  key="status"
+                  value={lesson.attendance?.status}
+                  onChange={(status) => handleStatusChange(lesson, status)}
+                  options={ATTENDANCE_STATUSES.map(option => ({
+                    value: option.value,
+                    label: getAttendanceLabel(option.value, locale),
+                    disabled: validateAttendance(lesson, { status: option.value }) !== null,
+                  }))}
+                  loading={savingId === lesson.id}
+                  disabled={savingId === lesson.id}
+                  placeholder={t('attendance.column.attendance')}
+                  allowClear
+                  style={{ width: 180 }}
+                  aria-label={t('dashboard.attendanceOf', { student: lesson.student })}
+                />,
+                <Input
+                  // Remount with the saved note after each save
+                  key={`note-${lesson.attendance?.recordedAt ?? ''}`}
+                  defaultValue={lesson.attendance?.note ?? ''}
+                  onBlur={(event) => handleNoteSave(lesson, event.currentTarget.value)}
+                  onPressEnter={(event) => handleNoteSave(lesson, event.currentTarget.value)}
+                  disabled={!lesson.attendance || savingId === lesson.id}
+                  placeholder={t('attendance.column.note')}
+                  maxLength={500}
+                  style={{ width: 200 }}
+                  aria-label={t('dashboard.attendanceNoteOf', { student: lesson.student })}
+                />,
+              ]}
+            >
+              <List.Item.Meta
+                title={`${formatTime(new Date(lesson.start))}–${formatTime(new Date(lesson.end))} ${lesson.student}`}
+                description={`${lesson.room}, ${lesson.studio}`}
+              />
+            </List.Item>
+          )}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,49 @@
+/**
+ * NewUsersWidget Component
+ *
+ * Dashboard card with the number of users created this month,
+ * compared with last month (GET /dashboard/users/new)
+ */
+
+import React from 'react';
+import { Statistic, Typography } from 'antd';
+import { ArrowDownOutlined, ArrowUpOutlined, UserAddOutlined } from '@ant-design/icons';
+import { Card } from '@/ui';
+import { dashboardAPI } from '@/shared/api/dashboard';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { designTokens } from '@/ui/theme';
+import { useWidgetData } from '../hooks/useWidgetData';
+import { monthPeriod } from '../utils/widgets';
+
+const loadNewUsers = async () => {
+  const now = new Date();
+  const [thisMonth, lastMonth] = await Promise.all([
+    dashboardAPI.getNewUsers(monthPeriod(now)),
+    dashboardAPI.getNewUsers(monthPeriod(now, -1)),
+  ]);
+  return { count: thisMonth.data.count, previousCount: lastMonth.data.count };
+};
+
+export const NewUsersWidget: React.FC = () => {
+  const { t } = useTranslation();
+  const { data, loading } = useWidgetData(loadNewUsers);
+  const change = data ? data.count - data.previousCount : 0;
+
+  return (
+    <Card title={<><UserAddOutlined /> {t('dashboard.widget.newUsers')}</>} loading={loading} hoverable={false}>
+      <Statistic
+        title={t('dashboard.thisMonth')}
+        value={data?.count ?? 0}
+        prefix={change > 0 ? <ArrowUpOutlined /> : change < 0 ? <ArrowDownOutlined /> : undefined}
+        valueStyle={{
+          color: change > 0
+            ? designTokens.colors.success
+            : change < 0 ? designTokens.colors.danger : undefined,
+        }}
+      />
+      <Typography.Text type="secondary">
+        {t('dashboard.lastMonth', { count: data?.previousCount ?? 0 })}
+      </Typography.Text>
+    </Card>
+  );
+};
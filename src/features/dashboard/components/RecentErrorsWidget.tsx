@@ -0,0 +1,50 @@
+/**
+ * RecentErrorsWidget Component
+ *
+ * Dashboard card with the latest server errors (GET /dashboard/errors)
+ * Shown to users with the errors:read permission.
+ */
+
+import React from 'react';
+import { List, Typography } from 'antd';
+import { WarningOutlined } from '@ant-design/icons';
+import { Card, Tag } from '@/ui';
+import { dashboardAPI } from '@/shared/api/dashboard';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { useWidgetData } from '../hooks/useWidgetData';
+
+const loadRecentErrors = async () => (await dashboardAPI.getRecentErrors(5)).data;
+
+export const RecentErrorsWidget: React.FC = () => {
+  const { t, formatDate } = useTranslation();
+  const { data: errors, loading } = useWidgetData(loadRecentErrors);
+
+  return (
+    <Card title={<><WarningOutlined /> {t('dashboard.widget.recentErrors')}</>} hoverable={false}>
+      <List
+        loading={loading}
+        size="small"
+        dataSource={errors ?? []}
+        locale={{ emptyText: t('dashboard.noRecentErrors') }}
+        renderItem={(entry) => (
+          <List.Item>
+            <List.Item.Meta
+              title={<><Tag color="red">{entry.status}</Tag>{entry.message}</>}
+              description={
+                <>
+                  <Typography.Text code>{entry.method} {entry.path}</Typography.Text>{' '}
+                  {formatDate(entry.occurredAt, {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </>
+              }
+            />
+          </List.Item>
+        )}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,60 @@
+/**
+ * RoomUtilisationWidget Component
+ *
+ * Dashboard card with the booked share of each room's opening hours
+ * this week (GET /dashboard/rooms/utilisation), busiest rooms first
+ */
+
+import React from 'react';
+import { List, Progress } from 'antd';
+import { HomeOutlined } from '@ant-design/icons';
+import { Link } from 'react-router-dom';
+import { Card } from '@/ui';
+import { dashboardAPI } from '@/shared/api/dashboard';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { useWidgetData } from '../hooks/useWidgetData';
+import { utilisationPercent, weekPeriod } from '../utils/widgets';
+
+// Rooms listed by the widget
+const MAX_ROOMS = 5;
+
+const loadRoomUtilisation = async () => {
+  const response = await dashboardAPI.getRoomUtilisation(weekPeriod(new Date()));
+  return [...response.data]
+    .sort((a, b) => utilisationPercent(b) - utilisationPercent(a) || a.room.localeCompare(b.room))
+    .slice(0, MAX_ROOMS);
+};
+
+export const RoomUtilisationWidget: React.FC = () => {
+  const { t } = useTranslation();
+  const { data: rooms, loading } = useWidgetData(loadRoomUtilisation);
+
+  return (
+    <Card
+      title={<><HomeOutlined /> {t('dashboard.roomUtilisationThisWeek')}</>}
+      extra={<Link to="/schedule?view=week">{t('dashboard.openSchedule')}</Link>}
+      hoverable={false}
+    >
+      <List
+        loading={loading}
+        size="small"
+        dataSource={rooms ?? []}
+        locale={{ emptyText: t('dashboard.noOpenRooms') }}
+        renderItem={(room) => (
+          <List.Item>
+            <List.Item.Meta
+              title={<Link to={`/studios/${room.studioId}?tab=rooms`}>{room.room}</Link>}
+              description={room.studio}
+            />
+            <Progress
+              percent={utilisationPercent(room)}
+              size="small"
+              style={{ width: 160 }}
+              aria-label={t('dashboard.roomUtilisationLabel', { room: room.room })}
+            />
+          </List.Item>
+        )}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,52 @@
+/**
+ * TodayLessons Component
+ *
+ * Dashboard card listing today's lessons (GET /lessons for today)
+ * with a link to the day view of the schedule
+ */
+
+import React from 'react';
+import { List } from 'antd';
+import { CalendarOutlined } from '@ant-design/icons';
+import { Link } from 'react-router-dom';
+import { Card } from '@/ui';
+import { lessonAPI } from '@/shared/api/lesson';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { addDays, formatTime, startOfDay } from '@/shared/utils/date';
+import { useWidgetData } from '../hooks/useWidgetData';
+
+const loadTodayLessons = async () => {
+  const today = startOfDay(new Date());
+  const response = await lessonAPI.listLessons({
+    from: today.toISOString(),
+    to: addDays(today, 1).toISOString(),
+  });
+  return response.data;
+};
+
+export const TodayLessons: React.FC = () => {
+  const { t } = useTranslation();
+  const { data: lessons, loading } = useWidgetData(loadTodayLessons);
+
+  return (
+    <Card
+      title={<><CalendarOutlined /> {t('dashboard.widget.todayLessons')}</>}
+      extra={<Link to="/schedule?view=day">{t('dashboard.openSchedule')}</Link>}
+      hoverable={false}
+    >
+      <List
+        loading={loading}
+        dataSource={lessons ?? []}
+        locale={{ emptyText: t('dashboard.noLessonsToday') }}
+        renderItem={(lesson) => (
+          <List.Item>
+            <List.Item.Meta
+              title={`${formatTime(new Date(lesson.start))}–${formatTime(new Date(lesson.end))} ${lesson.student}`}
+              description={`${lesson.teacher} · ${lesson.room}, ${lesson.studio}`}
+            />
+          </List.Item>
+        )}
+      />
+    </Card>
+  );
+};
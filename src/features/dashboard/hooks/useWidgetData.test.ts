@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Component, createElement, type ReactNode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useWidgetData } from './useWidgetData';
+
+// Minimal error boundary standing in for FeatureErrorBoundary
+class TestBoundary extends Component<{ children: ReactNode; onError: (error: Error) => void }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+describe('useWidgetData', () => {
+  it('should load the widget data', async () => {
+    const load = vi.fn().mockResolvedValue({ count: 3 });
+    const { result } = renderHook(() => useWidgetData(load));
+
+    expect(result.current.loading).toBe(true);
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.data).toEqual({ count: 3 });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw a failed load to the error boundary', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const load = vi.fn().mockRejectedValue(new Error('Service unavailable'));
+    const onError = vi.fn();
+
+    renderHook(() => useWidgetData(load), {
+      wrapper: ({ children }) => createElement(TestBoundary, { onError, children }),
+    });
+
+    await waitFor(() => expect(onError).toHaveBeenCalled());
+    expect(onError.mock.calls[0][0]).toMatchObject({ message: 'Service unavailable' });
+    consoleError.mockRestore();
+  });
+});
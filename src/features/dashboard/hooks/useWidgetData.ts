@@ -0,0 +1,49 @@
+/**
+ * Widget Data Hook
+ *
+ * Loads the data of one dashboard widget. A failed load is thrown while
+ * rendering so the widget's FeatureErrorBoundary shows the error with a
+ * retry, which remounts the widget and loads again.
+ */
+
+import { useEffect, useState } from 'react';
+
+export interface UseWidgetDataReturn<T> {
+  data: T | null;
+  loading: boolean;
+}
+
+/**
+ * @param load Loads the data - keep it stable (module-level or useCallback), it reloads when it changes
+ */
+export function useWidgetData<T>(load: () => Promise<T>): UseWidgetDataReturn<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    load()
+      .then(result => {
+        if (!cancelled) setData(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error('Failed to load widget data'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  if (error) {
+    throw error;
+  }
+
+  return { data, loading };
+}
@@ -1,100 +1,134 @@
 /**
  * MYC Dashboard Page
- * 
- * Main landing page with welcome content and navigation cards
- * to different sections of the application.
+ *
+ * Main landing page with live widgets. Each widget loads its own data and
+ * sits in its own FeatureErrorBoundary, so one failing widget leaves the
+ * others working. Widgets are shown per permission of the signed-in role,
+ * once the permissions are loaded.
  */
 
-import { Row, Col } from 'antd';
-import { UserOutlined, BankOutlined } from '@ant-design/icons';
-import { useNavigate } from 'react-router-dom';
+import type { ReactNode } from 'react';
+import { Row, Col, Empty, Spin, Alert } from 'antd';
+import type { ColProps } from 'antd';
 import { Page } from '../../../shared/components/Page';
-import { Card } from '../../../ui/Card';
-import { PageTitle, BodyText } from '../../../ui/Typography';
+import { FeatureErrorBoundary } from '../../../shared/components/FeatureErrorBoundary';
+import { PageTitle } from '../../../ui/Typography';
+import { usePermission, retryPermissions } from '../../../shared/hooks/usePermission';
+import { useUser } from '../../../shared/hooks/useAuth';
+import { useTranslation } from '../../../shared/hooks/useTranslation';
+import { useAuthStore } from '../../../shared/stores/authStore';
 import { Button } from '../../../ui/Button';
-import { designTokens } from '../../../ui/theme';
+import { ActiveUsersWidget } from '../components/ActiveUsersWidget';
+import { NewUsersWidget } from '../components/NewUsersWidget';
+import { TodayLessons } from '../components/TodayLessons';
+import { RoomUtilisationWidget } from '../components/RoomUtilisationWidget';
+import { RecentErrorsWidget } from '../components/RecentErrorsWidget';
+import { AttendanceCheckIn } from '../components/AttendanceCheckIn';
 
-export function DashboardPage() {
-  const navigate = useNavigate();
-
-  const handleNavigateToUsers = () => {
-    navigate('/users');
-  };
+interface DashboardWidget {
+  key: string;
+  /** Name shown by the error fallback */
+  name: string;
+  /** Whether the signed-in role may see the widget */
+  visible: boolean;
+  span: ColProps;
+  content: ReactNode;
+}
 
-  const handleNavigateToStudios = () => {
-    navigate('/studios');
-  };
+const HALF_WIDTH: ColProps = { xs: 24, lg: 12 };
+const FULL_WIDTH: ColProps = { xs: 24 };
 
-  return (
-    <Page title="Dashboard">
-      <div style={{ textAlign: 'center', marginBottom: '2rem' }}>
-        <PageTitle>Welcome to MYC Studio Management System</PageTitle>
-        <BodyText style={{ fontSize: '16px', marginTop: '1rem' }}>
-          Manage your music studios and users from this central dashboard.
-          Click on the cards below to navigate to different sections.
-        </BodyText>
-      </div>
+export function DashboardPage() {
+  const { user } = useUser();
+  const { t } = useTranslation();
+  // Every permission reads as denied until they are loaded
+  const permissionsStatus = useAuthStore((state) => state.permissionsStatus);
+  const canViewUsers = usePermission('users:read');
+  const canViewLessons = usePermission('lessons:read');
+  const canViewStudios = usePermission('studios:read');
+  const canRecordAttendance = usePermission('attendance:write');
+  const canViewErrors = usePermission('errors:read');
 
-      <Row gutter={[24, 24]} justify="center">
-        <Col xs={24} sm={12} lg={8}>
-          <Card 
-            title="Users Management" 
-            style={{ height: '200px', cursor: 'pointer' }}
-            onClick={handleNavigateToUsers}
-            hoverable
-          >
-            <div style={{ textAlign: 'center', padding: designTokens.spacing.md }}>
-              <UserOutlined style={{ 
-                fontSize: 48, 
-                color: designTokens.colors.primary, 
-                marginBottom: designTokens.spacing.md 
-              }} />
-              <BodyText>
-                Manage system users, roles, and permissions. 
-                Create, edit, and organize user accounts.
-              </BodyText>
-              <div style={{ marginTop: designTokens.spacing.md }}>
-                <Button variant="primary" onClick={handleNavigateToUsers}>
-                  Manage Users
-                </Button>
-              </div>
-            </div>
-          </Card>
-        </Col>
+  const widgets: DashboardWidget[] = [
+    {
+      key: 'active-users',
+      name: t('dashboard.widget.activeUsers'),
+      visible: canViewUsers,
+      span: HALF_WIDTH,
+      content: <ActiveUsersWidget />,
+    },
+    {
+      key: 'new-users',
+      name: t('dashboard.widget.newUsers'),
+      visible: canViewUsers,
+      span: HALF_WIDTH,
+      content: <NewUsersWidget />,
+    },
+    {
+      key: 'today-lessons',
+      name: t('dashboard.widget.todayLessons'),
+      visible: canViewLessons,
+      span: HALF_WIDTH,
+      content: <TodayLessons />,
+    },
+    {
+      key: 'room-utilisation',
+      name: t('dashboard.widget.roomUtilisation'),
+      visible: canViewStudios && canViewLessons,
+      span: HALF_WIDTH,
+      content: <RoomUtilisationWidget />,
+    },
+    {
+      key: 'attendance',
+      name: t('dashboard.widget.attendance'),
+      visible: canViewLessons && canRecordAttendance,
+      span: FULL_WIDTH,
+      content: <AttendanceCheckIn />,
+    },
+    {
+      key: 'recent-errors',
+      name: t('dashboard.widget.recentErrors'),
+      visible: canViewErrors,
+      span: FULL_WIDTH,
+      content: <RecentErrorsWidget />,
+    },
+  ];
+  const visibleWidgets = widgets.filter(widget => widget.visible);
 
-        <Col xs={24} sm={12} lg={8}>
-          <Card 
-            title="Studios Management" 
-            style={{ height: '200px', cursor: 'pointer' }}
-            onClick={handleNavigateToStudios}
-            hoverable
-          >
-            <div style={{ textAlign: 'center', padding: designTokens.spacing.md }}>
-              <BankOutlined style={{ 
-                fontSize: 48, 
-                color: designTokens.colors.primary, 
-                marginBottom: designTokens.spacing.md 
-              }} />
-              <BodyText>
-                Manage music studios, schedules, and resources.
-                Configure studio settings and availability.
-              </BodyText>
-              <div style={{ marginTop: designTokens.spacing.md }}>
-                <Button variant="primary" onClick={handleNavigateToStudios}>
-                  Manage Studios
-                </Button>
-              </div>
-            </div>
-          </Card>
-        </Col>
-      </Row>
+  return (
+    <Page title={t('dashboard.title')}>
+      <PageTitle style={{ marginBottom: '1.5rem' }}>
+        {user ? t('dashboard.welcomeBack', { name: user.name }) : t('dashboard.welcome')}
+      </PageTitle>
 
-      <div style={{ textAlign: 'center', marginTop: '3rem' }}>
-        <BodyText type="secondary">
-          This is the central hub for managing your MYC Studio system. 
-          Use the sidebar navigation or the cards above to access different sections.
-        </BodyText>
-      </div>
+      {permissionsStatus === 'error' ? (
+        <Alert
+          type="error"
+          showIcon
+          message={t('permissions.loadFailed')}
+          action={
+            <Button size="small" onClick={retryPermissions}>
+              {t('common.retry')}
+            </Button>
+          }
+        />
+      ) : permissionsStatus !== 'loaded' ? (
+        <div style={{ textAlign: 'center', padding: '48px 0' }}>
+          <Spin />
+        </div>
+      ) : visibleWidgets.length > 0 ? (
+        <Row gutter={[24, 24]}>
+          {visibleWidgets.map(widget => (
+            <Col key={widget.key} {...widget.span}>
+              <FeatureErrorBoundary featureName={widget.name} allowFallback>
+                {widget.content}
+              </FeatureErrorBoundary>
+            </Col>
+          ))}
+        </Row>
+      ) : (
+        <Empty description={t('dashboard.empty')} />
+      )}
     </Page>
   );
 }
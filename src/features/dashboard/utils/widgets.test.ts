@@ -0,0 +1,40 @@
+/**
+ * Dashboard Widget Utilities Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { monthPeriod, utilisationPercent, weekPeriod } from './widgets';
+
+describe('Dashboard Widget Utilities', () => {
+  describe('periods', () => {
+    it('should cover the local calendar month', () => {
+      const date = new Date(2026, 0, 19, 15, 30);
+
+      expect(monthPeriod(date)).toEqual({
+        from: new Date(2026, 0, 1).toISOString(),
+        to: new Date(2026, 1, 1).toISOString(),
+      });
+      // The month before crosses into the previous year
+      expect(monthPeriod(date, -1)).toEqual({
+        from: new Date(2025, 11, 1).toISOString(),
+        to: new Date(2026, 0, 1).toISOString(),
+      });
+    });
+
+    it('should start weeks on Monday', () => {
+      // Sunday 25 October 2026 belongs to the week of Monday 19 October
+      expect(weekPeriod(new Date(2026, 9, 25, 18, 0))).toEqual({
+        from: new Date(2026, 9, 19).toISOString(),
+        to: new Date(2026, 9, 26).toISOString(),
+      });
+    });
+  });
+
+  describe('utilisationPercent', () => {
+    it('should round the booked share and cap it at 100', () => {
+      expect(utilisationPercent({ bookedMinutes: 45, openMinutes: 540 })).toBe(8);
+      expect(utilisationPercent({ bookedMinutes: 90, openMinutes: 60 })).toBe(100);
+      expect(utilisationPercent({ bookedMinutes: 0, openMinutes: 0 })).toBe(0);
+    });
+  });
+});
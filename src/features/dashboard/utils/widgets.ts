@@ -0,0 +1,37 @@
+/**
+ * Dashboard Widget Utilities
+ *
+ * - Local calendar periods the widgets ask the API about
+ * - Booked share of a room's opening hours
+ */
+
+import { addDays, startOfDay } from '@/shared/utils/date';
+import type { DashboardPeriodParams, RoomUtilisation } from '@/shared/types/dashboard';
+
+/**
+ * Local calendar month containing the date, moved by a number of months
+ */
+export function monthPeriod(date: Date, monthOffset = 0): DashboardPeriodParams {
+  const from = new Date(date.getFullYear(), date.getMonth() + monthOffset, 1);
+  const to = new Date(date.getFullYear(), date.getMonth() + monthOffset + 1, 1);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+/**
+ * Local week (Monday to Monday) containing the date
+ */
+export function weekPeriod(date: Date): DashboardPeriodParams {
+  const day = startOfDay(date);
+  const monday = addDays(day, -((day.getDay() + 6) % 7));
+  return { from: monday.toISOString(), to: addDays(monday, 7).toISOString() };
+}
+
+/**
+ * Booked share of the opening hours in percent (0 when the room never opens)
+ */
+export function utilisationPercent(room: Pick<RoomUtilisation, 'bookedMinutes' | 'openMinutes'>): number {
+  if (room.openMinutes <= 0) {
+    return 0;
+  }
+  return Math.min(100, Math.round((room.bookedMinutes / room.openMinutes) * 100));
+}
@@ -0,0 +1,101 @@
+/**
+ * NotificationBell Component
+ *
+ * Notification center of the Header
+ * - Bell with the unread count, refreshed in the background by polling
+ * - Dropdown with the latest notifications, mark-all-read and a link to /notifications
+ */
+
+import React, { useState } from 'react';
+import { Badge, Button, Empty, List, Popover, Typography, message } from 'antd';
+import { BellOutlined } from '@ant-design/icons';
+import { Link, useNavigate } from 'react-router-dom';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { AppNotification } from '@/shared/types/notification';
+import { useNotificationStore } from '../stores/notificationStore';
+import { useNotificationPolling } from '../hooks/useNotificationPolling';
+import { NotificationListItem } from './NotificationListItem';
+
+export const NotificationBell: React.FC = () => {
+  useNotificationPolling();
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const recent = useNotificationStore(state => state.recent);
+  const unreadCount = useNotificationStore(state => state.unreadCount);
+  const markAsRead = useNotificationStore(state => state.markAsRead);
+  const markAllAsRead = useNotificationStore(state => state.markAllAsRead);
+  const [open, setOpen] = useState(false);
+
+  // Handle a click on a notification - mark it as read and open its link
+  const handleOpen = async (notification: AppNotification) => {
+    setOpen(false);
+    if (notification.link) {
+      navigate(notification.link);
+    }
+    if (!notification.read) {
+      try {
+        await markAsRead(notification.id);
+      } catch (error) {
+        message.error(error instanceof Error ? error.message : t('notifications.markReadFailed'));
+      }
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await markAllAsRead();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : t('notifications.markAllReadFailed'));
+    }
+  };
+
+  const header = (
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+      <Typography.Text strong>{t('notifications.title')}</Typography.Text>
+      <Button type="link" size="small" onClick={handleMarkAllAsRead} disabled={unreadCount === 0}>
+        {t('notifications.markAllRead')}
+      </Button>
+    </div>
+  );
+
+  const content = (
+    <div style={{ width: 360 }}>
+      {recent.length === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('notifications.empty')} />
+      ) : (
+        <List
+          dataSource={recent}
+          rowKey="id"
+          style={{ maxHeight: 400, overflowY: 'auto' }}
+          renderItem={notification => (
+            <NotificationListItem notification={notification} onOpen={handleOpen} />
+          )}
+        />
+      )}
+      <div style={{ textAlign: 'center', borderTop: '1px solid #f0f0f0', paddingTop: '8px' }}>
+        <Link to="/notifications" onClick={() => setOpen(false)}>
+          {t('notifications.viewAll')}
+        </Link>
+      </div>
+    </div>
+  );
+
+  return (
+    <Popover
+      trigger="click"
+      placement="bottomRight"
+      open={open}
+      onOpenChange={setOpen}
+      title={header}
+      content={content}
+    >
+      <Badge count={unreadCount} size="small" overflowCount={99}>
+        <Button
+          type="text"
+          icon={<BellOutlined style={{ fontSize: '18px' }} />}
+          aria-label={unreadCount > 0 ? t('notifications.bellUnread', { count: unreadCount }) : t('notifications.title')}
+        />
+      </Badge>
+    </Popover>
+  );
+};
@@ -0,0 +1,63 @@
+/**
+ * NotificationListItem Component
+ *
+ * One notification in the Header's dropdown or on the /notifications page
+ * - Unread notifications have a dot and a bold title
+ * - Clicking opens the notification's link
+ */
+
+import React from 'react';
+import { Avatar, Badge, List, Typography } from 'antd';
+import { CloseCircleOutlined, CloudUploadOutlined, UserAddOutlined } from '@ant-design/icons';
+import type { AppNotification, NotificationType } from '@/shared/types/notification';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { NOTIFICATION_TYPES, formatNotificationTime } from '../utils/notifications';
+
+interface NotificationListItemProps {
+  notification: AppNotification;
+  onOpen: (notification: AppNotification) => void;
+  /** Actions shown on the right, e.g. Mark as read */
+  actions?: React.ReactNode[];
+}
+
+const TYPE_ICONS: Record<NotificationType, React.ReactNode> = {
+  user_pending_approval: <UserAddOutlined />,
+  lesson_cancelled: <CloseCircleOutlined />,
+  import_finished: <CloudUploadOutlined />,
+};
+
+export const NotificationListItem: React.FC<NotificationListItemProps> = ({ notification, onOpen, actions }) => {
+  const { locale } = useTranslation();
+
+  return (
+    <List.Item
+      actions={actions}
+      onClick={() => onOpen(notification)}
+      style={{
+        cursor: 'pointer',
+        padding: '12px',
+        background: notification.read ? undefined : '#f0f7ff',
+      }}
+    >
+      <List.Item.Meta
+        avatar={
+          <Badge dot={!notification.read}>
+            <Avatar
+              icon={TYPE_ICONS[notification.type]}
+              style={{ backgroundColor: NOTIFICATION_TYPES[notification.type].color }}
+            />
+          </Badge>
+        }
+        title={<Typography.Text strong={!notification.read}>{notification.title}</Typography.Text>}
+        description={
+          <>
+            <div>{notification.message}</div>
+            <Typography.Text type="secondary" style={{ fontSize: '12px' }}>
+              {formatNotificationTime(notification.createdAt, new Date(), locale)}
+            </Typography.Text>
+          </>
+        }
+      />
+    </List.Item>
+  );
+};
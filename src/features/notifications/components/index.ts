@@ -0,0 +1,6 @@
+/**
+ * Notification Components Exports
+ */
+
+export { NotificationBell } from './NotificationBell';
+export { NotificationListItem } from './NotificationListItem';
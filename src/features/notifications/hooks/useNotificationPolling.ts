@@ -0,0 +1,34 @@
+/**
+ * useNotificationPolling Hook
+ *
+ * Keeps the notification store up to date while mounted: loads the
+ * notifications right away, then every interval while the tab is visible,
+ * and again when the tab becomes visible.
+ */
+
+import { useEffect } from 'react';
+import { useNotificationStore } from '../stores/notificationStore';
+
+// Default time between two background refreshes
+const POLL_INTERVAL_MS = 30 * 1000;
+
+export function useNotificationPolling(intervalMs: number = POLL_INTERVAL_MS): void {
+  const fetchRecent = useNotificationStore(state => state.fetchRecent);
+
+  useEffect(() => {
+    const refresh = () => {
+      if (!document.hidden) {
+        fetchRecent();
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, intervalMs);
+    document.addEventListener('visibilitychange', refresh);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', refresh);
+    };
+  }, [fetchRecent, intervalMs]);
+}
@@ -0,0 +1,5 @@
+// Components
+export * from './components';
+
+// Pages
+export * from './pages';
@@ -0,0 +1,206 @@
+/**
+ * Notifications Page
+ *
+ * Full notification history of the signed-in user at /notifications
+ * Lists all or only unread notifications, newest first, with mark-as-read
+ * and mark-all-read; the Header's bell updates with every change.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Alert, List, Segmented, Space, message } from 'antd';
+import { CheckOutlined, ReloadOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { Page } from '@/shared/components/Page';
+import { Button, Card } from '@/ui';
+import { notificationAPI } from '@/shared/api/notification';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { PaginationMeta } from '@/shared/types/user';
+import type { AppNotification, NotificationListParams } from '@/shared/types/notification';
+import { useNotificationStore } from '../stores/notificationStore';
+import { NotificationListItem } from '../components';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+type NotificationFilter = 'all' | 'unread';
+
+interface NotificationsPageState {
+  notifications: AppNotification[];
+  loading: boolean;
+  error: string | null;
+  pagination: PaginationMeta;
+}
+
+export const NotificationsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const unreadCount = useNotificationStore(state => state.unreadCount);
+  const markAsRead = useNotificationStore(state => state.markAsRead);
+  const markAllAsRead = useNotificationStore(state => state.markAllAsRead);
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+  const [params, setParams] = useState<NotificationListParams>({ page: 0, size: DEFAULT_PAGE_SIZE });
+  const [state, setState] = useState<NotificationsPageState>({
+    notifications: [],
+    loading: false,
+    error: null,
+    pagination: {
+      page: 0,
+      size: DEFAULT_PAGE_SIZE,
+      totalItems: 0,
+      totalPages: 0,
+      hasNext: false,
+    },
+  });
+
+  // Fetch notifications
+  const fetchNotifications = useCallback(async (listParams: NotificationListParams) => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const response = await notificationAPI.listNotifications(listParams);
+      setState(prev => ({
+        ...prev,
+        notifications: response.data,
+        pagination: response.meta,
+        loading: false,
+      }));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('notifications.fetchFailed');
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: errorMessage,
+      }));
+    }
+  }, [t]);
+
+  // Load notifications whenever the filter or paging change
+  useEffect(() => {
+    fetchNotifications({ ...params, unread: filter === 'unread' || undefined });
+  }, [params, filter, fetchNotifications]);
+
+  const handleRetry = useCallback(() => {
+    fetchNotifications({ ...params, unread: filter === 'unread' || undefined });
+  }, [fetchNotifications, params, filter]);
+
+  // Handle filter changes - back to the first page
+  const handleFilterChange = (value: NotificationFilter) => {
+    setFilter(value);
+    setParams(prev => ({ ...prev, page: 0 }));
+  };
+
+  // Handle pagination changes
+  const handlePaginationChange = (page: number, pageSize: number) => {
+    setParams({
+      page: page - 1, // Convert from 1-based to 0-based for API
+      size: pageSize,
+    });
+  };
+
+  // Mark one notification as read in the list and in the Header
+  const handleMarkAsRead = async (notification: AppNotification) => {
+    try {
+      await markAsRead(notification.id);
+      setState(prev => ({
+        ...prev,
+        notifications: prev.notifications.map(item =>
+          item.id === notification.id ? { ...item, read: true } : item
+        ),
+      }));
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : t('notifications.markReadFailed'));
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await markAllAsRead();
+      handleRetry();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : t('notifications.markAllReadFailed'));
+    }
+  };
+
+  // Handle a click on a notification - mark it as read and open its link
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read) {
+      handleMarkAsRead(notification);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <Page
+      title={t('notifications.title')}
+      extra={
+        <Space>
+          <Button icon={<ReloadOutlined />} onClick={handleRetry} disabled={state.loading}>
+            {t('common.refresh')}
+          </Button>
+          <Button icon={<CheckOutlined />} onClick={handleMarkAllAsRead} disabled={unreadCount === 0}>
+            {t('notifications.markAllRead')}
+          </Button>
+        </Space>
+      }
+    >
+      {state.error && (
+        <Alert
+          message={t('notifications.loadError')}
+          description={state.error}
+          type="error"
+          showIcon
+          action={
+            <Button size="small" onClick={handleRetry}>
+              {t('common.retry')}
+            </Button>
+          }
+        />
+      )}
+
+      <Card hoverable={false}>
+        <Segmented<NotificationFilter>
+          value={filter}
+          onChange={handleFilterChange}
+          options={[
+            { value: 'all', label: t('notifications.filter.all') },
+            { value: 'unread', label: t('notifications.filter.unread', { count: unreadCount }) },
+          ]}
+          style={{ marginBottom: '16px' }}
+        />
+
+        <List
+          dataSource={state.notifications}
+          rowKey="id"
+          loading={state.loading}
+          locale={{ emptyText: filter === 'unread' ? t('notifications.emptyUnread') : t('notifications.empty') }}
+          pagination={{
+            current: state.pagination.page + 1, // Convert to 1-based for display
+            total: state.pagination.totalItems,
+            pageSize: state.pagination.size,
+            onChange: handlePaginationChange,
+            hideOnSinglePage: true,
+          }}
+          renderItem={notification => (
+            <NotificationListItem
+              notification={notification}
+              onOpen={handleOpen}
+              actions={notification.read ? [] : [
+                <Button
+                  key="read"
+                  size="small"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    handleMarkAsRead(notification);
+                  }}
+                >
+                  {t('notifications.markRead')}
+                </Button>,
+              ]}
+            />
+          )}
+        />
+      </Card>
+    </Page>
+  );
+};
@@ -0,0 +1 @@
+export { NotificationsPage } from './NotificationsPage';
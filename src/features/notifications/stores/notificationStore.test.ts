@@ -0,0 +1,106 @@
+/**
+ * Notification Store Test Suite
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '@/test-setup';
+import { useAuthStore } from '@/shared/stores/authStore';
+import { useNotificationStore, RECENT_NOTIFICATIONS_SIZE } from './notificationStore';
+
+beforeEach(() => {
+  useNotificationStore.setState({ recent: [], unreadCount: 0, status: 'idle' });
+});
+
+describe('notificationStore', () => {
+  it('should load the latest notifications and the unread count', async () => {
+    await useNotificationStore.getState().fetchRecent();
+
+    const state = useNotificationStore.getState();
+    expect(state.status).toBe('loaded');
+    expect(state.recent.length).toBeLessThanOrEqual(RECENT_NOTIFICATIONS_SIZE);
+    expect(state.unreadCount).toBe(state.recent.filter(notification => !notification.read).length);
+  });
+
+  it('should keep the notifications shown when a refresh fails', async () => {
+    await useNotificationStore.getState().fetchRecent();
+    const { recent } = useNotificationStore.getState();
+    server.use(http.get('*/api/notifications', () => HttpResponse.json({}, { status: 503 })));
+
+    await useNotificationStore.getState().fetchRecent();
+
+    expect(useNotificationStore.getState()).toMatchObject({ status: 'error', recent });
+  });
+
+  it('should update the unread count when a notification is read', async () => {
+    await useNotificationStore.getState().fetchRecent();
+    const { recent, unreadCount } = useNotificationStore.getState();
+    const unread = recent.find(notification => !notification.read);
+    expect(unread).toBeDefined();
+
+    await useNotificationStore.getState().markAsRead(unread!.id);
+
+    const state = useNotificationStore.getState();
+    expect(state.unreadCount).toBe(unreadCount - 1);
+    expect(state.recent.find(notification => notification.id === unread!.id)?.read).toBe(true);
+  });
+
+  it('should mark all notifications as read', async () => {
+    await useNotificationStore.getState().fetchRecent();
+
+    await useNotificationStore.getState().markAllAsRead();
+
+    const state = useNotificationStore.getState();
+    expect(state.unreadCount).toBe(0);
+    expect(state.recent.every(notification => notification.read)).toBe(true);
+  });
+
+  it('should ignore a refresh that started before marking all as read', async () => {
+    await useNotificationStore.getState().fetchRecent();
+    const { recent } = useNotificationStore.getState();
+    let releaseRefresh: () => void = () => {};
+    const refreshReleased = new Promise<void>(resolve => {
+      releaseRefresh = resolve;
+    });
+    server.use(
+      http.get('*/api/notifications', async () => {
+        await refreshReleased;
+        return HttpResponse.json({
+          success: true,
+          requestId: 'req_test',
+          data: recent.map(notification => ({ ...notification, read: false })),
+          meta: { page: 0, size: recent.length, totalItems: recent.length, totalPages: 1, hasNext: false, unreadCount: recent.length },
+          error: null,
+        });
+      }, { once: true })
+    );
+
+    const refresh = useNotificationStore.getState().fetchRecent();
+    await useNotificationStore.getState().markAllAsRead();
+    releaseRefresh();
+    await refresh;
+
+    expect(useNotificationStore.getState().unreadCount).toBe(0);
+  });
+
+  it('should clear the notifications when the user signs out', async () => {
+    useAuthStore.setState({
+      user: {
+        id: 'user-1',
+        name: 'Test User',
+        email: 'test@example.com',
+        role: 'admin',
+        status: 'active',
+        deleted: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      },
+    });
+    await useNotificationStore.getState().fetchRecent();
+    expect(useNotificationStore.getState().recent.length).toBeGreaterThan(0);
+
+    useAuthStore.setState({ user: null });
+
+    expect(useNotificationStore.getState()).toMatchObject({ recent: [], unreadCount: 0, status: 'idle' });
+  });
+});
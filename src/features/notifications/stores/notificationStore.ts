@@ -0,0 +1,127 @@
+/**
+ * Notification Zustand Store
+ *
+ * Latest notifications and the unread count of the signed-in user, shared by
+ * the Header's notification center and the /notifications page
+ * - Refreshed in the background by useNotificationPolling
+ * - Marking as read updates the bell right away
+ * - Cleared when the signed-in user changes (e.g. on logout)
+ */
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { notificationAPI } from '@/shared/api/notification';
+import { useAuthStore } from '@/shared/stores/authStore';
+import type { AppNotification } from '@/shared/types/notification';
+
+// Notifications listed in the Header's dropdown
+export const RECENT_NOTIFICATIONS_SIZE = 8;
+
+// Bumped by every local change - a refresh that started before it is stale
+let version = 0;
+
+/**
+ * Notification State Interface
+ */
+interface NotificationState {
+  // State
+  recent: AppNotification[];
+  unreadCount: number;
+  status: 'idle' | 'loading' | 'loaded' | 'error';
+
+  // Actions
+  fetchRecent: () => Promise<void>;
+  markAsRead: (id: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  reset: () => void;
+}
+
+const initialState: Pick<NotificationState, 'recent' | 'unreadCount' | 'status'> = {
+  recent: [],
+  unreadCount: 0,
+  status: 'idle',
+};
+
+/**
+ * Notification Store Implementation
+ */
+export const useNotificationStore = create<NotificationState>()(
+  devtools(
+    (set, get) => ({
+      // Initial State
+      ...initialState,
+
+      /**
+       * Load the latest notifications and the unread count
+       * A failed background refresh keeps the notifications already shown
+       * and shows no error notification. A response that started before a
+       * local change (mark as read, reset) is ignored.
+       */
+      fetchRecent: async () => {
+        const startedAt = version;
+        set({ status: get().status === 'loaded' ? 'loaded' : 'loading' });
+
+        try {
+          const response = await notificationAPI.listNotifications(
+            { page: 0, size: RECENT_NOTIFICATIONS_SIZE },
+            { skipErrorHandling: true }
+          );
+          if (startedAt !== version) return;
+          set({ recent: response.data, unreadCount: response.meta.unreadCount, status: 'loaded' });
+        } catch {
+          if (startedAt !== version) return;
+          set({ status: 'error' });
+        }
+      },
+
+      /**
+       * Mark a notification as read - errors are left to the caller
+       */
+      markAsRead: async (id) => {
+        await notificationAPI.markAsRead(id);
+        version++;
+        const wasUnread = get().recent.some(notification => notification.id === id && !notification.read);
+        set((state) => ({
+          recent: state.recent.map(notification =>
+            notification.id === id ? { ...notification, read: true } : notification
+          ),
+          unreadCount: wasUnread ? Math.max(0, state.unreadCount - 1) : state.unreadCount,
+        }));
+        // Notifications beyond the recent ones are not known here
+        if (!wasUnread) {
+          await get().fetchRecent();
+        }
+      },
+
+      /**
+       * Mark all notifications as read - errors are left to the caller
+       */
+      markAllAsRead: async () => {
+        await notificationAPI.markAllAsRead();
+        version++;
+        set((state) => ({
+          recent: state.recent.map(notification => ({ ...notification, read: true })),
+          unreadCount: 0,
+        }));
+      },
+
+      /**
+       * Forget the notifications of the previous user
+       */
+      reset: () => {
+        version++;
+        set(initialState);
+      },
+    }),
+    {
+      name: 'notification-store', // DevTools name
+    }
+  )
+);
+
+// The next user signing in on this tab must not see the previous user's notifications
+useAuthStore.subscribe((state, previous) => {
+  if (state.user?.id !== previous.user?.id) {
+    useNotificationStore.getState().reset();
+  }
+});
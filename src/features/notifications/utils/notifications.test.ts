@@ -0,0 +1,26 @@
+/**
+ * Notification Display Helpers Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatNotificationTime } from './notifications';
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+// Helper to build a date-time a number of minutes before now
+function minutesBefore(minutes: number): string {
+  return new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+}
+
+describe('formatNotificationTime', () => {
+  it('should show recent notifications relative to now', () => {
+    expect(formatNotificationTime(minutesBefore(0), now)).toBe('Just now');
+    expect(formatNotificationTime(minutesBefore(5), now)).toBe('5 min ago');
+    expect(formatNotificationTime(minutesBefore(3 * 60 + 10), now)).toBe('3 h ago');
+    expect(formatNotificationTime(minutesBefore(2 * 24 * 60), now)).toBe('2 d ago');
+  });
+
+  it('should show the date of notifications older than a week', () => {
+    expect(formatNotificationTime(minutesBefore(8 * 24 * 60), now)).toBe('Oct 11, 2026');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Notification Display Helpers
+ *
+ * - Colors of notification types
+ * - Relative time of a notification ("5 min ago")
+ */
+
+import type { NotificationType } from '@/shared/types/notification';
+import { currentLocale, localizeDate, translate, type SupportedLocale } from '@/shared/i18n';
+import { designTokens } from '@/ui/theme';
+
+export const NOTIFICATION_TYPES: Record<NotificationType, { color: string }> = {
+  user_pending_approval: { color: designTokens.colors.primary },
+  lesson_cancelled: { color: designTokens.colors.warning },
+  import_finished: { color: designTokens.colors.success },
+};
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Time since a notification was created, e.g. "Just now", "5 min ago", "3 h ago"
+ * Notifications older than a week show their date.
+ */
+export function formatNotificationTime(
+  createdAt: string,
+  now: Date = new Date(),
+  locale: SupportedLocale = currentLocale()
+): string {
+  const elapsed = now.getTime() - new Date(createdAt).getTime();
+
+  if (elapsed < MINUTE) return translate(locale, 'notifications.justNow');
+  if (elapsed < HOUR) return translate(locale, 'notifications.minutesAgo', { count: Math.floor(elapsed / MINUTE) });
+  if (elapsed < DAY) return translate(locale, 'notifications.hoursAgo', { count: Math.floor(elapsed / HOUR) });
+  if (elapsed < 7 * DAY) return translate(locale, 'notifications.daysAgo', { count: Math.floor(elapsed / DAY) });
+  return localizeDate(locale, createdAt, { month: 'short', day: 'numeric', year: 'numeric' });
+}
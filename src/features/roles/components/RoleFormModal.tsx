@@ -0,0 +1,135 @@
+/**
+ * RoleFormModal Component
+ *
+ * Create/edit modal for the Roles page
+ * - Create mode: submits CreateRoleRequest (POST /roles)
+ * - Edit mode: renames/describes the role with UpdateRoleRequest (PUT /roles/{id})
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal, Select, Tag, message } from 'antd';
+import { Form, FormItem, LabeledInput, useForm } from '@/ui';
+import { roleAPI } from '@/shared/api/role';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { Role, CreateRoleRequest } from '@/shared/types/role';
+
+interface RoleFormModalProps {
+  /** Whether the modal is visible */
+  open: boolean;
+  /** Role to edit - omit (or null) to create a new role */
+  role?: Role | null;
+  /** Callback when the modal is closed without saving */
+  onClose: () => void;
+  /** Callback after the role has been saved successfully */
+  onSuccess: () => void;
+}
+
+interface RoleFormData {
+  name: string;
+  description?: string;
+  color: string;
+}
+
+// Tag colours offered for roles (antd preset colours)
+const ROLE_COLORS = [
+  'red', 'volcano', 'orange', 'gold', 'lime', 'green',
+  'cyan', 'blue', 'geekblue', 'purple', 'magenta', 'default',
+];
+
+export const RoleFormModal: React.FC<RoleFormModalProps> = ({
+  open,
+  role,
+  onClose,
+  onSuccess,
+}) => {
+  const { t } = useTranslation();
+  const [form] = useForm<RoleFormData>();
+  const [submitting, setSubmitting] = useState(false);
+
+  const isEditMode = Boolean(role);
+
+  // Fill the form with the role being edited
+  useEffect(() => {
+    if (!open) return;
+    form.setFieldsValue({
+      name: role?.name ?? '',
+      description: role?.description ?? undefined,
+      color: role?.color ?? 'default',
+    });
+  }, [open, role, form]);
+
+  /**
+   * Handle form submission - create or update the role
+   */
+  const handleSubmit = async (values: RoleFormData) => {
+    setSubmitting(true);
+
+    try {
+      const payload: CreateRoleRequest = {
+        name: values.name.trim(),
+        description: values.description?.trim() || undefined,
+        color: values.color,
+      };
+
+      if (role) {
+        await roleAPI.updateRole(role.id, payload);
+        message.success(t('roles.updated', { name: payload.name }));
+      } else {
+        await roleAPI.createRole(payload);
+        message.success(t('roles.created', { name: payload.name }));
+      }
+
+      onSuccess();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('roles.saveFailed');
+      message.error(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={isEditMode ? t('roles.editTitle') : t('roles.add')}
+      open={open}
+      okText={isEditMode ? t('common.saveChanges') : t('roles.create')}
+      confirmLoading={submitting}
+      onOk={() => form.submit()}
+      onCancel={onClose}
+      maskClosable={!submitting}
+      destroyOnHidden
+    >
+      <Form
+        form={form}
+        onFinish={handleSubmit}
+        disabled={submitting}
+      >
+        <LabeledInput
+          name="name"
+          label={t('roles.field.name')}
+          required
+          placeholder={t('roles.namePlaceholder')}
+          rules={[
+            { whitespace: true, message: t('roles.nameBlank') },
+            { max: 50, message: t('roles.nameTooLong', { max: 50 }) },
+          ]}
+        />
+
+        <LabeledInput
+          name="description"
+          label={t('roles.field.description')}
+          type="textarea"
+        />
+
+        <FormItem name="color" label={t('roles.field.color')}>
+          <Select
+            options={ROLE_COLORS.map(color => ({
+              value: color,
+              label: <Tag color={color}>{color}</Tag>,
+            }))}
+          />
+        </FormItem>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Table, Button, Tag } from 'antd';
+import { EditOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { Role } from '@/shared/types/role';
+
+interface RoleTableProps {
+  roles: Role[];
+  loading?: boolean;
+  /** Open the edit form for a role (rename, describe, recolour) */
+  onEdit: (role: Role) => void;
+  /** Disable editing (e.g. without the roles:write permission) */
+  readOnly?: boolean;
+}
+
+export const RoleTable: React.FC<RoleTableProps> = ({
+  roles,
+  loading = false,
+  onEdit,
+  readOnly = false,
+}) => {
+  const { t } = useTranslation();
+  const columns: ColumnsType<Role> = [
+    {
+      title: t('roles.field.name'),
+      dataIndex: 'name',
+      key: 'name',
+      width: 200,
+      render: (name: string, role: Role) => (
+        <Tag color={role.color}>
+          {name}
+        </Tag>
+      ),
+    },
+    {
+      title: t('roles.field.description'),
+      dataIndex: 'description',
+      key: 'description',
+      render: (description: string | null) => description || '-',
+    },
+    {
+      title: t('common.actions'),
+      key: 'actions',
+      width: 100,
+      render: (_, role: Role) => (
+        <Button
+          type="link"
+          icon={<EditOutlined />}
+          onClick={() => onEdit(role)}
+          disabled={readOnly}
+          size="small"
+        >
+          {t('common.edit')}
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <Table<Role>
+      columns={columns}
+      dataSource={roles}
+      rowKey="id"
+      loading={loading}
+      pagination={false}
+      size="middle"
+      locale={{ emptyText: t('roles.empty') }}
+    />
+  );
+};
@@ -0,0 +1,6 @@
+/**
+ * Role Components Exports
+ */
+
+export { RoleTable } from './RoleTable';
+export { RoleFormModal } from './RoleFormModal';
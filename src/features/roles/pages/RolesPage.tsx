@@ -0,0 +1,88 @@
+/**
+ * RolesPage Component
+ *
+ * Admin page listing the roles that can be assigned to users
+ * - Create a role
+ * - Rename a role or change its description and tag colour
+ */
+
+import React, { useState } from 'react';
+import { Alert, Space } from 'antd';
+import { PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { Page } from '@/shared/components/Page';
+import { Button, Card } from '@/ui';
+import { useRoles } from '@/shared/hooks/useRoles';
+import { usePermission } from '@/shared/hooks/usePermission';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { RoleTable, RoleFormModal } from '../components';
+import type { Role } from '@/shared/types/role';
+
+interface RoleModalState {
+  open: boolean;
+  role: Role | null; // null when creating a new role
+}
+
+export const RolesPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { roles, loading, error, reload } = useRoles();
+  const canWrite = usePermission('roles:write');
+  const [modal, setModal] = useState<RoleModalState>({ open: false, role: null });
+
+  const handleSaved = () => {
+    setModal({ open: false, role: null });
+    reload();
+  };
+
+  return (
+    <Page
+      title={t('roles.title')}
+      extra={
+        <Space>
+          <Button icon={<ReloadOutlined />} onClick={reload} disabled={loading}>
+            {t('common.refresh')}
+          </Button>
+          {canWrite && (
+            <Button
+              variant="primary"
+              icon={<PlusOutlined />}
+              onClick={() => setModal({ open: true, role: null })}
+            >
+              {t('roles.add')}
+            </Button>
+          )}
+        </Space>
+      }
+    >
+      {error && (
+        <Alert
+          message={t('roles.loadError')}
+          description={error}
+          type="error"
+          showIcon
+          style={{ marginBottom: '16px' }}
+          action={
+            <Button size="small" onClick={reload}>
+              {t('common.retry')}
+            </Button>
+          }
+        />
+      )}
+
+      <Card>
+        <RoleTable
+          roles={roles}
+          loading={loading}
+          readOnly={!canWrite}
+          onEdit={(role) => setModal({ open: true, role })}
+        />
+      </Card>
+
+      <RoleFormModal
+        open={modal.open}
+        role={modal.role}
+        onClose={() => setModal({ open: false, role: null })}
+        onSuccess={handleSaved}
+      />
+    </Page>
+  );
+};
@@ -0,0 +1,71 @@
+/**
+ * LessonConflictAlert Component
+ *
+ * Lists the conflicts of a lesson in the lesson form
+ * Each suggested free slot is a button that moves the lesson there.
+ */
+
+import React from 'react';
+import { Alert, Space } from 'antd';
+import { Button } from '@/ui';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { formatTime } from '@/shared/utils/date';
+import type { LessonSlot } from '@/shared/types/lesson';
+import type { LessonConflicts } from '../utils/conflictCheck';
+
+interface LessonConflictAlertProps {
+  /** Conflicts found before saving or returned by the API */
+  conflicts: LessonConflicts;
+  /** Disable the slot buttons (e.g. while saving) */
+  disabled?: boolean;
+  /** Move the lesson to a suggested slot */
+  onSelectSlot: (slot: LessonSlot) => void;
+}
+
+export const LessonConflictAlert: React.FC<LessonConflictAlertProps> = ({
+  conflicts,
+  disabled = false,
+  onSelectSlot,
+}) => {
+  const { t, formatDate } = useTranslation();
+  const { errors, suggestedSlots } = conflicts;
+
+  const formatSlot = ({ start, end }: LessonSlot) => {
+    const day = formatDate(start, { weekday: 'short', month: 'short', day: 'numeric' });
+    return `${day} ${formatTime(new Date(start))}–${formatTime(new Date(end))}`;
+  };
+
+  return (
+    <Alert
+      type="error"
+      showIcon
+      style={{ marginBottom: '16px' }}
+      message={t('lessonConflicts.title')}
+      description={
+        <>
+          <ul style={{ margin: 0, paddingLeft: '20px' }}>
+            {errors.map(error => (
+              <li key={`${error.code}-${error.context?.lessonId ?? error.field}`}>{error.message}</li>
+            ))}
+          </ul>
+          <div style={{ marginTop: '8px' }}>
+            {suggestedSlots.length > 0 ? (
+              <>
+                <div style={{ marginBottom: '4px' }}>{t('lessonConflicts.freeSlots')}</div>
+                <Space wrap>
+                  {suggestedSlots.map(slot => (
+                    <Button key={slot.start} size="small" disabled={disabled} onClick={() => onSelectSlot(slot)}>
+                      {formatSlot(slot)}
+                    </Button>
+                  ))}
+                </Space>
+              </>
+            ) : (
+              t('lessonConflicts.noFreeSlot', { days: 7 })
+            )}
+          </div>
+        </>
+      }
+    />
+  );
+};
@@ -0,0 +1,460 @@
+/**
+ * LessonFormModal Component
+ *
+ * Create/edit modal for the schedule calendar
+ * - Create mode: opened from a dragged time range, submits CreateLessonRequest (POST /lessons)
+ * - Edit mode: opened from a lesson, submits UpdateLessonRequest (PUT /lessons/{id}) or deletes it
+ * - Read-only mode shows the lesson without save or delete
+ * - Double bookings and times outside the opening hours or the teacher's
+ *   availability are shown inline, with free slots to move the lesson to
+ * - availability:override allows booking outside the teacher's availability
+ * - New lessons can repeat weekly; saving or deleting an occurrence of a series
+ *   asks whether it applies to this lesson, the following ones or the whole series
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Form as AntForm, Alert, Checkbox, Input, InputNumber, Modal, Select, message } from 'antd';
+import { DeleteOutlined } from '@ant-design/icons';
+import { Button, ConfirmModal, Form, FormItem, LabeledInput, useForm } from '@/ui';
+import { lessonAPI } from '@/shared/api/lesson';
+import { useStudios, useStudioRooms } from '@/shared/hooks/useStudios';
+import { useUsersByRole } from '@/shared/hooks/useUsersByRole';
+import { usePermission } from '@/shared/hooks/usePermission';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { SupportedLocale } from '@/shared/i18n';
+import { formatTime, parseDateKey, toDateKey, withTime } from '@/shared/utils/date';
+import { describeRecurrence, parseRecurrence, MAX_OCCURRENCES } from '@/shared/utils/recurrence';
+import type { Lesson, CreateLessonRequest, LessonSlot, RecurrenceScope } from '@/shared/types/lesson';
+import { LESSON_TIME_OPTIONS } from '../utils/calendar';
+import {
+  DEFAULT_OCCURRENCES,
+  LESSON_REPEATS,
+  toLessonRecurrence,
+  type LessonRepeat,
+} from '../utils/recurrence';
+import {
+  checkLessonConflicts,
+  getConflictFieldErrors,
+  getLessonConflicts,
+  type LessonConflicts,
+} from '../utils/conflictCheck';
+import { LessonConflictAlert } from './LessonConflictAlert';
+import { RecurrenceScopeModal } from './RecurrenceScopeModal';
+
+interface LessonFormModalProps {
+  /** Whether the modal is visible */
+  open: boolean;
+  /** Lesson to edit - omit (or null) to create a new lesson */
+  lesson?: Lesson | null;
+  /** Time range selected in the calendar (create mode) */
+  range?: { start: Date; end: Date } | null;
+  /** Studio preselected in create mode (e.g. the studio filter) */
+  defaultStudioId?: string;
+  /** Show the lesson without save or delete (e.g. without lessons:write) */
+  readOnly?: boolean;
+  /** Callback when the modal is closed without saving */
+  onClose: () => void;
+  /** Callback after the lesson has been saved or deleted */
+  onSuccess: () => void;
+}
+
+interface LessonFormData {
+  studioId: string;
+  roomId: string;
+  teacherId: string;
+  studentId: string;
+  date: string;       // 'YYYY-MM-DD'
+  startTime: string;  // 'HH:mm'
+  endTime: string;    // 'HH:mm'
+  note?: string;
+  overrideAvailability?: boolean;
+  repeat?: LessonRepeat;  // create mode only
+  occurrences?: number;
+}
+
+/**
+ * Convert form values to the request payload
+ */
+function toLessonRequest(values: LessonFormData): CreateLessonRequest {
+  const day = parseDateKey(values.date) as Date;
+  return {
+    studioId: values.studioId,
+    roomId: values.roomId,
+    teacherId: values.teacherId,
+    studentId: values.studentId,
+    start: withTime(day, values.startTime).toISOString(),
+    end: withTime(day, values.endTime).toISOString(),
+    note: values.note?.trim() || undefined,
+    overrideAvailability: values.overrideAvailability || undefined,
+    recurrence: toLessonRecurrence(values.repeat, values.occurrences, withTime(day, values.startTime)),
+  };
+}
+
+/**
+ * Describe the recurrence of a lesson, e.g. "Every Tuesday, 12 times" - null when it does not repeat
+ */
+function describeLessonRecurrence(
+  recurrence: string | null | undefined,
+  start: Date | null,
+  locale: SupportedLocale
+): string | null {
+  const rule = parseRecurrence(recurrence);
+  return rule && start ? describeRecurrence(rule, start, locale) : null;
+}
+
+export const LessonFormModal: React.FC<LessonFormModalProps> = ({
+  open,
+  lesson,
+  range,
+  defaultStudioId,
+  readOnly = false,
+  onClose,
+  onSuccess,
+}) => {
+  const { t, locale } = useTranslation();
+  const [form] = useForm<LessonFormData>();
+  const [submitting, setSubmitting] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [conflicts, setConflicts] = useState<LessonConflicts | null>(null);
+  // Save or delete waiting for the occurrences of the series it applies to
+  const [scopeAction, setScopeAction] = useState<'save' | 'delete' | null>(null);
+  const [pendingValues, setPendingValues] = useState<LessonFormData | null>(null);
+
+  const isEditMode = Boolean(lesson);
+  const isSeries = Boolean(lesson?.seriesId);
+  const canOverride = usePermission('availability:override');
+  const studioId = AntForm.useWatch('studioId', form);
+  const repeat = AntForm.useWatch('repeat', form);
+  const occurrences = AntForm.useWatch('occurrences', form);
+  const date = AntForm.useWatch('date', form);
+  const startTime = AntForm.useWatch('startTime', form);
+  const { studios } = useStudios();
+  const { rooms, loading: roomsLoading } = useStudioRooms(studioId);
+  const { users: teachers } = useUsersByRole('TEACHER');
+  const { users: students } = useUsersByRole('STUDENT');
+
+  // Fill the form with the lesson being edited or the dragged range
+  useEffect(() => {
+    if (!open) return;
+
+    setConflicts(null);
+
+    const start = lesson ? new Date(lesson.start) : range?.start;
+    const end = lesson ? new Date(lesson.end) : range?.end;
+    form.setFieldsValue({
+      studioId: lesson?.studioId ?? defaultStudioId,
+      roomId: lesson?.roomId,
+      teacherId: lesson?.teacherId,
+      studentId: lesson?.studentId,
+      date: start ? toDateKey(start) : undefined,
+      startTime: start ? formatTime(start) : undefined,
+      endTime: end ? formatTime(end) : undefined,
+      note: lesson?.note ?? undefined,
+      overrideAvailability: false,
+      repeat: 'none',
+      occurrences: DEFAULT_OCCURRENCES,
+    });
+  }, [open, lesson, range, defaultStudioId, form]);
+
+  /**
+   * Show conflicts in the alert and on the affected fields
+   */
+  const showConflicts = (found: LessonConflicts) => {
+    setConflicts(found);
+    form.setFields(getConflictFieldErrors(found.errors));
+  };
+
+  /**
+   * Clear the conflicts once the lesson has been changed
+   */
+  const clearConflicts = () => {
+    if (!conflicts) return;
+
+    form.setFields(getConflictFieldErrors(conflicts.errors).map(({ name }) => ({ name, errors: [] })));
+    setConflicts(null);
+  };
+
+  /**
+   * Move the lesson to a suggested free slot
+   */
+  const handleSelectSlot = (slot: LessonSlot) => {
+    const start = new Date(slot.start);
+    clearConflicts();
+    form.setFieldsValue({
+      date: toDateKey(start),
+      startTime: formatTime(start),
+      endTime: formatTime(new Date(slot.end)),
+    });
+  };
+
+  /**
+   * Handle form submission - occurrences of a series first ask which lessons to change
+   */
+  const handleSubmit = async (values: LessonFormData) => {
+    if (isSeries) {
+      setPendingValues(values);
+      setScopeAction('save');
+      return;
+    }
+
+    await saveLesson(values);
+  };
+
+  /**
+   * Check for conflicts, then create or update the lesson
+   */
+  const saveLesson = async (values: LessonFormData, scope?: RecurrenceScope) => {
+    setSubmitting(true);
+
+    try {
+      const payload = toLessonRequest(values);
+
+      // A single lesson is checked before saving; the API checks every occurrence of a series.
+      // The API checks again on save, so a failed pre-check does not block it
+      if (!payload.recurrence && (scope ?? 'occurrence') === 'occurrence') {
+        const found = await checkLessonConflicts(payload, lesson?.id).catch(() => null);
+        if (found) {
+          showConflicts(found);
+          return;
+        }
+      }
+
+      if (lesson) {
+        await lessonAPI.updateLesson(lesson.id, { ...payload, scope });
+        message.success(scope && scope !== 'occurrence' ? t('lesson.seriesUpdated') : t('lesson.updated'));
+      } else {
+        await lessonAPI.createLesson(payload);
+        message.success(payload.recurrence ? t('lesson.seriesCreated') : t('lesson.created'));
+      }
+
+      onSuccess();
+    } catch (error) {
+      // Booked by someone else since the pre-check
+      const apiConflicts = getLessonConflicts(error);
+      if (apiConflicts) {
+        showConflicts(apiConflicts);
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : t('lesson.saveFailed');
+      message.error(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle delete confirmation - scope selects the occurrences of a series
+   */
+  const handleDeleteConfirm = async (scope?: RecurrenceScope) => {
+    if (!lesson) return;
+
+    setDeleting(true);
+    try {
+      await lessonAPI.deleteLesson(lesson.id, scope);
+      message.success(scope && scope !== 'occurrence' ? t('lesson.seriesDeleted') : t('lesson.deleted'));
+      setDeleteOpen(false);
+      onSuccess();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('lesson.deleteFailed');
+      message.error(errorMessage);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  /**
+   * Save or delete the occurrences chosen in the scope modal
+   */
+  const handleScopeConfirm = async (scope: RecurrenceScope) => {
+    if (scopeAction === 'delete') {
+      await handleDeleteConfirm(scope);
+    } else if (pendingValues) {
+      await saveLesson(pendingValues, scope);
+    }
+    setScopeAction(null);
+  };
+
+  const title = readOnly ? t('lesson.title') : isEditMode ? t('lesson.editTitle') : t('lesson.newTitle');
+  const seriesDescription = describeLessonRecurrence(lesson?.recurrence, lesson ? new Date(lesson.start) : null, locale);
+  const repeatDescription = repeat && repeat !== 'none' && date && startTime
+    ? describeLessonRecurrence(
+      toLessonRecurrence(repeat, occurrences ?? undefined, withTime(parseDateKey(date) as Date, startTime)),
+      parseDateKey(date),
+      locale
+    )
+    : null;
+
+  return (
+    <>
+      <Modal
+        title={title}
+        open={open}
+        onCancel={onClose}
+        maskClosable={!submitting}
+        destroyOnHidden
+        footer={readOnly ? (
+          <Button onClick={onClose}>{t('common.close')}</Button>
+        ) : (
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <div>
+              {isEditMode && (
+                <Button
+                  variant="danger"
+                  icon={<DeleteOutlined />}
+                  onClick={() => (isSeries ? setScopeAction('delete') : setDeleteOpen(true))}
+                >
+                  {t('common.delete')}
+                </Button>
+              )}
+            </div>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <Button onClick={onClose}>{t('common.cancel')}</Button>
+              <Button variant="primary" loading={submitting} onClick={() => form.submit()}>
+                {isEditMode ? t('common.saveChanges') : t('lesson.create')}
+              </Button>
+            </div>
+          </div>
+        )}
+      >
+        {seriesDescription && (
+          <Alert type="info" showIcon message={t('lesson.recurring', { description: seriesDescription })} style={{ marginBottom: '16px' }} />
+        )}
+
+        {conflicts && !readOnly && (
+          <LessonConflictAlert conflicts={conflicts} disabled={submitting} onSelectSlot={handleSelectSlot} />
+        )}
+
+        <Form
+          form={form}
+          onFinish={handleSubmit}
+          onValuesChange={clearConflicts}
+          disabled={submitting || readOnly}
+        >
+          <FormItem name="studioId" label={t('lesson.field.studio')} rules={[{ required: true, message: t('lesson.studioRequired') }]}>
+            <Select
+              placeholder={t('lesson.selectStudio')}
+              options={studios.map(studio => ({ value: studio.id, label: studio.name }))}
+              onChange={() => form.setFieldValue('roomId', undefined)}
+            />
+          </FormItem>
+
+          <FormItem name="roomId" label={t('lesson.field.room')} rules={[{ required: true, message: t('lesson.roomRequired') }]}>
+            <Select
+              placeholder={studioId ? t('lesson.selectRoom') : t('lesson.selectStudioFirst')}
+              disabled={!studioId || readOnly}
+              loading={roomsLoading}
+              options={rooms.map(room => ({
+                value: room.id,
+                label: room.status === 'maintenance' ? t('lesson.roomUnderMaintenance', { name: room.name }) : room.name,
+                disabled: room.status === 'maintenance',
+              }))}
+            />
+          </FormItem>
+
+          <FormItem name="teacherId" label={t('lesson.field.teacher')} rules={[{ required: true, message: t('lesson.teacherRequired') }]}>
+            <Select
+              placeholder={t('lesson.selectTeacher')}
+              showSearch
+              optionFilterProp="label"
+              options={teachers.map(teacher => ({ value: teacher.id, label: teacher.name }))}
+            />
+          </FormItem>
+
+          <FormItem name="studentId" label={t('lesson.field.student')} rules={[{ required: true, message: t('lesson.studentRequired') }]}>
+            <Select
+              placeholder={t('lesson.selectStudent')}
+              showSearch
+              optionFilterProp="label"
+              options={students.map(student => ({ value: student.id, label: student.name }))}
+            />
+          </FormItem>
+
+          <FormItem name="date" label={t('lesson.field.date')} rules={[{ required: true, message: t('lesson.dateRequired') }]}>
+            <Input type="date" />
+          </FormItem>
+
+          <div style={{ display: 'flex', gap: '16px' }}>
+            <FormItem
+              name="startTime"
+              label={t('lesson.field.start')}
+              style={{ flex: 1 }}
+              rules={[{ required: true, message: t('lesson.startRequired') }]}
+            >
+              <Select options={LESSON_TIME_OPTIONS} />
+            </FormItem>
+            <FormItem
+              name="endTime"
+              label={t('lesson.field.end')}
+              style={{ flex: 1 }}
+              dependencies={['startTime']}
+              rules={[
+                { required: true, message: t('lesson.endRequired') },
+                ({ getFieldValue }) => ({
+                  validator: (_, value?: string) =>
+                    !value || !getFieldValue('startTime') || value > getFieldValue('startTime')
+                      ? Promise.resolve()
+                      : Promise.reject(new Error(t('lesson.endBeforeStart'))),
+                }),
+              ]}
+            >
+              <Select options={LESSON_TIME_OPTIONS} />
+            </FormItem>
+          </div>
+
+          {!isEditMode && (
+            <div style={{ display: 'flex', gap: '16px' }}>
+              <FormItem name="repeat" label={t('lesson.field.repeat')} style={{ flex: 1 }} extra={repeatDescription}>
+                <Select options={LESSON_REPEATS.map(value => ({ value, label: t(`lesson.repeat.${value}`) }))} />
+              </FormItem>
+              {repeat && repeat !== 'none' && (
+                <FormItem
+                  name="occurrences"
+                  label={t('lesson.field.occurrences')}
+                  style={{ flex: 1 }}
+                  rules={[{ required: true, message: t('lesson.occurrencesRequired') }]}
+                >
+                  <InputNumber min={2} max={MAX_OCCURRENCES} precision={0} style={{ width: '100%' }} />
+                </FormItem>
+              )}
+            </div>
+          )}
+
+          <LabeledInput
+            name="note"
+            label={t('lesson.field.note')}
+            type="textarea"
+          />
+
+          {canOverride && !readOnly && (
+            <FormItem name="overrideAvailability" valuePropName="checked" style={{ marginBottom: 0 }}>
+              <Checkbox>{t('lesson.overrideAvailability')}</Checkbox>
+            </FormItem>
+          )}
+        </Form>
+      </Modal>
+
+      {/* Delete Confirmation */}
+      <ConfirmModal
+        open={deleteOpen}
+        title={t('lesson.deleteTitle')}
+        okText={t('common.delete')}
+        okButtonProps={{ danger: true, loading: deleting }}
+        onOk={() => handleDeleteConfirm()}
+        onCancel={() => setDeleteOpen(false)}
+      >
+        {t('lesson.deleteMessage', { student: lesson?.student ?? '', teacher: lesson?.teacher ?? '' })}
+      </ConfirmModal>
+
+      {/* Occurrences of a series to save or delete */}
+      <RecurrenceScopeModal
+        open={scopeAction !== null}
+        action={scopeAction ?? 'save'}
+        loading={submitting || deleting}
+        onConfirm={handleScopeConfirm}
+        onCancel={() => setScopeAction(null)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,110 @@
+/**
+ * MonthView Component
+ *
+ * Month view of the schedule - six weeks from the Monday before the 1st.
+ * Each day lists its first lessons; clicking a day opens it in the day view.
+ */
+
+import React from 'react';
+import { Typography } from 'antd';
+import { RetweetOutlined } from '@ant-design/icons';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { localizeWeekday } from '@/shared/i18n';
+import { formatTime, isSameDay } from '@/shared/utils/date';
+import type { Lesson } from '@/shared/types/lesson';
+import type { Weekday } from '@/shared/types/studio';
+import { lessonsOnDay } from '../utils/calendar';
+
+interface MonthViewProps {
+  /** The 42 days of the month grid (getViewDays('month', date)) */
+  days: Date[];
+  /** Month being shown - days of other months are dimmed */
+  month: Date;
+  lessons: Lesson[];
+  onSelectDay: (day: Date) => void;
+  onSelectLesson: (lesson: Lesson) => void;
+}
+
+// Lessons listed per day before collapsing into "+N more"
+const MAX_LESSONS_PER_DAY = 3;
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const MonthView: React.FC<MonthViewProps> = ({
+  days,
+  month,
+  lessons,
+  onSelectDay,
+  onSelectLesson,
+}) => {
+  const { t, locale } = useTranslation();
+  const today = new Date();
+
+  return (
+    <div style={{ border: '1px solid #f0f0f0', borderRadius: '8px', overflow: 'hidden' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', background: '#fafafa' }}>
+        {WEEKDAYS.map(day => (
+          <div key={day} style={{ padding: '8px', textAlign: 'center' }}>{localizeWeekday(locale, day, 'short')}</div>
+        ))}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)' }}>
+        {days.map(day => {
+          const dayLessons = lessonsOnDay(lessons, day);
+          const inMonth = day.getMonth() === month.getMonth();
+
+          return (
+            <div
+              key={day.toISOString()}
+              onClick={() => onSelectDay(day)}
+              style={{
+                minHeight: '96px',
+                padding: '4px 6px',
+                borderTop: '1px solid #f0f0f0',
+                borderLeft: '1px solid #f0f0f0',
+                background: inMonth ? '#fff' : '#fafafa',
+                cursor: 'pointer',
+              }}
+            >
+              <Typography.Text
+                type={inMonth ? undefined : 'secondary'}
+                strong={isSameDay(day, today)}
+                style={isSameDay(day, today) ? { color: '#1677ff' } : undefined}
+              >
+                {day.getDate()}
+              </Typography.Text>
+
+              {dayLessons.slice(0, MAX_LESSONS_PER_DAY).map(lesson => (
+                <div
+                  key={lesson.id}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onSelectLesson(lesson);
+                  }}
+                  style={{
+                    fontSize: '12px',
+                    whiteSpace: 'nowrap',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    borderLeft: '3px solid #1677ff',
+                    paddingLeft: '4px',
+                    marginTop: '2px',
+                  }}
+                >
+                  {lesson.seriesId && <RetweetOutlined aria-label={t('schedule.recurringLesson')} style={{ marginRight: '4px' }} />}
+                  {formatTime(new Date(lesson.start))} {lesson.student}
+                </div>
+              ))}
+
+              {dayLessons.length > MAX_LESSONS_PER_DAY && (
+                <Typography.Text type="secondary" style={{ fontSize: '12px' }}>
+                  {t('schedule.more', { count: dayLessons.length - MAX_LESSONS_PER_DAY })}
+                </Typography.Text>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+/**
+ * RecurrenceScopeModal Component
+ *
+ * Asks which occurrences of a recurring lesson a save or delete applies to:
+ * this lesson, this and the following lessons or the whole series.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Radio, Space } from 'antd';
+import { ConfirmModal } from '@/ui';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { RecurrenceScope } from '@/shared/types/lesson';
+import { RECURRENCE_SCOPES } from '../utils/recurrence';
+
+interface RecurrenceScopeModalProps {
+  /** Whether the modal is visible */
+  open: boolean;
+  /** Change being confirmed */
+  action: 'save' | 'delete';
+  /** Show the confirm button as loading */
+  loading?: boolean;
+  /** Callback with the chosen occurrences */
+  onConfirm: (scope: RecurrenceScope) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+export const RecurrenceScopeModal: React.FC<RecurrenceScopeModalProps> = ({
+  open,
+  action,
+  loading = false,
+  onConfirm,
+  onCancel,
+}) => {
+  const { t } = useTranslation();
+  const [scope, setScope] = useState<RecurrenceScope>('occurrence');
+
+  // Start with the least far-reaching choice each time
+  useEffect(() => {
+    if (open) setScope('occurrence');
+  }, [open]);
+
+  return (
+    <ConfirmModal
+      open={open}
+      title={action === 'delete' ? t('recurrenceScope.deleteTitle') : t('recurrenceScope.saveTitle')}
+      okText={action === 'delete' ? t('common.delete') : t('common.save')}
+      okButtonProps={{ danger: action === 'delete', loading }}
+      onOk={() => onConfirm(scope)}
+      onCancel={onCancel}
+    >
+      <Radio.Group value={scope} onChange={(event) => setScope(event.target.value)}>
+        <Space direction="vertical">
+          {RECURRENCE_SCOPES.map(value => (
+            <Radio key={value} value={value}>
+              {t(`recurrenceScope.${value}`)}
+            </Radio>
+          ))}
+        </Space>
+      </Radio.Group>
+    </ConfirmModal>
+  );
+};
@@ -0,0 +1,71 @@
+/**
+ * ScheduleFilters Component
+ *
+ * Studio, room and teacher filters for the schedule calendar
+ * - Rooms are listed for the selected studio only
+ */
+
+import React from 'react';
+import { Select, Space } from 'antd';
+import { useStudios, useStudioRooms } from '@/shared/hooks/useStudios';
+import { useUsersByRole } from '@/shared/hooks/useUsersByRole';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { ScheduleFilters as ScheduleFilterValues } from '../utils/scheduleQuery';
+
+interface ScheduleFiltersProps {
+  value: ScheduleFilterValues;
+  onChange: (filters: ScheduleFilterValues) => void;
+  disabled?: boolean;
+}
+
+export const ScheduleFilters: React.FC<ScheduleFiltersProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const { t } = useTranslation();
+  const { studios, loading: studiosLoading } = useStudios();
+  const { rooms, loading: roomsLoading } = useStudioRooms(value.studioId);
+  const { users: teachers, loading: teachersLoading } = useUsersByRole('TEACHER');
+
+  return (
+    <Space wrap style={{ marginBottom: '16px' }}>
+      <Select
+        placeholder={t('schedule.allStudios')}
+        aria-label={t('lesson.field.studio')}
+        allowClear
+        value={value.studioId}
+        loading={studiosLoading}
+        options={studios.map(studio => ({ value: studio.id, label: studio.name }))}
+        // Rooms belong to one studio - clear the room when the studio changes
+        onChange={(studioId?: string) => onChange({ ...value, studioId, roomId: undefined })}
+        disabled={disabled}
+        style={{ width: 220 }}
+      />
+      <Select
+        placeholder={t('schedule.allRooms')}
+        aria-label={t('lesson.field.room')}
+        allowClear
+        value={value.roomId}
+        loading={roomsLoading}
+        options={rooms.map(room => ({ value: room.id, label: room.name }))}
+        onChange={(roomId?: string) => onChange({ ...value, roomId })}
+        disabled={disabled || !value.studioId}
+        style={{ width: 180 }}
+      />
+      <Select
+        placeholder={t('schedule.allTeachers')}
+        aria-label={t('lesson.field.teacher')}
+        allowClear
+        showSearch
+        optionFilterProp="label"
+        value={value.teacherId}
+        loading={teachersLoading}
+        options={teachers.map(teacher => ({ value: teacher.id, label: teacher.name }))}
+        onChange={(teacherId?: string) => onChange({ ...value, teacherId })}
+        disabled={disabled}
+        style={{ width: 200 }}
+      />
+    </Space>
+  );
+};
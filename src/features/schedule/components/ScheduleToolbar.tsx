@@ -0,0 +1,56 @@
+/**
+ * ScheduleToolbar Component
+ *
+ * Date navigation (previous, today, next) and the day/week/month view switch
+ */
+
+import React from 'react';
+import { Segmented, Space, Typography } from 'antd';
+import { LeftOutlined, RightOutlined } from '@ant-design/icons';
+import { Button } from '@/ui';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { CALENDAR_VIEWS, formatViewTitle, type CalendarView } from '../utils/calendar';
+
+interface ScheduleToolbarProps {
+  view: CalendarView;
+  date: Date;
+  onViewChange: (view: CalendarView) => void;
+  /** Go one view back (-1) or forward (1) */
+  onNavigate: (step: 1 | -1) => void;
+  onToday: () => void;
+}
+
+export const ScheduleToolbar: React.FC<ScheduleToolbarProps> = ({
+  view,
+  date,
+  onViewChange,
+  onNavigate,
+  onToday,
+}) => {
+  const { t, locale } = useTranslation();
+
+  return (
+    <div style={{
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      flexWrap: 'wrap',
+      gap: '12px',
+      marginBottom: '16px',
+    }}>
+      <Space>
+        <Button onClick={onToday}>{t('schedule.today')}</Button>
+        <Button icon={<LeftOutlined />} onClick={() => onNavigate(-1)} aria-label={t('schedule.previous')} />
+        <Button icon={<RightOutlined />} onClick={() => onNavigate(1)} aria-label={t('schedule.next')} />
+        <Typography.Title level={4} style={{ margin: 0 }}>
+          {formatViewTitle(view, date, locale)}
+        </Typography.Title>
+      </Space>
+      <Segmented<CalendarView>
+        options={CALENDAR_VIEWS.map(value => ({ value, label: t(`schedule.view.${value}`) }))}
+        value={view}
+        onChange={onViewChange}
+      />
+    </div>
+  );
+};
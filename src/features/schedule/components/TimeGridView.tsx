@@ -0,0 +1,201 @@
+/**
+ * TimeGridView Component
+ *
+ * Day and week views of the schedule - one column per day, one row per
+ * 30-minute slot between the first and last grid hour.
+ * - Lessons are placed by start/end time; overlapping lessons share the column
+ * - When creating is allowed, dragging across slots of one day selects a
+ *   time range and reports it with onCreateRange
+ * - Slots reported by isUnavailable are greyed out (e.g. outside a teacher's availability)
+ * - Occurrences of a recurring series are marked with a repeat icon
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Typography } from 'antd';
+import { RetweetOutlined } from '@ant-design/icons';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { formatTime, isSameDay } from '@/shared/utils/date';
+import type { Lesson } from '@/shared/types/lesson';
+import {
+  DAY_START_HOUR,
+  DAY_END_HOUR,
+  SLOT_COUNT,
+  SLOT_MINUTES,
+  slotStart,
+  getLessonPlacement,
+  layoutOverlappingLessons,
+} from '../utils/calendar';
+
+interface TimeGridViewProps {
+  /** Days shown as columns (one for the day view, seven for the week view) */
+  days: Date[];
+  lessons: Lesson[];
+  /** Allow drag-to-create (e.g. with the lessons:write permission) */
+  canCreate?: boolean;
+  /** Called with the dragged time range */
+  onCreateRange?: (start: Date, end: Date) => void;
+  onSelectLesson: (lesson: Lesson) => void;
+  /** Grey out slots that cannot be booked */
+  isUnavailable?: (start: Date, end: Date) => boolean;
+}
+
+interface DragState {
+  dayIndex: number;
+  anchor: number;   // slot where the drag started
+  current: number;  // slot under the pointer
+}
+
+const SLOT_HEIGHT = 24; // px per slot
+const PX_PER_MINUTE = SLOT_HEIGHT / SLOT_MINUTES;
+const GUTTER_WIDTH = 56;
+const UNAVAILABLE_BACKGROUND = 'repeating-linear-gradient(135deg, #f5f5f5, #f5f5f5 6px, #ebebeb 6px, #ebebeb 8px)';
+
+export const TimeGridView: React.FC<TimeGridViewProps> = ({
+  days,
+  lessons,
+  canCreate = false,
+  onCreateRange,
+  onSelectLesson,
+  isUnavailable,
+}) => {
+  const { t, formatDate } = useTranslation();
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const today = new Date();
+
+  // Finish the drag wherever the mouse is released
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseUp = () => {
+      const first = Math.min(drag.anchor, drag.current);
+      const last = Math.max(drag.anchor, drag.current);
+      const day = days[drag.dayIndex];
+      setDrag(null);
+      onCreateRange?.(slotStart(day, first), slotStart(day, last + 1));
+    };
+
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [drag, days, onCreateRange]);
+
+  const isSelected = (dayIndex: number, slot: number) =>
+    drag !== null &&
+    drag.dayIndex === dayIndex &&
+    slot >= Math.min(drag.anchor, drag.current) &&
+    slot <= Math.max(drag.anchor, drag.current);
+
+  const hours = Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, index) => DAY_START_HOUR + index);
+
+  return (
+    <div style={{ border: '1px solid #f0f0f0', borderRadius: '8px', overflow: 'hidden', userSelect: 'none' }}>
+      {/* Day headers */}
+      <div style={{ display: 'flex', borderBottom: '1px solid #f0f0f0', background: '#fafafa' }}>
+        <div style={{ width: GUTTER_WIDTH, flexShrink: 0 }} />
+        {days.map(day => (
+          <div
+            key={day.toISOString()}
+            style={{
+              flex: 1,
+              padding: '8px',
+              textAlign: 'center',
+              fontWeight: isSameDay(day, today) ? 600 : 400,
+              color: isSameDay(day, today) ? '#1677ff' : undefined,
+            }}
+          >
+            {formatDate(day, { weekday: 'short', month: 'short', day: 'numeric' })}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex' }}>
+        {/* Hour labels */}
+        <div style={{ width: GUTTER_WIDTH, flexShrink: 0 }}>
+          {hours.map(hour => (
+            <div key={hour} style={{ height: SLOT_HEIGHT * (60 / SLOT_MINUTES), padding: '0 8px' }}>
+              <Typography.Text type="secondary" style={{ fontSize: '12px' }}>
+                {`${String(hour).padStart(2, '0')}:00`}
+              </Typography.Text>
+            </div>
+          ))}
+        </div>
+
+        {/* Day columns */}
+        {days.map((day, dayIndex) => (
+          <div
+            key={day.toISOString()}
+            data-testid={`schedule-day-${dayIndex}`}
+            style={{ flex: 1, position: 'relative', borderLeft: '1px solid #f0f0f0' }}
+          >
+            {Array.from({ length: SLOT_COUNT }, (_, slot) => {
+              const unavailable = isUnavailable?.(slotStart(day, slot), slotStart(day, slot + 1)) ?? false;
+              const hint = unavailable ? 'unavailable' : canCreate ? 'drag to create a lesson' : null;
+
+              return (
+                <div
+                  key={slot}
+                  data-testid={`schedule-slot-${dayIndex}-${slot}`}
+                  data-unavailable={unavailable || undefined}
+                  title={hint ? `${formatTime(slotStart(day, slot))} – ${hint}` : undefined}
+                  onMouseDown={canCreate ? (event) => {
+                    if (event.button !== 0) return;
+                    setDrag({ dayIndex, anchor: slot, current: slot });
+                  } : undefined}
+                  onMouseEnter={() => {
+                    if (drag?.dayIndex === dayIndex) {
+                      setDrag({ ...drag, current: slot });
+                    }
+                  }}
+                  style={{
+                    height: SLOT_HEIGHT,
+                    borderTop: slot % 2 === 0 ? '1px solid #f0f0f0' : '1px dashed #fafafa',
+                    background: isSelected(dayIndex, slot)
+                      ? '#e6f4ff'
+                      : unavailable ? UNAVAILABLE_BACKGROUND : undefined,
+                    cursor: canCreate ? 'crosshair' : undefined,
+                  }}
+                />
+              );
+            })}
+
+            {layoutOverlappingLessons(lessons).map(({ lesson, column, columns }) => {
+              const placement = getLessonPlacement(lesson, day);
+              if (!placement) return null;
+
+              return (
+                <button
+                  key={lesson.id}
+                  type="button"
+                  onMouseDown={(event) => event.stopPropagation()}
+                  onClick={() => onSelectLesson(lesson)}
+                  style={{
+                    position: 'absolute',
+                    top: placement.top * PX_PER_MINUTE,
+                    height: Math.max(placement.height * PX_PER_MINUTE - 2, SLOT_HEIGHT / 2),
+                    left: `calc(${(column / columns) * 100}% + 2px)`,
+                    width: `calc(${100 / columns}% - 4px)`,
+                    padding: '2px 6px',
+                    overflow: 'hidden',
+                    textAlign: 'left',
+                    fontSize: '12px',
+                    lineHeight: '16px',
+                    background: '#e6f4ff',
+                    border: '1px solid #91caff',
+                    borderLeft: '3px solid #1677ff',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <div style={{ fontWeight: 600 }}>
+                    {lesson.seriesId && <RetweetOutlined aria-label={t('schedule.recurringLesson')} style={{ marginRight: '4px' }} />}
+                    {formatTime(new Date(lesson.start))}–{formatTime(new Date(lesson.end))} {lesson.student}
+                  </div>
+                  <div>{lesson.teacher} · {lesson.room}</div>
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
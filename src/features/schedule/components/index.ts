@@ -0,0 +1,11 @@
+/**
+ * Schedule Components Exports
+ */
+
+export { ScheduleToolbar } from './ScheduleToolbar';
+export { ScheduleFilters } from './ScheduleFilters';
+export { TimeGridView } from './TimeGridView';
+export { MonthView } from './MonthView';
+export { LessonFormModal } from './LessonFormModal';
+export { LessonConflictAlert } from './LessonConflictAlert';
+export { RecurrenceScopeModal } from './RecurrenceScopeModal';
@@ -0,0 +1,202 @@
+/**
+ * SchedulePage Component
+ *
+ * Lesson calendar at /schedule with day, week and month views
+ * - Filter by studio, room and teacher; with a teacher selected, slots outside
+ *   the teacher's availability are greyed out
+ * - Drag across time slots to create a lesson (lessons:write)
+ * - Click a lesson to edit or delete it
+ * View, date and filters live in the URL so refresh and shared links keep them.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Alert, Spin, Typography } from 'antd';
+import { ReloadOutlined } from '@ant-design/icons';
+import { useSearchParams } from 'react-router-dom';
+import { Page } from '@/shared/components/Page';
+import { Button, Card } from '@/ui';
+import { lessonAPI } from '@/shared/api/lesson';
+import { usePermission } from '@/shared/hooks/usePermission';
+import { useTeacherAvailability } from '@/shared/hooks/useTeacherAvailability';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { startOfDay } from '@/shared/utils/date';
+import { isTeacherAvailable } from '@/shared/utils/availability';
+import type { Lesson } from '@/shared/types/lesson';
+import {
+  ScheduleToolbar,
+  ScheduleFilters,
+  TimeGridView,
+  MonthView,
+  LessonFormModal,
+} from '../components';
+import { getViewDays, getViewRange, shiftDate, type CalendarView } from '../utils/calendar';
+import {
+  parseScheduleParams,
+  toScheduleSearchParams,
+  type ScheduleParams,
+  type ScheduleFilters as ScheduleFilterValues,
+} from '../utils/scheduleQuery';
+
+interface LessonModalState {
+  open: boolean;
+  lesson: Lesson | null;                     // null when creating a new lesson
+  range: { start: Date; end: Date } | null;  // dragged range when creating
+}
+
+export const SchedulePage: React.FC = () => {
+  const { t } = useTranslation();
+  const canWrite = usePermission('lessons:write');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchKey = searchParams.toString();
+  const params = useMemo(() => parseScheduleParams(new URLSearchParams(searchKey)), [searchKey]);
+  const days = useMemo(() => getViewDays(params.view, params.date), [params.view, params.date]);
+
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [modal, setModal] = useState<LessonModalState>({ open: false, lesson: null, range: null });
+  const { availability } = useTeacherAvailability(params.teacherId);
+
+  // Grey out slots outside the filtered teacher's availability (at the filtered studio, if any)
+  const isUnavailable = useMemo(
+    () => availability
+      ? (start: Date, end: Date) => !isTeacherAvailable(availability, start, end, params.studioId)
+      : undefined,
+    [availability, params.studioId]
+  );
+
+  // Fetch the lessons of the visible range
+  const fetchLessons = useCallback(async () => {
+    const { from, to } = getViewRange(params.view, params.date);
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await lessonAPI.listLessons({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        studioId: params.studioId,
+        roomId: params.roomId,
+        teacherId: params.teacherId,
+      });
+      setLessons(response.data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('schedule.loadFailed');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [params, t]);
+
+  useEffect(() => {
+    fetchLessons();
+  }, [fetchLessons]);
+
+  // Push new view/date/filters to the URL
+  const updateParams = useCallback((next: ScheduleParams) => {
+    setSearchParams(toScheduleSearchParams(next));
+  }, [setSearchParams]);
+
+  const handleViewChange = (view: CalendarView) => updateParams({ ...params, view });
+  const handleNavigate = (step: 1 | -1) => updateParams({ ...params, date: shiftDate(params.view, params.date, step) });
+  const handleToday = () => updateParams({ ...params, date: startOfDay(new Date()) });
+  const handleFiltersChange = (filters: ScheduleFilterValues) => updateParams({ view: params.view, date: params.date, ...filters });
+
+  // Month view: open the clicked day in the day view
+  const handleSelectDay = (day: Date) => updateParams({ ...params, view: 'day', date: day });
+
+  const handleCreateRange = useCallback((start: Date, end: Date) => {
+    setModal({ open: true, lesson: null, range: { start, end } });
+  }, []);
+
+  const handleSelectLesson = useCallback((lesson: Lesson) => {
+    setModal({ open: true, lesson, range: null });
+  }, []);
+
+  // Handle successful create/update/delete - close modal and refresh the calendar
+  const handleModalSuccess = useCallback(() => {
+    setModal(prev => ({ ...prev, open: false }));
+    fetchLessons();
+  }, [fetchLessons]);
+
+  return (
+    <Page
+      title={t('schedule.title')}
+      extra={
+        <Button icon={<ReloadOutlined />} onClick={fetchLessons} disabled={loading}>
+          {t('common.refresh')}
+        </Button>
+      }
+    >
+      {error && (
+        <Alert
+          message={t('schedule.loadError')}
+          description={error}
+          type="error"
+          showIcon
+          style={{ marginBottom: '16px' }}
+          action={
+            <Button size="small" onClick={fetchLessons}>
+              {t('common.retry')}
+            </Button>
+          }
+        />
+      )}
+
+      <Card hoverable={false}>
+        <ScheduleToolbar
+          view={params.view}
+          date={params.date}
+          onViewChange={handleViewChange}
+          onNavigate={handleNavigate}
+          onToday={handleToday}
+        />
+
+        <ScheduleFilters
+          value={{ studioId: params.studioId, roomId: params.roomId, teacherId: params.teacherId }}
+          onChange={handleFiltersChange}
+        />
+
+        {params.view !== 'month' && (canWrite || isUnavailable) && (
+          <Typography.Paragraph type="secondary">
+            {canWrite && `${t('schedule.dragHint')} `}
+            {isUnavailable && t('schedule.unavailableHint')}
+          </Typography.Paragraph>
+        )}
+
+        <Spin spinning={loading} tip={t('schedule.loading')}>
+          {params.view === 'month' ? (
+            <MonthView
+              days={days}
+              month={params.date}
+              lessons={lessons}
+              onSelectDay={handleSelectDay}
+              onSelectLesson={handleSelectLesson}
+            />
+          ) : (
+            <TimeGridView
+              days={days}
+              lessons={lessons}
+              canCreate={canWrite}
+              onCreateRange={handleCreateRange}
+              onSelectLesson={handleSelectLesson}
+              isUnavailable={isUnavailable}
+            />
+          )}
+        </Spin>
+      </Card>
+
+      {/* Create/Edit Lesson */}
+      <LessonFormModal
+        open={modal.open}
+        lesson={modal.lesson}
+        range={modal.range}
+        defaultStudioId={params.studioId}
+        readOnly={!canWrite}
+        onClose={() => setModal(prev => ({ ...prev, open: false }))}
+        onSuccess={handleModalSuccess}
+      />
+    </Page>
+  );
+};
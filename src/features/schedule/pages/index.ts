@@ -0,0 +1 @@
+export { SchedulePage } from './SchedulePage';
@@ -0,0 +1,83 @@
+/**
+ * Schedule Calendar Utilities Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toDateKey, formatTime } from '@/shared/utils/date';
+import {
+  getViewDays,
+  getViewRange,
+  shiftDate,
+  startOfWeek,
+  slotStart,
+  getLessonPlacement,
+  layoutOverlappingLessons,
+} from './calendar';
+
+const at = (day: number, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, 9, day, hours, minutes).toISOString();
+};
+
+describe('Schedule Calendar Utilities', () => {
+  describe('views', () => {
+    it('should start weeks on Monday', () => {
+      // Sunday 25 October 2026 belongs to the week of Monday 19 October
+      expect(toDateKey(startOfWeek(new Date(2026, 9, 25, 15)))).toBe('2026-10-19');
+      expect(toDateKey(startOfWeek(new Date(2026, 9, 19)))).toBe('2026-10-19');
+    });
+
+    it('should cover six full weeks in the month view', () => {
+      const days = getViewDays('month', new Date(2026, 9, 19));
+      expect(days).toHaveLength(42);
+      expect(toDateKey(days[0])).toBe('2026-09-28');
+      expect(days.map(toDateKey)).toContain('2026-10-31');
+    });
+
+    it('should request lessons up to the end of the last visible day', () => {
+      const { from, to } = getViewRange('week', new Date(2026, 9, 21, 12));
+      expect(toDateKey(from)).toBe('2026-10-19');
+      expect(toDateKey(to)).toBe('2026-10-26');
+      expect(formatTime(to)).toBe('00:00');
+    });
+
+    it('should move by one day, week or month', () => {
+      const date = new Date(2026, 0, 31);
+      expect(toDateKey(shiftDate('day', date, 1))).toBe('2026-02-01');
+      expect(toDateKey(shiftDate('week', date, -1))).toBe('2026-01-24');
+      expect(toDateKey(shiftDate('month', date, 1))).toBe('2026-02-01');
+    });
+  });
+
+  describe('time grid', () => {
+    it('should map slots to times from the first grid hour', () => {
+      const day = new Date(2026, 9, 19);
+      expect(formatTime(slotStart(day, 0))).toBe('07:00');
+      expect(formatTime(slotStart(day, 5))).toBe('09:30');
+    });
+
+    it('should place lessons in minutes from the top and clip to the grid', () => {
+      const day = new Date(2026, 9, 19);
+      expect(getLessonPlacement({ start: at(19, '09:00'), end: at(19, '10:30') }, day)).toEqual({ top: 120, height: 90 });
+      expect(getLessonPlacement({ start: at(19, '06:00'), end: at(19, '08:00') }, day)).toEqual({ top: 0, height: 60 });
+      expect(getLessonPlacement({ start: at(20, '09:00'), end: at(20, '10:00') }, day)).toBeNull();
+    });
+  });
+
+  describe('layoutOverlappingLessons', () => {
+    it('should put overlapping lessons in separate columns', () => {
+      const a = { id: 'a', start: at(19, '09:00'), end: at(19, '10:00') };
+      const b = { id: 'b', start: at(19, '09:30'), end: at(19, '10:30') };
+      const c = { id: 'c', start: at(19, '10:00'), end: at(19, '11:00') };
+      const d = { id: 'd', start: at(19, '12:00'), end: at(19, '13:00') };
+
+      const layout = layoutOverlappingLessons([d, c, b, a]);
+      const byId = Object.fromEntries(layout.map(item => [item.lesson.id, item]));
+
+      expect(byId.a).toMatchObject({ column: 0, columns: 2 });
+      expect(byId.b).toMatchObject({ column: 1, columns: 2 });
+      expect(byId.c).toMatchObject({ column: 0, columns: 2 });
+      expect(byId.d).toMatchObject({ column: 0, columns: 1 });
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Schedule Calendar Utilities
+ *
+ * - Visible days and API time range of the day, week and month views
+ * - Time grid slots (drag to create) and lesson placement in the grid
+ * - Side-by-side layout of overlapping lessons within a day
+ */
+
+import { localizeDate, type SupportedLocale } from '@/shared/i18n';
+import { addDays, startOfDay, isSameDay } from '@/shared/utils/date';
+import type { Lesson } from '@/shared/types/lesson';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+export const CALENDAR_VIEWS: CalendarView[] = ['day', 'week', 'month'];
+
+// Hours shown by the day and week time grid
+export const DAY_START_HOUR = 7;
+export const DAY_END_HOUR = 22;
+// Length of one grid slot - the drag-to-create resolution
+export const SLOT_MINUTES = 30;
+export const SLOT_COUNT = ((DAY_END_HOUR - DAY_START_HOUR) * 60) / SLOT_MINUTES;
+
+/**
+ * Lesson start/end time options every 15 minutes within the grid hours
+ */
+export const LESSON_TIME_OPTIONS: { value: string; label: string }[] = Array.from(
+  { length: (DAY_END_HOUR - DAY_START_HOUR) * 4 + 1 },
+  (_, index) => {
+    const minutes = DAY_START_HOUR * 60 + index * 15;
+    const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    return { value: time, label: time };
+  }
+);
+
+/**
+ * Monday of the week containing the date
+ */
+export function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
+
+/**
+ * Days shown by a view - one day, Monday to Sunday, or six full weeks
+ * covering the month
+ */
+export function getViewDays(view: CalendarView, date: Date): Date[] {
+  if (view === 'day') {
+    return [startOfDay(date)];
+  }
+  if (view === 'week') {
+    const monday = startOfWeek(date);
+    return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+  }
+  const firstShown = startOfWeek(new Date(date.getFullYear(), date.getMonth(), 1));
+  return Array.from({ length: 42 }, (_, index) => addDays(firstShown, index));
+}
+
+/**
+ * Time range [from, to) to request lessons for a view
+ */
+export function getViewRange(view: CalendarView, date: Date): { from: Date; to: Date } {
+  const days = getViewDays(view, date);
+  return { from: days[0], to: addDays(days[days.length - 1], 1) };
+}
+
+/**
+ * Move the date one view back (-1) or forward (1)
+ */
+export function shiftDate(view: CalendarView, date: Date, step: 1 | -1): Date {
+  if (view === 'day') return addDays(date, step);
+  if (view === 'week') return addDays(date, step * 7);
+  return new Date(date.getFullYear(), date.getMonth() + step, 1);
+}
+
+/**
+ * Heading of a view in a locale, e.g. "Monday, October 19, 2026", "Oct 19 – Oct 25, 2026", "October 2026"
+ */
+export function formatViewTitle(view: CalendarView, date: Date, locale: SupportedLocale): string {
+  if (view === 'day') {
+    return localizeDate(locale, date, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  }
+  if (view === 'week') {
+    const days = getViewDays('week', date);
+    const first = localizeDate(locale, days[0], { month: 'short', day: 'numeric' });
+    const last = localizeDate(locale, days[6], { month: 'short', day: 'numeric', year: 'numeric' });
+    return `${first} – ${last}`;
+  }
+  return localizeDate(locale, date, { month: 'long', year: 'numeric' });
+}
+
+/**
+ * Start time of a grid slot on a day
+ */
+export function slotStart(day: Date, slot: number): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), DAY_START_HOUR, slot * SLOT_MINUTES);
+}
+
+/**
+ * Vertical placement of a lesson in a day column, in minutes from the
+ * top of the grid - clipped to the grid hours, null when not visible that day
+ */
+export function getLessonPlacement(lesson: Pick<Lesson, 'start' | 'end'>, day: Date): { top: number; height: number } | null {
+  const gridStart = slotStart(day, 0).getTime();
+  const gridEnd = slotStart(day, SLOT_COUNT).getTime();
+  const start = Math.max(Date.parse(lesson.start), gridStart);
+  const end = Math.min(Date.parse(lesson.end), gridEnd);
+
+  if (end <= start) return null;
+  return { top: (start - gridStart) / 60000, height: (end - start) / 60000 };
+}
+
+/**
+ * Lessons starting on a day, in start order
+ */
+export function lessonsOnDay<T extends Pick<Lesson, 'start'>>(lessons: T[], day: Date): T[] {
+  return lessons
+    .filter(lesson => isSameDay(new Date(lesson.start), day))
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Place overlapping lessons side by side
+ * Each lesson gets a column index and the column count of its overlap group.
+ */
+export function layoutOverlappingLessons<T extends Pick<Lesson, 'start' | 'end'>>(
+  lessons: T[]
+): { lesson: T; column: number; columns: number }[] {
+  const sorted = [...lessons].sort((a, b) => a.start.localeCompare(b.start) || b.end.localeCompare(a.end));
+  const result: { lesson: T; column: number; columns: number }[] = [];
+
+  let group: { lesson: T; column: number; columns: number }[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = -Infinity;
+
+  const closeGroup = () => {
+    group.forEach(item => { item.columns = columnEnds.length; });
+    result.push(...group);
+    group = [];
+    columnEnds = [];
+  };
+
+  sorted.forEach(lesson => {
+    const start = Date.parse(lesson.start);
+    const end = Date.parse(lesson.end);
+
+    if (start >= groupEnd) {
+      closeGroup();
+    }
+
+    let column = columnEnds.findIndex(columnEnd => columnEnd <= start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(end);
+    } else {
+      columnEnds[column] = end;
+    }
+
+    group.push({ lesson, column, columns: 1 });
+    groupEnd = Math.max(groupEnd, end);
+  });
+  closeGroup();
+
+  return result;
+}
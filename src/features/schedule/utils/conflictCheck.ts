@@ -0,0 +1,106 @@
+/**
+ * Lesson Conflict Check
+ *
+ * - Check a lesson against the schedule before it is saved
+ * - Read the conflicts of a 409 LESSON_CONFLICT response
+ * - Map conflicts to the lesson form fields
+ */
+
+import { isAxiosError } from 'axios';
+import { availabilityAPI } from '@/shared/api/availability';
+import { lessonAPI } from '@/shared/api/lesson';
+import { studioAPI } from '@/shared/api/studio';
+import { addDays, startOfDay } from '@/shared/utils/date';
+import { findLessonConflicts, suggestFreeSlots, type LessonSchedule } from '@/shared/utils/lessonConflicts';
+import type { ValidationError } from '@/shared/types/api';
+import type { CreateLessonRequest, LessonConflictErrorResponse, LessonSlot } from '@/shared/types/lesson';
+
+/**
+ * Conflicts of a lesson with the free slots suggested instead
+ */
+export interface LessonConflicts {
+  errors: ValidationError[];
+  suggestedSlots: LessonSlot[];
+}
+
+/**
+ * Lesson form fields that can show a conflict
+ */
+export type ConflictFormField = 'roomId' | 'teacherId' | 'studentId' | 'startTime';
+
+// Days searched for free slots, starting with the day of the lesson
+const SUGGESTION_DAYS = 7;
+
+// Lesson form field showing each conflict (the API reports 'start' for the time)
+const CONFLICT_FORM_FIELDS: Record<string, ConflictFormField> = {
+  roomId: 'roomId',
+  teacherId: 'teacherId',
+  studentId: 'studentId',
+  start: 'startTime',
+};
+
+/**
+ * Check a new or moved lesson against the lessons around it, the studio
+ * opening hours and the teacher's availability (unless overridden)
+ * Returns null when the lesson is free to save.
+ */
+export async function checkLessonConflicts(
+  payload: CreateLessonRequest,
+  lessonId?: string
+): Promise<LessonConflicts | null> {
+  const firstDay = startOfDay(new Date(payload.start));
+  const [studio, lessons, availability] = await Promise.all([
+    studioAPI.getStudioById(payload.studioId),
+    lessonAPI.listLessons({
+      from: firstDay.toISOString(),
+      to: addDays(firstDay, SUGGESTION_DAYS).toISOString(),
+    }),
+    payload.overrideAvailability ? null : availabilityAPI.getAvailability(payload.teacherId),
+  ]);
+
+  const candidate = { ...payload, id: lessonId };
+  const schedule: LessonSchedule = {
+    lessons: lessons.data,
+    openingHours: studio.data.openingHours,
+    availability: availability?.data,
+  };
+  const errors = findLessonConflicts(candidate, schedule);
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return {
+    errors,
+    suggestedSlots: suggestFreeSlots(candidate, schedule, {
+      days: SUGGESTION_DAYS,
+      notBefore: new Date(),
+    }),
+  };
+}
+
+/**
+ * Extract the conflicts of a 409 LESSON_CONFLICT response - null for other errors
+ */
+export function getLessonConflicts(error: unknown): LessonConflicts | null {
+  if (isAxiosError<LessonConflictErrorResponse>(error) && error.response?.data?.error?.code === 'LESSON_CONFLICT') {
+    const { errors, details } = error.response.data.error;
+    return { errors, suggestedSlots: details?.suggestedSlots ?? [] };
+  }
+  return null;
+}
+
+/**
+ * Group conflict messages by lesson form field
+ */
+export function getConflictFieldErrors(errors: ValidationError[]): { name: ConflictFormField; errors: string[] }[] {
+  const byField = new Map<ConflictFormField, string[]>();
+
+  errors.forEach(error => {
+    const name = CONFLICT_FORM_FIELDS[error.field];
+    if (name) {
+      byField.set(name, [...(byField.get(name) ?? []), error.message]);
+    }
+  });
+
+  return [...byField].map(([name, messages]) => ({ name, errors: messages }));
+}
@@ -0,0 +1,46 @@
+/**
+ * Lesson Recurrence Form Helpers
+ *
+ * - Repeat options of the lesson form and the RRULE they create
+ * - Occurrences of a series an edit or delete applies to
+ */
+
+import { formatRecurrence } from '@/shared/utils/recurrence';
+import { weekdayOf } from '@/shared/utils/date';
+import type { RecurrenceScope } from '@/shared/types/lesson';
+
+/**
+ * How often a new lesson repeats
+ */
+export type LessonRepeat = 'none' | 'weekly' | 'biweekly';
+
+export const LESSON_REPEATS: LessonRepeat[] = ['none', 'weekly', 'biweekly'];
+
+/**
+ * Occurrences of a new series - a term of weekly lessons
+ */
+export const DEFAULT_OCCURRENCES = 12;
+
+export const RECURRENCE_SCOPES: RecurrenceScope[] = ['occurrence', 'following', 'series'];
+
+/**
+ * RRULE of a new lesson repeating on the weekday of its first lesson
+ * Returns undefined when the lesson does not repeat.
+ */
+export function toLessonRecurrence(
+  repeat: LessonRepeat | undefined,
+  occurrences: number | undefined,
+  start: Date
+): string | undefined {
+  if (!repeat || repeat === 'none') {
+    return undefined;
+  }
+
+  return formatRecurrence({
+    freq: 'WEEKLY',
+    interval: repeat === 'biweekly' ? 2 : 1,
+    byDay: [weekdayOf(start)],
+    count: occurrences ?? DEFAULT_OCCURRENCES,
+    until: null,
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Schedule Query String Utilities
+ *
+ * Serialise the calendar view, date and filters to the /schedule URL and
+ * read them back, so a refresh or a shared link opens the same calendar.
+ * - Defaults (week view, today, no filters) are omitted
+ */
+
+import { parseDateKey, toDateKey, isSameDay, startOfDay } from '@/shared/utils/date';
+import { CALENDAR_VIEWS, type CalendarView } from './calendar';
+
+export interface ScheduleFilters {
+  studioId?: string;
+  roomId?: string;
+  teacherId?: string;
+}
+
+export interface ScheduleParams extends ScheduleFilters {
+  view: CalendarView;
+  date: Date;
+}
+
+const FILTER_KEYS = ['studioId', 'roomId', 'teacherId'] as const;
+
+/**
+ * Read the schedule view, date and filters from the URL query string
+ */
+export function parseScheduleParams(searchParams: URLSearchParams): ScheduleParams {
+  const view = searchParams.get('view') as CalendarView | null;
+  const params: ScheduleParams = {
+    view: view && CALENDAR_VIEWS.includes(view) ? view : 'week',
+    date: parseDateKey(searchParams.get('date')) ?? startOfDay(new Date()),
+  };
+
+  FILTER_KEYS.forEach(key => {
+    const value = searchParams.get(key)?.trim();
+    if (value) {
+      params[key] = value;
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Write the schedule view, date and filters to a URL query string, omitting defaults
+ */
+export function toScheduleSearchParams(params: ScheduleParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  if (params.view !== 'week') {
+    searchParams.set('view', params.view);
+  }
+  if (!isSameDay(params.date, new Date())) {
+    searchParams.set('date', toDateKey(params.date));
+  }
+  FILTER_KEYS.forEach(key => {
+    const value = params[key];
+    if (value) {
+      searchParams.set(key, value);
+    }
+  });
+
+  return searchParams;
+}
@@ -0,0 +1,314 @@
+/**
+ * CommandPalette Component
+ *
+ * Global search and commands, opened with Ctrl+K / Cmd+K or from the Header
+ * - Searches users and studios by name in one debounced query, and pages
+ * - Navigation commands ("Go to Users") and actions ("Add user", "Log out")
+ * - Only offers what the signed-in user's permissions allow
+ * - Arrow keys move through the results, Enter runs the selected one
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Empty, Input, Spin, Typography } from 'antd';
+import type { InputRef } from 'antd';
+import {
+  AuditOutlined,
+  BankOutlined,
+  BellOutlined,
+  CalendarOutlined,
+  DashboardOutlined,
+  LogoutOutlined,
+  SafetyOutlined,
+  SearchOutlined,
+  UserAddOutlined,
+  UserOutlined,
+} from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { Modal } from '@/ui';
+import { designTokens } from '@/ui/theme';
+import { userApi } from '@/shared/api/user';
+import { studioAPI } from '@/shared/api/studio';
+import { useAuthStore } from '@/shared/stores/authStore';
+import { usePermissionsLoader } from '@/shared/hooks/usePermission';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { UserListItem, UsersListLocationState } from '@/shared/types/user';
+import type { StudioListItem } from '@/shared/types/studio';
+import {
+  ACTION_COMMANDS,
+  MIN_SEARCH_LENGTH,
+  PAGE_COMMANDS,
+  filterCommands,
+  type ActionCommandKey,
+} from '../utils/commands';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onClose: () => void;
+  /** Callback for the Log out action */
+  onLogout?: () => void;
+}
+
+// Delay between the last keystroke and the search request
+const SEARCH_DELAY_MS = 250;
+
+// Users and studios listed per search
+const SEARCH_RESULT_SIZE = 5;
+
+const PAGE_ICONS: Record<string, React.ReactNode> = {
+  dashboard: <DashboardOutlined />,
+  users: <UserOutlined />,
+  roles: <SafetyOutlined />,
+  studios: <BankOutlined />,
+  schedule: <CalendarOutlined />,
+  audit: <AuditOutlined />,
+  notifications: <BellOutlined />,
+};
+
+const ACTION_ICONS: Record<ActionCommandKey, React.ReactNode> = {
+  'add-user': <UserAddOutlined />,
+  'log-out': <LogoutOutlined />,
+};
+
+interface PaletteItem {
+  key: string;
+  icon: React.ReactNode;
+  label: string;
+  description?: string;
+  run: () => void;
+}
+
+interface PaletteGroup {
+  title: string;
+  items: PaletteItem[];
+}
+
+interface SearchResults {
+  users: UserListItem[];
+  studios: StudioListItem[];
+}
+
+const NO_RESULTS: SearchResults = { users: [], studios: [] };
+
+// Content of the open palette - remounted each time the palette opens
+const CommandPaletteContent: React.FC<Omit<CommandPaletteProps, 'open'>> = ({ onClose, onLogout }) => {
+  const navigate = useNavigate();
+  const { t, locale } = useTranslation();
+  const permissions = useAuthStore(state => state.permissions);
+  usePermissionsLoader();
+  const canSearchUsers = permissions.includes('users:read');
+  const canSearchStudios = permissions.includes('studios:read');
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResults>(NO_RESULTS);
+  const [searching, setSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<InputRef>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const searchQuery = useDebouncedValue(query.trim(), SEARCH_DELAY_MS);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Search users and studios once typing pauses - results of an older query are ignored
+  useEffect(() => {
+    if (searchQuery.length < MIN_SEARCH_LENGTH) {
+      setResults(NO_RESULTS);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+
+    Promise.allSettled([
+      canSearchUsers
+        ? userApi.listUsers({ name: searchQuery, deleted: false, page: 0, size: SEARCH_RESULT_SIZE })
+        : null,
+      canSearchStudios
+        ? studioAPI.listStudios({ name: searchQuery, page: 0, size: SEARCH_RESULT_SIZE })
+        : null,
+    ]).then(([users, studios]) => {
+      if (cancelled) return;
+      setResults({
+        users: users.status === 'fulfilled' && users.value ? users.value.data : [],
+        studios: studios.status === 'fulfilled' && studios.value ? studios.value.data : [],
+      });
+      setSearching(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery, canSearchUsers, canSearchStudios]);
+
+  // Run an item and close the palette
+  const runAndClose = (run: () => void) => () => {
+    onClose();
+    run();
+  };
+
+  const runAction = (key: ActionCommandKey) => {
+    if (key === 'add-user') {
+      const state: UsersListLocationState = { openCreate: true };
+      navigate('/users', { state });
+    } else {
+      onLogout?.();
+    }
+  };
+
+  const groups: PaletteGroup[] = [
+    {
+      title: t('commandPalette.pages'),
+      items: filterCommands(PAGE_COMMANDS, query, permissions, locale).map(page => ({
+        key: `page:${page.key}`,
+        icon: PAGE_ICONS[page.key],
+        label: t('commandPalette.goTo', { page: t(page.label) }),
+        run: runAndClose(() => navigate(page.path)),
+      })),
+    },
+    {
+      title: t('common.actions'),
+      items: filterCommands(ACTION_COMMANDS, query, permissions, locale)
+        .filter(action => action.key !== 'log-out' || onLogout)
+        .map(action => ({
+          key: `action:${action.key}`,
+          icon: ACTION_ICONS[action.key],
+          label: t(action.label),
+          run: runAndClose(() => runAction(action.key)),
+        })),
+    },
+    {
+      title: t('nav.users'),
+      items: results.users.map(user => ({
+        key: `user:${user.id}`,
+        icon: <UserOutlined />,
+        label: user.name,
+        description: `${user.email} · ${user.role}`,
+        run: runAndClose(() => navigate(`/users/${user.id}`)),
+      })),
+    },
+    {
+      title: t('nav.studios'),
+      items: results.studios.map(studio => ({
+        key: `studio:${studio.id}`,
+        icon: <BankOutlined />,
+        label: studio.name,
+        description: `${studio.province}, ${studio.country}`,
+        run: runAndClose(() => navigate(`/studios/${studio.id}`)),
+      })),
+    },
+  ].filter(group => group.items.length > 0);
+
+  const items = groups.flatMap(group => group.items);
+  const selectedIndex = Math.min(activeIndex, Math.max(items.length - 1, 0));
+
+  // Keep the selected item in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView?.({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const handleQueryChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(event.target.value);
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' && items.length > 0) {
+      event.preventDefault();
+      setActiveIndex((selectedIndex + 1) % items.length);
+    } else if (event.key === 'ArrowUp' && items.length > 0) {
+      event.preventDefault();
+      setActiveIndex((selectedIndex - 1 + items.length) % items.length);
+    } else if (event.key === 'Enter' && items[selectedIndex]) {
+      event.preventDefault();
+      items[selectedIndex].run();
+    }
+  };
+
+  return (
+    <>
+      <Input
+        ref={inputRef}
+        size="large"
+        variant="borderless"
+        prefix={<SearchOutlined />}
+        suffix={searching ? <Spin size="small" /> : null}
+        placeholder={t('commandPalette.placeholder')}
+        value={query}
+        onChange={handleQueryChange}
+        onKeyDown={handleKeyDown}
+        aria-label={t('header.search')}
+        aria-controls="command-palette-results"
+      />
+
+      <div
+        ref={listRef}
+        id="command-palette-results"
+        role="listbox"
+        style={{ maxHeight: 400, overflowY: 'auto', borderTop: '1px solid #f0f0f0', paddingTop: '8px' }}
+      >
+        {groups.length === 0 ? (
+          <Empty
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+            description={searching ? t('commandPalette.searching') : t('commandPalette.noResults')}
+          />
+        ) : groups.map(group => (
+          <div key={group.title} role="group" aria-label={group.title}>
+            <Typography.Text type="secondary" style={{ display: 'block', padding: '4px 12px', fontSize: '12px' }}>
+              {group.title}
+            </Typography.Text>
+            {group.items.map(item => {
+              const selected = items[selectedIndex] === item;
+              return (
+                <div
+                  key={item.key}
+                  role="option"
+                  aria-selected={selected}
+                  onClick={item.run}
+                  onMouseEnter={() => setActiveIndex(items.indexOf(item))}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: `${designTokens.spacing.sm}px`,
+                    padding: '8px 12px',
+                    borderRadius: designTokens.borderRadius.base,
+                    cursor: 'pointer',
+                    background: selected ? '#e6f4ff' : undefined,
+                  }}
+                >
+                  {item.icon}
+                  <span>{item.label}</span>
+                  {item.description && (
+                    <Typography.Text type="secondary" ellipsis style={{ marginLeft: 'auto', fontSize: '12px' }}>
+                      {item.description}
+                    </Typography.Text>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onClose, onLogout }) => (
+  <Modal
+    open={open}
+    onCancel={onClose}
+    footer={null}
+    closable={false}
+    centered={false}
+    maskClosable
+    width={600}
+    style={{ top: 80 }}
+    title={null}
+  >
+    <CommandPaletteContent onClose={onClose} onLogout={onLogout} />
+  </Modal>
+);
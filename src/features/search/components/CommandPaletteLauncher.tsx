@@ -0,0 +1,46 @@
+/**
+ * CommandPaletteLauncher Component
+ *
+ * Search button of the Header showing the shortcut; opens the command
+ * palette on click and on Ctrl+K / Cmd+K (which also closes it again)
+ */
+
+import React, { useState } from 'react';
+import { Button, Typography } from 'antd';
+import { SearchOutlined } from '@ant-design/icons';
+import { designTokens } from '@/ui/theme';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { useCommandPaletteShortcut } from '../hooks/useCommandPaletteShortcut';
+import { CommandPalette } from './CommandPalette';
+
+interface CommandPaletteLauncherProps {
+  /** Callback for the palette's Log out action */
+  onLogout?: () => void;
+}
+
+// macOS shows the Command key instead of Ctrl
+const SHORTCUT_LABEL = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent) ? '⌘K' : 'Ctrl+K';
+
+export const CommandPaletteLauncher: React.FC<CommandPaletteLauncherProps> = ({ onLogout }) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  useCommandPaletteShortcut(() => setOpen(prev => !prev));
+
+  return (
+    <>
+      <Button
+        icon={<SearchOutlined />}
+        onClick={() => setOpen(true)}
+        aria-keyshortcuts="Control+K Meta+K"
+        style={{ color: designTokens.colors.textSecondary }}
+      >
+        {t('header.search')}
+        <Typography.Text keyboard type="secondary" style={{ fontSize: '12px' }}>
+          {SHORTCUT_LABEL}
+        </Typography.Text>
+      </Button>
+
+      <CommandPalette open={open} onClose={() => setOpen(false)} onLogout={onLogout} />
+    </>
+  );
+};
@@ -0,0 +1,6 @@
+/**
+ * Search Components Exports
+ */
+
+export { CommandPalette } from './CommandPalette';
+export { CommandPaletteLauncher } from './CommandPaletteLauncher';
@@ -0,0 +1,26 @@
+/**
+ * useCommandPaletteShortcut Hook
+ *
+ * Calls the handler on Ctrl+K (Cmd+K on macOS) anywhere in the app, and
+ * keeps the browser from handling the shortcut itself.
+ */
+
+import { useEffect, useRef } from 'react';
+
+export function useCommandPaletteShortcut(onShortcut: () => void): void {
+  // Latest handler, so the listener is only added once
+  const handlerRef = useRef(onShortcut);
+  handlerRef.current = onShortcut;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        handlerRef.current();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
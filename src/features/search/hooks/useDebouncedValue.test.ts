@@ -0,0 +1,35 @@
+/**
+ * useDebouncedValue Hook Test Suite
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useDebouncedValue } from './useDebouncedValue';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useDebouncedValue', () => {
+  it('should only return the latest value once it stops changing', () => {
+    vi.useFakeTimers();
+    const { result, rerender } = renderHook(({ value }) => useDebouncedValue(value, 250), {
+      initialProps: { value: '' },
+    });
+
+    rerender({ value: 'em' });
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    rerender({ value: 'emily' });
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(result.current).toBe('');
+
+    act(() => {
+      vi.advanceTimersByTime(50);
+    });
+    expect(result.current).toBe('emily');
+  });
+});
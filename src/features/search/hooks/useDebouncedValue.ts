@@ -0,0 +1,19 @@
+/**
+ * useDebouncedValue Hook
+ *
+ * Returns the value once it has not changed for the delay, so typing
+ * sends one request instead of one per keystroke.
+ */
+
+import { useEffect, useState } from 'react';
+
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
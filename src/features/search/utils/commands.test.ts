@@ -0,0 +1,37 @@
+/**
+ * Command Palette Commands Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ACTION_COMMANDS, PAGE_COMMANDS, filterCommands, matchesQuery } from './commands';
+
+describe('matchesQuery', () => {
+  it('should match every word of the query, ignoring case and order', () => {
+    expect(matchesQuery('Audit Log', 'log AUD')).toBe(true);
+    expect(matchesQuery('Audit Log', 'audit users')).toBe(false);
+  });
+
+  it('should match everything with an empty query', () => {
+    expect(matchesQuery('Users', '   ')).toBe(true);
+  });
+});
+
+describe('filterCommands', () => {
+  it('should only offer pages the permissions allow', () => {
+    const pages = filterCommands(PAGE_COMMANDS, '', ['studios:read', 'lessons:read']);
+
+    expect(pages.map(page => page.key)).toEqual(['dashboard', 'studios', 'schedule', 'notifications']);
+  });
+
+  it('should match pages by keyword', () => {
+    const pages = filterCommands(PAGE_COMMANDS, 'calendar', ['lessons:read']);
+
+    expect(pages.map(page => page.path)).toEqual(['/schedule']);
+  });
+
+  it('should offer Add user only with users:write', () => {
+    expect(filterCommands(ACTION_COMMANDS, 'add', ['users:read'])).toEqual([]);
+    expect(filterCommands(ACTION_COMMANDS, 'new', ['users:read', 'users:write']).map(action => action.key)).toEqual(['add-user']);
+    expect(filterCommands(ACTION_COMMANDS, 'sign out', []).map(action => action.key)).toEqual(['log-out']);
+  });
+});
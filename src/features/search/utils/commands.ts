@@ -0,0 +1,79 @@
+/**
+ * Command Palette Commands
+ *
+ * - Pages the palette can navigate to ("Go to Users")
+ * - Actions it can run ("Add user", "Log out")
+ * - Matching of commands against the typed query and the user's permissions
+ */
+
+import { currentLocale, translate, type MessageKey, type SupportedLocale } from '@/shared/i18n';
+import type { Permission } from '@/shared/types/permission';
+
+/**
+ * Page the palette navigates to
+ */
+export interface PageCommand {
+  key: string;
+  label: MessageKey;
+  path: string;
+  permission?: Permission;  // Only offered with this permission
+  keywords?: string[];      // Extra words the page is found by
+}
+
+/**
+ * Action the palette runs
+ */
+export type ActionCommandKey = 'add-user' | 'log-out';
+
+export interface ActionCommand {
+  key: ActionCommandKey;
+  label: MessageKey;
+  permission?: Permission;
+  keywords?: string[];
+}
+
+export const PAGE_COMMANDS: PageCommand[] = [
+  { key: 'dashboard', label: 'nav.dashboard', path: '/', keywords: ['home'] },
+  { key: 'users', label: 'nav.users', path: '/users', permission: 'users:read', keywords: ['people', 'students', 'teachers'] },
+  { key: 'roles', label: 'nav.roles', path: '/roles', permission: 'roles:read', keywords: ['permissions'] },
+  { key: 'studios', label: 'nav.studios', path: '/studios', permission: 'studios:read', keywords: ['rooms', 'locations'] },
+  { key: 'schedule', label: 'nav.schedule', path: '/schedule', permission: 'lessons:read', keywords: ['lessons', 'calendar'] },
+  { key: 'audit', label: 'nav.audit', path: '/audit', permission: 'audit:read', keywords: ['history', 'changes'] },
+  { key: 'notifications', label: 'nav.notifications', path: '/notifications', keywords: ['alerts'] },
+];
+
+export const ACTION_COMMANDS: ActionCommand[] = [
+  { key: 'add-user', label: 'commandPalette.addUser', permission: 'users:write', keywords: ['create', 'new'] },
+  { key: 'log-out', label: 'commandPalette.logOut', keywords: ['sign out', 'logout'] },
+];
+
+// Shortest query that searches users and studios
+export const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * Whether every word of the query appears in the text, ignoring case
+ * An empty query matches everything.
+ */
+export function matchesQuery(text: string, query: string): boolean {
+  const haystack = text.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(word => haystack.includes(word));
+}
+
+/**
+ * Commands allowed by the permissions that match the query by label (in the locale) or keywords
+ */
+export function filterCommands<T extends { label: MessageKey; permission?: Permission; keywords?: string[] }>(
+  commands: T[],
+  query: string,
+  permissions: Permission[],
+  locale: SupportedLocale = currentLocale()
+): T[] {
+  return commands.filter(command =>
+    (!command.permission || permissions.includes(command.permission)) &&
+    matchesQuery([translate(locale, command.label), ...(command.keywords ?? [])].join(' '), query)
+  );
+}
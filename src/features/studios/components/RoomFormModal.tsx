@@ -0,0 +1,141 @@
+/**
+ * RoomFormModal Component
+ *
+ * Create/edit modal for the Rooms tab of the studio detail page
+ * - Create mode: submits CreateRoomRequest (POST /studios/{studioId}/rooms)
+ * - Edit mode: submits UpdateRoomRequest (PUT /studios/{studioId}/rooms/{roomId})
+ */
+
+import React, { useEffect, useState } from 'react';
+import { InputNumber, Modal, Select, message } from 'antd';
+import { Form, FormItem, LabeledInput, useForm } from '@/ui';
+import { roomAPI } from '@/shared/api/room';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { Room, RoomFormData, CreateRoomRequest } from '@/shared/types/room';
+import { ROOM_TYPES, ROOM_STATUS_OPTIONS, EQUIPMENT_SUGGESTIONS, roomTypeLabel, roomStatusLabel } from '../utils/rooms';
+
+interface RoomFormModalProps {
+  /** Whether the modal is visible */
+  open: boolean;
+  /** Studio the room belongs to */
+  studioId: string;
+  /** Room to edit - omit (or null) to create a new room */
+  room?: Room | null;
+  /** Callback when the modal is closed without saving */
+  onClose: () => void;
+  /** Callback after the room has been saved successfully */
+  onSuccess: () => void;
+}
+
+export const RoomFormModal: React.FC<RoomFormModalProps> = ({
+  open,
+  studioId,
+  room,
+  onClose,
+  onSuccess,
+}) => {
+  const { t, locale } = useTranslation();
+  const [form] = useForm<RoomFormData>();
+  const [submitting, setSubmitting] = useState(false);
+
+  const isEditMode = Boolean(room);
+
+  // Fill the form with the room being edited
+  useEffect(() => {
+    if (!open) return;
+    form.setFieldsValue({
+      name: room?.name ?? '',
+      type: room?.type ?? 'lesson',
+      capacity: room?.capacity ?? 1,
+      equipment: room?.equipment ?? [],
+      status: room?.status ?? 'open',
+      note: room?.note ?? undefined,
+    });
+  }, [open, room, form]);
+
+  /**
+   * Handle form submission - create or update the room
+   */
+  const handleSubmit = async (values: RoomFormData) => {
+    setSubmitting(true);
+
+    try {
+      const payload: CreateRoomRequest = {
+        name: values.name.trim(),
+        type: values.type,
+        capacity: values.capacity,
+        equipment: values.equipment ?? [],
+        status: values.status,
+        note: values.note?.trim() || undefined,
+      };
+
+      if (room) {
+        await roomAPI.updateRoom(studioId, room.id, payload);
+        message.success(t('rooms.updated', { name: payload.name }));
+      } else {
+        await roomAPI.createRoom(studioId, payload);
+        message.success(t('rooms.created', { name: payload.name }));
+      }
+
+      onSuccess();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('rooms.saveFailed');
+      message.error(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={isEditMode ? t('rooms.editTitle') : t('rooms.add')}
+      open={open}
+      okText={isEditMode ? t('common.saveChanges') : t('rooms.create')}
+      confirmLoading={submitting}
+      onOk={() => form.submit()}
+      onCancel={onClose}
+      maskClosable={!submitting}
+      destroyOnHidden
+    >
+      <Form
+        form={form}
+        onFinish={handleSubmit}
+        disabled={submitting}
+      >
+        <LabeledInput
+          name="name"
+          label={t('rooms.field.name')}
+          required
+          placeholder={t('rooms.namePlaceholder')}
+          rules={[{ whitespace: true, message: t('studios.form.nameBlank') }]}
+        />
+
+        <FormItem name="type" label={t('rooms.field.type')} rules={[{ required: true, message: t('rooms.typeRequired') }]}>
+          <Select options={ROOM_TYPES.map(type => ({ value: type, label: roomTypeLabel(type, locale) }))} />
+        </FormItem>
+
+        <FormItem name="capacity" label={t('rooms.field.capacity')} rules={[{ required: true, message: t('rooms.capacityRequired') }]}>
+          <InputNumber min={1} max={100} precision={0} style={{ width: '100%' }} />
+        </FormItem>
+
+        <FormItem name="equipment" label={t('rooms.field.equipment')}>
+          <Select
+            mode="tags"
+            placeholder={t('rooms.equipmentPlaceholder')}
+            options={EQUIPMENT_SUGGESTIONS.map(item => ({ value: item, label: item }))}
+          />
+        </FormItem>
+
+        <FormItem name="status" label={t('common.status')} rules={[{ required: true, message: t('rooms.statusRequired') }]}>
+          <Select options={ROOM_STATUS_OPTIONS.map(({ value }) => ({ value, label: roomStatusLabel(value, locale) }))} />
+        </FormItem>
+
+        <LabeledInput
+          name="note"
+          label={t('rooms.field.note')}
+          type="textarea"
+        />
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Table, Button, Space, Tag } from 'antd';
+import { EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import type { Room, RoomStatus, RoomType } from '@/shared/types/room';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { roomTypeLabel, roomStatusLabel, roomStatusColor } from '../utils/rooms';
+
+interface RoomTableProps {
+  rooms: Room[];
+  loading?: boolean;
+  onEdit: (room: Room) => void;
+  /** Request a delete - the caller is responsible for confirmation */
+  onDelete: (room: Room) => void;
+  /** Disable the row actions (e.g. without the studios:write permission) */
+  readOnly?: boolean;
+}
+
+export const RoomTable: React.FC<RoomTableProps> = ({
+  rooms,
+  loading = false,
+  onEdit,
+  onDelete,
+  readOnly = false,
+}) => {
+  const { t, locale } = useTranslation();
+  const columns: ColumnsType<Room> = [
+    {
+      title: t('rooms.field.name'),
+      dataIndex: 'name',
+      key: 'name',
+      width: 180,
+    },
+    {
+      title: t('rooms.field.type'),
+      dataIndex: 'type',
+      key: 'type',
+      width: 140,
+      render: (type: RoomType) => roomTypeLabel(type, locale),
+    },
+    {
+      title: t('rooms.field.capacity'),
+      dataIndex: 'capacity',
+      key: 'capacity',
+      width: 100,
+    },
+    {
+      title: t('rooms.field.equipment'),
+      dataIndex: 'equipment',
+      key: 'equipment',
+      render: (equipment: string[]) =>
+        equipment.length > 0
+          ? equipment.map(item => <Tag key={item}>{item}</Tag>)
+          : '-',
+    },
+    {
+      title: t('common.status'),
+      dataIndex: 'status',
+      key: 'status',
+      width: 160,
+      render: (status: RoomStatus) => (
+        <Tag color={roomStatusColor(status)}>{roomStatusLabel(status, locale)}</Tag>
+      ),
+    },
+    {
+      title: t('common.actions'),
+      key: 'actions',
+      width: 170,
+      render: (_, room: Room) => (
+        <Space size="small">
+          <Button
+            type="primary"
+            size="small"
+            icon={<EditOutlined />}
+            onClick={() => onEdit(room)}
+            disabled={readOnly}
+          >
+            {t('common.edit')}
+          </Button>
+          <Button
+            danger
+            size="small"
+            icon={<DeleteOutlined />}
+            onClick={() => onDelete(room)}
+            disabled={readOnly}
+          >
+            {t('common.delete')}
+          </Button>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Table<Room>
+      columns={columns}
+      dataSource={rooms}
+      rowKey="id"
+      loading={loading}
+      pagination={false}
+      scroll={{ x: 800 }}
+      size="middle"
+      locale={{ emptyText: t('rooms.empty') }}
+    />
+  );
+};
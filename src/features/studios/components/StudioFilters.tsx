@@ -0,0 +1,139 @@
+/**
+ * StudioFilters Component
+ * 
+ * Filter/search form for the Studios list page
+ */
+
+import React, { useState } from 'react';
+import { Button, Input, Row, Col, Form, Space } from 'antd';
+import { SearchOutlined, ClearOutlined } from '@ant-design/icons';
+import { CountrySelect, ProvinceSelect } from '@/ui';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { StudioListParams } from '@/shared/types/studio';
+
+interface StudioFiltersProps {
+  /** Callback when filters are applied - page and size are set by the page */
+  onFilter: (filters: Omit<StudioListParams, 'page' | 'size'>) => void;
+  /** Loading state during API calls */
+  loading?: boolean;
+}
+
+/**
+ * Studio filter form component
+ * 
+ * Provides filtering for:
+ * - Name (text input)
+ * - Country (dropdown)
+ * - Province (dropdown, dependent on country)
+ */
+export const StudioFilters: React.FC<StudioFiltersProps> = ({
+  onFilter,
+  loading = false,
+}) => {
+  const { t } = useTranslation();
+  const [form] = Form.useForm();
+  const [selectedCountry, setSelectedCountry] = useState<string | undefined>();
+
+  /**
+   * Handle form submission - apply filters, dropping empty values
+   */
+  const handleSubmit = (values: Omit<StudioListParams, 'page' | 'size'>) => {
+    onFilter({
+      name: values.name?.trim() || undefined,
+      countryId: values.countryId || undefined,
+      provinceId: values.provinceId || undefined,
+    });
+  };
+
+  /**
+   * Handle form reset - clear all filters
+   */
+  const handleReset = () => {
+    form.resetFields();
+    setSelectedCountry(undefined);
+    onFilter({});
+  };
+
+  /**
+   * Handle country change - clear province since it depends on country
+   */
+  const handleCountryChange = (countryId: string) => {
+    setSelectedCountry(countryId);
+    form.setFieldValue('provinceId', undefined);
+  };
+
+  return (
+    <div style={{ 
+      background: '#fafafa', 
+      padding: '16px', 
+      borderRadius: '8px',
+      marginBottom: '16px' 
+    }}>
+      <Form
+        form={form}
+        layout="vertical"
+        onFinish={handleSubmit}
+      >
+        <Row gutter={16}>
+          {/* Name Filter */}
+          <Col xs={24} sm={12} md={8} lg={6}>
+            <Form.Item label={t('studios.field.name')} name="name">
+              <Input
+                placeholder={t('studios.namePlaceholder')}
+                allowClear
+                disabled={loading}
+              />
+            </Form.Item>
+          </Col>
+
+          {/* Country Filter */}
+          <Col xs={24} sm={12} md={8} lg={6}>
+            <Form.Item label={t('studios.field.country')} name="countryId">
+              <CountrySelect
+                placeholder={t('userFilters.countryPlaceholder')}
+                allowClear
+                onChange={handleCountryChange}
+                disabled={loading}
+              />
+            </Form.Item>
+          </Col>
+
+          {/* Province Filter */}
+          <Col xs={24} sm={12} md={8} lg={6}>
+            <Form.Item label={t('studios.field.province')} name="provinceId">
+              <ProvinceSelect
+                placeholder={t('userFilters.provincePlaceholder')}
+                allowClear
+                country={selectedCountry}
+                disabled={loading || !selectedCountry}
+              />
+            </Form.Item>
+          </Col>
+
+          {/* Action Buttons */}
+          <Col xs={24} sm={12} md={8} lg={6}>
+            <Form.Item label=" " style={{ marginBottom: 0 }}>
+              <Space>
+                <Button
+                  type="primary"
+                  htmlType="submit"
+                  icon={<SearchOutlined />}
+                  loading={loading}
+                >
+                  {t('userFilters.search')}
+                </Button>
+                <Button
+                  icon={<ClearOutlined />}
+                  onClick={handleReset}
+                  disabled={loading}
+                >
+                  {t('userFilters.reset')}
+                </Button>
+              </Space>
+            </Form.Item>
+          </Col>
+        </Row>
+      </Form>
+    </div>
+  );
+};
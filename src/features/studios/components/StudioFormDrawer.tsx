@@ -0,0 +1,260 @@
+/**
+ * StudioFormDrawer Component
+ *
+ * Create/edit drawer for the Studios list page
+ * - Create mode: empty form, submits CreateStudioRequest (POST /studios)
+ * - Edit mode: loads the studio with getStudioById, submits UpdateStudioRequest (PUT /studios/{id})
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Drawer, Spin, Alert, Form as AntForm, message } from 'antd';
+import {
+  Form,
+  FormItem,
+  LabeledInput,
+  FormActions,
+  CascadingCountryProvinceSelect,
+  Button,
+  useForm,
+} from '@/ui';
+import { studioAPI } from '@/shared/api/studio';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { CreateStudioRequest, StudioFormData } from '@/shared/types/studio';
+import { StudioOpeningHoursInput } from './StudioOpeningHoursInput';
+import { validateOpeningHours } from '../utils/openingHours';
+
+interface StudioFormDrawerProps {
+  /** Whether the drawer is visible */
+  open: boolean;
+  /** ID of the studio to edit - omit (or null) to create a new studio */
+  studioId?: string | null;
+  /** Callback when the drawer is closed without saving */
+  onClose: () => void;
+  /** Callback after the studio has been saved successfully */
+  onSuccess: () => void;
+}
+
+/**
+ * Convert form values to the request payload
+ * Trims text fields and omits empty optional fields
+ */
+function toStudioRequest(values: StudioFormData): CreateStudioRequest {
+  return {
+    name: values.name.trim(),
+    countryId: values.countryId,
+    provinceId: values.provinceId,
+    address: values.address.trim(),
+    phone: values.phone?.trim() || undefined,
+    openingHours: values.openingHours ?? [],
+    note: values.note?.trim() || undefined,
+  };
+}
+
+/**
+ * Keep the hidden location inputs controlled while the value is unset
+ */
+const hiddenValueProps = (value?: string) => ({ value: value ?? '' });
+
+/**
+ * Studio create/edit drawer
+ */
+export const StudioFormDrawer: React.FC<StudioFormDrawerProps> = ({
+  open,
+  studioId,
+  onClose,
+  onSuccess,
+}) => {
+  const { t } = useTranslation();
+  const [form] = useForm<StudioFormData>();
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const isEditMode = Boolean(studioId);
+  const countryId = AntForm.useWatch('countryId', form);
+  const provinceId = AntForm.useWatch('provinceId', form);
+
+  // Load the studio record when opening in edit mode
+  useEffect(() => {
+    if (!open || !studioId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadStudio = async () => {
+      setLoading(true);
+      setLoadError(null);
+
+      try {
+        const response = await studioAPI.getStudioById(studioId);
+        if (cancelled) return;
+
+        const studio = response.data;
+        form.setFieldsValue({
+          name: studio.name,
+          countryId: studio.countryId,
+          provinceId: studio.provinceId,
+          address: studio.address,
+          phone: studio.phone ?? undefined,
+          openingHours: studio.openingHours,
+          note: studio.note ?? undefined,
+        });
+      } catch (error) {
+        if (cancelled) return;
+        const errorMessage = error instanceof Error ? error.message : t('studios.form.loadFailed');
+        setLoadError(errorMessage);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadStudio();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, studioId, form, t]);
+
+  /**
+   * Handle form submission - create or update the studio
+   */
+  const handleSubmit = async (values: StudioFormData) => {
+    setSubmitting(true);
+
+    try {
+      const payload = toStudioRequest(values);
+
+      if (studioId) {
+        await studioAPI.updateStudio(studioId, payload);
+        message.success(t('studios.form.updated', { name: payload.name }));
+      } else {
+        await studioAPI.createStudio(payload);
+        message.success(t('studios.form.created', { name: payload.name }));
+      }
+
+      onSuccess();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('studios.form.saveFailed');
+      message.error(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle country change - clear province since it depends on country
+   */
+  const handleCountryChange = (value: string) => {
+    form.setFieldsValue({ countryId: value || undefined, provinceId: undefined });
+  };
+
+  const handleProvinceChange = (value: string) => {
+    form.setFieldsValue({ provinceId: value || undefined });
+  };
+
+  return (
+    <Drawer
+      title={isEditMode ? t('studios.form.editTitle') : t('studios.add')}
+      open={open}
+      onClose={onClose}
+      width={560}
+      destroyOnHidden
+      maskClosable={!submitting}
+    >
+      {loadError && (
+        <Alert
+          message={t('studios.form.loadError')}
+          description={loadError}
+          type="error"
+          showIcon
+          style={{ marginBottom: '16px' }}
+        />
+      )}
+
+      <Spin spinning={loading} tip={t('studios.form.loading')}>
+        <Form
+          form={form}
+          onFinish={handleSubmit}
+          disabled={submitting}
+          hidden={Boolean(loadError)}
+          initialValues={{ openingHours: [] }}
+        >
+          <LabeledInput
+            name="name"
+            label={t('studios.field.name')}
+            required
+            rules={[{ whitespace: true, message: t('studios.form.nameBlank') }]}
+          />
+
+          <FormItem label={t('studios.field.location')} required>
+            <CascadingCountryProvinceSelect
+              countryValue={countryId}
+              provinceValue={provinceId}
+              onCountryChange={handleCountryChange}
+              onProvinceChange={handleProvinceChange}
+            />
+            <FormItem
+              name="countryId"
+              noStyle
+              getValueProps={hiddenValueProps}
+              rules={[{ required: true, message: t('users.form.countryRequired') }]}
+            >
+              <input type="hidden" />
+            </FormItem>
+            <FormItem
+              name="provinceId"
+              noStyle
+              getValueProps={hiddenValueProps}
+              rules={[{ required: true, message: t('users.form.provinceRequired') }]}
+            >
+              <input type="hidden" />
+            </FormItem>
+          </FormItem>
+
+          <LabeledInput
+            name="address"
+            label={t('studios.field.address')}
+            required
+            rules={[{ whitespace: true, message: t('studios.form.addressBlank') }]}
+          />
+
+          <LabeledInput
+            name="phone"
+            label={t('studios.field.phone')}
+          />
+
+          <FormItem
+            name="openingHours"
+            label={t('studios.field.openingHours')}
+            rules={[{
+              validator: (_, value) => {
+                const error = validateOpeningHours(value ?? []);
+                return error ? Promise.reject(new Error(error)) : Promise.resolve();
+              },
+            }]}
+          >
+            <StudioOpeningHoursInput />
+          </FormItem>
+
+          <LabeledInput
+            name="note"
+            label={t('studios.field.note')}
+            type="textarea"
+          />
+
+          <FormActions align="right">
+            <Button onClick={onClose}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant="primary" htmlType="submit" loading={submitting}>
+              {isEditMode ? t('common.saveChanges') : t('studios.form.create')}
+            </Button>
+          </FormActions>
+        </Form>
+      </Spin>
+    </Drawer>
+  );
+};
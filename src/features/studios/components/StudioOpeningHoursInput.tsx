@@ -0,0 +1,84 @@
+/**
+ * StudioOpeningHoursInput Component
+ *
+ * Weekly opening hours editor used inside a Form.Item
+ * - One row per weekday with an Open checkbox and opening/closing times
+ * - Value is the list of open days (closed days have no entry)
+ */
+
+import React from 'react';
+import { Checkbox, Select, Space } from 'antd';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { localizeWeekday } from '@/shared/i18n';
+import type { StudioOpeningHours, Weekday } from '@/shared/types/studio';
+import { WEEKDAYS, TIME_OPTIONS, DEFAULT_OPENING_HOURS, sortOpeningHours } from '../utils/openingHours';
+
+interface StudioOpeningHoursInputProps {
+  /** Opening hours of the open days (injected by Form.Item) */
+  value?: StudioOpeningHours[];
+  /** Change handler (injected by Form.Item) */
+  onChange?: (value: StudioOpeningHours[]) => void;
+  disabled?: boolean;
+}
+
+export const StudioOpeningHoursInput: React.FC<StudioOpeningHoursInputProps> = ({
+  value = [],
+  onChange,
+  disabled = false,
+}) => {
+  const { t, locale } = useTranslation();
+  const hoursByDay = new Map(value.map(hours => [hours.day, hours]));
+
+  const handleToggle = (day: Weekday, open: boolean) => {
+    const others = value.filter(hours => hours.day !== day);
+    onChange?.(sortOpeningHours(open ? [...others, { day, ...DEFAULT_OPENING_HOURS }] : others));
+  };
+
+  const handleTimeChange = (day: Weekday, field: 'open' | 'close', time: string) => {
+    onChange?.(value.map(hours => (hours.day === day ? { ...hours, [field]: time } : hours)));
+  };
+
+  return (
+    <Space direction="vertical" size="small" style={{ width: '100%' }}>
+      {WEEKDAYS.map(day => {
+        const label = localizeWeekday(locale, day);
+        const hours = hoursByDay.get(day);
+        return (
+          <div key={day} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <Checkbox
+              checked={Boolean(hours)}
+              onChange={(event) => handleToggle(day, event.target.checked)}
+              disabled={disabled}
+              style={{ width: '120px' }}
+            >
+              {label}
+            </Checkbox>
+            {hours ? (
+              <>
+                <Select
+                  aria-label={t('openingHours.openingTime', { day: label })}
+                  value={hours.open}
+                  options={TIME_OPTIONS}
+                  onChange={(time: string) => handleTimeChange(day, 'open', time)}
+                  disabled={disabled}
+                  style={{ width: '100px' }}
+                />
+                <span>–</span>
+                <Select
+                  aria-label={t('openingHours.closingTime', { day: label })}
+                  value={hours.close}
+                  options={TIME_OPTIONS}
+                  onChange={(time: string) => handleTimeChange(day, 'close', time)}
+                  disabled={disabled}
+                  style={{ width: '100px' }}
+                />
+              </>
+            ) : (
+              <span style={{ color: '#8c8c8c' }}>{t('openingHours.closed')}</span>
+            )}
+          </div>
+        );
+      })}
+    </Space>
+  );
+};
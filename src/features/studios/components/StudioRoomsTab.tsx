@@ -0,0 +1,144 @@
+/**
+ * StudioRoomsTab Component
+ *
+ * Rooms tab of the studio detail page - lists the studio's rooms
+ * and provides add, edit and delete
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Alert, message } from 'antd';
+import { PlusOutlined } from '@ant-design/icons';
+import { Button, ConfirmModal } from '@/ui';
+import { roomAPI } from '@/shared/api/room';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { Room } from '@/shared/types/room';
+import { RoomTable } from './RoomTable';
+import { RoomFormModal } from './RoomFormModal';
+
+interface StudioRoomsTabProps {
+  studioId: string;
+  /** Hide add and disable edit/delete (e.g. without the studios:write permission) */
+  readOnly?: boolean;
+}
+
+interface RoomModalState {
+  open: boolean;
+  room: Room | null; // null when creating a new room
+}
+
+export const StudioRoomsTab: React.FC<StudioRoomsTabProps> = ({
+  studioId,
+  readOnly = false,
+}) => {
+  const { t } = useTranslation();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [modal, setModal] = useState<RoomModalState>({ open: false, room: null });
+  const [pendingDelete, setPendingDelete] = useState<Room | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  // Fetch the studio's rooms
+  const fetchRooms = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await roomAPI.listRooms(studioId);
+      setRooms(response.data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('rooms.loadFailed');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [studioId, t]);
+
+  useEffect(() => {
+    fetchRooms();
+  }, [fetchRooms]);
+
+  // Handle successful create/update - close modal and refresh the list
+  const handleModalSuccess = useCallback(() => {
+    setModal(prev => ({ ...prev, open: false }));
+    fetchRooms();
+  }, [fetchRooms]);
+
+  // Handle delete confirmation - delete and refresh the list
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!pendingDelete) return;
+
+    setDeleting(true);
+    try {
+      await roomAPI.deleteRoom(studioId, pendingDelete.id);
+      message.success(t('rooms.deleted', { name: pendingDelete.name }));
+      setPendingDelete(null);
+      fetchRooms();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('rooms.deleteFailed');
+      message.error(errorMessage);
+    } finally {
+      setDeleting(false);
+    }
+  }, [studioId, pendingDelete, fetchRooms, t]);
+
+  return (
+    <>
+      {!readOnly && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '16px' }}>
+          <Button
+            variant="primary"
+            icon={<PlusOutlined />}
+            onClick={() => setModal({ open: true, room: null })}
+          >
+            {t('rooms.add')}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <Alert
+          message={t('rooms.loadError')}
+          description={error}
+          type="error"
+          showIcon
+          style={{ marginBottom: '16px' }}
+          action={
+            <Button size="small" onClick={fetchRooms}>
+              {t('common.retry')}
+            </Button>
+          }
+        />
+      )}
+
+      <RoomTable
+        rooms={rooms}
+        loading={loading}
+        onEdit={(room) => setModal({ open: true, room })}
+        onDelete={setPendingDelete}
+        readOnly={readOnly}
+      />
+
+      {/* Create/Edit Room */}
+      <RoomFormModal
+        open={modal.open}
+        studioId={studioId}
+        room={modal.room}
+        onClose={() => setModal(prev => ({ ...prev, open: false }))}
+        onSuccess={handleModalSuccess}
+      />
+
+      {/* Delete Confirmation */}
+      <ConfirmModal
+        open={Boolean(pendingDelete)}
+        title={t('rooms.deleteTitle')}
+        okText={t('common.delete')}
+        okButtonProps={{ danger: true, loading: deleting }}
+        onOk={handleDeleteConfirm}
+        onCancel={() => setPendingDelete(null)}
+      >
+        {t('rooms.deleteMessage', { name: pendingDelete?.name ?? '' })}
+      </ConfirmModal>
+    </>
+  );
+};
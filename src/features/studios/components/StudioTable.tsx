@@ -0,0 +1,127 @@
+import React from 'react';
+import { Table, Button, Space } from 'antd';
+import { EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { ClickableNameColumn, type TableRowLink } from '@/ui/Table';
+import type { StudioListItem } from '@/shared/types/studio';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+
+interface StudioTableProps {
+  studios: StudioListItem[];
+  loading?: boolean;
+  onEdit: (studio: StudioListItem) => void;
+  /** Link to the studio detail page - renders names as links when provided */
+  getDetailLink?: (studioId: string) => TableRowLink;
+  /** Request a delete - the caller is responsible for confirmation */
+  onDelete?: (studio: StudioListItem) => void;
+  /** Disable the row actions (e.g. without the studios:write permission) */
+  readOnly?: boolean;
+  pagination?: {
+    current: number;
+    total: number;
+    pageSize: number;
+    onChange: (page: number, pageSize?: number) => void;
+  };
+}
+
+export const StudioTable: React.FC<StudioTableProps> = ({
+  studios,
+  loading = false,
+  onEdit,
+  getDetailLink,
+  onDelete,
+  readOnly = false,
+  pagination,
+}) => {
+  const { t } = useTranslation();
+  const columns: ColumnsType<StudioListItem> = [
+    {
+      title: t('studios.field.name'),
+      dataIndex: 'name',
+      key: 'name',
+      width: 200,
+      render: (name: string, record: StudioListItem) =>
+        getDetailLink
+          ? ClickableNameColumn.render(name, getDetailLink(record.id))
+          : name,
+    },
+    {
+      title: t('studios.field.address'),
+      dataIndex: 'address',
+      key: 'address',
+      ellipsis: true,
+    },
+    {
+      title: t('studios.field.country'),
+      dataIndex: 'country',
+      key: 'country',
+      width: 140,
+      render: (country: string) => country || '-',
+    },
+    {
+      title: t('studios.field.province'),
+      dataIndex: 'province',
+      key: 'province',
+      width: 140,
+      render: (province: string) => province || '-',
+    },
+    {
+      title: t('studios.field.phone'),
+      dataIndex: 'phone',
+      key: 'phone',
+      width: 150,
+      render: (phone: string | null) => phone || '-',
+    },
+    {
+      title: t('common.actions'),
+      key: 'actions',
+      width: 170,
+      fixed: 'right',
+      render: (_, record: StudioListItem) => (
+        <Space size="small">
+          <Button
+            type="primary"
+            size="small"
+            icon={<EditOutlined />}
+            onClick={() => onEdit(record)}
+            disabled={readOnly}
+          >
+            {t('common.edit')}
+          </Button>
+          {onDelete && (
+            <Button
+              danger
+              size="small"
+              icon={<DeleteOutlined />}
+              onClick={() => onDelete(record)}
+              disabled={readOnly}
+            >
+              {t('common.delete')}
+            </Button>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={studios}
+      loading={loading}
+      rowKey="id"
+      pagination={pagination ? {
+        current: pagination.current,
+        total: pagination.total,
+        pageSize: pagination.pageSize,
+        showSizeChanger: true,
+        showQuickJumper: true,
+        showTotal: (total, range) => t('table.totalStudios', { start: range[0], end: range[1], count: total }),
+        onChange: pagination.onChange,
+      } : false}
+      scroll={{ x: 900 }}
+      size="middle"
+      locale={{ emptyText: t('studios.empty') }}
+    />
+  );
+};
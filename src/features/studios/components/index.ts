@@ -0,0 +1,11 @@
+/**
+ * Studio Components Exports
+ */
+
+export { StudioFilters } from './StudioFilters';
+export { StudioTable } from './StudioTable';
+export { StudioFormDrawer } from './StudioFormDrawer';
+export { StudioOpeningHoursInput } from './StudioOpeningHoursInput';
+export { RoomTable } from './RoomTable';
+export { RoomFormModal } from './RoomFormModal';
+export { StudioRoomsTab } from './StudioRoomsTab';
@@ -0,0 +1,188 @@
+/**
+ * StudioDetailPage
+ *
+ * Studio profile at /studios/:id with two tabs
+ * - Details: address, phone, opening hours and note, with Edit and Delete
+ * - Rooms: the studio's rooms (?tab=rooms)
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Descriptions, Space, Spin, Alert, Tabs, message } from 'antd';
+import { ArrowLeftOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Page } from '@/shared/components/Page';
+import { Button, Card, ConfirmModal } from '@/ui';
+import { studioAPI } from '@/shared/api/studio';
+import { usePermission } from '@/shared/hooks/usePermission';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { StudioFormDrawer, StudioRoomsTab } from '../components';
+import { formatOpeningHours } from '../utils/openingHours';
+import type { Studio } from '@/shared/types/studio';
+
+type StudioTab = 'details' | 'rooms';
+
+export const StudioDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { t, locale } = useTranslation();
+  const canWrite = usePermission('studios:write');
+  // The active tab lives in the URL so links can open the Rooms tab directly
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab: StudioTab = searchParams.get('tab') === 'rooms' ? 'rooms' : 'details';
+
+  const [studio, setStudio] = useState<Studio | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  // Fetch studio data
+  const fetchStudio = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await studioAPI.getStudioById(id);
+      setStudio(response.data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('studios.form.loadFailed');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    fetchStudio();
+  }, [fetchStudio]);
+
+  // Handle successful edit - close drawer and reload the studio
+  const handleEditSuccess = useCallback(() => {
+    setEditOpen(false);
+    fetchStudio();
+  }, [fetchStudio]);
+
+  // Handle delete confirmation - delete and return to the list
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!id) return;
+
+    setDeleting(true);
+    try {
+      await studioAPI.deleteStudio(id);
+      message.success(t('studios.deleted', { name: studio?.name ?? '' }));
+      setDeleteOpen(false);
+      navigate('/studios');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('studios.deleteFailed');
+      message.error(errorMessage);
+    } finally {
+      setDeleting(false);
+    }
+  }, [id, studio, navigate, t]);
+
+  const handleTabChange = (key: string) => {
+    setSearchParams(key === 'rooms' ? { tab: 'rooms' } : {}, { replace: true });
+  };
+
+  const details = (
+    <Spin spinning={loading} tip={t('studios.form.loading')}>
+      <Card hoverable={false}>
+        <Descriptions column={1} bordered size="middle">
+          <Descriptions.Item label={t('studios.field.name')}>{studio?.name || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('studios.field.address')}>{studio?.address || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('studios.field.country')}>{studio?.country || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('studios.field.province')}>{studio?.province || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('studios.field.phone')}>{studio?.phone || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('studios.field.openingHours')}>
+            {studio ? formatOpeningHours(studio.openingHours, locale) : '-'}
+          </Descriptions.Item>
+          <Descriptions.Item label={t('studios.field.note')}>{studio?.note || '-'}</Descriptions.Item>
+        </Descriptions>
+      </Card>
+    </Spin>
+  );
+
+  return (
+    <Page
+      title={studio?.name || t('studios.detail.title')}
+      extra={
+        <Space>
+          <Button
+            icon={<EditOutlined />}
+            onClick={() => setEditOpen(true)}
+            disabled={!studio || !canWrite}
+          >
+            {t('common.edit')}
+          </Button>
+          <Button
+            variant="danger"
+            icon={<DeleteOutlined />}
+            onClick={() => setDeleteOpen(true)}
+            disabled={!studio || !canWrite}
+          >
+            {t('common.delete')}
+          </Button>
+        </Space>
+      }
+    >
+      <div style={{ marginBottom: '16px' }}>
+        <Link to="/studios">
+          <ArrowLeftOutlined /> {t('users.detail.backToList')}
+        </Link>
+      </div>
+
+      {error && (
+        <Alert
+          message={t('studios.form.loadError')}
+          description={error}
+          type="error"
+          showIcon
+          style={{ marginBottom: '16px' }}
+          action={
+            <Button size="small" onClick={fetchStudio}>
+              {t('common.retry')}
+            </Button>
+          }
+        />
+      )}
+
+      {id && !error && (
+        <Tabs
+          activeKey={activeTab}
+          onChange={handleTabChange}
+          items={[
+            { key: 'details', label: t('users.detail.tab.details'), children: details },
+            {
+              key: 'rooms',
+              label: t('studios.detail.tab.rooms'),
+              children: <StudioRoomsTab studioId={id} readOnly={!canWrite} />,
+            },
+          ]}
+        />
+      )}
+
+      {/* Edit Studio Drawer */}
+      <StudioFormDrawer
+        open={editOpen}
+        studioId={id}
+        onClose={() => setEditOpen(false)}
+        onSuccess={handleEditSuccess}
+      />
+
+      {/* Delete Confirmation */}
+      <ConfirmModal
+        open={deleteOpen}
+        title={t('studios.deleteTitle')}
+        okText={t('common.delete')}
+        okButtonProps={{ danger: true, loading: deleting }}
+        onOk={handleDeleteConfirm}
+        onCancel={() => setDeleteOpen(false)}
+      >
+        {t('studios.deleteMessage', { name: studio?.name ?? '' })}
+      </ConfirmModal>
+    </Page>
+  );
+};
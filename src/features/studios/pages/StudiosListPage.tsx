@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Layout, Typography, Button, Space, message, Spin, Alert } from 'antd';
+import { PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import { StudioFilters, StudioTable, StudioFormDrawer } from '../components';
+import { ConfirmModal } from '@/ui';
+import { studioAPI } from '@/shared/api/studio';
+import { usePermission } from '@/shared/hooks/usePermission';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { PaginationMeta } from '@/shared/types/user';
+import type {
+  StudioListItem,
+  StudioListParams,
+  StudioListResponse,
+} from '@/shared/types/studio';
+
+const { Content } = Layout;
+const { Title } = Typography;
+
+const DEFAULT_PAGE_SIZE = 10;
+
+interface StudiosPageState {
+  studios: StudioListItem[];
+  loading: boolean;
+  error: string | null;
+  pagination: PaginationMeta;
+}
+
+interface StudioDrawerState {
+  open: boolean;
+  studioId: string | null; // null when creating a new studio
+}
+
+export const StudiosListPage: React.FC = () => {
+  const { t } = useTranslation();
+  const canWrite = usePermission('studios:write');
+  const [filters, setFilters] = useState<StudioListParams>({ page: 0, size: DEFAULT_PAGE_SIZE });
+  const [state, setState] = useState<StudiosPageState>({
+    studios: [],
+    loading: false,
+    error: null,
+    pagination: {
+      page: 0,
+      size: DEFAULT_PAGE_SIZE,
+      totalItems: 0,
+      totalPages: 0,
+      hasNext: false,
+    },
+  });
+  const [drawer, setDrawer] = useState<StudioDrawerState>({ open: false, studioId: null });
+  const [pendingDelete, setPendingDelete] = useState<StudioListItem | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  // Fetch studios data
+  const fetchStudios = useCallback(async (params: StudioListParams) => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const response: StudioListResponse = await studioAPI.listStudios(params);
+
+      if (response.success && response.data) {
+        setState(prev => ({
+          ...prev,
+          studios: response.data,
+          pagination: response.meta,
+          loading: false,
+        }));
+      } else {
+        throw new Error(t('studios.fetchFailed'));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('studios.fetchFailed');
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: errorMessage,
+      }));
+      message.error(errorMessage);
+    }
+  }, [t]);
+
+  // Load studios whenever filters or paging change
+  useEffect(() => {
+    fetchStudios(filters);
+  }, [filters, fetchStudios]);
+
+  // Handle filter changes
+  const handleFiltersChange = useCallback((newFilters: Omit<StudioListParams, 'page' | 'size'>) => {
+    setFilters(prev => ({
+      ...newFilters,
+      page: 0, // Reset to first page when filters change
+      size: prev.size,
+    }));
+  }, []);
+
+  // Handle pagination changes
+  const handlePaginationChange = useCallback((page: number, pageSize?: number) => {
+    setFilters(prev => ({
+      ...prev,
+      page: page - 1, // Convert from 1-based to 0-based for API
+      size: pageSize || prev.size,
+    }));
+  }, []);
+
+  // Handle studio edit action - open drawer in edit mode
+  const handleEditStudio = useCallback((studio: StudioListItem) => {
+    setDrawer({ open: true, studioId: studio.id });
+  }, []);
+
+  // Studio names link to the detail page
+  const getStudioLink = useCallback((studioId: string) => ({ to: `/studios/${studioId}` }), []);
+
+  // Handle add studio button - open drawer in create mode
+  const handleAddStudio = useCallback(() => {
+    setDrawer({ open: true, studioId: null });
+  }, []);
+
+  // Handle drawer close without saving
+  const handleDrawerClose = useCallback(() => {
+    setDrawer(prev => ({ ...prev, open: false }));
+  }, []);
+
+  // Handle successful create/update - close drawer and refresh the list
+  const handleDrawerSuccess = useCallback(() => {
+    setDrawer(prev => ({ ...prev, open: false }));
+    fetchStudios(filters);
+  }, [fetchStudios, filters]);
+
+  // Handle delete confirmation - delete and refresh the list
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!pendingDelete) return;
+
+    setDeleting(true);
+    try {
+      await studioAPI.deleteStudio(pendingDelete.id);
+      message.success(t('studios.deleted', { name: pendingDelete.name }));
+      setPendingDelete(null);
+      fetchStudios(filters);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('studios.deleteFailed');
+      message.error(errorMessage);
+    } finally {
+      setDeleting(false);
+    }
+  }, [pendingDelete, fetchStudios, filters, t]);
+
+  // Handle retry on error
+  const handleRetry = useCallback(() => {
+    fetchStudios(filters);
+  }, [fetchStudios, filters]);
+
+  return (
+    <Layout style={{ minHeight: '100vh', background: '#f0f2f5' }}>
+      <Content style={{ padding: '24px' }}>
+        <div style={{ background: '#fff', padding: '24px', borderRadius: '8px' }}>
+          {/* Page Header */}
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: '24px',
+            borderBottom: '1px solid #f0f0f0',
+            paddingBottom: '16px',
+          }}>
+            <Title level={2} style={{ margin: 0 }}>
+              {t('studios.title')}
+            </Title>
+            <Space>
+              <Button
+                icon={<ReloadOutlined />}
+                onClick={handleRetry}
+                disabled={state.loading}
+              >
+                {t('common.refresh')}
+              </Button>
+              {canWrite && (
+                <Button
+                  type="primary"
+                  icon={<PlusOutlined />}
+                  onClick={handleAddStudio}
+                  size="large"
+                >
+                  {t('studios.add')}
+                </Button>
+              )}
+            </Space>
+          </div>
+
+          {/* Error Alert */}
+          {state.error && (
+            <Alert
+              message={t('studios.loadError')}
+              description={state.error}
+              type="error"
+              showIcon
+              closable
+              style={{ marginBottom: '16px' }}
+              action={
+                <Button size="small" onClick={handleRetry}>
+                  {t('common.retry')}
+                </Button>
+              }
+              onClose={() => setState(prev => ({ ...prev, error: null }))}
+            />
+          )}
+
+          {/* Filters Section */}
+          <div style={{ marginBottom: '24px' }}>
+            <StudioFilters
+              onFilter={handleFiltersChange}
+              loading={state.loading}
+            />
+          </div>
+
+          {/* Loading Overlay */}
+          <Spin
+            spinning={state.loading}
+            tip={t('studios.loading')}
+            size="large"
+          >
+            {/* Studios Table */}
+            <StudioTable
+              studios={state.studios}
+              loading={state.loading}
+              onEdit={handleEditStudio}
+              getDetailLink={getStudioLink}
+              onDelete={setPendingDelete}
+              readOnly={!canWrite}
+              pagination={{
+                current: state.pagination.page + 1, // Convert to 1-based for display
+                total: state.pagination.totalItems,
+                pageSize: state.pagination.size,
+                onChange: handlePaginationChange,
+              }}
+            />
+          </Spin>
+        </div>
+
+        {/* Create/Edit Studio Drawer */}
+        <StudioFormDrawer
+          open={drawer.open}
+          studioId={drawer.studioId}
+          onClose={handleDrawerClose}
+          onSuccess={handleDrawerSuccess}
+        />
+
+        {/* Delete Confirmation */}
+        <ConfirmModal
+          open={Boolean(pendingDelete)}
+          title={t('studios.deleteTitle')}
+          okText={t('common.delete')}
+          okButtonProps={{ danger: true, loading: deleting }}
+          onOk={handleDeleteConfirm}
+          onCancel={() => setPendingDelete(null)}
+        >
+          {t('studios.deleteMessage', { name: pendingDelete?.name ?? '' })}
+        </ConfirmModal>
+      </Content>
+    </Layout>
+  );
+};
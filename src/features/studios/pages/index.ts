@@ -0,0 +1,2 @@
+export { StudiosListPage } from './StudiosListPage';
+export { StudioDetailPage } from './StudioDetailPage';
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TIME_OPTIONS,
+  sortOpeningHours,
+  validateOpeningHours,
+  formatOpeningHours,
+} from './openingHours';
+
+describe('TIME_OPTIONS', () => {
+  it('should list every half hour of the day', () => {
+    expect(TIME_OPTIONS).toHaveLength(48);
+    expect(TIME_OPTIONS[0].value).toBe('00:00');
+    expect(TIME_OPTIONS[19].value).toBe('09:30');
+    expect(TIME_OPTIONS[47].value).toBe('23:30');
+  });
+});
+
+describe('sortOpeningHours', () => {
+  it('should sort Monday to Sunday', () => {
+    const sorted = sortOpeningHours([
+      { day: 'sunday', open: '09:00', close: '12:00' },
+      { day: 'monday', open: '09:00', close: '12:00' },
+      { day: 'wednesday', open: '09:00', close: '12:00' },
+    ]);
+
+    expect(sorted.map(hours => hours.day)).toEqual(['monday', 'wednesday', 'sunday']);
+  });
+});
+
+describe('validateOpeningHours', () => {
+  it('should accept valid hours and no hours', () => {
+    expect(validateOpeningHours([])).toBeNull();
+    expect(validateOpeningHours([{ day: 'monday', open: '09:00', close: '17:30' }])).toBeNull();
+  });
+
+  it('should reject closing times that are not after opening times', () => {
+    expect(validateOpeningHours([{ day: 'friday', open: '18:00', close: '18:00' }]))
+      .toBe('Closing time must be after opening time on Friday');
+  });
+
+  it('should reject missing times and duplicate days', () => {
+    expect(validateOpeningHours([{ day: 'monday', open: '', close: '17:00' }]))
+      .toBe('Opening and closing times are required on Monday');
+    expect(validateOpeningHours([
+      { day: 'monday', open: '09:00', close: '17:00' },
+      { day: 'monday', open: '18:00', close: '20:00' },
+    ])).toBe('Monday is listed twice');
+  });
+});
+
+describe('formatOpeningHours', () => {
+  it('should group consecutive days with the same hours', () => {
+    expect(formatOpeningHours([
+      { day: 'monday', open: '09:00', close: '21:00' },
+      { day: 'tuesday', open: '09:00', close: '21:00' },
+      { day: 'wednesday', open: '09:00', close: '21:00' },
+      { day: 'saturday', open: '10:00', close: '18:00' },
+    ])).toBe('Mon–Wed 09:00–21:00, Sat 10:00–18:00');
+  });
+
+  it('should not group days that are not consecutive', () => {
+    expect(formatOpeningHours([
+      { day: 'friday', open: '11:00', close: '21:00' },
+      { day: 'monday', open: '11:00', close: '21:00' },
+    ])).toBe('Mon 11:00–21:00, Fri 11:00–21:00');
+  });
+
+  it('should return Closed without opening hours', () => {
+    expect(formatOpeningHours([])).toBe('Closed');
+  });
+});
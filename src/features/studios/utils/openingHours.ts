@@ -0,0 +1,87 @@
+/**
+ * Studio Opening Hours Utilities
+ *
+ * - Weekday and time-slot options for the opening hours editor
+ * - Validation of opening hours before they are sent to the API
+ * - Compact display text (e.g. "Mon–Fri 09:00–21:00, Sat 10:00–18:00")
+ */
+
+import { currentLocale, localizeWeekday, t, translate, type SupportedLocale } from '@/shared/i18n';
+import type { StudioOpeningHours, Weekday } from '@/shared/types/studio';
+
+// Weekdays of the editor, Monday first - names come from localizeWeekday
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Hours used when a closed day is switched to open
+export const DEFAULT_OPENING_HOURS = { open: '09:00', close: '18:00' };
+
+/**
+ * Time options every 30 minutes ('00:00' ... '23:30')
+ */
+export const TIME_OPTIONS: { value: string; label: string }[] = Array.from({ length: 48 }, (_, index) => {
+  const hours = String(Math.floor(index / 2)).padStart(2, '0');
+  const minutes = index % 2 === 0 ? '00' : '30';
+  const time = `${hours}:${minutes}`;
+  return { value: time, label: time };
+});
+
+const weekdayIndex = (day: Weekday) => WEEKDAYS.indexOf(day);
+
+/**
+ * Sort opening hours Monday to Sunday
+ */
+export function sortOpeningHours(hours: StudioOpeningHours[]): StudioOpeningHours[] {
+  return [...hours].sort((a, b) => weekdayIndex(a.day) - weekdayIndex(b.day));
+}
+
+/**
+ * Validate opening hours - returns the first problem, or null when valid
+ */
+export function validateOpeningHours(hours: StudioOpeningHours[]): string | null {
+  const seen = new Set<Weekday>();
+
+  for (const { day, open, close } of sortOpeningHours(hours)) {
+    const label = localizeWeekday(currentLocale(), day);
+    if (seen.has(day)) {
+      return t('openingHours.duplicateDay', { day: label });
+    }
+    seen.add(day);
+    if (!open || !close) {
+      return t('openingHours.timesRequired', { day: label });
+    }
+    if (open >= close) {
+      return t('openingHours.closeBeforeOpen', { day: label });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format opening hours for display in a locale
+ * Consecutive days with the same hours are grouped; returns 'Closed' when empty.
+ */
+export function formatOpeningHours(hours: StudioOpeningHours[], locale: SupportedLocale = currentLocale()): string {
+  const groups: { from: Weekday; to: Weekday; open: string; close: string }[] = [];
+
+  sortOpeningHours(hours).forEach(({ day, open, close }) => {
+    const last = groups[groups.length - 1];
+    if (last && last.open === open && last.close === close && weekdayIndex(day) === weekdayIndex(last.to) + 1) {
+      last.to = day;
+    } else {
+      groups.push({ from: day, to: day, open, close });
+    }
+  });
+
+  if (groups.length === 0) {
+    return translate(locale, 'openingHours.closed');
+  }
+
+  const short = (day: Weekday) => localizeWeekday(locale, day, 'short');
+  return groups
+    .map(({ from, to, open, close }) => {
+      const days = from === to ? short(from) : `${short(from)}–${short(to)}`;
+      return `${days} ${open}–${close}`;
+    })
+    .join(', ');
+}
@@ -0,0 +1,39 @@
+/**
+ * Room Display Utilities
+ *
+ * Labels and options shared by the room table and form
+ */
+
+import { currentLocale, translate, type SupportedLocale } from '@/shared/i18n';
+import type { RoomStatus, RoomType } from '@/shared/types/room';
+
+export const ROOM_TYPES: RoomType[] = ['lesson', 'practice'];
+
+export const ROOM_STATUS_OPTIONS: { value: RoomStatus; color: string }[] = [
+  { value: 'open', color: 'green' },
+  { value: 'maintenance', color: 'orange' },
+];
+
+// Suggestions for the equipment field - any other text can be entered as well
+export const EQUIPMENT_SUGGESTIONS = [
+  'Grand piano',
+  'Upright piano',
+  'Digital piano',
+  'Drum kit',
+  'Amplifier',
+  'Music stand',
+  'Whiteboard',
+  'Recording equipment',
+];
+
+export function roomTypeLabel(type: RoomType, locale: SupportedLocale = currentLocale()): string {
+  return ROOM_TYPES.includes(type) ? translate(locale, `rooms.type.${type}`) : type;
+}
+
+export function roomStatusLabel(status: RoomStatus, locale: SupportedLocale = currentLocale()): string {
+  return ROOM_STATUS_OPTIONS.some(option => option.value === status) ? translate(locale, `rooms.status.${status}`) : status;
+}
+
+export function roomStatusColor(status: RoomStatus): string {
+  return ROOM_STATUS_OPTIONS.find(option => option.value === status)?.color ?? 'default';
+}
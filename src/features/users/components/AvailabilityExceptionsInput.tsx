@@ -0,0 +1,96 @@
+/**
+ * AvailabilityExceptionsInput Component
+ *
+ * Editor for the days a teacher is away (vacation, sick days, ...)
+ * - One row per exception with first and last day, reason and note
+ * - Value is the list of exceptions; existing ones keep their ID
+ */
+
+import React from 'react';
+import { Input, Select, Space } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { Button } from '@/ui';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { AVAILABILITY_EXCEPTION_REASONS, getExceptionReasonLabel } from '@/shared/utils/availability';
+import type { UpdateTeacherAvailabilityRequest } from '@/shared/types/availability';
+import { newException } from '../utils/availability';
+
+type ExceptionDraft = UpdateTeacherAvailabilityRequest['exceptions'][number];
+
+interface AvailabilityExceptionsInputProps {
+  value: ExceptionDraft[];
+  onChange: (value: ExceptionDraft[]) => void;
+  disabled?: boolean;
+}
+
+export const AvailabilityExceptionsInput: React.FC<AvailabilityExceptionsInputProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const { t, locale } = useTranslation();
+  const reasonOptions = AVAILABILITY_EXCEPTION_REASONS.map(reason => ({
+    value: reason,
+    label: getExceptionReasonLabel(reason, locale),
+  }));
+
+  const handleChange = (index: number, changes: Partial<ExceptionDraft>) => {
+    onChange(value.map((exception, exceptionIndex) =>
+      exceptionIndex === index ? { ...exception, ...changes } : exception
+    ));
+  };
+
+  return (
+    <Space direction="vertical" size="small" style={{ width: '100%' }}>
+      {value.length === 0 && <span style={{ color: '#8c8c8c' }}>{t('availability.exceptionsEmpty')}</span>}
+      {value.map((exception, index) => (
+        <div key={exception.id ?? index} style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+          <Input
+            type="date"
+            aria-label={t('availability.firstDay')}
+            value={exception.from}
+            onChange={(event) => handleChange(index, { from: event.target.value })}
+            disabled={disabled}
+            style={{ width: '160px' }}
+          />
+          <span>–</span>
+          <Input
+            type="date"
+            aria-label={t('availability.lastDay')}
+            value={exception.to}
+            onChange={(event) => handleChange(index, { to: event.target.value })}
+            disabled={disabled}
+            style={{ width: '160px' }}
+          />
+          <Select
+            aria-label={t('availability.reason')}
+            value={exception.reason}
+            options={reasonOptions}
+            onChange={(reason: ExceptionDraft['reason']) => handleChange(index, { reason })}
+            disabled={disabled}
+            style={{ width: '120px' }}
+          />
+          <Input
+            aria-label={t('availability.note')}
+            placeholder={t('availability.note')}
+            value={exception.note ?? ''}
+            onChange={(event) => handleChange(index, { note: event.target.value })}
+            disabled={disabled}
+            maxLength={200}
+            style={{ width: '220px' }}
+          />
+          <Button
+            variant="link"
+            icon={<DeleteOutlined />}
+            onClick={() => onChange(value.filter((_, exceptionIndex) => exceptionIndex !== index))}
+            disabled={disabled}
+            aria-label={t('availability.removeException')}
+          />
+        </div>
+      ))}
+      <Button icon={<PlusOutlined />} onClick={() => onChange([...value, newException()])} disabled={disabled}>
+        {t('availability.addException')}
+      </Button>
+    </Space>
+  );
+};
@@ -0,0 +1,158 @@
+/**
+ * StudentAttendanceTab Component
+ *
+ * Attendance tab of a student's profile
+ * - Lessons of the chosen period, newest first, with their attendance
+ * - Counts per attendance status, used for billing and make-up lessons
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Alert, Select, Space, Table, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { Button, Card } from '@/ui';
+import { lessonAPI } from '@/shared/api/lesson';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { addDays, formatTime, startOfDay } from '@/shared/utils/date';
+import {
+  ATTENDANCE_STATUSES,
+  getAttendanceColor,
+  getAttendanceLabel,
+  summarizeAttendance,
+} from '@/shared/utils/attendance';
+import type { Lesson } from '@/shared/types/lesson';
+
+interface StudentAttendanceTabProps {
+  studentId: string;
+}
+
+// Periods of the history, in days
+const PERIODS = [30, 90, 365] as const;
+
+export const StudentAttendanceTab: React.FC<StudentAttendanceTabProps> = ({ studentId }) => {
+  const { t, formatDate, locale } = useTranslation();
+  const [days, setDays] = useState(90);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the lessons of the period that have started
+  const fetchLessons = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await lessonAPI.listLessons({
+        from: addDays(startOfDay(new Date()), -days).toISOString(),
+        to: new Date().toISOString(),
+        studentId,
+      });
+      setLessons([...response.data].reverse());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('attendance.loadFailed');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [studentId, days, t]);
+
+  useEffect(() => {
+    fetchLessons();
+  }, [fetchLessons]);
+
+  const summary = summarizeAttendance(lessons);
+  const periodOptions = PERIODS.map(period => ({ value: period, label: t(`attendance.period.${period}`) }));
+
+  const columns: ColumnsType<Lesson> = [
+    {
+      title: t('attendance.column.date'),
+      key: 'date',
+      width: 140,
+      render: (_, lesson) => formatDate(lesson.start, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      }),
+    },
+    {
+      title: t('attendance.column.time'),
+      key: 'time',
+      width: 120,
+      render: (_, lesson) => `${formatTime(new Date(lesson.start))}–${formatTime(new Date(lesson.end))}`,
+    },
+    {
+      title: t('attendance.column.teacher'),
+      dataIndex: 'teacher',
+      key: 'teacher',
+      width: 160,
+    },
+    {
+      title: t('attendance.column.room'),
+      key: 'room',
+      width: 220,
+      render: (_, lesson) => `${lesson.room}, ${lesson.studio}`,
+    },
+    {
+      title: t('attendance.column.attendance'),
+      key: 'attendance',
+      width: 170,
+      render: (_, lesson) => lesson.attendance
+        ? <Tag color={getAttendanceColor(lesson.attendance.status)}>{getAttendanceLabel(lesson.attendance.status, locale)}</Tag>
+        : <Typography.Text type="secondary">{t('attendance.notRecorded')}</Typography.Text>,
+    },
+    {
+      title: t('attendance.column.note'),
+      key: 'note',
+      render: (_, lesson) => lesson.attendance?.note || '-',
+    },
+  ];
+
+  if (error) {
+    return (
+      <Alert
+        message={t('attendance.loadError')}
+        description={error}
+        type="error"
+        showIcon
+        action={
+          <Button size="small" onClick={fetchLessons}>
+            {t('common.retry')}
+          </Button>
+        }
+      />
+    );
+  }
+
+  return (
+    <Card hoverable={false}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '16px', marginBottom: '16px' }}>
+        <Space wrap>
+          {ATTENDANCE_STATUSES.map(option => (
+            <Tag key={option.value} color={option.color}>
+              {getAttendanceLabel(option.value, locale)}: {summary[option.value]}
+            </Tag>
+          ))}
+          <Tag>{t('attendance.notRecorded')}: {summary.unrecorded}</Tag>
+        </Space>
+        <Select
+          value={days}
+          onChange={setDays}
+          options={periodOptions}
+          style={{ width: 160 }}
+          aria-label={t('attendance.period')}
+        />
+      </div>
+
+      <Table<Lesson>
+        columns={columns}
+        dataSource={lessons}
+        rowKey="id"
+        loading={loading}
+        pagination={{ pageSize: 20, hideOnSinglePage: true }}
+        scroll={{ x: 900 }}
+        size="middle"
+        locale={{ emptyText: t('attendance.empty') }}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,145 @@
+/**
+ * TeacherAvailabilityTab Component
+ *
+ * Availability tab of a teacher's profile
+ * - Weekly recurring availability per studio
+ * - Exceptions such as vacations and sick days
+ * Lessons can only be booked inside the availability unless overridden.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Alert, Space, Spin, Typography, message } from 'antd';
+import { Button, Card } from '@/ui';
+import { availabilityAPI } from '@/shared/api/availability';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { validateAvailability } from '@/shared/utils/availability';
+import type { TeacherAvailability, UpdateTeacherAvailabilityRequest } from '@/shared/types/availability';
+import { toAvailabilityDraft } from '../utils/availability';
+import { WeeklyAvailabilityInput } from './WeeklyAvailabilityInput';
+import { AvailabilityExceptionsInput } from './AvailabilityExceptionsInput';
+
+interface TeacherAvailabilityTabProps {
+  teacherId: string;
+  /** Show the availability without editing (e.g. without the availability:write permission) */
+  readOnly?: boolean;
+}
+
+export const TeacherAvailabilityTab: React.FC<TeacherAvailabilityTabProps> = ({
+  teacherId,
+  readOnly = false,
+}) => {
+  const { t } = useTranslation();
+  const [availability, setAvailability] = useState<TeacherAvailability | null>(null);
+  const [draft, setDraft] = useState<UpdateTeacherAvailabilityRequest>(toAvailabilityDraft(null));
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Fetch the teacher's availability
+  const fetchAvailability = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await availabilityAPI.getAvailability(teacherId);
+      setAvailability(response.data);
+      setDraft(toAvailabilityDraft(response.data));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('availability.loadFailed');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [teacherId, t]);
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [fetchAvailability]);
+
+  const problem = validateAvailability(draft);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(toAvailabilityDraft(availability));
+
+  /**
+   * Save the edited availability
+   */
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await availabilityAPI.updateAvailability(teacherId, draft);
+      setAvailability(response.data);
+      setDraft(toAvailabilityDraft(response.data));
+      message.success(t('availability.saved'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('availability.saveFailed');
+      message.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <Alert
+        message={t('availability.loadError')}
+        description={error}
+        type="error"
+        showIcon
+        action={
+          <Button size="small" onClick={fetchAvailability}>
+            {t('common.retry')}
+          </Button>
+        }
+      />
+    );
+  }
+
+  return (
+    <Spin spinning={loading} tip={t('availability.loading')}>
+      <Card hoverable={false}>
+        <Typography.Title level={5}>{t('availability.weeklyTitle')}</Typography.Title>
+        <Typography.Paragraph type="secondary">
+          {t('availability.weeklyHelp')}
+        </Typography.Paragraph>
+        <WeeklyAvailabilityInput
+          value={draft.weekly}
+          onChange={(weekly) => setDraft(prev => ({ ...prev, weekly }))}
+          disabled={readOnly || saving}
+        />
+
+        <Typography.Title level={5} style={{ marginTop: '24px' }}>{t('availability.exceptionsTitle')}</Typography.Title>
+        <Typography.Paragraph type="secondary">
+          {t('availability.exceptionsHelp')}
+        </Typography.Paragraph>
+        <AvailabilityExceptionsInput
+          value={draft.exceptions}
+          onChange={(exceptions) => setDraft(prev => ({ ...prev, exceptions }))}
+          disabled={readOnly || saving}
+        />
+
+        {!readOnly && (
+          <>
+            {dirty && problem && (
+              <Alert type="warning" showIcon message={problem} style={{ marginTop: '16px' }} />
+            )}
+            <Space style={{ marginTop: '16px' }}>
+              <Button
+                onClick={() => setDraft(toAvailabilityDraft(availability))}
+                disabled={!dirty || saving}
+              >
+                {t('availability.reset')}
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSave}
+                loading={saving}
+                disabled={!dirty || Boolean(problem)}
+              >
+                {t('availability.save')}
+              </Button>
+            </Space>
+          </>
+        )}
+      </Card>
+    </Spin>
+  );
+};
@@ -0,0 +1,134 @@
+/**
+ * UserActivityTab Test Suite
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, waitFor, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { http, HttpResponse } from 'msw';
+import { server } from '@/test-setup';
+import type { UserActivity, UserActivityListResponse } from '@/shared/types/activity';
+import { UserActivityTab } from './UserActivityTab';
+
+const USER_A = '01234567890123456789012345';
+const USER_B = '01234567890123456789012346';
+
+// Page of activity whose summaries name the user and page
+const activityPage = (userId: string, page: number, hasNext: boolean): UserActivityListResponse => {
+  const entry: UserActivity = {
+    id: `${userId}-${page}`,
+    type: 'login',
+    occurredAt: '2024-06-01T10:00:00Z',
+    summary: `Sign-in ${userId.slice(-1)} page ${page}`,
+    actor: null,
+    requestId: null,
+  };
+  return {
+    success: true,
+    requestId: 'req_test',
+    data: [entry],
+    meta: { page, size: 20, totalItems: hasNext ? 40 : 20, totalPages: hasNext ? page + 2 : page + 1, hasNext },
+    error: null,
+  };
+};
+
+// Serves two pages per user and records the requested pages
+const serveActivity = (requests: string[] = []) => {
+  server.use(
+    http.get('*/api/users/:id/activity', ({ params, request }) => {
+      const page = Number(new URL(request.url).searchParams.get('page')) || 0;
+      requests.push(`${params.id}:${page}`);
+      return HttpResponse.json(activityPage(String(params.id), page, page === 0));
+    })
+  );
+  return requests;
+};
+
+describe('UserActivityTab', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should show the first page and append the next one', async () => {
+    serveActivity();
+    const user = userEvent.setup();
+    render(<UserActivityTab userId={USER_A} />);
+
+    expect(await screen.findByText('Sign-in 5 page 0')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /load more/i }));
+
+    expect(await screen.findByText('Sign-in 5 page 1')).toBeInTheDocument();
+    expect(screen.getByText('Sign-in 5 page 0')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /load more/i })).not.toBeInTheDocument();
+  });
+
+  it('should drop a late page of the previous user', async () => {
+    let releaseUserA: () => void = () => {};
+    const userAReleased = new Promise<void>(resolve => {
+      releaseUserA = resolve;
+    });
+    server.use(
+      http.get('*/api/users/:id/activity', async ({ params }) => {
+        if (params.id === USER_A) {
+          await userAReleased;
+        }
+        return HttpResponse.json(activityPage(String(params.id), 0, false));
+      })
+    );
+    const { rerender } = render(<UserActivityTab userId={USER_A} />);
+
+    rerender(<UserActivityTab userId={USER_B} />);
+    expect(await screen.findByText('Sign-in 6 page 0')).toBeInTheDocument();
+
+    releaseUserA();
+    // Let the late response of user A arrive
+    await act(() => new Promise(resolve => setTimeout(resolve, 50)));
+
+    expect(screen.queryByText('Sign-in 5 page 0')).not.toBeInTheDocument();
+    expect(screen.getByText('Sign-in 6 page 0')).toBeInTheDocument();
+  });
+
+  it('should not request a page that is already loading', async () => {
+    // Keep the observer callback so the end of the timeline can be "scrolled" into view
+    let onIntersect: IntersectionObserverCallback = () => {};
+    vi.stubGlobal('IntersectionObserver', class {
+      constructor(callback: IntersectionObserverCallback) {
+        onIntersect = callback;
+      }
+      observe() {}
+      disconnect() {}
+    });
+    const requests = serveActivity();
+    render(<UserActivityTab userId={USER_A} />);
+    await screen.findByText('Sign-in 5 page 0');
+
+    const entries = [{ isIntersecting: true }] as IntersectionObserverEntry[];
+    act(() => {
+      onIntersect(entries, {} as IntersectionObserver);
+      onIntersect(entries, {} as IntersectionObserver);
+    });
+
+    expect(await screen.findByText('Sign-in 5 page 1')).toBeInTheDocument();
+    expect(requests.filter(item => item === `${USER_A}:1`)).toHaveLength(1);
+  });
+
+  it('should retry a page that failed to load', async () => {
+    serveActivity();
+    server.use(
+      http.get('*/api/users/:id/activity', () => HttpResponse.json(
+        { success: false, requestId: 'req_test', data: null, meta: null, error: { status: 404, code: 'USER_NOT_FOUND', message: 'User not found' } },
+        { status: 404 }
+      ), { once: true })
+    );
+    const user = userEvent.setup();
+    render(<UserActivityTab userId={USER_A} />);
+
+    expect(await screen.findByText('Error Loading Activity')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /retry/i }));
+
+    expect(await screen.findByText('Sign-in 5 page 0')).toBeInTheDocument();
+    await waitFor(() => expect(screen.queryByText('Error Loading Activity')).not.toBeInTheDocument());
+  });
+});
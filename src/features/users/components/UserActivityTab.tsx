@@ -0,0 +1,158 @@
+/**
+ * UserActivityTab Component
+ *
+ * Activity tab of a user's profile - what happened to the account, newest first
+ * - Account creation, role changes, profile edits, soft delete and restore
+ * - Sign-ins and attended lessons
+ * - Loads the next page when the end of the timeline scrolls into view
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Alert, Empty, Spin, Tag, Timeline, Typography } from 'antd';
+import { Button, Card } from '@/ui';
+import { activityAPI } from '@/shared/api/activity';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { UserActivity, UserActivityType } from '@/shared/types/activity';
+
+interface UserActivityTabProps {
+  userId: string;
+}
+
+const PAGE_SIZE = 20;
+
+// Tag colors of the activity types - labels are the activity.type.* messages
+const ACTIVITY_COLORS: Record<UserActivityType, string> = {
+  account_created: 'green',
+  role_changed: 'purple',
+  profile_updated: 'blue',
+  deleted: 'red',
+  restored: 'cyan',
+  login: 'gray',
+  lesson_attended: 'gold',
+};
+
+export const UserActivityTab: React.FC<UserActivityTabProps> = ({ userId }) => {
+  const { t, formatDate } = useTranslation();
+  const [activity, setActivity] = useState<UserActivity[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasNext, setHasNext] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Token of the latest request - responses of older requests are ignored
+  const requestRef = useRef(0);
+  // Page being loaded, so scrolling and Retry do not request it twice
+  const loadingPageRef = useRef<number | null>(null);
+
+  // Fetch one page and append it to the timeline - page 0 starts over
+  const fetchPage = useCallback(async (nextPage: number) => {
+    if (nextPage > 0 && loadingPageRef.current === nextPage) return;
+
+    const request = ++requestRef.current;
+    loadingPageRef.current = nextPage;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await activityAPI.listUserActivity(userId, { page: nextPage, size: PAGE_SIZE });
+      if (request !== requestRef.current) return;
+
+      setActivity(prev => (nextPage === 0 ? response.data : [...prev, ...response.data]));
+      setPage(nextPage);
+      setHasNext(response.meta.hasNext);
+    } catch (error) {
+      if (request !== requestRef.current) return;
+
+      const errorMessage = error instanceof Error ? error.message : t('activity.loadFailed');
+      setError(errorMessage);
+    } finally {
+      if (request === requestRef.current) {
+        loadingPageRef.current = null;
+        setLoading(false);
+      }
+    }
+  }, [userId, t]);
+
+  // Start over for each user - the new request makes a late page of the previous user stale
+  useEffect(() => {
+    fetchPage(0);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    fetchPage(page + 1);
+  }, [fetchPage, page]);
+
+  // Infinite scroll - load the next page once the end of the timeline is visible
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNext || loading || error || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMore();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNext, loading, error, loadMore]);
+
+  const items = activity.map(entry => {
+    const color = ACTIVITY_COLORS[entry.type];
+    return {
+      key: entry.id,
+      color,
+      children: (
+        <div>
+          <div>
+            <Tag color={color}>{t(`activity.type.${entry.type}`)}</Tag>
+            {entry.summary}
+          </div>
+          <Typography.Text type="secondary" style={{ fontSize: '12px' }}>
+            {formatDate(entry.occurredAt, {
+              month: 'short',
+              day: 'numeric',
+              year: 'numeric',
+              hour: 'numeric',
+              minute: '2-digit',
+            })}
+            {entry.actor && ` · ${t('activity.by', { name: entry.actor.name })}`}
+          </Typography.Text>
+        </div>
+      ),
+    };
+  });
+
+  return (
+    <Card hoverable={false}>
+      {activity.length > 0 && <Timeline items={items} />}
+
+      {!loading && !error && activity.length === 0 && (
+        <Empty description={t('activity.empty')} />
+      )}
+
+      {error && (
+        <Alert
+          message={t('activity.loadError')}
+          description={error}
+          type="error"
+          showIcon
+          action={
+            <Button size="small" onClick={() => fetchPage(activity.length === 0 ? 0 : page + 1)}>
+              {t('common.retry')}
+            </Button>
+          }
+        />
+      )}
+
+      <div ref={sentinelRef} style={{ textAlign: 'center' }}>
+        {loading ? (
+          <Spin />
+        ) : hasNext && !error && (
+          <Button onClick={loadMore}>
+            {t('activity.loadMore')}
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+};
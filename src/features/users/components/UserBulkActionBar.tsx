@@ -0,0 +1,93 @@
+/**
+ * UserBulkActionBar Component
+ *
+ * Action bar shown above the users table while rows are selected
+ * - Active users: Delete and Change role
+ * - Deleted users: Restore
+ */
+
+import React from 'react';
+import { Space, Typography } from 'antd';
+import { DeleteOutlined, UndoOutlined } from '@ant-design/icons';
+import { Button, RoleSelect } from '@/ui';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+
+interface UserBulkActionBarProps {
+  /** Number of selected users */
+  selectedCount: number;
+  /** Whether the selection contains deleted users (UserListParams.deleted) */
+  showDeleted: boolean;
+  /** Whether a bulk operation is in progress */
+  loading?: boolean;
+  /** Request a bulk soft delete - the caller is responsible for confirmation */
+  onDelete: () => void;
+  /** Restore the selected users */
+  onRestore: () => void;
+  /** Assign the given role to the selected users */
+  onChangeRole: (roleId: string) => void;
+  /** Clear the current selection */
+  onClearSelection: () => void;
+}
+
+export const UserBulkActionBar: React.FC<UserBulkActionBarProps> = ({
+  selectedCount,
+  showDeleted,
+  loading = false,
+  onDelete,
+  onRestore,
+  onChangeRole,
+  onClearSelection,
+}) => {
+  const { t } = useTranslation();
+
+  if (selectedCount === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: '8px 16px',
+        marginBottom: '16px',
+        background: '#e6f4ff',
+        border: '1px solid #91caff',
+        borderRadius: '8px',
+      }}
+    >
+      <Typography.Text strong>
+        {t('users.bulkBar.selected', { count: selectedCount })}
+      </Typography.Text>
+      <Space>
+        {showDeleted ? (
+          <Button icon={<UndoOutlined />} onClick={onRestore} loading={loading}>
+            {t('common.restore')}
+          </Button>
+        ) : (
+          <>
+            <RoleSelect
+              placeholder={t('users.bulkBar.changeRole')}
+              value={null}
+              onChange={(roleId: string) => onChangeRole(roleId)}
+              disabled={loading}
+              style={{ width: 180 }}
+            />
+            <Button
+              variant="danger"
+              icon={<DeleteOutlined />}
+              onClick={onDelete}
+              loading={loading}
+            >
+              {t('common.delete')}
+            </Button>
+          </>
+        )}
+        <Button variant="link" onClick={onClearSelection} disabled={loading}>
+          {t('users.bulkBar.clearSelection')}
+        </Button>
+      </Space>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+/**
+ * UserBulkResultAlert Component
+ *
+ * Summarises a bulk operation that partially failed
+ * Lists each BulkOperationFailure against the affected user's name.
+ */
+
+import React from 'react';
+import { Alert } from 'antd';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { UserBulkRequest, UserBulkResponse, UserListItem } from '@/shared/types/user';
+
+interface UserBulkResultAlertProps {
+  /** Operation that was run - picks the wording of the summary */
+  operation: UserBulkRequest['operation'];
+  /** Bulk operation response to summarise */
+  result: UserBulkResponse;
+  /** Users that were submitted - used to name failed rows */
+  users: UserListItem[];
+  /** Callback when the alert is dismissed */
+  onClose: () => void;
+}
+
+export const UserBulkResultAlert: React.FC<UserBulkResultAlertProps> = ({
+  operation,
+  result,
+  users,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { summary, failures = [] } = result;
+
+  const nameFor = (id?: string | number) =>
+    users.find(user => user.id === id)?.name ?? String(id ?? t('users.bulkResult.unknownUser'));
+
+  const details = [
+    ...failures.map(failure => `${nameFor(failure.id)}: ${failure.error.message}`),
+    ...(summary.skipped > 0 ? [t('users.bulkResult.skipped', { count: summary.skipped })] : []),
+  ];
+
+  return (
+    <Alert
+      type={summary.successful === 0 ? 'error' : 'warning'}
+      showIcon
+      closable
+      onClose={onClose}
+      style={{ marginBottom: '16px' }}
+      message={t(`users.bulkResult.${operation}`, {
+        successful: summary.successful,
+        count: summary.total,
+        failed: summary.failed,
+      })}
+      description={
+        <ul style={{ margin: 0, paddingLeft: '20px' }}>
+          {details.map(detail => (
+            <li key={detail}>{detail}</li>
+          ))}
+        </ul>
+      }
+    />
+  );
+};
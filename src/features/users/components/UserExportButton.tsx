@@ -0,0 +1,123 @@
+/**
+ * UserExportButton Component
+ *
+ * Export dropdown for the Users list page
+ * Pages through every user matching the current filters and downloads
+ * them as CSV or XLSX, with a progress modal that allows cancelling.
+ */
+
+import React, { useRef, useState } from 'react';
+import { Dropdown, Modal, Progress, message } from 'antd';
+import type { MenuProps } from 'antd';
+import { DownloadOutlined } from '@ant-design/icons';
+import { Button } from '@/ui';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { downloadFile } from '@/shared/utils/csv';
+import type { UserListParams } from '@/shared/types/user';
+import {
+  fetchAllUsers,
+  buildUserExportRows,
+  writeUserExport,
+  type UserExportFormat,
+} from '../utils/userExport';
+
+interface UserExportButtonProps {
+  /** Current list filters - page and size are ignored */
+  filters: UserListParams;
+  /** Disable the button (e.g. while the list is loading) */
+  disabled?: boolean;
+}
+
+interface ExportProgressState {
+  format: UserExportFormat;
+  loaded: number;
+  total: number;
+}
+
+export const UserExportButton: React.FC<UserExportButtonProps> = ({
+  filters,
+  disabled = false,
+}) => {
+  const { t } = useTranslation();
+  const [progress, setProgress] = useState<ExportProgressState | null>(null);
+
+  const exportMenuItems: MenuProps['items'] = [
+    { key: 'csv', label: t('users.export.csv') },
+    { key: 'xlsx', label: t('users.export.xlsx') },
+  ];
+  const abortRef = useRef<AbortController | null>(null);
+
+  /**
+   * Run the export in the chosen format
+   */
+  const handleExport = async (format: UserExportFormat) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ format, loaded: 0, total: 0 });
+
+    try {
+      const users = await fetchAllUsers(filters, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress({ format, loaded, total }),
+      });
+
+      const { content, type, extension } = writeUserExport(
+        buildUserExportRows(users, filters.deleted),
+        format
+      );
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(content, `users-${date}.${extension}`, type);
+      message.success(t('users.export.done', { count: users.length }));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        message.info(t('users.export.cancelled'));
+      } else {
+        const errorMessage = error instanceof Error ? error.message : t('users.export.failed');
+        message.error(errorMessage);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const percent = progress && progress.total > 0
+    ? Math.round((progress.loaded / progress.total) * 100)
+    : 0;
+
+  return (
+    <>
+      <Dropdown
+        menu={{
+          items: exportMenuItems,
+          onClick: ({ key }) => handleExport(key as UserExportFormat),
+        }}
+        disabled={disabled || Boolean(progress)}
+        trigger={['click']}
+      >
+        <Button icon={<DownloadOutlined />}>
+          {t('users.export.button')}
+        </Button>
+      </Dropdown>
+
+      <Modal
+        title={t('users.export.title', { format: progress?.format.toUpperCase() ?? '' })}
+        open={Boolean(progress)}
+        closable={false}
+        maskClosable={false}
+        footer={<Button onClick={handleCancel}>{t('common.cancel')}</Button>}
+      >
+        <Progress percent={percent} status="active" />
+        <p style={{ marginTop: '8px', marginBottom: 0 }}>
+          {progress?.total
+            ? t('users.export.progress', { loaded: progress.loaded, count: progress.total })
+            : t('users.loading')}
+        </p>
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,180 @@
+/**
+ * UserFilterPresets Component
+ *
+ * Saved filter presets for UserFilters
+ * - Pick a preset from the dropdown to apply it
+ * - Save the current filters under a name
+ * - Set the selected preset as default, rename or delete it
+ */
+
+import React, { useState } from 'react';
+import { Select, Space, Input, Modal, Tooltip } from 'antd';
+import { SaveOutlined, StarOutlined, StarFilled, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import { Button, ConfirmModal } from '@/ui';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type { UserFilterPreset } from '@/shared/types/user';
+
+interface UserFilterPresetsProps {
+  /** Presets of the signed-in user */
+  presets: UserFilterPreset[];
+  /** ID of the user's default preset */
+  defaultPresetId?: string;
+  /** ID of the preset currently applied */
+  activePresetId?: string;
+  /** Disable all controls (e.g. while loading) */
+  disabled?: boolean;
+  /** Apply a preset */
+  onApply: (preset: UserFilterPreset) => void;
+  /** Save the current filters under a name */
+  onSave: (name: string) => void;
+  /** Rename a preset */
+  onRename: (presetId: string, name: string) => void;
+  /** Delete a preset */
+  onDelete: (presetId: string) => void;
+  /** Set the default preset - null clears it */
+  onSetDefault: (presetId: string | null) => void;
+}
+
+interface NameModalState {
+  mode: 'save' | 'rename';
+  value: string;
+}
+
+export const UserFilterPresets: React.FC<UserFilterPresetsProps> = ({
+  presets,
+  defaultPresetId,
+  activePresetId,
+  disabled = false,
+  onApply,
+  onSave,
+  onRename,
+  onDelete,
+  onSetDefault,
+}) => {
+  const { t } = useTranslation();
+  const [nameModal, setNameModal] = useState<NameModalState | null>(null);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const activePreset = presets.find(preset => preset.id === activePresetId);
+  const isDefault = Boolean(activePreset) && activePreset?.id === defaultPresetId;
+
+  // Names must be unique per user - the preset being renamed may keep its own name
+  const trimmedName = nameModal?.value.trim() ?? '';
+  const nameTaken = presets.some(preset =>
+    preset.name.toLowerCase() === trimmedName.toLowerCase() &&
+    !(nameModal?.mode === 'rename' && preset.id === activePresetId)
+  );
+  const nameError = nameTaken ? t('presets.nameTaken') : null;
+
+  const handleNameSubmit = () => {
+    if (!nameModal || !trimmedName || nameError) return;
+
+    if (nameModal.mode === 'save') {
+      onSave(trimmedName);
+    } else if (activePreset) {
+      onRename(activePreset.id, trimmedName);
+    }
+    setNameModal(null);
+  };
+
+  const handleDeleteConfirm = () => {
+    if (activePreset) {
+      onDelete(activePreset.id);
+    }
+    setDeleteOpen(false);
+  };
+
+  return (
+    <>
+      <Space wrap>
+        <Select
+          placeholder={t('presets.placeholder')}
+          value={activePreset?.id}
+          onChange={(presetId: string) => {
+            const preset = presets.find(item => item.id === presetId);
+            if (preset) onApply(preset);
+          }}
+          options={presets.map(preset => ({
+            value: preset.id,
+            label: preset.id === defaultPresetId ? t('presets.defaultName', { name: preset.name }) : preset.name,
+          }))}
+          notFoundContent={t('presets.empty')}
+          disabled={disabled}
+          style={{ width: 220 }}
+        />
+        <Button
+          icon={<SaveOutlined />}
+          onClick={() => setNameModal({ mode: 'save', value: '' })}
+          disabled={disabled}
+        >
+          {t('presets.save')}
+        </Button>
+        {activePreset && (
+          <>
+            <Tooltip title={isDefault ? t('presets.removeDefault') : t('presets.setDefault')}>
+              <Button
+                icon={isDefault ? <StarFilled /> : <StarOutlined />}
+                onClick={() => onSetDefault(isDefault ? null : activePreset.id)}
+                disabled={disabled}
+                aria-label={isDefault ? t('presets.removeDefault') : t('presets.setDefault')}
+              />
+            </Tooltip>
+            <Tooltip title={t('presets.rename')}>
+              <Button
+                icon={<EditOutlined />}
+                onClick={() => setNameModal({ mode: 'rename', value: activePreset.name })}
+                disabled={disabled}
+                aria-label={t('presets.renameLabel')}
+              />
+            </Tooltip>
+            <Tooltip title={t('common.delete')}>
+              <Button
+                variant="danger"
+                icon={<DeleteOutlined />}
+                onClick={() => setDeleteOpen(true)}
+                disabled={disabled}
+                aria-label={t('presets.deleteLabel')}
+              />
+            </Tooltip>
+          </>
+        )}
+      </Space>
+
+      {/* Save / Rename */}
+      <Modal
+        title={nameModal?.mode === 'rename' ? t('presets.renameTitle') : t('presets.saveTitle')}
+        open={Boolean(nameModal)}
+        okText={nameModal?.mode === 'rename' ? t('presets.rename') : t('common.save')}
+        okButtonProps={{ disabled: !trimmedName || Boolean(nameError) }}
+        onOk={handleNameSubmit}
+        onCancel={() => setNameModal(null)}
+        destroyOnHidden
+      >
+        <Input
+          placeholder={t('presets.namePlaceholder')}
+          value={nameModal?.value}
+          onChange={(event) => setNameModal(prev => prev && { ...prev, value: event.target.value })}
+          onPressEnter={handleNameSubmit}
+          status={nameError ? 'error' : undefined}
+          maxLength={50}
+          autoFocus
+        />
+        {nameError && (
+          <div style={{ color: '#ff4d4f', marginTop: '4px' }}>{nameError}</div>
+        )}
+      </Modal>
+
+      {/* Delete Confirmation */}
+      <ConfirmModal
+        open={deleteOpen}
+        title={t('presets.deleteTitle')}
+        okText={t('common.delete')}
+        okButtonProps={{ danger: true }}
+        onOk={handleDeleteConfirm}
+        onCancel={() => setDeleteOpen(false)}
+      >
+        {t('presets.deleteMessage', { name: activePreset?.name ?? '' })}
+      </ConfirmModal>
+    </>
+  );
+};
@@ -5,10 +5,16 @@
  * Based on wireframe: docs/frontend/UI/wireframe/user/users-list.md
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button, Input, Select, Row, Col, Form, Space } from 'antd';
 import { SearchOutlined, ClearOutlined } from '@ant-design/icons';
-import type { UserListParams } from '../../../shared/types/user';
+import { CountrySelect, ProvinceSelect, RoleSelect } from '@/ui';
+import { useUser } from '@/shared/hooks/useAuth';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { useUserFilterPresetsStore } from '../stores/userFilterPresetsStore';
+import { UserFilterPresets } from './UserFilterPresets';
+import { DEFAULT_PAGE_SIZE } from '../utils/userListQuery';
+import type { UserListParams, UserFilterPreset } from '../../../shared/types/user';
 
 interface UserFiltersProps {
   /** Callback when filters are applied */
@@ -19,6 +25,30 @@ interface UserFiltersProps {
   initialValues?: Partial<UserListParams>;
 }
 
+// Filter fields stored in presets (page, size and sort are not part of a preset)
+const PRESET_FIELDS = ['name', 'email', 'phone', 'role', 'countryId', 'provinceId'] as const;
+
+const NO_FILTERS: Partial<UserListParams> = {};
+
+/**
+ * Normalise filters to the preset shape - empty values are dropped
+ */
+function toPresetFilters(values: Partial<UserListParams>): UserFilterPreset['filters'] {
+  const filters: UserFilterPreset['filters'] = { deleted: Boolean(values.deleted) };
+  PRESET_FIELDS.forEach(field => {
+    if (values[field]) {
+      filters[field] = values[field];
+    }
+  });
+  return filters;
+}
+
+function isSameFilters(a: Partial<UserListParams>, b: Partial<UserListParams>): boolean {
+  const left = toPresetFilters(a);
+  const right = toPresetFilters(b);
+  return left.deleted === right.deleted && PRESET_FIELDS.every(field => left[field] === right[field]);
+}
+
 /**
  * User filter form component
  * 
@@ -30,65 +60,70 @@ interface UserFiltersProps {
  * - Country (dropdown)
  * - Province (dropdown, dependent on country)
  * - Deleted status (dropdown)
+ *
+ * Saved presets are stored per signed-in user and applied through onFilter.
+ * The form follows `initialValues`, so pass a stable object (e.g. memoized URL filters).
  */
 export const UserFilters: React.FC<UserFiltersProps> = ({ 
   onFilter, 
   loading = false,
-  initialValues = {}
+  initialValues = NO_FILTERS
 }) => {
   const [form] = Form.useForm();
-  const [selectedCountry, setSelectedCountry] = useState<string>();
-  
-  // TODO: Replace with real data from API/context
-  const roleOptions = [
-    { value: 'admin', label: 'Admin' },
-    { value: 'teacher', label: 'Teacher' },
-    { value: 'student', label: 'Student' },
-    { value: 'manager', label: 'Manager' },
-  ];
-  
-  const countryOptions = [
-    { value: 'country-1', label: 'Canada' },
-    { value: 'country-2', label: 'Singapore' },
-    { value: 'country-3', label: 'United States' },
-    { value: 'country-4', label: 'Australia' },
-  ];
-  
-  // Province options based on selected country
-  const getProvinceOptions = (countryId?: string) => {
-    switch (countryId) {
-      case 'country-1': // Canada
-        return [
-          { value: 'province-1', label: 'Ontario' },
-          { value: 'province-2', label: 'British Columbia' },
-          { value: 'province-3', label: 'Alberta' },
-          { value: 'province-4', label: 'Quebec' },
-        ];
-      case 'country-2': // Singapore
-        return [
-          { value: 'province-5', label: 'Central' },
-          { value: 'province-6', label: 'North' },
-          { value: 'province-7', label: 'South' },
-          { value: 'province-8', label: 'East' },
-          { value: 'province-9', label: 'West' },
-        ];
-      case 'country-3': // United States
-        return [
-          { value: 'province-10', label: 'California' },
-          { value: 'province-11', label: 'New York' },
-          { value: 'province-12', label: 'Texas' },
-          { value: 'province-13', label: 'Florida' },
-        ];
-      case 'country-4': // Australia
-        return [
-          { value: 'province-14', label: 'New South Wales' },
-          { value: 'province-15', label: 'Victoria' },
-          { value: 'province-16', label: 'Queensland' },
-          { value: 'province-17', label: 'Western Australia' },
-        ];
-      default:
-        return [];
+  const { t } = useTranslation();
+  const [selectedCountry, setSelectedCountry] = useState<string | undefined>(initialValues.countryId);
+
+  // Saved presets of the signed-in user
+  const { user } = useUser();
+  const userId = user?.id;
+  const presets = useUserFilterPresetsStore(state => (userId && state.presetsByUser[userId]) || undefined) ?? [];
+  const defaultPresetId = useUserFilterPresetsStore(state => (userId ? state.defaultPresetByUser[userId] : undefined));
+  const { savePreset, renamePreset, deletePreset, setDefaultPreset } = useUserFilterPresetsStore.getState();
+  const activePreset = presets.find(preset => isSameFilters(preset.filters, initialValues));
+  const defaultAppliedRef = useRef(false);
+
+  // Keep the form in sync when the filters change from outside (e.g. Back/Forward)
+  useEffect(() => {
+    form.resetFields();
+    setSelectedCountry(initialValues.countryId);
+  }, [form, initialValues]);
+
+  // Page size and sort are not filters - keep the ones of the current list
+  const listView: Pick<UserListParams, 'size' | 'sort' | 'order'> = {
+    size: initialValues.size ?? DEFAULT_PAGE_SIZE,
+    sort: initialValues.sort,
+    order: initialValues.order,
+  };
+
+  /**
+   * Apply a saved preset - replaces every filter field
+   */
+  const applyPreset = (preset: UserFilterPreset) => {
+    onFilter({
+      ...preset.filters,
+      ...listView,
+      page: 0,
+    });
+  };
+
+  // Apply the default preset once when the list opens without filters
+  useEffect(() => {
+    if (defaultAppliedRef.current || !userId) return;
+    defaultAppliedRef.current = true;
+
+    const defaultPreset = presets.find(preset => preset.id === defaultPresetId);
+    if (defaultPreset && isSameFilters(initialValues, NO_FILTERS)) {
+      applyPreset(defaultPreset);
     }
+  });
+
+  /**
+   * Save the current form values as a preset
+   */
+  const handleSavePreset = (name: string) => {
+    if (!userId) return;
+    const preset = savePreset(userId, name, toPresetFilters(form.getFieldsValue()));
+    applyPreset(preset);
   };
 
   /**
@@ -97,9 +132,9 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
   const handleSubmit = (values: any) => {
     const filters: UserListParams = {
       ...values,
+      ...listView,
       deleted: values.deleted ?? false, // Default to false (active users)
       page: 0, // Reset to first page when filtering
-      size: 10, // Default page size
     };
     
     // Remove empty/null values
@@ -115,15 +150,15 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
   };
 
   /**
-   * Handle form reset - clear all filters
+   * Handle form reset - clear all filters, keeping the page size and sort
    */
   const handleReset = () => {
     form.resetFields();
     setSelectedCountry(undefined);
-    onFilter({ 
+    onFilter({
+      ...listView,
       deleted: false, // Show active users by default
       page: 0,
-      size: 10
     });
   };
 
@@ -143,6 +178,21 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
       borderRadius: '8px',
       marginBottom: '16px' 
     }}>
+      {userId && (
+        <div style={{ marginBottom: '16px' }}>
+          <UserFilterPresets
+            presets={presets}
+            defaultPresetId={defaultPresetId}
+            activePresetId={activePreset?.id}
+            disabled={loading}
+            onApply={applyPreset}
+            onSave={handleSavePreset}
+            onRename={(presetId, name) => renamePreset(userId, presetId, name)}
+            onDelete={(presetId) => deletePreset(userId, presetId)}
+            onSetDefault={(presetId) => setDefaultPreset(userId, presetId)}
+          />
+        </div>
+      )}
       <Form
         form={form}
         layout="vertical"
@@ -155,9 +205,9 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
         <Row gutter={16}>
           {/* Name Filter */}
           <Col xs={24} sm={12} md={8} lg={6} xl={4}>
-            <Form.Item label="Name" name="name">
+            <Form.Item label={t('userFilters.name')} name="name">
               <Input 
-                placeholder="Enter name" 
+                placeholder={t('userFilters.namePlaceholder')} 
                 allowClear 
                 disabled={loading}
               />
@@ -166,9 +216,9 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
           
           {/* Email Filter */}
           <Col xs={24} sm={12} md={8} lg={6} xl={4}>
-            <Form.Item label="Email" name="email">
+            <Form.Item label={t('userFilters.email')} name="email">
               <Input 
-                placeholder="Enter email" 
+                placeholder={t('userFilters.emailPlaceholder')} 
                 allowClear 
                 disabled={loading}
               />
@@ -177,9 +227,9 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
           
           {/* Phone Filter */}
           <Col xs={24} sm={12} md={8} lg={6} xl={4}>
-            <Form.Item label="Phone" name="phone">
+            <Form.Item label={t('userFilters.phone')} name="phone">
               <Input 
-                placeholder="Enter phone" 
+                placeholder={t('userFilters.phonePlaceholder')} 
                 allowClear 
                 disabled={loading}
               />
@@ -188,11 +238,11 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
           
           {/* Role Filter */}
           <Col xs={24} sm={12} md={8} lg={6} xl={4}>
-            <Form.Item label="Role" name="role">
-              <Select 
-                placeholder="Select role" 
-                allowClear 
-                options={roleOptions}
+            <Form.Item label={t('userFilters.role')} name="role">
+              <RoleSelect
+                placeholder={t('userFilters.rolePlaceholder')}
+                allowClear
+                valueField="name"
                 disabled={loading}
               />
             </Form.Item>
@@ -200,11 +250,10 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
           
           {/* Country Filter */}
           <Col xs={24} sm={12} md={8} lg={6} xl={4}>
-            <Form.Item label="Country" name="countryId">
-              <Select 
-                placeholder="Select country" 
-                allowClear 
-                options={countryOptions}
+            <Form.Item label={t('userFilters.country')} name="countryId">
+              <CountrySelect
+                placeholder={t('userFilters.countryPlaceholder')}
+                allowClear
                 onChange={handleCountryChange}
                 disabled={loading}
               />
@@ -213,24 +262,24 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
           
           {/* Province Filter */}
           <Col xs={24} sm={12} md={8} lg={6} xl={4}>
-            <Form.Item label="Province" name="provinceId">
-              <Select 
-                placeholder="Select province" 
-                allowClear 
-                options={getProvinceOptions(selectedCountry)}
+            <Form.Item label={t('userFilters.province')} name="provinceId">
+              <ProvinceSelect
+                placeholder={t('userFilters.provincePlaceholder')}
+                allowClear
+                country={selectedCountry}
                 disabled={loading || !selectedCountry}
-                notFoundContent={!selectedCountry ? 'Please select a country first' : 'No provinces found'}
+                notFoundContent={!selectedCountry ? t('userFilters.selectCountryFirst') : t('userFilters.noProvinces')}
               />
             </Form.Item>
           </Col>
           
           {/* Status Filter */}
           <Col xs={24} sm={12} md={8} lg={6} xl={4}>
-            <Form.Item label="Status" name="deleted">
+            <Form.Item label={t('userFilters.status')} name="deleted">
               <Select
                 options={[
-                  { value: false, label: 'Active' },
-                  { value: true, label: 'Deleted' },
+                  { value: false, label: t('userFilters.active') },
+                  { value: true, label: t('userFilters.deleted') },
                 ]}
                 disabled={loading}
               />
@@ -248,7 +297,7 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
                   loading={loading}
                   size="middle"
                 >
-                  Search
+                  {t('userFilters.search')}
                 </Button>
                 <Button 
                   icon={<ClearOutlined />} 
@@ -256,7 +305,7 @@ export const UserFilters: React.FC<UserFiltersProps> = ({
                   disabled={loading}
                   size="middle"
                 >
-                  Reset
+                  {t('userFilters.reset')}
                 </Button>
               </Space>
             </Form.Item>
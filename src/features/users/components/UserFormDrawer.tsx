@@ -0,0 +1,259 @@
+/**
+ * UserFormDrawer Component
+ *
+ * Create/edit drawer for the Users list page
+ * - Create mode: empty form, submits CreateUserRequest (POST /users)
+ * - Edit mode: loads the user with getUserById, submits UpdateUserRequest (PUT /users/{id})
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Drawer, Spin, Alert, Form as AntForm, message } from 'antd';
+import {
+  Form,
+  FormItem,
+  LabeledInput,
+  LabeledSelect,
+  FormActions,
+  CascadingCountryProvinceSelect,
+  Button,
+  useForm,
+} from '@/ui';
+import { userApi } from '@/shared/api/user';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import type {
+  CreateUserRequest,
+  UpdateUserRequest,
+  UserFormData,
+} from '@/shared/types/user';
+
+interface UserFormDrawerProps {
+  /** Whether the drawer is visible */
+  open: boolean;
+  /** ID of the user to edit - omit (or null) to create a new user */
+  userId?: string | null;
+  /** Callback when the drawer is closed without saving */
+  onClose: () => void;
+  /** Callback after the user has been saved successfully */
+  onSuccess: () => void;
+}
+
+/**
+ * Convert form values to the request payload
+ * Trims text fields and omits empty optional fields
+ */
+function toUserRequest(values: UserFormData): CreateUserRequest & UpdateUserRequest {
+  return {
+    name: values.name.trim(),
+    email: values.email.trim(),
+    phone: values.phone?.trim() || undefined,
+    roleId: values.roleId,
+    countryId: values.countryId,
+    provinceId: values.provinceId,
+    note: values.note?.trim() || undefined,
+  };
+}
+
+/**
+ * Keep the hidden location inputs controlled while the value is unset
+ */
+const hiddenValueProps = (value?: string) => ({ value: value ?? '' });
+
+/**
+ * User create/edit drawer
+ *
+ * Built on the MYC Form helpers (LabeledInput, LabeledSelect,
+ * CascadingCountryProvinceSelect, RoleSelect).
+ */
+export const UserFormDrawer: React.FC<UserFormDrawerProps> = ({
+  open,
+  userId,
+  onClose,
+  onSuccess,
+}) => {
+  const { t } = useTranslation();
+  const [form] = useForm<UserFormData>();
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const isEditMode = Boolean(userId);
+  const countryId = AntForm.useWatch('countryId', form);
+  const provinceId = AntForm.useWatch('provinceId', form);
+
+  // Load the user record when opening in edit mode
+  useEffect(() => {
+    if (!open || !userId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadUser = async () => {
+      setLoading(true);
+      setLoadError(null);
+
+      try {
+        const response = await userApi.getUserById(userId);
+        if (cancelled) return;
+
+        const user = response.data;
+        form.setFieldsValue({
+          name: user.name,
+          email: user.email,
+          phone: user.phone ?? undefined,
+          roleId: user.roleId,
+          countryId: user.countryId,
+          provinceId: user.provinceId,
+          note: user.note ?? undefined,
+        });
+      } catch (error) {
+        if (cancelled) return;
+        const errorMessage = error instanceof Error ? error.message : t('users.form.loadFailed');
+        setLoadError(errorMessage);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadUser();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId, form, t]);
+
+  /**
+   * Handle form submission - create or update the user
+   */
+  const handleSubmit = async (values: UserFormData) => {
+    setSubmitting(true);
+
+    try {
+      const payload = toUserRequest(values);
+
+      if (userId) {
+        await userApi.updateUser(userId, payload);
+        message.success(t('users.form.updated', { name: payload.name }));
+      } else {
+        await userApi.createUser(payload);
+        message.success(t('users.form.created', { name: payload.name }));
+      }
+
+      onSuccess();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('users.form.saveFailed');
+      message.error(errorMessage);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle country change - clear province since it depends on country
+   */
+  const handleCountryChange = (value: string) => {
+    form.setFieldsValue({ countryId: value || undefined, provinceId: undefined });
+  };
+
+  const handleProvinceChange = (value: string) => {
+    form.setFieldsValue({ provinceId: value || undefined });
+  };
+
+  return (
+    <Drawer
+      title={isEditMode ? t('users.form.editTitle') : t('users.addUser')}
+      open={open}
+      onClose={onClose}
+      width={520}
+      destroyOnHidden
+      maskClosable={!submitting}
+    >
+      {loadError && (
+        <Alert
+          message={t('users.form.loadError')}
+          description={loadError}
+          type="error"
+          showIcon
+          style={{ marginBottom: '16px' }}
+        />
+      )}
+
+      <Spin spinning={loading} tip={t('users.form.loading')}>
+        <Form
+          form={form}
+          onFinish={handleSubmit}
+          disabled={submitting}
+          hidden={Boolean(loadError)}
+        >
+          <LabeledInput
+            name="name"
+            label={t('users.field.name')}
+            required
+            rules={[{ whitespace: true, message: t('users.form.nameBlank') }]}
+          />
+
+          <LabeledInput
+            name="email"
+            label={t('users.field.email')}
+            type="email"
+            required
+          />
+
+          <LabeledInput
+            name="phone"
+            label={t('users.field.phone')}
+          />
+
+          <LabeledSelect
+            name="roleId"
+            label={t('users.field.role')}
+            type="role"
+            required
+          />
+
+          <FormItem label={t('users.field.location')} required>
+            <CascadingCountryProvinceSelect
+              countryValue={countryId}
+              provinceValue={provinceId}
+              onCountryChange={handleCountryChange}
+              onProvinceChange={handleProvinceChange}
+            />
+            <FormItem
+              name="countryId"
+              noStyle
+              getValueProps={hiddenValueProps}
+              rules={[{ required: true, message: t('users.form.countryRequired') }]}
+            >
+              <input type="hidden" />
+            </FormItem>
+            <FormItem
+              name="provinceId"
+              noStyle
+              getValueProps={hiddenValueProps}
+              rules={[{ required: true, message: t('users.form.provinceRequired') }]}
+            >
+              <input type="hidden" />
+            </FormItem>
+          </FormItem>
+
+          <LabeledInput
+            name="note"
+            label={t('users.field.note')}
+            type="textarea"
+          />
+
+          <FormActions align="right">
+            <Button onClick={onClose}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant="primary" htmlType="submit" loading={submitting}>
+              {isEditMode ? t('common.saveChanges') : t('users.form.create')}
+            </Button>
+          </FormActions>
+        </Form>
+      </Spin>
+    </Drawer>
+  );
+};
@@ -0,0 +1,319 @@
+/**
+ * UserImportModal Component
+ *
+ * CSV import for the Users list page
+ * 1. Upload: parse the CSV and resolve role/country/province names to IDs
+ * 2. Preview: per-row validation errors - nothing is sent yet
+ * 3. Import: create the valid rows one by one with a progress bar,
+ *    then offer an error report for every row that was not imported
+ */
+
+import React, { useState } from 'react';
+import { Modal, Upload, Table, Alert, Progress, Space, Typography } from 'antd';
+import { InboxOutlined, DownloadOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import { isAxiosError } from 'axios';
+import { Button, StatusTag, locationAPI, roleOptionsAPI } from '@/ui';
+import { userApi } from '@/shared/api/user';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { downloadFile } from '@/shared/utils/csv';
+import type { UserErrorResponse } from '@/shared/types/user';
+import {
+  readUserImportCsv,
+  validateUserImportRows,
+  buildUserImportErrorReport,
+  findImportOption,
+  type UserImportRawRow,
+  type UserImportRow,
+  type UserImportLookups,
+} from '../utils/userImport';
+
+interface UserImportModalProps {
+  /** Whether the modal is visible */
+  open: boolean;
+  /** Callback when the modal is closed */
+  onClose: () => void;
+  /** Callback after at least one user has been imported */
+  onImported: () => void;
+}
+
+type ImportStep = 'upload' | 'preview' | 'importing' | 'done';
+
+/**
+ * Load the reference data needed to resolve the names used in the file
+ * Provinces are only fetched for the countries that appear in the rows.
+ */
+async function loadImportLookups(rows: UserImportRawRow[]): Promise<UserImportLookups> {
+  const [roles, countries] = await Promise.all([
+    roleOptionsAPI.fetchRoles(),
+    locationAPI.fetchCountries(),
+  ]);
+
+  const countryIds = new Set(
+    rows
+      .map(row => findImportOption(countries, row.values.country)?.value)
+      .filter((id): id is string => Boolean(id))
+  );
+  const provinces = await Promise.all(
+    [...countryIds].map(countryId => locationAPI.fetchProvinces(countryId))
+  );
+
+  return {
+    roles,
+    countries,
+    provinces: provinces.flat(),
+  };
+}
+
+/**
+ * Extract the API error message from a failed create request
+ */
+function getImportErrorMessage(error: unknown, fallback: string): string {
+  if (isAxiosError<UserErrorResponse>(error) && error.response?.data?.error?.message) {
+    return error.response.data.error.message;
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
+export const UserImportModal: React.FC<UserImportModalProps> = ({
+  open,
+  onClose,
+  onImported,
+}) => {
+  const { t } = useTranslation();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<UserImportRow[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [processed, setProcessed] = useState(0);
+  const [importedCount, setImportedCount] = useState(0);
+
+  const validRows = rows.filter(row => row.request);
+  const failedRows = rows.filter(row => row.errors.length > 0);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName(null);
+    setRows([]);
+    setParseError(null);
+    setProcessed(0);
+    setImportedCount(0);
+  };
+
+  const handleClose = () => {
+    if (step === 'importing') return;
+    reset();
+    onClose();
+  };
+
+  /**
+   * Handle file selection - parse and validate without uploading anything
+   */
+  const handleFile = async (file: File) => {
+    setParsing(true);
+    setParseError(null);
+    setFileName(file.name);
+
+    try {
+      const rawRows = readUserImportCsv(await file.text());
+      if (rawRows.length === 0) {
+        throw new Error(t('userImport.noRows'));
+      }
+
+      const lookups = await loadImportLookups(rawRows);
+      setRows(validateUserImportRows(rawRows, lookups));
+      setStep('preview');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('userImport.readFailed');
+      setParseError(errorMessage);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  /**
+   * Create the valid rows one by one, recording server errors per row
+   */
+  const handleImport = async () => {
+    setStep('importing');
+    setProcessed(0);
+
+    let created = 0;
+    const results: UserImportRow[] = [];
+
+    for (const row of rows) {
+      if (!row.request) {
+        results.push(row);
+        continue;
+      }
+
+      try {
+        await userApi.createUser(row.request, { skipErrorHandling: true });
+        created++;
+        results.push(row);
+      } catch (error) {
+        results.push({ ...row, errors: [getImportErrorMessage(error, t('userImport.createFailed'))] });
+      }
+      setProcessed(prev => prev + 1);
+    }
+
+    setRows(results);
+    setImportedCount(created);
+    setStep('done');
+
+    if (created > 0) {
+      onImported();
+    }
+  };
+
+  const handleDownloadReport = () => {
+    const reportName = fileName ? fileName.replace(/\.csv$/i, '') : 'users';
+    downloadFile(buildUserImportErrorReport(rows), `${reportName}-errors.csv`);
+  };
+
+  const columns: ColumnsType<UserImportRow> = [
+    { title: t('userImport.row'), dataIndex: 'rowNumber', key: 'rowNumber', width: 60 },
+    { title: t('users.field.name'), key: 'name', render: (_, row) => row.values.name || '-' },
+    { title: t('users.field.email'), key: 'email', render: (_, row) => row.values.email || '-' },
+    { title: t('users.field.role'), key: 'role', render: (_, row) => row.values.role || '-' },
+    { title: t('users.field.country'), key: 'country', render: (_, row) => row.values.country || '-' },
+    { title: t('users.field.province'), key: 'province', render: (_, row) => row.values.province || '-' },
+    {
+      title: t('common.status'),
+      key: 'status',
+      width: 90,
+      render: (_, row) =>
+        row.errors.length > 0
+          ? <StatusTag status="inactive">{t('userImport.invalid')}</StatusTag>
+          : <StatusTag status="active">{t('userImport.valid')}</StatusTag>,
+    },
+    {
+      title: t('userImport.errors'),
+      key: 'errors',
+      render: (_, row) =>
+        row.errors.length > 0 ? (
+          <Typography.Text type="danger">{row.errors.join('; ')}</Typography.Text>
+        ) : (
+          '-'
+        ),
+    },
+  ];
+
+  const footer = (() => {
+    switch (step) {
+      case 'preview':
+        return (
+          <Space>
+            <Button onClick={reset}>{t('userImport.chooseAnother')}</Button>
+            <Button variant="primary" onClick={handleImport} disabled={validRows.length === 0}>
+              {t('userImport.import', { count: validRows.length })}
+            </Button>
+          </Space>
+        );
+      case 'done':
+        return (
+          <Space>
+            {failedRows.length > 0 && (
+              <Button icon={<DownloadOutlined />} onClick={handleDownloadReport}>
+                {t('userImport.downloadReport')}
+              </Button>
+            )}
+            <Button variant="primary" onClick={handleClose}>{t('userImport.close')}</Button>
+          </Space>
+        );
+      case 'importing':
+        return null;
+      default:
+        return <Button onClick={handleClose}>{t('common.cancel')}</Button>;
+    }
+  })();
+
+  return (
+    <Modal
+      title={t('userImport.title')}
+      open={open}
+      onCancel={handleClose}
+      footer={footer}
+      width={960}
+      maskClosable={false}
+      closable={step !== 'importing'}
+      destroyOnHidden
+    >
+      {step === 'upload' && (
+        <>
+          {parseError && (
+            <Alert
+              message={t('userImport.readError')}
+              description={parseError}
+              type="error"
+              showIcon
+              style={{ marginBottom: '16px' }}
+            />
+          )}
+          <Upload.Dragger
+            accept=".csv,text/csv"
+            showUploadList={false}
+            disabled={parsing}
+            beforeUpload={(file) => {
+              handleFile(file);
+              return false; // parse locally, never upload
+            }}
+          >
+            <p className="ant-upload-drag-icon">
+              <InboxOutlined />
+            </p>
+            <p className="ant-upload-text">
+              {parsing ? t('userImport.reading') : t('userImport.drop')}
+            </p>
+            <p className="ant-upload-hint">
+              {t('userImport.hint')}
+            </p>
+          </Upload.Dragger>
+        </>
+      )}
+
+      {step === 'preview' && (
+        <Alert
+          type={failedRows.length > 0 ? 'warning' : 'success'}
+          showIcon
+          style={{ marginBottom: '16px' }}
+          message={t('userImport.validRows', { valid: validRows.length, count: rows.length })}
+          description={
+            failedRows.length > 0
+              ? t('userImport.skipped')
+              : undefined
+          }
+        />
+      )}
+
+      {step === 'importing' && (
+        <Progress
+          percent={Math.round((processed / Math.max(validRows.length, 1)) * 100)}
+          status="active"
+          style={{ marginBottom: '16px' }}
+        />
+      )}
+
+      {step === 'done' && (
+        <Alert
+          type={failedRows.length > 0 ? 'warning' : 'success'}
+          showIcon
+          style={{ marginBottom: '16px' }}
+          message={t('userImport.done', { imported: importedCount, failed: failedRows.length })}
+        />
+      )}
+
+      {step !== 'upload' && (
+        <Table
+          columns={columns}
+          dataSource={rows}
+          rowKey="rowNumber"
+          size="small"
+          pagination={{ pageSize: 10, hideOnSinglePage: true }}
+          scroll={{ x: 'max-content' }}
+        />
+      )}
+    </Modal>
+  );
+};
@@ -1,13 +1,35 @@
 import React from 'react';
-import { Table, Button, Tag } from 'antd';
-import { EditOutlined } from '@ant-design/icons';
-import type { ColumnsType } from 'antd/es/table';
-import { UserListItem } from '@/shared/types/user';
+import { Table, Button, Tag, Space } from 'antd';
+import { EditOutlined, DeleteOutlined, UndoOutlined } from '@ant-design/icons';
+import type { ColumnsType, ColumnType, TableProps } from 'antd/es/table';
+import { UserListItem, UserSortField, SortOrder } from '@/shared/types/user';
+import { ClickableNameColumn, type TableRowLink } from '@/ui/Table';
+import { StatusTag } from '@/ui/Tag';
+import { useRoles } from '@/shared/hooks/useRoles';
+import { useTranslation } from '@/shared/hooks/useTranslation';
 
 interface UserTableProps {
   users: UserListItem[];
   loading?: boolean;
   onEdit: (user: UserListItem) => void;
+  /** Link to the user detail page - renders names as links when provided */
+  getDetailLink?: (userId: string) => TableRowLink;
+  /** Request a soft delete - the caller is responsible for confirmation */
+  onDelete?: (user: UserListItem) => void;
+  /** Restore a soft-deleted user - shown instead of Edit/Delete when listing deleted users */
+  onRestore?: (user: UserListItem) => void;
+  /** Whether the rows are deleted users (UserListParams.deleted) */
+  showDeleted?: boolean;
+  /** Disable the row actions (e.g. without the users:write permission) */
+  readOnly?: boolean;
+  /** IDs of the selected rows - enables row selection together with onSelectionChange */
+  selectedRowKeys?: string[];
+  /** Called with the selected users when the selection changes */
+  onSelectionChange?: (users: UserListItem[]) => void;
+  /** Current server-side sort (UserListParams.sort / order) */
+  sort?: { field?: UserSortField; order?: SortOrder };
+  /** Called when a column header is clicked - field is undefined when sorting is cleared */
+  onSortChange?: (field?: UserSortField, order?: SortOrder) => void;
   pagination?: {
     current: number;
     total: number;
@@ -20,75 +42,143 @@ export const UserTable: React.FC<UserTableProps> = ({
   users,
   loading = false,
   onEdit,
+  getDetailLink,
+  onDelete,
+  onRestore,
+  showDeleted = false,
+  readOnly = false,
+  selectedRowKeys,
+  onSelectionChange,
+  sort,
+  onSortChange,
   pagination,
 }) => {
+  // Role tag colours come from the role metadata (GET /roles)
+  const { getRoleColor } = useRoles();
+  const { t } = useTranslation();
+
+  // Sortable columns are sorted by the API, not on the current page
+  const sortable = (field: UserSortField): Pick<ColumnType<UserListItem>, 'sorter' | 'sortOrder'> => ({
+    sorter: Boolean(onSortChange),
+    sortOrder: sort?.field === field && sort.order
+      ? (sort.order === 'desc' ? 'descend' : 'ascend')
+      : null,
+  });
+
+  const handleTableChange: TableProps<UserListItem>['onChange'] = (_pagination, _filters, sorter, extra) => {
+    if (extra.action !== 'sort' || !onSortChange || Array.isArray(sorter)) return;
+
+    if (sorter.order) {
+      onSortChange(sorter.columnKey as UserSortField, sorter.order === 'descend' ? 'desc' : 'asc');
+    } else {
+      onSortChange(undefined, undefined);
+    }
+  };
+
   const columns: ColumnsType<UserListItem> = [
     {
-      title: 'Name',
+      title: t('users.field.name'),
       dataIndex: 'name',
       key: 'name',
+      ...sortable('name'),
       width: 150,
+      render: (name: string, record: UserListItem) =>
+        getDetailLink
+          ? ClickableNameColumn.render(name, getDetailLink(record.id))
+          : name,
     },
     {
-      title: 'Email',
+      title: t('users.field.email'),
       dataIndex: 'email',
       key: 'email',
+      ...sortable('email'),
       width: 200,
     },
     {
-      title: 'Phone',
+      title: t('users.field.phone'),
       dataIndex: 'phone',
       key: 'phone',
       width: 130,
       render: (phone: string) => phone || '-',
     },
     {
-      title: 'Role',
+      title: t('users.field.role'),
       dataIndex: 'role',
       key: 'role',
+      ...sortable('role'),
       width: 100,
-      render: (role: string) => {
-        const roleColors: Record<string, string> = {
-          ADMIN: 'red',
-          USER: 'blue',
-          MODERATOR: 'green',
-        };
-        return (
-          <Tag color={roleColors[role] || 'default'}>
-            {role}
-          </Tag>
-        );
-      },
+      render: (role: string) => (
+        <Tag color={getRoleColor(role)}>
+          {role}
+        </Tag>
+      ),
     },
     {
-      title: 'Country',
+      title: t('users.field.country'),
       dataIndex: 'country',
       key: 'country',
+      ...sortable('country'),
       width: 120,
       render: (country: string) => country || '-',
     },
     {
-      title: 'Province',
+      title: t('users.field.province'),
       dataIndex: 'province',
       key: 'province',
+      ...sortable('province'),
       width: 120,
       render: (province: string) => province || '-',
     },
     {
-      title: 'Actions',
+      title: t('common.status'),
+      key: 'status',
+      width: 100,
+      render: () =>
+        showDeleted
+          ? <StatusTag status="inactive">{t('users.status.deleted')}</StatusTag>
+          : <StatusTag status="active" />,
+    },
+    {
+      title: t('common.actions'),
       key: 'actions',
       width: 100,
       fixed: 'right',
-      render: (_, record: UserListItem) => (
-        <Button
-          type="primary"
-          size="small"
-          icon={<EditOutlined />}
-          onClick={() => onEdit(record)}
-        >
-          Edit
-        </Button>
-      ),
+      render: (_, record: UserListItem) =>
+        showDeleted ? (
+          onRestore && (
+            <Button
+              size="small"
+              icon={<UndoOutlined />}
+              onClick={() => onRestore(record)}
+              disabled={readOnly}
+            >
+              {t('common.restore')}
+            </Button>
+          )
+        ) : (
+          <Space size="small">
+            <Button
+              type="primary"
+              size="small"
+              icon={<EditOutlined />}
+              onClick={() => onEdit(record)}
+              disabled={readOnly}
+            >
+              {t('common.edit')}
+            </Button>
+            {onDelete && (
+              <Button
+                danger
+                size="small"
+                icon={<DeleteOutlined />}
+                onClick={() => onDelete(record)}
+                disabled={readOnly}
+              >
+                {t('common.delete')}
+              </Button>
+            )}
+          </Space>
+        ),
     },
   ];
 
@@ -98,6 +188,11 @@ export const UserTable: React.FC<UserTableProps> = ({
       dataSource={users}
       loading={loading}
       rowKey="id"
+      onChange={handleTableChange}
+      rowSelection={selectedRowKeys && onSelectionChange ? {
+        selectedRowKeys,
+        onChange: (_, selectedRows) => onSelectionChange(selectedRows),
+      } : undefined}
       scroll={{ x: 'max-content' }}
       pagination={pagination ? {
         current: pagination.current,
@@ -107,11 +202,11 @@ export const UserTable: React.FC<UserTableProps> = ({
         showSizeChanger: true,
         showQuickJumper: true,
         showTotal: (total, range) =>
-          `${range[0]}-${range[1]} of ${total} users`,
+          t('table.totalUsers', { start: range[0], end: range[1], count: total }),
         pageSizeOptions: ['10', '20', '50', '100'],
       } : false}
       locale={{
-        emptyText: 'No users found',
+        emptyText: t('users.table.empty'),
       }}
       size="middle"
     />
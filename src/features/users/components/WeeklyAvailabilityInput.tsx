@@ -0,0 +1,98 @@
+/**
+ * WeeklyAvailabilityInput Component
+ *
+ * Weekly recurring availability editor of a teacher
+ * - One row per studio, weekday and time range
+ * - Value is the list of weekly slots
+ */
+
+import React from 'react';
+import { Select, Space } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { Button } from '@/ui';
+import { useStudios } from '@/shared/hooks/useStudios';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { localizeWeekday } from '@/shared/i18n';
+import type { AvailabilitySlot } from '@/shared/types/availability';
+import { AVAILABILITY_TIME_OPTIONS, WEEKDAYS, newWeeklySlot } from '../utils/availability';
+
+interface WeeklyAvailabilityInputProps {
+  value: AvailabilitySlot[];
+  onChange: (value: AvailabilitySlot[]) => void;
+  disabled?: boolean;
+}
+
+export const WeeklyAvailabilityInput: React.FC<WeeklyAvailabilityInputProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const { t, locale } = useTranslation();
+  const { studios, loading } = useStudios();
+  const weekdayOptions = WEEKDAYS.map(day => ({ value: day, label: localizeWeekday(locale, day) }));
+
+  const handleChange = (index: number, changes: Partial<AvailabilitySlot>) => {
+    onChange(value.map((slot, slotIndex) => (slotIndex === index ? { ...slot, ...changes } : slot)));
+  };
+
+  return (
+    <Space direction="vertical" size="small" style={{ width: '100%' }}>
+      {value.length === 0 && (
+        <span style={{ color: '#8c8c8c' }}>{t('availability.weeklyEmpty')}</span>
+      )}
+      {value.map((slot, index) => (
+        <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+          <Select
+            aria-label={t('availability.studio')}
+            placeholder={t('availability.selectStudio')}
+            value={slot.studioId || undefined}
+            loading={loading}
+            options={studios.map(studio => ({ value: studio.id, label: studio.name }))}
+            onChange={(studioId: string) => handleChange(index, { studioId })}
+            disabled={disabled}
+            style={{ width: '220px' }}
+          />
+          <Select
+            aria-label={t('availability.day')}
+            value={slot.day}
+            options={weekdayOptions}
+            onChange={(day: AvailabilitySlot['day']) => handleChange(index, { day })}
+            disabled={disabled}
+            style={{ width: '130px' }}
+          />
+          <Select
+            aria-label={t('availability.from')}
+            value={slot.start}
+            options={AVAILABILITY_TIME_OPTIONS}
+            onChange={(start: string) => handleChange(index, { start })}
+            disabled={disabled}
+            style={{ width: '100px' }}
+          />
+          <span>–</span>
+          <Select
+            aria-label={t('availability.to')}
+            value={slot.end}
+            options={AVAILABILITY_TIME_OPTIONS}
+            onChange={(end: string) => handleChange(index, { end })}
+            disabled={disabled}
+            style={{ width: '100px' }}
+          />
+          <Button
+            variant="link"
+            icon={<DeleteOutlined />}
+            onClick={() => onChange(value.filter((_, slotIndex) => slotIndex !== index))}
+            disabled={disabled}
+            aria-label={t('availability.removeTime')}
+          />
+        </div>
+      ))}
+      <Button
+        icon={<PlusOutlined />}
+        onClick={() => onChange([...value, newWeeklySlot(value[value.length - 1]?.studioId)])}
+        disabled={disabled}
+      >
+        {t('availability.addTime')}
+      </Button>
+    </Space>
+  );
+};
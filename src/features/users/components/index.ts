@@ -4,3 +4,12 @@
 
 export { UserFilters } from './UserFilters';
 export { UserTable } from './UserTable';
+export { UserFormDrawer } from './UserFormDrawer';
+export { UserBulkActionBar } from './UserBulkActionBar';
+export { UserBulkResultAlert } from './UserBulkResultAlert';
+export { UserImportModal } from './UserImportModal';
+export { UserExportButton } from './UserExportButton';
+export { UserFilterPresets } from './UserFilterPresets';
+export { TeacherAvailabilityTab } from './TeacherAvailabilityTab';
+export { StudentAttendanceTab } from './StudentAttendanceTab';
+export { UserActivityTab } from './UserActivityTab';
@@ -0,0 +1,121 @@
+/**
+ * UserDetailPage Test Suite
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Routes, Route, useLocation } from 'react-router-dom';
+import { http, HttpResponse } from 'msw';
+import { server } from '@/test-setup';
+import { useAuthStore } from '@/shared/stores/authStore';
+import { UserDetailPage } from './UserDetailPage';
+
+// Mock Firebase so the auth store can be imported without configuration
+vi.mock('../../../config/firebase', () => ({
+  auth: {},
+  googleProvider: {},
+}));
+
+// antd Descriptions subscribes to breakpoints, which jsdom does not implement
+Object.defineProperty(window, 'matchMedia', {
+  writable: true,
+  value: (query: string) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addListener: vi.fn(),
+    removeListener: vi.fn(),
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    dispatchEvent: vi.fn(),
+  }),
+});
+
+const USER_ID = '01234567890123456789012345';
+const LIST_SEARCH = 'email=john&page=2&size=20';
+
+// Shows where Back to list and delete lead
+const ListLocation = () => {
+  const location = useLocation();
+  return <div>List page {location.search}</div>;
+};
+
+const renderPage = () => render(
+  <MemoryRouter initialEntries={[{ pathname: `/users/${USER_ID}`, state: { listSearch: LIST_SEARCH } }]}>
+    <Routes>
+      <Route path="/users/:id" element={<UserDetailPage />} />
+      <Route path="/users" element={<ListLocation />} />
+    </Routes>
+  </MemoryRouter>
+);
+
+describe('UserDetailPage', () => {
+  beforeEach(() => {
+    useAuthStore.setState({
+      isAuthenticated: true,
+      user: {
+        id: 'admin-1',
+        name: 'Admin',
+        email: 'admin@example.com',
+        role: 'admin',
+        status: 'active',
+        deleted: false,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      },
+      permissions: ['users:read', 'users:write'],
+      permissionsStatus: 'loaded',
+    });
+  });
+
+  it('should show a loading state until the user is loaded', async () => {
+    renderPage();
+
+    expect(screen.getByText('Loading user...')).toBeInTheDocument();
+    expect(await screen.findByText('john.doe@example.com')).toBeInTheDocument();
+    await waitFor(() => expect(screen.queryByText('Loading user...')).not.toBeInTheDocument());
+  });
+
+  it('should keep the list filters when going back to the list', async () => {
+    const user = userEvent.setup();
+    renderPage();
+    await screen.findByText('john.doe@example.com');
+
+    await user.click(screen.getByRole('link', { name: /back to list/i }));
+
+    expect(await screen.findByText(`List page ?${LIST_SEARCH}`)).toBeInTheDocument();
+  });
+
+  it('should delete the user and return to the filtered list', async () => {
+    const deleted = vi.fn();
+    server.use(
+      http.delete('*/api/users/:id', ({ params }) => {
+        deleted(params.id);
+        return HttpResponse.json({ success: true, requestId: 'req_test', data: null, meta: null, error: null });
+      })
+    );
+    const user = userEvent.setup();
+    renderPage();
+    await screen.findByText('john.doe@example.com');
+
+    await user.click(screen.getByRole('button', { name: /delete/i }));
+    const dialog = await screen.findByRole('dialog');
+    await user.click(within(dialog).getByRole('button', { name: /delete/i }));
+
+    expect(await screen.findByText(`List page ?${LIST_SEARCH}`)).toBeInTheDocument();
+    expect(deleted).toHaveBeenCalledWith(USER_ID);
+  });
+
+  it('should show the error when the user cannot be loaded', async () => {
+    server.use(
+      http.get('*/api/users/:id', () => HttpResponse.json(
+        { success: false, requestId: 'req_test', data: null, meta: null, error: { status: 404, code: 'USER_NOT_FOUND', message: 'User not found' } },
+        { status: 404 }
+      ))
+    );
+    renderPage();
+
+    await waitFor(() => expect(screen.getByText('Error Loading User')).toBeInTheDocument());
+  });
+});
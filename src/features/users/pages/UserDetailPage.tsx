@@ -0,0 +1,256 @@
+/**
+ * UserDetailPage
+ *
+ * Read-only user profile at /users/:id
+ * Provides Edit and Delete (or Restore for deleted users) actions
+ * and a Back to list link that restores the list's query string.
+ * Teachers also get an Availability tab (?tab=availability), students an
+ * Attendance tab (?tab=attendance) with the attendance:read permission.
+ * The Activity tab (?tab=activity, audit:read permission) shows what
+ * happened to the account, newest first.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Descriptions, Space, Spin, Alert, Tabs, message } from 'antd';
+import { ArrowLeftOutlined, EditOutlined, DeleteOutlined, UndoOutlined } from '@ant-design/icons';
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Page } from '@/shared/components/Page';
+import { Button, Card, ConfirmModal, Tag, StatusTag } from '@/ui';
+import { userApi } from '@/shared/api/user';
+import { useRoles } from '@/shared/hooks/useRoles';
+import { usePermission } from '@/shared/hooks/usePermission';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { UserFormDrawer, TeacherAvailabilityTab, StudentAttendanceTab, UserActivityTab } from '../components';
+import type { User, UsersListNavigationState } from '@/shared/types/user';
+
+type UserTab = 'details' | 'availability' | 'attendance' | 'activity';
+
+const USER_TABS: UserTab[] = ['details', 'availability', 'attendance', 'activity'];
+
+export const UserDetailPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { getRoleColor } = useRoles();
+  const canWrite = usePermission('users:write');
+  const canEditAvailability = usePermission('availability:write');
+  const canReadAttendance = usePermission('attendance:read');
+  const canReadActivity = usePermission('audit:read');
+  // The active tab lives in the URL so links can open a tab directly
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tabParam = searchParams.get('tab') as UserTab | null;
+  const activeTab: UserTab = tabParam && USER_TABS.includes(tabParam) ? tabParam : 'details';
+  const listSearch = (location.state as UsersListNavigationState | null)?.listSearch;
+  const listLocation = useMemo(
+    () => ({ pathname: '/users', search: listSearch ? `?${listSearch}` : '' }),
+    [listSearch]
+  );
+
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  // Fetch user data
+  const fetchUser = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await userApi.getUserById(id);
+      setUser(response.data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('users.form.loadFailed');
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    fetchUser();
+  }, [fetchUser]);
+
+  // Handle successful edit - close drawer and reload the profile
+  const handleEditSuccess = useCallback(() => {
+    setEditOpen(false);
+    fetchUser();
+  }, [fetchUser]);
+
+  // Handle delete confirmation - soft delete and return to the list
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!id) return;
+
+    setDeleting(true);
+    try {
+      await userApi.deleteUser(id);
+      message.success(t('users.deleted', { name: user?.name ?? '' }).trim());
+      setDeleteOpen(false);
+      navigate(listLocation);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('users.deleteFailed');
+      message.error(errorMessage);
+    } finally {
+      setDeleting(false);
+    }
+  }, [id, user, navigate, listLocation, t]);
+
+  // Handle restore - bring the soft-deleted user back and reload the profile
+  const handleRestore = useCallback(async () => {
+    if (!id) return;
+
+    setRestoring(true);
+    try {
+      await userApi.restoreUser(id);
+      message.success(t('users.restored', { name: user?.name ?? '' }).trim());
+      fetchUser();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('users.restoreFailed');
+      message.error(errorMessage);
+    } finally {
+      setRestoring(false);
+    }
+  }, [id, user, fetchUser, t]);
+
+  // Keep the list location state so Back to list still restores the search
+  const handleTabChange = (key: string) => {
+    setSearchParams(key === 'details' ? {} : { tab: key }, {
+      replace: true,
+      state: location.state,
+    });
+  };
+
+  const backLink = (
+    <Link to={listLocation}>
+      <ArrowLeftOutlined /> {t('users.detail.backToList')}
+    </Link>
+  );
+
+  const details = (
+    <Spin spinning={loading} tip={t('users.form.loading')}>
+      <Card hoverable={false}>
+        <Descriptions column={1} bordered size="middle">
+          <Descriptions.Item label={t('users.field.name')}>{user?.name || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('common.status')}>
+            {user?.deleted
+              ? <StatusTag status="inactive">{t('users.status.deleted')}</StatusTag>
+              : <StatusTag status="active" />}
+          </Descriptions.Item>
+          <Descriptions.Item label={t('users.field.email')}>{user?.email || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('users.field.phone')}>{user?.phone || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('users.field.role')}>
+            {user?.role ? <Tag color={getRoleColor(user.role)}>{user.role}</Tag> : '-'}
+          </Descriptions.Item>
+          <Descriptions.Item label={t('users.field.country')}>{user?.country || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('users.field.province')}>{user?.province || '-'}</Descriptions.Item>
+          <Descriptions.Item label={t('users.field.note')}>{user?.note || '-'}</Descriptions.Item>
+        </Descriptions>
+      </Card>
+    </Spin>
+  );
+
+  // Tabs shown for this user - details only when no other tab applies
+  const tabs = [
+    { key: 'details', label: t('users.detail.tab.details'), children: details },
+    ...(id && user?.role === 'TEACHER' ? [{
+      key: 'availability',
+      label: t('users.detail.tab.availability'),
+      children: <TeacherAvailabilityTab teacherId={id} readOnly={!canEditAvailability} />,
+    }] : []),
+    ...(id && user?.role === 'STUDENT' && canReadAttendance ? [{
+      key: 'attendance',
+      label: t('users.detail.tab.attendance'),
+      children: <StudentAttendanceTab studentId={id} />,
+    }] : []),
+    ...(id && canReadActivity ? [{
+      key: 'activity',
+      label: t('users.detail.tab.activity'),
+      children: <UserActivityTab userId={id} />,
+    }] : []),
+  ];
+
+  return (
+    <Page
+      title={user?.name || t('users.detail.title')}
+      extra={
+        <Space>
+          <Button
+            icon={<EditOutlined />}
+            onClick={() => setEditOpen(true)}
+            disabled={!user || !canWrite}
+          >
+            {t('common.edit')}
+          </Button>
+          {user?.deleted ? (
+            <Button
+              icon={<UndoOutlined />}
+              onClick={handleRestore}
+              loading={restoring}
+              disabled={!canWrite}
+            >
+              {t('common.restore')}
+            </Button>
+          ) : (
+            <Button
+              variant="danger"
+              icon={<DeleteOutlined />}
+              onClick={() => setDeleteOpen(true)}
+              disabled={!user || !canWrite}
+            >
+              {t('common.delete')}
+            </Button>
+          )}
+        </Space>
+      }
+    >
+      <div style={{ marginBottom: '16px' }}>
+        {backLink}
+      </div>
+
+      {error && (
+        <Alert
+          message={t('users.form.loadError')}
+          description={error}
+          type="error"
+          showIcon
+          style={{ marginBottom: '16px' }}
+          action={
+            <Button size="small" onClick={fetchUser}>
+              {t('common.retry')}
+            </Button>
+          }
+        />
+      )}
+
+      {tabs.length > 1 ? (
+        <Tabs activeKey={activeTab} onChange={handleTabChange} items={tabs} />
+      ) : details}
+
+      {/* Edit User Drawer */}
+      <UserFormDrawer
+        open={editOpen}
+        userId={id}
+        onClose={() => setEditOpen(false)}
+        onSuccess={handleEditSuccess}
+      />
+
+      {/* Delete Confirmation */}
+      <ConfirmModal
+        open={deleteOpen}
+        title={t('users.deleteTitle')}
+        okText={t('common.delete')}
+        okButtonProps={{ danger: true, loading: deleting }}
+        onOk={handleDeleteConfirm}
+        onCancel={() => setDeleteOpen(false)}
+      >
+        {t('users.deleteMessage', { name: user?.name ?? '' })}
+      </ConfirmModal>
+    </Page>
+  );
+};
@@ -1,13 +1,32 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Layout, Typography, Button, Space, message, Spin, Alert } from 'antd';
-import { PlusOutlined, ReloadOutlined } from '@ant-design/icons';
-import { UserFilters, UserTable } from '../components';
+import { PlusOutlined, ReloadOutlined, UploadOutlined } from '@ant-design/icons';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  UserFilters,
+  UserTable,
+  UserFormDrawer,
+  UserBulkActionBar,
+  UserBulkResultAlert,
+  UserImportModal,
+  UserExportButton,
+} from '../components';
+import { ConfirmModal } from '@/ui';
 import { userApi } from '@/shared/api/user';
+import { usePermission } from '@/shared/hooks/usePermission';
+import { useTranslation } from '@/shared/hooks/useTranslation';
+import { parseUserListParams, toUserListSearchParams } from '../utils/userListQuery';
 import type { 
   UserListItem, 
   UserListParams, 
   UserListResponse,
-  PaginationMeta 
+  PaginationMeta,
+  UsersListNavigationState,
+  UsersListLocationState,
+  UserBulkRequest,
+  UserBulkResponse,
+  UserSortField,
+  SortOrder,
 } from '@/shared/types/user';
 
 const { Content } = Layout;
@@ -17,20 +36,34 @@ interface UsersPageState {
   users: UserListItem[];
   loading: boolean;
   error: string | null;
-  filters: UserListParams;
   pagination: PaginationMeta;
 }
 
+interface UserDrawerState {
+  open: boolean;
+  userId: string | null; // null when creating a new user
+}
+
+interface BulkResultState {
+  operation: UserBulkRequest['operation'];
+  response: UserBulkResponse;
+  users: UserListItem[]; // users submitted with the operation
+}
+
 export const UsersListPage: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const canWrite = usePermission('users:write');
+  // Filters, page and page size live in the URL so refresh, Back/Forward and shared links keep them
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchKey = searchParams.toString();
+  const filters = useMemo(() => parseUserListParams(new URLSearchParams(searchKey)), [searchKey]);
+
   const [state, setState] = useState<UsersPageState>({
     users: [],
     loading: false,
     error: null,
-    filters: {
-      page: 0,
-      size: 10,
-      deleted: false,
-    },
     pagination: {
       page: 0,
       size: 10,
@@ -39,14 +72,29 @@ export const UsersListPage: React.FC = () => {
       hasNext: false,
     },
   });
+  const [drawer, setDrawer] = useState<UserDrawerState>({ open: false, userId: null });
+  const [pendingDelete, setPendingDelete] = useState<UserListItem | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [selectedUsers, setSelectedUsers] = useState<UserListItem[]>([]);
+  const [bulkDeleteOpen, setBulkDeleteOpen] = useState(false);
+  const [bulkLoading, setBulkLoading] = useState(false);
+  const [bulkResult, setBulkResult] = useState<BulkResultState | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  // Token of the latest list request - responses of older requests are ignored
+  const requestRef = useRef(0);
 
   // Fetch users data
   const fetchUsers = useCallback(async (params: UserListParams) => {
+    const request = ++requestRef.current;
     setState(prev => ({ ...prev, loading: true, error: null }));
+    // Selection only applies to the rows currently shown
+    setSelectedUsers([]);
     
     try {
       const response: UserListResponse = await userApi.listUsers(params);
-      
+      // A newer search, page or Back/Forward has been requested since
+      if (request !== requestRef.current) return;
+
       if (response.success && response.data) {
         setState(prev => ({
           ...prev,
@@ -55,10 +103,12 @@ export const UsersListPage: React.FC = () => {
           loading: false,
         }));
       } else {
-        throw new Error('Failed to fetch users');
+        throw new Error(t('users.fetchFailed'));
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to fetch users';
+      if (request !== requestRef.current) return;
+
+      const errorMessage = error instanceof Error ? error.message : t('users.fetchFailed');
       setState(prev => ({
         ...prev,
         loading: false,
@@ -66,53 +116,172 @@ export const UsersListPage: React.FC = () => {
       }));
       message.error(errorMessage);
     }
-  }, []);
+  }, [t]);
 
-  // Initial data load
+  // Load users whenever the URL query changes (initial load, search, paging, Back/Forward)
   useEffect(() => {
-    fetchUsers(state.filters);
-  }, []); // Empty dependency array for initial load only
+    fetchUsers(filters);
+  }, [filters, fetchUsers]);
+
+  // Push new list params to the URL - each search becomes a history entry
+  const updateFilters = useCallback((params: UserListParams) => {
+    setSearchParams(toUserListSearchParams(params));
+  }, [setSearchParams]);
 
   // Handle filter changes
   const handleFiltersChange = useCallback((newFilters: UserListParams) => {
-    const updatedFilters = {
+    updateFilters({
       ...newFilters,
       page: 0, // Reset to first page when filters change
-    };
-    
-    setState(prev => ({ ...prev, filters: updatedFilters }));
-    fetchUsers(updatedFilters);
-  }, [fetchUsers]);
+      size: filters.size, // Keep the chosen page size and sort
+      sort: filters.sort,
+      order: filters.order,
+    });
+  }, [updateFilters, filters.size, filters.sort, filters.order]);
+
+  // Handle column sort changes - sorting is done by the API across all pages
+  const handleSortChange = useCallback((sort?: UserSortField, order?: SortOrder) => {
+    updateFilters({
+      ...filters,
+      page: 0,
+      sort,
+      order,
+    });
+  }, [filters, updateFilters]);
 
   // Handle pagination changes
   const handlePaginationChange = useCallback((page: number, pageSize?: number) => {
-    const updatedFilters = {
-      ...state.filters,
+    updateFilters({
+      ...filters,
       page: page - 1, // Convert from 1-based to 0-based for API
-      size: pageSize || state.filters.size,
-    };
-    
-    setState(prev => ({ ...prev, filters: updatedFilters }));
-    fetchUsers(updatedFilters);
-  }, [state.filters, fetchUsers]);
+      size: pageSize || filters.size,
+    });
+  }, [filters, updateFilters]);
 
-  // Handle user edit action
+  // Handle user edit action - open drawer in edit mode
   const handleEditUser = useCallback((user: UserListItem) => {
-    // TODO: Navigate to edit user page or open edit modal
-    message.info(`Edit user: ${user.name} (ID: ${user.id})`);
-    console.log('Edit user:', user);
+    setDrawer({ open: true, userId: user.id });
   }, []);
 
-  // Handle add user button
+  // User names link to the detail page, keeping the filters for the way back
+  const getUserLink = useCallback((userId: string) => {
+    const navigationState: UsersListNavigationState = { listSearch: searchKey };
+    return { to: `/users/${userId}`, state: navigationState };
+  }, [searchKey]);
+
+  // Handle add user button - open drawer in create mode
   const handleAddUser = useCallback(() => {
-    // TODO: Navigate to add user page or open add modal
-    message.info('Add User functionality - Coming soon!');
+    setDrawer({ open: true, userId: null });
+  }, []);
+
+  // Open the Add user drawer when asked to by router state, then drop the
+  // state so Back/Forward and refresh do not open it again
+  const openCreate = (location.state as UsersListLocationState | null)?.openCreate;
+  useEffect(() => {
+    if (!openCreate) return;
+    if (canWrite) {
+      setDrawer({ open: true, userId: null });
+    }
+    navigate({ search: location.search }, { replace: true, state: null });
+  }, [openCreate, canWrite, navigate, location.search]);
+
+  // Handle drawer close without saving
+  const handleDrawerClose = useCallback(() => {
+    setDrawer(prev => ({ ...prev, open: false }));
   }, []);
 
+  // Handle successful create/update - close drawer and refresh the list
+  const handleDrawerSuccess = useCallback(() => {
+    setDrawer(prev => ({ ...prev, open: false }));
+    fetchUsers(filters);
+  }, [fetchUsers, filters]);
+
+  // Handle delete action - ask for confirmation first
+  const handleDeleteUser = useCallback((user: UserListItem) => {
+    setPendingDelete(user);
+  }, []);
+
+  // Handle delete confirmation - soft delete and refresh the list
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!pendingDelete) return;
+
+    setDeleting(true);
+    try {
+      await userApi.deleteUser(pendingDelete.id);
+      message.success(t('users.deleted', { name: pendingDelete.name }));
+      setPendingDelete(null);
+      fetchUsers(filters);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('users.deleteFailed');
+      message.error(errorMessage);
+    } finally {
+      setDeleting(false);
+    }
+  }, [pendingDelete, fetchUsers, filters, t]);
+
+  // Handle restore action - bring a soft-deleted user back and refresh the list
+  const handleRestoreUser = useCallback(async (user: UserListItem) => {
+    try {
+      await userApi.restoreUser(user.id);
+      message.success(t('users.restored', { name: user.name }));
+      fetchUsers(filters);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('users.restoreFailed');
+      message.error(errorMessage);
+    }
+  }, [fetchUsers, filters, t]);
+
+  // Run a bulk operation on the selected users - partial failures are summarised per row
+  const runBulkOperation = useCallback(async (
+    operation: UserBulkRequest['operation'],
+    items: UserBulkRequest['items']
+  ) => {
+    const users = selectedUsers;
+
+    setBulkLoading(true);
+    try {
+      const response = await userApi.bulk({
+        operation,
+        items,
+        options: { continueOnError: true },
+      });
+
+      if (response.summary.failed === 0) {
+        message.success(t(`users.bulk.${operation}`, { count: response.summary.successful }));
+        setBulkResult(null);
+      } else {
+        setBulkResult({ operation, response, users });
+      }
+
+      fetchUsers(filters);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t('users.bulkFailed');
+      message.error(errorMessage);
+    } finally {
+      setBulkLoading(false);
+    }
+  }, [selectedUsers, fetchUsers, filters, t]);
+
+  // Handle bulk delete confirmation
+  const handleBulkDeleteConfirm = useCallback(async () => {
+    await runBulkOperation('delete', selectedUsers.map(user => ({ id: user.id })));
+    setBulkDeleteOpen(false);
+  }, [runBulkOperation, selectedUsers]);
+
+  // Handle bulk restore
+  const handleBulkRestore = useCallback(() => {
+    runBulkOperation('restore', selectedUsers.map(user => ({ id: user.id })));
+  }, [runBulkOperation, selectedUsers]);
+
+  // Handle bulk role change
+  const handleBulkChangeRole = useCallback((roleId: string) => {
+    runBulkOperation('update', selectedUsers.map(user => ({ id: user.id, roleId })));
+  }, [runBulkOperation, selectedUsers]);
+
   // Handle retry on error
   const handleRetry = useCallback(() => {
-    fetchUsers(state.filters);
-  }, [fetchUsers, state.filters]);
+    fetchUsers(filters);
+  }, [fetchUsers, filters]);
 
   return (
     <Layout style={{ minHeight: '100vh', background: '#f0f2f5' }}>
@@ -128,7 +297,7 @@ export const UsersListPage: React.FC = () => {
             paddingBottom: '16px',
           }}>
             <Title level={2} style={{ margin: 0 }}>
-              Users
+              {t('users.title')}
             </Title>
             <Space>
               <Button 
@@ -136,23 +305,37 @@ export const UsersListPage: React.FC = () => {
                 onClick={handleRetry}
                 disabled={state.loading}
               >
-                Refresh
-              </Button>
-              <Button 
-                type="primary" 
-                icon={<PlusOutlined />}
-                onClick={handleAddUser}
-                size="large"
-              >
-                Add User
+                {t('common.refresh')}
               </Button>
+              <UserExportButton
+                filters={filters}
+                disabled={state.loading}
+              />
+              {canWrite && (
+                <>
+                  <Button
+                    icon={<UploadOutlined />}
+                    onClick={() => setImportOpen(true)}
+                  >
+                    {t('users.importCsv')}
+                  </Button>
+                  <Button 
+                    type="primary" 
+                    icon={<PlusOutlined />}
+                    onClick={handleAddUser}
+                    size="large"
+                  >
+                    {t('users.addUser')}
+                  </Button>
+                </>
+              )}
             </Space>
           </div>
 
           {/* Error Alert */}
           {state.error && (
             <Alert
-              message="Error Loading Users"
+              message={t('users.loadError')}
               description={state.error}
               type="error"
               showIcon
@@ -160,7 +343,7 @@ export const UsersListPage: React.FC = () => {
               style={{ marginBottom: '16px' }}
               action={
                 <Button size="small" onClick={handleRetry}>
-                  Retry
+                  {t('common.retry')}
                 </Button>
               }
               onClose={() => setState(prev => ({ ...prev, error: null }))}
@@ -170,16 +353,37 @@ export const UsersListPage: React.FC = () => {
           {/* Filters Section */}
           <div style={{ marginBottom: '24px' }}>
             <UserFilters
-              initialValues={state.filters}
-              onSearch={handleFiltersChange}
+              initialValues={filters}
+              onFilter={handleFiltersChange}
               loading={state.loading}
             />
           </div>
 
+          {/* Bulk Operation Result */}
+          {bulkResult && (
+            <UserBulkResultAlert
+              operation={bulkResult.operation}
+              result={bulkResult.response}
+              users={bulkResult.users}
+              onClose={() => setBulkResult(null)}
+            />
+          )}
+
+          {/* Bulk Actions */}
+          <UserBulkActionBar
+            selectedCount={selectedUsers.length}
+            showDeleted={filters.deleted}
+            loading={bulkLoading}
+            onDelete={() => setBulkDeleteOpen(true)}
+            onRestore={handleBulkRestore}
+            onChangeRole={handleBulkChangeRole}
+            onClearSelection={() => setSelectedUsers([])}
+          />
+
           {/* Loading Overlay */}
           <Spin 
             spinning={state.loading} 
-            tip="Loading users..."
+            tip={t('users.loading')}
             size="large"
           >
             {/* Users Table */}
@@ -187,6 +391,15 @@ export const UsersListPage: React.FC = () => {
               users={state.users}
               loading={state.loading}
               onEdit={handleEditUser}
+              getDetailLink={getUserLink}
+              onDelete={handleDeleteUser}
+              onRestore={handleRestoreUser}
+              showDeleted={filters.deleted}
+              readOnly={!canWrite}
+              selectedRowKeys={canWrite ? selectedUsers.map(user => user.id) : undefined}
+              onSelectionChange={canWrite ? setSelectedUsers : undefined}
+              sort={{ field: filters.sort, order: filters.order }}
+              onSortChange={handleSortChange}
               pagination={{
                 current: state.pagination.page + 1, // Convert to 1-based for display
                 total: state.pagination.totalItems,
@@ -204,11 +417,50 @@ export const UsersListPage: React.FC = () => {
               color: '#666',
             }}>
               <Typography.Text type="secondary" style={{ fontSize: '16px' }}>
-                No users found. Try adjusting your filters or add a new user.
+                {t('users.empty')}
               </Typography.Text>
             </div>
           )}
         </div>
+
+        {/* Create/Edit User Drawer */}
+        <UserFormDrawer
+          open={drawer.open}
+          userId={drawer.userId}
+          onClose={handleDrawerClose}
+          onSuccess={handleDrawerSuccess}
+        />
+
+        {/* CSV Import */}
+        <UserImportModal
+          open={importOpen}
+          onClose={() => setImportOpen(false)}
+          onImported={() => fetchUsers(filters)}
+        />
+
+        {/* Delete Confirmation */}
+        <ConfirmModal
+          open={Boolean(pendingDelete)}
+          title={t('users.deleteTitle')}
+          okText={t('common.delete')}
+          okButtonProps={{ danger: true, loading: deleting }}
+          onOk={handleDeleteConfirm}
+          onCancel={() => setPendingDelete(null)}
+        >
+          {t('users.deleteMessage', { name: pendingDelete?.name ?? '' })}
+        </ConfirmModal>
+
+        {/* Bulk Delete Confirmation */}
+        <ConfirmModal
+          open={bulkDeleteOpen}
+          title={t('users.bulkDeleteTitle')}
+          okText={t('common.delete')}
+          okButtonProps={{ danger: true, loading: bulkLoading }}
+          onOk={handleBulkDeleteConfirm}
+          onCancel={() => setBulkDeleteOpen(false)}
+        >
+          {t('users.bulkDeleteMessage')}
+        </ConfirmModal>
       </Content>
     </Layout>
   );
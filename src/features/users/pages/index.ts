@@ -1 +1,2 @@
 export { UsersListPage } from './UsersListPage';
+export { UserDetailPage } from './UserDetailPage';
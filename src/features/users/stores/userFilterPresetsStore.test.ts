@@ -0,0 +1,68 @@
+/**
+ * User Filter Presets Store Test Suite
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useUserFilterPresetsStore } from './userFilterPresetsStore';
+
+const ADMIN_ID = 'admin-uid';
+const OTHER_ID = 'other-uid';
+
+describe('userFilterPresetsStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useUserFilterPresetsStore.setState({ presetsByUser: {}, defaultPresetByUser: {} });
+  });
+
+  it('should save presets per user', () => {
+    const { savePreset } = useUserFilterPresetsStore.getState();
+
+    const preset = savePreset(ADMIN_ID, '  Teachers in Ontario ', { role: 'teacher', provinceId: 'P1', deleted: false });
+    savePreset(OTHER_ID, 'Deleted users', { deleted: true });
+
+    const { presetsByUser } = useUserFilterPresetsStore.getState();
+    expect(presetsByUser[ADMIN_ID]).toEqual([
+      { id: preset.id, name: 'Teachers in Ontario', filters: { role: 'teacher', provinceId: 'P1', deleted: false } },
+    ]);
+    expect(presetsByUser[OTHER_ID]).toHaveLength(1);
+  });
+
+  it('should rename a preset', () => {
+    const { savePreset, renamePreset } = useUserFilterPresetsStore.getState();
+    const preset = savePreset(ADMIN_ID, 'Old name', { deleted: false });
+
+    renamePreset(ADMIN_ID, preset.id, 'New name');
+
+    expect(useUserFilterPresetsStore.getState().presetsByUser[ADMIN_ID][0].name).toBe('New name');
+  });
+
+  it('should set and clear the default preset', () => {
+    const { savePreset, setDefaultPreset } = useUserFilterPresetsStore.getState();
+    const preset = savePreset(ADMIN_ID, 'Admins', { role: 'admin', deleted: false });
+
+    setDefaultPreset(ADMIN_ID, preset.id);
+    expect(useUserFilterPresetsStore.getState().defaultPresetByUser[ADMIN_ID]).toBe(preset.id);
+
+    setDefaultPreset(ADMIN_ID, null);
+    expect(useUserFilterPresetsStore.getState().defaultPresetByUser[ADMIN_ID]).toBeUndefined();
+  });
+
+  it('should clear the default when its preset is deleted', () => {
+    const { savePreset, setDefaultPreset, deletePreset } = useUserFilterPresetsStore.getState();
+    const preset = savePreset(ADMIN_ID, 'Admins', { role: 'admin', deleted: false });
+    setDefaultPreset(ADMIN_ID, preset.id);
+
+    deletePreset(ADMIN_ID, preset.id);
+
+    const state = useUserFilterPresetsStore.getState();
+    expect(state.presetsByUser[ADMIN_ID]).toEqual([]);
+    expect(state.defaultPresetByUser[ADMIN_ID]).toBeUndefined();
+  });
+
+  it('should persist presets to localStorage', () => {
+    useUserFilterPresetsStore.getState().savePreset(ADMIN_ID, 'Saved', { deleted: true });
+
+    const stored = JSON.parse(localStorage.getItem('myc-user-filter-presets') ?? '{}');
+    expect(stored.state.presetsByUser[ADMIN_ID][0].name).toBe('Saved');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * User Filter Presets Zustand Store
+ *
+ * Saved UserFilters presets, persisted to localStorage per signed-in user
+ * - Presets are keyed by the authenticated user's ID (useUser().user.id)
+ * - Each user can mark one preset as the default
+ */
+
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { UserFilterPreset } from '@/shared/types/user';
+
+/**
+ * Filter Presets State Interface
+ */
+interface UserFilterPresetsState {
+  // State
+  presetsByUser: Record<string, UserFilterPreset[]>;
+  defaultPresetByUser: Record<string, string | undefined>;
+
+  // Actions
+  savePreset: (userId: string, name: string, filters: UserFilterPreset['filters']) => UserFilterPreset;
+  renamePreset: (userId: string, presetId: string, name: string) => void;
+  deletePreset: (userId: string, presetId: string) => void;
+  setDefaultPreset: (userId: string, presetId: string | null) => void;
+}
+
+// Helper to generate a preset ID
+function generatePresetId(): string {
+  return `preset_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Filter Presets Store Implementation
+ */
+export const useUserFilterPresetsStore = create<UserFilterPresetsState>()(
+  devtools(
+    persist(
+      (set) => ({
+        // Initial State
+        presetsByUser: {},
+        defaultPresetByUser: {},
+
+        /**
+         * Save the given filters as a new preset
+         */
+        savePreset: (userId, name, filters) => {
+          const preset: UserFilterPreset = { id: generatePresetId(), name: name.trim(), filters };
+          set((state) => ({
+            presetsByUser: {
+              ...state.presetsByUser,
+              [userId]: [...(state.presetsByUser[userId] ?? []), preset],
+            },
+          }));
+          return preset;
+        },
+
+        /**
+         * Rename a preset
+         */
+        renamePreset: (userId, presetId, name) => {
+          set((state) => ({
+            presetsByUser: {
+              ...state.presetsByUser,
+              [userId]: (state.presetsByUser[userId] ?? []).map((preset) =>
+                preset.id === presetId ? { ...preset, name: name.trim() } : preset
+              ),
+            },
+          }));
+        },
+
+        /**
+         * Delete a preset - clears the default if it pointed at this preset
+         */
+        deletePreset: (userId, presetId) => {
+          set((state) => ({
+            presetsByUser: {
+              ...state.presetsByUser,
+              [userId]: (state.presetsByUser[userId] ?? []).filter((preset) => preset.id !== presetId),
+            },
+            defaultPresetByUser: {
+              ...state.defaultPresetByUser,
+              [userId]:
+                state.defaultPresetByUser[userId] === presetId
+                  ? undefined
+                  : state.defaultPresetByUser[userId],
+            },
+          }));
+        },
+
+        /**
+         * Set (or clear with null) the preset applied when the list opens without filters
+         */
+        setDefaultPreset: (userId, presetId) => {
+          set((state) => ({
+            defaultPresetByUser: {
+              ...state.defaultPresetByUser,
+              [userId]: presetId ?? undefined,
+            },
+          }));
+        },
+      }),
+      {
+        name: 'myc-user-filter-presets', // localStorage key
+      }
+    ),
+    {
+      name: 'user-filter-presets-store', // DevTools name
+    }
+  )
+);
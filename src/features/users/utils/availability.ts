@@ -0,0 +1,46 @@
+/**
+ * Availability Editor Utilities
+ *
+ * Options and defaults for the teacher availability editor
+ * Validation and availability checks live in @/shared/utils/availability.
+ */
+
+import { toDateKey } from '@/shared/utils/date';
+import type { AvailabilitySlot, UpdateTeacherAvailabilityRequest, TeacherAvailability } from '@/shared/types/availability';
+import type { Weekday } from '@/shared/types/studio';
+
+// Weekdays of the editor, Monday first - labels come from localizeWeekday
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+/**
+ * Time options every 30 minutes ('00:00' ... '23:30')
+ */
+export const AVAILABILITY_TIME_OPTIONS: { value: string; label: string }[] = Array.from({ length: 48 }, (_, index) => {
+  const time = `${String(Math.floor(index / 2)).padStart(2, '0')}:${index % 2 === 0 ? '00' : '30'}`;
+  return { value: time, label: time };
+});
+
+/**
+ * Weekly time added by "Add time" - the studio is picked by the user
+ */
+export function newWeeklySlot(studioId = ''): AvailabilitySlot {
+  return { studioId, day: 'monday', start: '09:00', end: '17:00' };
+}
+
+/**
+ * Exception added by "Add exception" - a single day starting today
+ */
+export function newException(): UpdateTeacherAvailabilityRequest['exceptions'][number] {
+  const today = toDateKey(new Date());
+  return { from: today, to: today, reason: 'vacation', note: '' };
+}
+
+/**
+ * Editable copy of the availability returned by the API
+ */
+export function toAvailabilityDraft(availability: TeacherAvailability | null): UpdateTeacherAvailabilityRequest {
+  return {
+    weekly: availability?.weekly.map(slot => ({ ...slot })) ?? [],
+    exceptions: availability?.exceptions.map(exception => ({ ...exception, note: exception.note ?? '' })) ?? [],
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * User Export Test Suite
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll, vi } from 'vitest';
+import { setupServer } from 'msw/node';
+import { userHandlers } from '../../../mocks/handlers/user';
+import { fetchAllUsers, buildUserExportRows, writeUserExport } from './userExport';
+import type { UserListItem } from '@/shared/types/user';
+
+const server = setupServer(...userHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const sampleUser: UserListItem = {
+  id: '01234567890123456789012345',
+  name: 'John Doe',
+  email: 'john.doe@example.com',
+  phone: null,
+  role: 'USER',
+  country: 'United States',
+  province: 'California',
+  note: null,
+};
+
+describe('User Export', () => {
+  describe('fetchAllUsers', () => {
+    it('should page through every matching user', async () => {
+      const onProgress = vi.fn();
+
+      const users = await fetchAllUsers({ deleted: false, page: 3, size: 10 }, { pageSize: 2, onProgress });
+
+      expect(users).toHaveLength(9);
+      expect(new Set(users.map(user => user.id)).size).toBe(9);
+      expect(onProgress.mock.calls).toEqual([[2, 9], [4, 9], [6, 9], [8, 9], [9, 9]]);
+    });
+
+    it('should apply the current filters', async () => {
+      const users = await fetchAllUsers({ deleted: false, role: 'USER' }, { pageSize: 2 });
+
+      expect(users.length).toBeGreaterThan(0);
+      expect(users.every(user => user.role === 'USER')).toBe(true);
+    });
+
+    it('should stop paging when cancelled', async () => {
+      const controller = new AbortController();
+
+      const promise = fetchAllUsers({ deleted: false }, {
+        pageSize: 2,
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      });
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('buildUserExportRows', () => {
+    it('should use the visible table columns', () => {
+      expect(buildUserExportRows([sampleUser], false)).toEqual([
+        ['Name', 'Email', 'Phone', 'Role', 'Country', 'Province', 'Status'],
+        ['John Doe', 'john.doe@example.com', '', 'USER', 'United States', 'California', 'Active'],
+      ]);
+    });
+
+    it('should mark deleted users', () => {
+      expect(buildUserExportRows([sampleUser], true)[1][6]).toBe('Deleted');
+    });
+  });
+
+  describe('writeUserExport', () => {
+    it('should write CSV with a UTF-8 BOM', () => {
+      const result = writeUserExport([['Name'], ['John']], 'csv');
+
+      expect(result.extension).toBe('csv');
+      expect(result.content).toBe('\uFEFFName\r\nJohn');
+    });
+
+    it('should write XLSX as a ZIP package', () => {
+      const result = writeUserExport([['Name'], ['John']], 'xlsx');
+      const bytes = result.content as Uint8Array;
+
+      expect(result.extension).toBe('xlsx');
+      expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    });
+  });
+});
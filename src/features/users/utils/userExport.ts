@@ -0,0 +1,96 @@
+/**
+ * User Export Utilities
+ *
+ * - Page through GET /users with the current filters (not just the visible page)
+ * - Build rows with the visible UserTable columns
+ * - Write them as CSV or XLSX
+ */
+
+import { userApi } from '@/shared/api/user';
+import { t, type MessageKey } from '@/shared/i18n';
+import { toCsv } from '@/shared/utils/csv';
+import { toXlsx, XLSX_MIME_TYPE } from '@/shared/utils/xlsx';
+import type { UserListItem, UserListParams } from '@/shared/types/user';
+
+export type UserExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Options for fetching every page of the user list
+ */
+export interface FetchAllUsersOptions {
+  /** Page size used for the export requests */
+  pageSize?: number;
+  /** Stops paging once aborted - the page in flight still completes */
+  signal?: AbortSignal;
+  /** Called after each page with the number of users loaded so far */
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+const EXPORT_PAGE_SIZE = 100;
+
+// Columns shown by UserTable (the Actions column is not exported) - titles are message keys
+const USER_EXPORT_COLUMNS: { title: MessageKey; value: (user: UserListItem, deleted: boolean) => string }[] = [
+  { title: 'users.field.name', value: user => user.name },
+  { title: 'users.field.email', value: user => user.email },
+  { title: 'users.field.phone', value: user => user.phone ?? '' },
+  { title: 'users.field.role', value: user => user.role },
+  { title: 'users.field.country', value: user => user.country },
+  { title: 'users.field.province', value: user => user.province },
+  { title: 'common.status', value: (_, deleted) => t(deleted ? 'users.status.deleted' : 'users.status.active') },
+];
+
+/**
+ * Fetch every user matching the filters, one page at a time
+ * Rejects with an AbortError when the signal is aborted.
+ */
+export async function fetchAllUsers(
+  filters: UserListParams,
+  { pageSize = EXPORT_PAGE_SIZE, signal, onProgress }: FetchAllUsersOptions = {}
+): Promise<UserListItem[]> {
+  const users: UserListItem[] = [];
+  let page = 0;
+  let hasNext = true;
+
+  while (hasNext) {
+    if (signal?.aborted) {
+      throw new DOMException('Export cancelled', 'AbortError');
+    }
+
+    const response = await userApi.listUsers({ ...filters, page, size: pageSize });
+    users.push(...response.data);
+    onProgress?.(users.length, response.meta.totalItems);
+
+    hasNext = response.meta.hasNext;
+    page++;
+  }
+
+  if (signal?.aborted) {
+    throw new DOMException('Export cancelled', 'AbortError');
+  }
+
+  return users;
+}
+
+/**
+ * Build export rows (header first) from the visible table columns
+ */
+export function buildUserExportRows(users: UserListItem[], deleted: boolean): string[][] {
+  return [
+    USER_EXPORT_COLUMNS.map(column => t(column.title)),
+    ...users.map(user => USER_EXPORT_COLUMNS.map(column => column.value(user, deleted))),
+  ];
+}
+
+/**
+ * Serialize export rows in the requested format
+ */
+export function writeUserExport(
+  rows: string[][],
+  format: UserExportFormat
+): { content: BlobPart; type: string; extension: string } {
+  if (format === 'xlsx') {
+    return { content: toXlsx(rows, t('users.title')), type: XLSX_MIME_TYPE, extension: 'xlsx' };
+  }
+  // BOM so spreadsheet apps detect UTF-8
+  return { content: `\uFEFF${toCsv(rows)}`, type: 'text/csv;charset=utf-8', extension: 'csv' };
+}
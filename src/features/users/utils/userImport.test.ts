@@ -0,0 +1,147 @@
+/**
+ * User CSV Import Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  readUserImportCsv,
+  validateUserImportRows,
+  buildUserImportErrorReport,
+  type UserImportLookups,
+} from './userImport';
+
+const lookups: UserImportLookups = {
+  roles: [
+    { value: '01J9WR00000000000000000001', label: 'ADMIN' },
+    { value: '01J9WR00000000000000000002', label: 'USER' },
+  ],
+  countries: [
+    { value: '01J9WC00000000000000000001', label: 'United States' },
+    { value: '01J9WC00000000000000000002', label: 'Canada' },
+  ],
+  provinces: [
+    { value: '01J9WP00000000000000000001', label: 'California', countryCode: '01J9WC00000000000000000001' },
+    { value: '01J9WP00000000000000000003', label: 'Ontario', countryCode: '01J9WC00000000000000000002' },
+  ],
+};
+
+const HEADER = 'Name,Email,Phone,Role,Country,Province,Note';
+
+describe('User CSV Import', () => {
+  describe('readUserImportCsv', () => {
+    it('should map columns by header name in any order', () => {
+      const rows = readUserImportCsv('email,province,country,role,name\njohn@example.com,California,United States,user,John\n');
+
+      expect(rows).toEqual([
+        {
+          rowNumber: 2,
+          values: {
+            name: 'John',
+            email: 'john@example.com',
+            phone: '',
+            role: 'user',
+            country: 'United States',
+            province: 'California',
+            note: '',
+          },
+        },
+      ]);
+    });
+
+    it('should number rows by the line they start on', () => {
+      const rows = readUserImportCsv(
+        `${HEADER}\nJohn,john@example.com,,user,Canada,Ontario,"Line one\nline two"\n\nJane,jane@example.com,,user,Canada,Ontario,\n`
+      );
+
+      expect(rows.map(row => row.rowNumber)).toEqual([2, 5]);
+    });
+
+    it('should reject files with missing required columns', () => {
+      expect(() => readUserImportCsv('name,email\nJohn,john@example.com')).toThrow(
+        'Missing required columns: role, country, province'
+      );
+    });
+
+    it('should reject empty files', () => {
+      expect(() => readUserImportCsv('')).toThrow('The file is empty');
+    });
+  });
+
+  describe('validateUserImportRows', () => {
+    it('should resolve names to IDs for valid rows', () => {
+      const [row] = validateUserImportRows(
+        readUserImportCsv(`${HEADER}\nJohn,john@example.com,+1-555-0101,user,united states,California,VIP`),
+        lookups
+      );
+
+      expect(row.errors).toEqual([]);
+      expect(row.request).toEqual({
+        name: 'John',
+        email: 'john@example.com',
+        phone: '+1-555-0101',
+        roleId: '01J9WR00000000000000000002',
+        countryId: '01J9WC00000000000000000001',
+        provinceId: '01J9WP00000000000000000001',
+        note: 'VIP',
+      });
+    });
+
+    it('should report invalid email format', () => {
+      const [row] = validateUserImportRows(
+        readUserImportCsv(`${HEADER}\nJohn,not-an-email,,USER,Canada,Ontario,`),
+        lookups
+      );
+
+      expect(row.request).toBeNull();
+      expect(row.errors).toEqual(['Invalid email format: not-an-email']);
+    });
+
+    it('should report duplicate emails after the first occurrence', () => {
+      const rows = validateUserImportRows(
+        readUserImportCsv(
+          `${HEADER}\nJohn,john@example.com,,USER,Canada,Ontario,\nJohnny,JOHN@example.com,,USER,Canada,Ontario,`
+        ),
+        lookups
+      );
+
+      expect(rows[0].errors).toEqual([]);
+      expect(rows[1].errors).toEqual(['Duplicate email (also on row 2)']);
+    });
+
+    it('should report provinces that do not belong to the country', () => {
+      const [row] = validateUserImportRows(
+        readUserImportCsv(`${HEADER}\nJohn,john@example.com,,USER,Canada,California,`),
+        lookups
+      );
+
+      expect(row.errors).toEqual(['Unknown province for Canada: California']);
+    });
+
+    it('should report unknown roles and countries and missing values', () => {
+      const [row] = validateUserImportRows(
+        readUserImportCsv(`${HEADER}\n,john@example.com,,Owner,Atlantis,Somewhere,`),
+        lookups
+      );
+
+      expect(row.errors).toEqual([
+        'Name is required',
+        'Unknown role: Owner',
+        'Unknown country: Atlantis',
+      ]);
+    });
+  });
+
+  describe('buildUserImportErrorReport', () => {
+    it('should list only rows with errors', () => {
+      const rows = validateUserImportRows(
+        readUserImportCsv(`${HEADER}\nJohn,john@example.com,,USER,Canada,Ontario,\nJane,bad-email,,USER,Canada,Ontario,`),
+        lookups
+      );
+
+      expect(buildUserImportErrorReport(rows)).toBe(
+        'row,name,email,phone,role,country,province,note,errors\r\n' +
+        '3,Jane,bad-email,,USER,Canada,Ontario,,Invalid email format: bad-email'
+      );
+    });
+  });
+});
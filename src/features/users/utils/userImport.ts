@@ -0,0 +1,203 @@
+/**
+ * User CSV Import Utilities
+ *
+ * - Map CSV columns to CreateUserRequest fields
+ * - Resolve role, country and province names to their IDs
+ * - Validate rows before anything is sent (email format, duplicates, unknown references)
+ * - Build a downloadable error report for rows that could not be imported
+ */
+
+import { t } from '@/shared/i18n';
+import { parseCsv, toCsv } from '@/shared/utils/csv';
+import type { CreateUserRequest } from '@/shared/types/user';
+
+/**
+ * Fields that can be imported from a CSV column
+ */
+export type UserImportField = 'name' | 'email' | 'phone' | 'role' | 'country' | 'province' | 'note';
+
+/**
+ * Reference option used to resolve a name to its ID
+ */
+export interface UserImportOption {
+  value: string;  // ULID
+  label: string;  // display name
+}
+
+/**
+ * Reference data needed to resolve names to IDs
+ * Provinces carry the ID of their country in `countryCode` (ProvinceOption shape).
+ */
+export interface UserImportLookups {
+  roles: UserImportOption[];
+  countries: UserImportOption[];
+  provinces: (UserImportOption & { countryCode: string })[];
+}
+
+/**
+ * Raw CSV row mapped to import fields
+ */
+export interface UserImportRawRow {
+  rowNumber: number; // line in the file - the header is line 1
+  values: Record<UserImportField, string>;
+}
+
+/**
+ * Validated CSV row
+ * `request` is set only when the row has no errors.
+ */
+export interface UserImportRow extends UserImportRawRow {
+  request: CreateUserRequest | null;
+  errors: string[];
+}
+
+// Accepted header names per field (compared case-insensitively)
+const COLUMN_ALIASES: Record<UserImportField, string[]> = {
+  name: ['name', 'full name'],
+  email: ['email', 'e-mail', 'email address'],
+  phone: ['phone', 'phone number', 'mobile'],
+  role: ['role'],
+  country: ['country'],
+  province: ['province', 'state', 'region'],
+  note: ['note', 'notes'],
+};
+
+const IMPORT_FIELDS = Object.keys(COLUMN_ALIASES) as UserImportField[];
+
+const REQUIRED_COLUMNS: UserImportField[] = ['name', 'email', 'role', 'country', 'province'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Find an option by label or ID (case-insensitive)
+ */
+export function findImportOption<T extends UserImportOption>(
+  options: T[],
+  name: string
+): T | undefined {
+  const key = normalize(name);
+  if (!key) return undefined;
+  return options.find(option => normalize(option.label) === key || normalize(option.value) === key);
+}
+
+/**
+ * Parse CSV text and map its columns to import fields
+ * Throws when the file is empty or required columns are missing.
+ */
+export function readUserImportCsv(text: string): UserImportRawRow[] {
+  const [headerRecord, ...records] = parseCsv(text);
+  if (!headerRecord) {
+    throw new Error(t('userImport.emptyFile'));
+  }
+
+  const header = headerRecord.fields;
+  const columnIndex = {} as Record<UserImportField, number>;
+  IMPORT_FIELDS.forEach(field => {
+    columnIndex[field] = header.findIndex(column => COLUMN_ALIASES[field].includes(normalize(column)));
+  });
+
+  const missing = REQUIRED_COLUMNS.filter(field => columnIndex[field] === -1);
+  if (missing.length > 0) {
+    throw new Error(t('userImport.missingColumns', { columns: missing.join(', ') }));
+  }
+
+  return records.map(({ line, fields }) => {
+    const values = {} as Record<UserImportField, string>;
+    IMPORT_FIELDS.forEach(field => {
+      const column = columnIndex[field];
+      values[field] = column === -1 ? '' : (fields[column] ?? '').trim();
+    });
+    return { rowNumber: line, values };
+  });
+}
+
+/**
+ * Validate rows and resolve their references
+ * Duplicate emails are reported on every occurrence after the first.
+ */
+export function validateUserImportRows(
+  rows: UserImportRawRow[],
+  lookups: UserImportLookups
+): UserImportRow[] {
+  const firstRowByEmail = new Map<string, number>();
+
+  return rows.map(row => {
+    const { values } = row;
+    const errors: string[] = [];
+
+    if (!values.name) {
+      errors.push(t('userImport.nameRequired'));
+    }
+
+    if (!values.email) {
+      errors.push(t('userImport.emailRequired'));
+    } else if (!EMAIL_PATTERN.test(values.email)) {
+      errors.push(t('userImport.invalidEmail', { email: values.email }));
+    } else {
+      const key = normalize(values.email);
+      const firstRow = firstRowByEmail.get(key);
+      if (firstRow !== undefined) {
+        errors.push(t('userImport.duplicateEmail', { row: firstRow }));
+      } else {
+        firstRowByEmail.set(key, row.rowNumber);
+      }
+    }
+
+    const role = findImportOption(lookups.roles, values.role);
+    if (!role) {
+      errors.push(values.role ? t('userImport.unknownRole', { role: values.role }) : t('userImport.roleRequired'));
+    }
+
+    const country = findImportOption(lookups.countries, values.country);
+    if (!country) {
+      errors.push(values.country ? t('userImport.unknownCountry', { country: values.country }) : t('userImport.countryRequired'));
+    }
+
+    const province = country
+      ? findImportOption(
+          lookups.provinces.filter(option => option.countryCode === country.value),
+          values.province
+        )
+      : undefined;
+    if (!province && (country || !values.province)) {
+      errors.push(
+        values.province
+          ? t('userImport.unknownProvince', { country: country?.label ?? '', province: values.province })
+          : t('userImport.provinceRequired')
+      );
+    }
+
+    const request: CreateUserRequest | null =
+      errors.length === 0 && role && country && province
+        ? {
+            name: values.name,
+            email: values.email,
+            phone: values.phone || undefined,
+            roleId: role.value,
+            countryId: country.value,
+            provinceId: province.value,
+            note: values.note || undefined,
+          }
+        : null;
+
+    return { ...row, request, errors };
+  });
+}
+
+/**
+ * Build a CSV error report with the original values and the reasons each row failed
+ */
+export function buildUserImportErrorReport(rows: UserImportRow[]): string {
+  const header = ['row', ...IMPORT_FIELDS.map(field => COLUMN_ALIASES[field][0]), 'errors'];
+  const lines = rows
+    .filter(row => row.errors.length > 0)
+    .map(row => [
+      row.rowNumber,
+      ...IMPORT_FIELDS.map(field => row.values[field]),
+      row.errors.join('; '),
+    ]);
+
+  return toCsv([header, ...lines]);
+}
@@ -0,0 +1,71 @@
+/**
+ * User List Query String Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseUserListParams, toUserListSearchParams } from './userListQuery';
+
+describe('User List Query String', () => {
+  describe('parseUserListParams', () => {
+    it('should use defaults for an empty query', () => {
+      expect(parseUserListParams(new URLSearchParams())).toEqual({
+        page: 0,
+        size: 10,
+        deleted: false,
+      });
+    });
+
+    it('should read filters, 1-based page, size and deleted', () => {
+      const params = parseUserListParams(
+        new URLSearchParams('name=John&email=john%40example.com&role=USER&countryId=C1&provinceId=P1&phone=555&deleted=true&page=3&size=50')
+      );
+
+      expect(params).toEqual({
+        name: 'John',
+        email: 'john@example.com',
+        phone: '555',
+        role: 'USER',
+        countryId: 'C1',
+        provinceId: 'P1',
+        deleted: true,
+        page: 2,
+        size: 50,
+      });
+    });
+
+    it('should read sort and default the order to asc', () => {
+      expect(parseUserListParams(new URLSearchParams('sort=email'))).toMatchObject({ sort: 'email', order: 'asc' });
+      expect(parseUserListParams(new URLSearchParams('sort=role&order=desc'))).toMatchObject({ sort: 'role', order: 'desc' });
+    });
+
+    it('should ignore unknown sort fields', () => {
+      const params = parseUserListParams(new URLSearchParams('sort=password&order=desc'));
+
+      expect(params.sort).toBeUndefined();
+      expect(params.order).toBeUndefined();
+    });
+
+    it('should ignore invalid page and size values', () => {
+      const params = parseUserListParams(new URLSearchParams('page=-1&size=abc'));
+
+      expect(params.page).toBe(0);
+      expect(params.size).toBe(10);
+    });
+  });
+
+  describe('toUserListSearchParams', () => {
+    it('should omit default values', () => {
+      expect(toUserListSearchParams({ page: 0, size: 10, deleted: false }).toString()).toBe('');
+    });
+
+    it('should omit empty filters', () => {
+      expect(toUserListSearchParams({ name: '  ', email: '', deleted: false }).toString()).toBe('');
+    });
+
+    it('should round-trip through parseUserListParams', () => {
+      const params = { name: 'Jane Smith', role: 'ADMIN', deleted: true, page: 1, size: 20, sort: 'province' as const, order: 'desc' as const };
+
+      expect(parseUserListParams(toUserListSearchParams(params))).toEqual(params);
+    });
+  });
+});
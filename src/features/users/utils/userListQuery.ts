@@ -0,0 +1,78 @@
+/**
+ * User List Query String Utilities
+ *
+ * Serialise UserListParams to the /users URL and read them back, so a
+ * refresh, Back/Forward or a shared link restores the same search.
+ * - `page` is 1-based in the URL and 0-based in UserListParams
+ * - Default values (page 1, size 10, active users, no sort) are omitted
+ */
+
+import type { UserListParams, UserSortField } from '@/shared/types/user';
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+// Text and ID filters copied as-is between the URL and UserListParams
+const FILTER_KEYS = ['name', 'email', 'phone', 'role', 'countryId', 'provinceId'] as const;
+
+const SORT_FIELDS: UserSortField[] = ['name', 'email', 'role', 'country', 'province'];
+
+function parsePositiveInt(value: string | null): number | undefined {
+  const number = Number(value);
+  return value && Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Read UserListParams from the URL query string
+ */
+export function parseUserListParams(searchParams: URLSearchParams): UserListParams {
+  const params: UserListParams = {
+    page: (parsePositiveInt(searchParams.get('page')) ?? 1) - 1,
+    size: parsePositiveInt(searchParams.get('size')) ?? DEFAULT_PAGE_SIZE,
+    deleted: searchParams.get('deleted') === 'true',
+  };
+
+  FILTER_KEYS.forEach(key => {
+    const value = searchParams.get(key)?.trim();
+    if (value) {
+      params[key] = value;
+    }
+  });
+
+  const sort = searchParams.get('sort') as UserSortField | null;
+  if (sort && SORT_FIELDS.includes(sort)) {
+    params.sort = sort;
+    params.order = searchParams.get('order') === 'desc' ? 'desc' : 'asc';
+  }
+
+  return params;
+}
+
+/**
+ * Write UserListParams to a URL query string, omitting defaults
+ */
+export function toUserListSearchParams(params: UserListParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  FILTER_KEYS.forEach(key => {
+    const value = params[key]?.trim();
+    if (value) {
+      searchParams.set(key, value);
+    }
+  });
+
+  if (params.deleted) {
+    searchParams.set('deleted', 'true');
+  }
+  if (params.sort) {
+    searchParams.set('sort', params.sort);
+    searchParams.set('order', params.order ?? 'asc');
+  }
+  if (params.page) {
+    searchParams.set('page', String(params.page + 1));
+  }
+  if (params.size && params.size !== DEFAULT_PAGE_SIZE) {
+    searchParams.set('size', String(params.size));
+  }
+
+  return searchParams;
+}
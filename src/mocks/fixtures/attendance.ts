@@ -0,0 +1,32 @@
+/**
+ * Attendance Fixtures for MSW Mocks
+ *
+ * Attendance recorded for past lessons of the lesson fixtures,
+ * served with the lessons and changed by the /lessons/{id}/attendance handlers
+ */
+
+import type { Attendance } from '../../shared/types/attendance';
+import { mockLessons } from './lessons';
+
+const YESTERDAY_LESSON_ID = '01J9WN00000000000000000001';     // Emily with Liam
+const FIRST_SERIES_LESSON_ID = '01J9WP10000000000000000001';  // Marco with Liam, weekly series
+
+// Helper to record attendance right after the lesson ended
+function endOf(lessonId: string): string {
+  return mockLessons.find(lesson => lesson.id === lessonId)?.end ?? new Date().toISOString();
+}
+
+export const mockAttendance: Attendance[] = [
+  {
+    lessonId: YESTERDAY_LESSON_ID,
+    status: 'attended',
+    note: null,
+    recordedAt: endOf(YESTERDAY_LESSON_ID),
+  },
+  {
+    lessonId: FIRST_SERIES_LESSON_ID,
+    status: 'absent_excused',
+    note: 'School trip',
+    recordedAt: endOf(FIRST_SERIES_LESSON_ID),
+  },
+];
@@ -0,0 +1,55 @@
+/**
+ * Audit Event Fixtures for MSW Mocks
+ *
+ * Audit log served by GET /audit. The list is mutable so the user handlers
+ * can record their create, update and delete mutations.
+ */
+
+import type { AuditActor, AuditEvent } from '../../shared/types/audit';
+import { mockUserRecords } from './userRecords';
+import { mockUsers } from './users';
+
+const EMILY_ID = '01234567890123456789012350';   // teacher
+const SOPHIE_ID = '01234567890123456789012352';  // student
+
+const adminActor: AuditActor = {
+  id: mockUsers.admin.id,
+  name: mockUsers.admin.name,
+  email: mockUsers.admin.email,
+};
+
+// Helper to build a date-time a number of days ago
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+const emily = mockUserRecords.find(user => user.id === EMILY_ID)!;
+const sophie = mockUserRecords.find(user => user.id === SOPHIE_ID)!;
+
+// Newest first, like GET /audit
+export const mockAuditEvents: AuditEvent[] = [
+  {
+    id: '01J9WA00000000000000000002',
+    occurredAt: sophie.createdAt,
+    actor: adminActor,
+    action: 'create',
+    entityType: 'user',
+    entityId: sophie.id,
+    entityName: sophie.name,
+    before: null,
+    after: { ...sophie },
+    requestId: 'req_1729400000000_m3n4b5v6c7',
+  },
+  {
+    id: '01J9WA00000000000000000001',
+    occurredAt: daysAgo(2),
+    actor: adminActor,
+    action: 'update',
+    entityType: 'user',
+    entityId: emily.id,
+    entityName: emily.name,
+    before: { ...emily, note: 'Piano' },
+    after: { ...emily },
+    requestId: 'req_1729300000000_h7j8k9l0p1',
+  },
+];
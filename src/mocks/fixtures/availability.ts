@@ -0,0 +1,54 @@
+/**
+ * Teacher Availability Fixtures for MSW Mocks
+ *
+ * Weekly availability and exceptions served by the /users/{id}/availability
+ * handlers and checked by the /lessons handlers. Teachers without an entry
+ * have no availability yet. The vacation is placed relative to the current day.
+ */
+
+import type { TeacherAvailability } from '../../shared/types/availability';
+import { addDays, startOfDay, toDateKey } from '../../shared/utils/date';
+
+const TORONTO_STUDIO_ID = '01J9WS00000000000000000001';
+const VANCOUVER_STUDIO_ID = '01J9WS00000000000000000002';
+const EMILY_ID = '01234567890123456789012350';   // teacher
+const MARCO_ID = '01234567890123456789012351';   // teacher
+
+// Helper to build a 'YYYY-MM-DD' key relative to today
+function dayKey(dayOffset: number): string {
+  return toDateKey(addDays(startOfDay(new Date()), dayOffset));
+}
+
+export const mockAvailability: TeacherAvailability[] = [
+  {
+    teacherId: EMILY_ID,
+    weekly: [
+      { studioId: TORONTO_STUDIO_ID, day: 'monday', start: '09:00', end: '19:00' },
+      { studioId: TORONTO_STUDIO_ID, day: 'tuesday', start: '09:00', end: '19:00' },
+      { studioId: TORONTO_STUDIO_ID, day: 'wednesday', start: '09:00', end: '19:00' },
+      { studioId: TORONTO_STUDIO_ID, day: 'thursday', start: '09:00', end: '19:00' },
+      { studioId: TORONTO_STUDIO_ID, day: 'friday', start: '09:00', end: '19:00' },
+      { studioId: TORONTO_STUDIO_ID, day: 'saturday', start: '10:00', end: '14:00' },
+    ],
+    exceptions: [
+      {
+        id: '01J9WX00000000000000000001',
+        from: dayKey(10),
+        to: dayKey(12),
+        reason: 'vacation',
+        note: 'Family trip',
+      },
+    ],
+  },
+  {
+    teacherId: MARCO_ID,
+    weekly: [
+      { studioId: VANCOUVER_STUDIO_ID, day: 'tuesday', start: '10:00', end: '20:00' },
+      { studioId: VANCOUVER_STUDIO_ID, day: 'wednesday', start: '10:00', end: '20:00' },
+      { studioId: VANCOUVER_STUDIO_ID, day: 'thursday', start: '10:00', end: '20:00' },
+      { studioId: VANCOUVER_STUDIO_ID, day: 'friday', start: '10:00', end: '20:00' },
+      { studioId: VANCOUVER_STUDIO_ID, day: 'saturday', start: '09:00', end: '17:00' },
+    ],
+    exceptions: [],
+  },
+];
@@ -0,0 +1,56 @@
+/**
+ * Error Log Fixtures for MSW Mocks
+ *
+ * Server errors served by GET /dashboard/errors, placed shortly before
+ * the current time so the admin dashboard has recent errors to show
+ */
+
+import type { ErrorLogEntry } from '../../shared/types/dashboard';
+
+// Helper to build a date-time a number of minutes ago
+function minutesAgo(minutes: number): string {
+  return new Date(Date.now() - minutes * 60 * 1000).toISOString();
+}
+
+export const mockErrorLog: ErrorLogEntry[] = [
+  {
+    id: '01J9WE00000000000000000001',
+    occurredAt: minutesAgo(3 * 24 * 60),
+    status: 503,
+    code: 'SERVICE_UNAVAILABLE',
+    message: 'Database connection pool exhausted',
+    method: 'GET',
+    path: '/api/users',
+    requestId: 'req_1729000000000_k2j4h5g6f7',
+  },
+  {
+    id: '01J9WE00000000000000000002',
+    occurredAt: minutesAgo(26 * 60),
+    status: 500,
+    code: 'SERVER_ERROR',
+    message: 'Unexpected error while expanding lesson series',
+    method: 'POST',
+    path: '/api/lessons',
+    requestId: 'req_1729100000000_a8s7d6f5g4',
+  },
+  {
+    id: '01J9WE00000000000000000003',
+    occurredAt: minutesAgo(95),
+    status: 504,
+    code: 'NETWORK_TIMEOUT',
+    message: 'Upstream geocoding service timed out',
+    method: 'PUT',
+    path: '/api/studios/01J9WS00000000000000000003',
+    requestId: 'req_1729200000000_q1w2e3r4t5',
+  },
+  {
+    id: '01J9WE00000000000000000004',
+    occurredAt: minutesAgo(12),
+    status: 500,
+    code: 'SERVER_ERROR',
+    message: 'Failed to send attendance summary email',
+    method: 'PUT',
+    path: '/api/lessons/01J9WN00000000000000000001/attendance',
+    requestId: 'req_1729300000000_z9x8c7v6b5',
+  },
+];
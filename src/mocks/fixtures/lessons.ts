@@ -0,0 +1,188 @@
+/**
+ * Lesson Fixtures for MSW Mocks
+ *
+ * Lessons served by the /lessons handlers, placed around the current
+ * day so the calendar and the dashboard have something to show.
+ * Studio, room and user IDs reference the studio, room and user fixtures.
+ * A weekly series has a rescheduled and a cancelled occurrence.
+ */
+
+import type { Lesson, LessonSeries } from '../../shared/types/lesson';
+import { toDateKey } from '../../shared/utils/date';
+import { expandSeries } from '../../shared/utils/recurrence';
+
+/**
+ * Stored lesson - names, the series recurrence and the attendance are resolved by the handlers on read
+ */
+export type LessonRecord = Omit<Lesson, 'studio' | 'room' | 'teacher' | 'student' | 'recurrence' | 'attendance'>;
+
+const TORONTO_STUDIO_ID = '01J9WS00000000000000000001';
+const VANCOUVER_STUDIO_ID = '01J9WS00000000000000000002';
+const STEINWAY_HALL_ID = '01J9WM00000000000000000001';
+const PRACTICE_ROOM_A_ID = '01J9WM00000000000000000002';
+const HARBOUR_ROOM_ID = '01J9WM00000000000000000004';
+const GUITAR_STUDIO_ID = '01J9WM00000000000000000005';
+const EMILY_ID = '01234567890123456789012350';   // teacher
+const MARCO_ID = '01234567890123456789012351';   // teacher
+const SOPHIE_ID = '01234567890123456789012352';  // student
+const LIAM_ID = '01234567890123456789012353';    // student
+
+// Helper to build a local date-time relative to today
+function todayAt(dayOffset: number, time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + dayOffset, hours, minutes).toISOString();
+}
+
+// Days back to a Tuesday 7 to 13 days ago - the weekly series started then
+const lastTuesday = ((new Date().getDay() + 5) % 7) + 7;
+
+// Helper to build a local 'YYYY-MM-DD' date relative to today
+function todayKey(dayOffset: number): string {
+  return toDateKey(new Date(todayAt(dayOffset, '00:00')));
+}
+
+/**
+ * Recurring lesson series - their occurrences are part of mockLessons
+ */
+export const mockLessonSeries: LessonSeries[] = [
+  {
+    id: '01J9WP00000000000000000001',
+    studioId: VANCOUVER_STUDIO_ID,
+    roomId: GUITAR_STUDIO_ID,
+    teacherId: MARCO_ID,
+    studentId: LIAM_ID,
+    start: todayAt(-lastTuesday, '16:00'),
+    end: todayAt(-lastTuesday, '16:45'),
+    recurrence: 'FREQ=WEEKLY;BYDAY=TU;COUNT=12',
+    note: 'Autumn term',
+    exceptions: [
+      // The third lesson moved to Thursday, the fourth was cancelled
+      {
+        date: todayKey(14 - lastTuesday),
+        status: 'rescheduled',
+        lesson: {
+          roomId: GUITAR_STUDIO_ID,
+          teacherId: MARCO_ID,
+          start: todayAt(16 - lastTuesday, '17:00'),
+          end: todayAt(16 - lastTuesday, '17:45'),
+          note: 'Autumn term',
+        },
+      },
+      { date: todayKey(21 - lastTuesday), status: 'cancelled', lesson: null },
+    ],
+  },
+];
+
+export const mockLessons: LessonRecord[] = [
+  {
+    id: '01J9WN00000000000000000001',
+    studioId: TORONTO_STUDIO_ID,
+    roomId: PRACTICE_ROOM_A_ID,
+    teacherId: EMILY_ID,
+    studentId: LIAM_ID,
+    start: todayAt(-1, '16:00'),
+    end: todayAt(-1, '17:00'),
+    note: null,
+    seriesId: null,
+    occurrence: null,
+  },
+  {
+    id: '01J9WN00000000000000000002',
+    studioId: TORONTO_STUDIO_ID,
+    roomId: STEINWAY_HALL_ID,
+    teacherId: EMILY_ID,
+    studentId: SOPHIE_ID,
+    start: todayAt(0, '10:00'),
+    end: todayAt(0, '11:00'),
+    note: 'Grade 5 exam preparation',
+    seriesId: null,
+    occurrence: null,
+  },
+  {
+    id: '01J9WN00000000000000000003',
+    studioId: VANCOUVER_STUDIO_ID,
+    roomId: GUITAR_STUDIO_ID,
+    teacherId: MARCO_ID,
+    studentId: LIAM_ID,
+    start: todayAt(0, '15:00'),
+    end: todayAt(0, '15:45'),
+    note: null,
+    seriesId: null,
+    occurrence: null,
+  },
+  {
+    id: '01J9WN00000000000000000004',
+    studioId: TORONTO_STUDIO_ID,
+    roomId: STEINWAY_HALL_ID,
+    teacherId: EMILY_ID,
+    studentId: LIAM_ID,
+    start: todayAt(0, '17:30'),
+    end: todayAt(0, '18:30'),
+    note: null,
+    seriesId: null,
+    occurrence: null,
+  },
+  {
+    id: '01J9WN00000000000000000005',
+    studioId: VANCOUVER_STUDIO_ID,
+    roomId: HARBOUR_ROOM_ID,
+    teacherId: MARCO_ID,
+    studentId: SOPHIE_ID,
+    start: todayAt(1, '09:30'),
+    end: todayAt(1, '10:30'),
+    note: null,
+    seriesId: null,
+    occurrence: null,
+  },
+  {
+    id: '01J9WN00000000000000000006',
+    studioId: TORONTO_STUDIO_ID,
+    roomId: STEINWAY_HALL_ID,
+    teacherId: EMILY_ID,
+    studentId: SOPHIE_ID,
+    start: todayAt(2, '10:00'),
+    end: todayAt(2, '11:00'),
+    note: null,
+    seriesId: null,
+    occurrence: null,
+  },
+  {
+    id: '01J9WN00000000000000000007',
+    studioId: VANCOUVER_STUDIO_ID,
+    roomId: GUITAR_STUDIO_ID,
+    teacherId: MARCO_ID,
+    studentId: LIAM_ID,
+    start: todayAt(3, '14:00'),
+    end: todayAt(3, '15:00'),
+    note: null,
+    seriesId: null,
+    occurrence: null,
+  },
+  {
+    id: '01J9WN00000000000000000008',
+    studioId: TORONTO_STUDIO_ID,
+    roomId: STEINWAY_HALL_ID,
+    teacherId: EMILY_ID,
+    studentId: SOPHIE_ID,
+    start: todayAt(7, '10:00'),
+    end: todayAt(7, '11:00'),
+    note: null,
+    seriesId: null,
+    occurrence: null,
+  },
+  ...mockLessonSeries.flatMap(series =>
+    expandSeries(series).map((occurrence, index) => ({
+      id: `${series.id.slice(0, 6)}1${String(index + 1).padStart(19, '0')}`,
+      studioId: series.studioId,
+      roomId: occurrence.roomId,
+      teacherId: occurrence.teacherId,
+      studentId: series.studentId,
+      start: occurrence.start,
+      end: occurrence.end,
+      note: occurrence.note,
+      seriesId: series.id,
+      occurrence: occurrence.date,
+    }))
+  ),
+];
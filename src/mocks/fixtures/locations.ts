@@ -0,0 +1,44 @@
+/**
+ * Location Fixtures for MSW Mocks
+ *
+ * Countries and provinces served by GET /countries and
+ * GET /countries/{id}/provinces. The IDs match the ULID references
+ * stored on the mock users.
+ */
+
+import type { Country, Province } from '../../shared/types/domain';
+
+export const mockCountries: Country[] = [
+  { id: '01J9WC00000000000000000001', name: 'United States', code: 'US' },
+  { id: '01J9WC00000000000000000002', name: 'Canada', code: 'CA' },
+  { id: '01J9WC00000000000000000003', name: 'United Kingdom', code: 'GB' },
+  { id: '01J9WC00000000000000000004', name: 'Australia', code: 'AU' },
+  { id: '01J9WC00000000000000000005', name: 'Singapore', code: 'SG' },
+];
+
+export const mockProvinces: Province[] = [
+  // United States
+  { id: '01J9WP00000000000000000001', name: 'California', code: 'CA', countryId: '01J9WC00000000000000000001' },
+  { id: '01J9WP00000000000000000002', name: 'New York', code: 'NY', countryId: '01J9WC00000000000000000001' },
+  { id: '01J9WP00000000000000000006', name: 'Texas', code: 'TX', countryId: '01J9WC00000000000000000001' },
+  { id: '01J9WP00000000000000000007', name: 'Florida', code: 'FL', countryId: '01J9WC00000000000000000001' },
+  // Canada
+  { id: '01J9WP00000000000000000003', name: 'Ontario', code: 'ON', countryId: '01J9WC00000000000000000002' },
+  { id: '01J9WP00000000000000000008', name: 'British Columbia', code: 'BC', countryId: '01J9WC00000000000000000002' },
+  { id: '01J9WP00000000000000000009', name: 'Alberta', code: 'AB', countryId: '01J9WC00000000000000000002' },
+  { id: '01J9WP00000000000000000010', name: 'Quebec', code: 'QC', countryId: '01J9WC00000000000000000002' },
+  // United Kingdom
+  { id: '01J9WP00000000000000000004', name: 'England', code: 'ENG', countryId: '01J9WC00000000000000000003' },
+  { id: '01J9WP00000000000000000011', name: 'Scotland', code: 'SCT', countryId: '01J9WC00000000000000000003' },
+  { id: '01J9WP00000000000000000012', name: 'Wales', code: 'WLS', countryId: '01J9WC00000000000000000003' },
+  // Australia
+  { id: '01J9WP00000000000000000005', name: 'New South Wales', code: 'NSW', countryId: '01J9WC00000000000000000004' },
+  { id: '01J9WP00000000000000000013', name: 'Victoria', code: 'VIC', countryId: '01J9WC00000000000000000004' },
+  { id: '01J9WP00000000000000000014', name: 'Queensland', code: 'QLD', countryId: '01J9WC00000000000000000004' },
+  // Singapore
+  { id: '01J9WP00000000000000000015', name: 'Central Region', code: 'CR', countryId: '01J9WC00000000000000000005' },
+  { id: '01J9WP00000000000000000016', name: 'East Region', code: 'ER', countryId: '01J9WC00000000000000000005' },
+  { id: '01J9WP00000000000000000017', name: 'North Region', code: 'NR', countryId: '01J9WC00000000000000000005' },
+  { id: '01J9WP00000000000000000018', name: 'North-East Region', code: 'NER', countryId: '01J9WC00000000000000000005' },
+  { id: '01J9WP00000000000000000019', name: 'West Region', code: 'WR', countryId: '01J9WC00000000000000000005' },
+];
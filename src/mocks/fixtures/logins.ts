@@ -0,0 +1,36 @@
+/**
+ * Sign-in Fixtures for MSW Mocks
+ *
+ * Sign-ins of the user record fixtures, shown in their activity timeline
+ * (GET /users/{id}/activity)
+ */
+
+const JANE_ID = '01234567890123456789012346';    // admin
+const EMILY_ID = '01234567890123456789012350';   // teacher
+const MARCO_ID = '01234567890123456789012351';   // teacher
+const LIAM_ID = '01234567890123456789012353';    // student
+
+/**
+ * Mock sign-in record
+ */
+export interface MockLoginRecord {
+  id: string;       // ULID
+  userId: string;   // ULID of the user record
+  occurredAt: string;
+  method: 'password' | 'google';
+}
+
+// Helper to build a date-time a number of hours ago
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+}
+
+export const mockLogins: MockLoginRecord[] = [
+  { id: '01J9WL00000000000000000001', userId: EMILY_ID, occurredAt: hoursAgo(2), method: 'google' },
+  { id: '01J9WL00000000000000000002', userId: EMILY_ID, occurredAt: hoursAgo(26), method: 'google' },
+  { id: '01J9WL00000000000000000003', userId: EMILY_ID, occurredAt: hoursAgo(75), method: 'password' },
+  { id: '01J9WL00000000000000000004', userId: MARCO_ID, occurredAt: hoursAgo(5), method: 'password' },
+  { id: '01J9WL00000000000000000005', userId: MARCO_ID, occurredAt: hoursAgo(170), method: 'password' },
+  { id: '01J9WL00000000000000000006', userId: LIAM_ID, occurredAt: hoursAgo(30), method: 'google' },
+  { id: '01J9WL00000000000000000007', userId: JANE_ID, occurredAt: hoursAgo(1), method: 'password' },
+];
@@ -0,0 +1,61 @@
+/**
+ * Notification Fixtures for MSW Mocks
+ *
+ * Notifications of the signed-in user served by GET /notifications, placed
+ * shortly before the current time - newest first, the two newest unread
+ */
+
+import type { AppNotification } from '../../shared/types/notification';
+
+// Helper to build a date-time a number of minutes ago
+function minutesAgo(minutes: number): string {
+  return new Date(Date.now() - minutes * 60 * 1000).toISOString();
+}
+
+export const mockNotifications: AppNotification[] = [
+  {
+    id: '01J9WT00000000000000000005',
+    type: 'user_pending_approval',
+    title: 'New user pending approval',
+    message: 'Sophie Martin signed up as a student and is waiting for approval',
+    createdAt: minutesAgo(25),
+    read: false,
+    link: '/users/01234567890123456789012352',
+  },
+  {
+    id: '01J9WT00000000000000000004',
+    type: 'lesson_cancelled',
+    title: 'Lesson cancelled',
+    message: "Liam Tan's lesson with Emily Chen was cancelled",
+    createdAt: minutesAgo(3 * 60),
+    read: false,
+    link: '/schedule',
+  },
+  {
+    id: '01J9WT00000000000000000003',
+    type: 'import_finished',
+    title: 'Import finished',
+    message: '12 users imported, 1 row failed',
+    createdAt: minutesAgo(26 * 60),
+    read: true,
+    link: '/users',
+  },
+  {
+    id: '01J9WT00000000000000000002',
+    type: 'lesson_cancelled',
+    title: 'Lesson cancelled',
+    message: "Sophie Martin's lesson with Marco Rossi was cancelled",
+    createdAt: minutesAgo(3 * 24 * 60),
+    read: true,
+    link: '/schedule',
+  },
+  {
+    id: '01J9WT00000000000000000001',
+    type: 'import_finished',
+    title: 'Import finished',
+    message: '5 users imported',
+    createdAt: minutesAgo(8 * 24 * 60),
+    read: true,
+    link: '/users',
+  },
+];
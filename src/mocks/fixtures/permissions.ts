@@ -0,0 +1,45 @@
+/**
+ * Permission Fixtures for MSW Mocks
+ *
+ * Permissions granted to each role of the signed-in user (GET /permissions)
+ */
+
+import type { RolePermissions } from '../../shared/types/permission';
+
+export const mockRolePermissions: RolePermissions[] = [
+  {
+    role: 'admin',
+    permissions: [
+      'users:read',
+      'users:write',
+      'roles:read',
+      'roles:write',
+      'studios:read',
+      'studios:write',
+      'lessons:read',
+      'lessons:write',
+      'availability:write',
+      'availability:override',
+      'attendance:read',
+      'attendance:write',
+      'errors:read',
+      'audit:read',
+    ],
+  },
+  {
+    role: 'teacher',
+    permissions: [
+      'users:read',
+      'roles:read',
+      'studios:read',
+      'lessons:read',
+      'availability:write',
+      'attendance:read',
+      'attendance:write',
+    ],
+  },
+  {
+    role: 'student',
+    permissions: ['studios:read', 'lessons:read'],
+  },
+];
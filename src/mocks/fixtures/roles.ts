@@ -0,0 +1,45 @@
+/**
+ * Role Fixtures for MSW Mocks
+ *
+ * Roles served by GET /roles. The list is mutable so the role handlers can
+ * create and rename roles and the user handlers resolve the current names.
+ */
+
+import type { Role } from '../../shared/types/role';
+
+// Roles the lesson and availability handlers check - by ID, as roles can be renamed
+export const TEACHER_ROLE_ID = '01J9WR00000000000000000004';
+export const STUDENT_ROLE_ID = '01J9WR00000000000000000005';
+
+export const mockRoles: Role[] = [
+  {
+    id: '01J9WR00000000000000000001',
+    name: 'ADMIN',
+    description: 'Full access to users, studios and settings',
+    color: 'red',
+  },
+  {
+    id: '01J9WR00000000000000000002',
+    name: 'USER',
+    description: 'Standard account',
+    color: 'blue',
+  },
+  {
+    id: '01J9WR00000000000000000003',
+    name: 'MODERATOR',
+    description: 'Manages users and content',
+    color: 'green',
+  },
+  {
+    id: TEACHER_ROLE_ID,
+    name: 'TEACHER',
+    description: 'Teaches lessons in one or more studios',
+    color: 'purple',
+  },
+  {
+    id: STUDENT_ROLE_ID,
+    name: 'STUDENT',
+    description: 'Attends lessons',
+    color: 'cyan',
+  },
+];
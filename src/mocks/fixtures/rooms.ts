@@ -0,0 +1,84 @@
+/**
+ * Room Fixtures for MSW Mocks
+ *
+ * Rooms served by the /studios/:studioId/rooms handlers. Studio IDs
+ * reference the studio fixtures.
+ */
+
+import type { Room } from '../../shared/types/room';
+
+export const mockRooms: Room[] = [
+  // Downtown Toronto Studio
+  {
+    id: '01J9WM00000000000000000001',
+    studioId: '01J9WS00000000000000000001',
+    name: 'Steinway Hall',
+    type: 'lesson',
+    capacity: 4,
+    equipment: ['Grand piano', 'Music stand'],
+    status: 'open',
+    note: null,
+  },
+  {
+    id: '01J9WM00000000000000000002',
+    studioId: '01J9WS00000000000000000001',
+    name: 'Practice Room A',
+    type: 'practice',
+    capacity: 2,
+    equipment: ['Upright piano'],
+    status: 'open',
+    note: null,
+  },
+  {
+    id: '01J9WM00000000000000000003',
+    studioId: '01J9WS00000000000000000001',
+    name: 'Drum Room',
+    type: 'practice',
+    capacity: 3,
+    equipment: ['Drum kit', 'Amplifier'],
+    status: 'maintenance',
+    note: 'Acoustic panels being replaced',
+  },
+  // Vancouver Harbour Studio
+  {
+    id: '01J9WM00000000000000000004',
+    studioId: '01J9WS00000000000000000002',
+    name: 'Harbour Room',
+    type: 'lesson',
+    capacity: 6,
+    equipment: ['Grand piano', 'Music stand', 'Whiteboard'],
+    status: 'open',
+    note: null,
+  },
+  {
+    id: '01J9WM00000000000000000005',
+    studioId: '01J9WS00000000000000000002',
+    name: 'Guitar Studio',
+    type: 'lesson',
+    capacity: 3,
+    equipment: ['Amplifier', 'Music stand'],
+    status: 'open',
+    note: null,
+  },
+  // Orchard Music Studio
+  {
+    id: '01J9WM00000000000000000006',
+    studioId: '01J9WS00000000000000000003',
+    name: 'Orchard Room 1',
+    type: 'lesson',
+    capacity: 2,
+    equipment: ['Upright piano'],
+    status: 'open',
+    note: null,
+  },
+  {
+    id: '01J9WM00000000000000000007',
+    studioId: '01J9WS00000000000000000003',
+    name: 'Orchard Room 2',
+    type: 'practice',
+    capacity: 1,
+    equipment: ['Digital piano'],
+    status: 'open',
+    note: null,
+  },
+];
@@ -0,0 +1,77 @@
+/**
+ * Studio Fixtures for MSW Mocks
+ *
+ * Studios served by the /studios handlers. Country and province IDs
+ * reference the location fixtures.
+ */
+
+import type { Studio } from '../../shared/types/studio';
+
+export const mockStudios: Studio[] = [
+  {
+    id: '01J9WS00000000000000000001',
+    name: 'Downtown Toronto Studio',
+    countryId: '01J9WC00000000000000000002',
+    provinceId: '01J9WP00000000000000000003',
+    address: '120 King St W, Toronto, ON M5X 1A9',
+    phone: '+1-416-555-0100',
+    openingHours: [
+      { day: 'monday', open: '09:00', close: '21:00' },
+      { day: 'tuesday', open: '09:00', close: '21:00' },
+      { day: 'wednesday', open: '09:00', close: '21:00' },
+      { day: 'thursday', open: '09:00', close: '21:00' },
+      { day: 'friday', open: '09:00', close: '21:00' },
+      { day: 'saturday', open: '10:00', close: '18:00' },
+    ],
+    note: null,
+  },
+  {
+    id: '01J9WS00000000000000000002',
+    name: 'Vancouver Harbour Studio',
+    countryId: '01J9WC00000000000000000002',
+    provinceId: '01J9WP00000000000000000008',
+    address: '999 Canada Pl, Vancouver, BC V6C 3E1',
+    phone: '+1-604-555-0120',
+    openingHours: [
+      { day: 'tuesday', open: '10:00', close: '20:00' },
+      { day: 'wednesday', open: '10:00', close: '20:00' },
+      { day: 'thursday', open: '10:00', close: '20:00' },
+      { day: 'friday', open: '10:00', close: '20:00' },
+      { day: 'saturday', open: '09:00', close: '17:00' },
+      { day: 'sunday', open: '09:00', close: '17:00' },
+    ],
+    note: 'Parking available in the building',
+  },
+  {
+    id: '01J9WS00000000000000000003',
+    name: 'Orchard Music Studio',
+    countryId: '01J9WC00000000000000000005',
+    provinceId: '01J9WP00000000000000000015',
+    address: '391 Orchard Rd, Singapore 238872',
+    phone: '+65-6555-0130',
+    openingHours: [
+      { day: 'monday', open: '11:00', close: '21:00' },
+      { day: 'wednesday', open: '11:00', close: '21:00' },
+      { day: 'friday', open: '11:00', close: '21:00' },
+      { day: 'saturday', open: '09:00', close: '18:00' },
+      { day: 'sunday', open: '09:00', close: '18:00' },
+    ],
+    note: null,
+  },
+  {
+    id: '01J9WS00000000000000000004',
+    name: 'Brooklyn Studio',
+    countryId: '01J9WC00000000000000000001',
+    provinceId: '01J9WP00000000000000000002',
+    address: '55 Water St, Brooklyn, NY 11201',
+    phone: null,
+    openingHours: [
+      { day: 'monday', open: '08:00', close: '22:00' },
+      { day: 'tuesday', open: '08:00', close: '22:00' },
+      { day: 'wednesday', open: '08:00', close: '22:00' },
+      { day: 'thursday', open: '08:00', close: '22:00' },
+      { day: 'friday', open: '08:00', close: '22:00' },
+    ],
+    note: null,
+  },
+];
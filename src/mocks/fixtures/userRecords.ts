@@ -0,0 +1,155 @@
+/**
+ * User Record Fixtures for MSW Mocks
+ *
+ * Users served by the /users handlers. Other handlers (e.g. lessons)
+ * look up teachers and students here.
+ */
+
+import type { User } from '../../shared/types/user';
+
+/**
+ * Mock user record
+ * Stores the ULID references alongside the resolved names returned by GET /users.
+ * Deleted users are kept with `deleted: true` (soft delete) so they can be restored.
+ */
+export interface MockUserRecord extends User {
+  role: string;      // resolved role name
+  country: string;   // resolved country name
+  province: string;  // resolved province name
+  createdAt: string; // ISO 8601 creation time
+}
+
+// Creation time a number of days ago, so recent sign-ups stay recent
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Mock user data for testing
+export const mockUserRecords: MockUserRecord[] = [
+  {
+    id: '01234567890123456789012345',
+    name: 'John Doe',
+    email: 'john.doe@example.com',
+    phone: '+1-555-0101',
+    roleId: '01J9WR00000000000000000002',
+    role: 'USER',
+    countryId: '01J9WC00000000000000000001',
+    country: 'United States',
+    provinceId: '01J9WP00000000000000000001',
+    province: 'California',
+    note: null,
+    createdAt: '2024-01-15T09:00:00.000Z',
+  },
+  {
+    id: '01234567890123456789012346',
+    name: 'Jane Smith',
+    email: 'jane.admin@example.com',
+    phone: '+1-555-0102',
+    roleId: '01J9WR00000000000000000001',
+    role: 'ADMIN',
+    countryId: '01J9WC00000000000000000001',
+    country: 'United States',
+    provinceId: '01J9WP00000000000000000002',
+    province: 'New York',
+    note: null,
+    createdAt: '2024-01-15T09:05:00.000Z',
+  },
+  {
+    id: '01234567890123456789012347',
+    name: 'Bob Johnson',
+    email: 'bob.moderator@example.com',
+    phone: '+1-555-0103',
+    roleId: '01J9WR00000000000000000003',
+    role: 'MODERATOR',
+    countryId: '01J9WC00000000000000000002',
+    country: 'Canada',
+    provinceId: '01J9WP00000000000000000003',
+    province: 'Ontario',
+    note: null,
+    createdAt: '2024-03-02T14:20:00.000Z',
+  },
+  {
+    id: '01234567890123456789012348',
+    name: 'Alice Williams',
+    email: 'alice.user@example.com',
+    phone: '+1-555-0104',
+    roleId: '01J9WR00000000000000000002',
+    role: 'USER',
+    countryId: '01J9WC00000000000000000003',
+    country: 'United Kingdom',
+    provinceId: '01J9WP00000000000000000004',
+    province: 'England',
+    note: null,
+    createdAt: '2024-06-11T10:45:00.000Z',
+  },
+  {
+    id: '01234567890123456789012349',
+    name: 'Charlie Brown',
+    email: 'charlie.dev@example.com',
+    phone: '+1-555-0105',
+    roleId: '01J9WR00000000000000000002',
+    role: 'USER',
+    countryId: '01J9WC00000000000000000004',
+    country: 'Australia',
+    provinceId: '01J9WP00000000000000000005',
+    province: 'New South Wales',
+    note: null,
+    createdAt: '2024-09-23T16:10:00.000Z',
+  },
+  {
+    id: '01234567890123456789012350',
+    name: 'Emily Chen',
+    email: 'emily.piano@example.com',
+    phone: '+1-416-555-0110',
+    roleId: '01J9WR00000000000000000004',
+    role: 'TEACHER',
+    countryId: '01J9WC00000000000000000002',
+    country: 'Canada',
+    provinceId: '01J9WP00000000000000000003',
+    province: 'Ontario',
+    note: 'Piano and music theory',
+    createdAt: '2025-01-08T18:30:00.000Z',
+  },
+  {
+    id: '01234567890123456789012351',
+    name: 'Marco Rossi',
+    email: 'marco.guitar@example.com',
+    phone: '+1-604-555-0111',
+    roleId: '01J9WR00000000000000000004',
+    role: 'TEACHER',
+    countryId: '01J9WC00000000000000000002',
+    country: 'Canada',
+    provinceId: '01J9WP00000000000000000008',
+    province: 'British Columbia',
+    note: 'Guitar and drums',
+    createdAt: '2025-02-17T17:00:00.000Z',
+  },
+  {
+    id: '01234567890123456789012352',
+    name: 'Sophie Martin',
+    email: 'sophie.student@example.com',
+    phone: null,
+    roleId: '01J9WR00000000000000000005',
+    role: 'STUDENT',
+    countryId: '01J9WC00000000000000000002',
+    country: 'Canada',
+    provinceId: '01J9WP00000000000000000003',
+    province: 'Ontario',
+    note: null,
+    createdAt: daysAgo(1),
+  },
+  {
+    id: '01234567890123456789012353',
+    name: 'Liam Tan',
+    email: 'liam.student@example.com',
+    phone: '+65-8555-0112',
+    roleId: '01J9WR00000000000000000005',
+    role: 'STUDENT',
+    countryId: '01J9WC00000000000000000005',
+    country: 'Singapore',
+    provinceId: '01J9WP00000000000000000015',
+    province: 'Central',
+    note: null,
+    createdAt: '2025-08-30T20:15:00.000Z',
+  },
+];
@@ -0,0 +1,121 @@
+import { http, HttpResponse } from 'msw';
+import type { AuditEvent } from '../../shared/types/audit';
+import type { UserActivity, UserActivityListResponse } from '../../shared/types/activity';
+import type { PaginationMeta } from '../../shared/types/user';
+import { mockAttendance } from '../fixtures/attendance';
+import { mockAuditEvents } from '../fixtures/auditEvents';
+import { mockLessons } from '../fixtures/lessons';
+import { mockLogins } from '../fixtures/logins';
+import { mockRooms } from '../fixtures/rooms';
+import { mockUserRecords } from '../fixtures/userRecords';
+import { errorResponse, generateRequestId } from '../utils/responses';
+
+// Default page size of GET /users/:id/activity
+const DEFAULT_PAGE_SIZE = 20;
+
+// Snapshot fields that are not profile edits - ULID references change with their names,
+// role and deleted have their own activity types
+const NON_PROFILE_FIELDS = ['id', 'roleId', 'countryId', 'provinceId', 'createdAt', 'role', 'deleted'];
+
+// Helper to turn an audit event into timeline entries - an update can change the role and the profile
+function fromAuditEvent(event: AuditEvent): UserActivity[] {
+  const entry = { occurredAt: event.occurredAt, actor: event.actor, requestId: event.requestId };
+
+  switch (event.action) {
+    case 'create':
+      return [{ ...entry, id: event.id, type: 'account_created', summary: `Account created as ${event.after?.role ?? 'user'}` }];
+    case 'delete':
+      return [{ ...entry, id: event.id, type: 'deleted', summary: 'Account deleted' }];
+    case 'restore':
+      return [{ ...entry, id: event.id, type: 'restored', summary: 'Account restored' }];
+    case 'update': {
+      const before = event.before ?? {};
+      const after = event.after ?? {};
+      const entries: UserActivity[] = [];
+      if (before.role !== after.role) {
+        entries.push({ ...entry, id: `${event.id}-role`, type: 'role_changed', summary: `Role changed from ${before.role} to ${after.role}` });
+      }
+      const fields = Object.keys(after).filter(field =>
+        !NON_PROFILE_FIELDS.includes(field) && JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)
+      );
+      if (fields.length > 0) {
+        entries.push({ ...entry, id: event.id, type: 'profile_updated', summary: `Profile updated: ${fields.join(', ')}` });
+      }
+      return entries;
+    }
+  }
+}
+
+// Helper to combine the audit log, sign-ins and attended lessons of a user, newest first
+function userActivity(userId: string, createdAt: string): UserActivity[] {
+  const events = mockAuditEvents.filter(event => event.entityType === 'user' && event.entityId === userId);
+  const activity = events.flatMap(fromAuditEvent);
+
+  // Accounts created before the audit log only have their creation time
+  if (!events.some(event => event.action === 'create')) {
+    activity.push({ id: `${userId}-created`, type: 'account_created', occurredAt: createdAt, summary: 'Account created', actor: null, requestId: null });
+  }
+
+  mockLogins
+    .filter(login => login.userId === userId)
+    .forEach(login => activity.push({
+      id: login.id,
+      type: 'login',
+      occurredAt: login.occurredAt,
+      summary: login.method === 'google' ? 'Signed in with Google' : 'Signed in with email and password',
+      actor: null,
+      requestId: null,
+    }));
+
+  mockLessons
+    .filter(lesson => lesson.studentId === userId)
+    .filter(lesson => mockAttendance.some(item => item.lessonId === lesson.id && item.status === 'attended'))
+    .forEach(lesson => {
+      const teacher = mockUserRecords.find(user => user.id === lesson.teacherId)?.name ?? lesson.teacherId;
+      const room = mockRooms.find(item => item.id === lesson.roomId)?.name ?? lesson.roomId;
+      activity.push({
+        id: lesson.id,
+        type: 'lesson_attended',
+        occurredAt: lesson.start,
+        summary: `Attended lesson with ${teacher} in ${room}`,
+        actor: null,
+        requestId: null,
+      });
+    });
+
+  return activity.sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+}
+
+// MSW handlers for the user activity timeline
+export const activityHandlers = [
+  // GET /api/users/:id/activity - What happened to an account, newest first
+  http.get('*/api/users/:id/activity', ({ params, request }) => {
+    const user = mockUserRecords.find(record => record.id === params.id);
+    if (!user) {
+      return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
+    }
+
+    const url = new URL(request.url);
+    const page = Number(url.searchParams.get('page')) || 0;
+    const size = Number(url.searchParams.get('size')) || DEFAULT_PAGE_SIZE;
+    const activity = userActivity(user.id, user.createdAt);
+    const totalPages = Math.ceil(activity.length / size);
+    const meta: PaginationMeta = {
+      page,
+      size,
+      totalItems: activity.length,
+      totalPages,
+      hasNext: page < totalPages - 1,
+    };
+
+    const response: UserActivityListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: activity.slice(page * size, (page + 1) * size),
+      meta,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
@@ -0,0 +1,75 @@
+import { http, HttpResponse } from 'msw';
+import type {
+  Attendance,
+  AttendanceResponse,
+  ClearAttendanceResponse,
+  RecordAttendanceRequest,
+} from '../../shared/types/attendance';
+import { validateAttendance } from '../../shared/utils/attendance';
+import { mockAttendance } from '../fixtures/attendance';
+import { mockLessons } from '../fixtures/lessons';
+import { errorResponse, generateRequestId } from '../utils/responses';
+
+// MSW handlers for lesson attendance endpoints - the attendance is read with the lessons
+export const attendanceHandlers = [
+  // PUT /api/lessons/:id/attendance - Record or replace the attendance of a lesson
+  http.put('*/api/lessons/:id/attendance', async ({ params, request }) => {
+    const lesson = mockLessons.find(l => l.id === params.id);
+    if (!lesson) {
+      return errorResponse(404, 'LESSON_NOT_FOUND', 'Lesson not found');
+    }
+
+    const data = await request.json() as RecordAttendanceRequest;
+    const problem = validateAttendance(lesson, data);
+    if (problem) {
+      return errorResponse(422, 'VALIDATION_ERROR', problem);
+    }
+
+    const attendance: Attendance = {
+      lessonId: lesson.id,
+      status: data.status,
+      note: data.note?.trim() || null,
+      recordedAt: new Date().toISOString(),
+    };
+    const index = mockAttendance.findIndex(item => item.lessonId === lesson.id);
+    if (index === -1) {
+      mockAttendance.push(attendance);
+    } else {
+      mockAttendance[index] = attendance;
+    }
+
+    const response: AttendanceResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: attendance,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // DELETE /api/lessons/:id/attendance - Clear the attendance of a lesson
+  http.delete('*/api/lessons/:id/attendance', ({ params }) => {
+    if (!mockLessons.some(l => l.id === params.id)) {
+      return errorResponse(404, 'LESSON_NOT_FOUND', 'Lesson not found');
+    }
+
+    const index = mockAttendance.findIndex(item => item.lessonId === params.id);
+    if (index === -1) {
+      return errorResponse(404, 'ATTENDANCE_NOT_FOUND', 'No attendance recorded for this lesson');
+    }
+
+    mockAttendance.splice(index, 1);
+
+    const response: ClearAttendanceResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: null,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
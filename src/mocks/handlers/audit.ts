@@ -0,0 +1,79 @@
+import { http, HttpResponse } from 'msw';
+import type { AuditEvent, AuditListParams, AuditListResponse } from '../../shared/types/audit';
+import type { PaginationMeta } from '../../shared/types/user';
+import { mockAuditEvents } from '../fixtures/auditEvents';
+import { errorResponse, generateRequestId } from '../utils/responses';
+
+// Default page size of GET /audit
+const DEFAULT_PAGE_SIZE = 20;
+
+// Helper to filter audit events - the actor matches part of the name or email
+function filterEvents(events: AuditEvent[], params: AuditListParams): AuditEvent[] {
+  const actor = params.actor?.toLowerCase();
+  const from = params.from ? Date.parse(params.from) : null;
+  const to = params.to ? Date.parse(params.to) : null;
+
+  return events.filter(event => {
+    if (actor && !event.actor.name.toLowerCase().includes(actor) && !event.actor.email.toLowerCase().includes(actor)) {
+      return false;
+    }
+    if (params.entityType && event.entityType !== params.entityType) {
+      return false;
+    }
+    if (params.entityId && event.entityId !== params.entityId) {
+      return false;
+    }
+    const occurredAt = Date.parse(event.occurredAt);
+    if (from !== null && occurredAt < from) {
+      return false;
+    }
+    if (to !== null && occurredAt >= to) {
+      return false;
+    }
+    return true;
+  });
+}
+
+// MSW handlers for audit endpoints - events are recorded by the mutation handlers
+export const auditHandlers = [
+  // GET /api/audit - List audit events with filtering and pagination, newest first
+  http.get('*/api/audit', ({ request }) => {
+    const url = new URL(request.url);
+    const params: AuditListParams = {
+      page: Number(url.searchParams.get('page')) || 0,
+      size: Number(url.searchParams.get('size')) || DEFAULT_PAGE_SIZE,
+      actor: url.searchParams.get('actor') || undefined,
+      entityType: (url.searchParams.get('entityType') as AuditListParams['entityType']) || undefined,
+      entityId: url.searchParams.get('entityId') || undefined,
+      from: url.searchParams.get('from') || undefined,
+      to: url.searchParams.get('to') || undefined,
+    };
+
+    if ((params.from && Number.isNaN(Date.parse(params.from))) || (params.to && Number.isNaN(Date.parse(params.to)))) {
+      return errorResponse(422, 'VALIDATION_ERROR', 'from and to must be ISO 8601 date-times');
+    }
+
+    const page = params.page ?? 0;
+    const size = params.size ?? DEFAULT_PAGE_SIZE;
+    const events = filterEvents(mockAuditEvents, params)
+      .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+    const totalPages = Math.ceil(events.length / size);
+    const meta: PaginationMeta = {
+      page,
+      size,
+      totalItems: events.length,
+      totalPages,
+      hasNext: page < totalPages - 1,
+    };
+
+    const response: AuditListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: events.slice(page * size, (page + 1) * size),
+      meta,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
@@ -0,0 +1,113 @@
+import { http, HttpResponse } from 'msw';
+import type {
+  TeacherAvailability,
+  TeacherAvailabilityResponse,
+  UpdateTeacherAvailabilityRequest,
+} from '../../shared/types/availability';
+import type { Weekday } from '../../shared/types/studio';
+import { validateAvailability } from '../../shared/utils/availability';
+import { mockAvailability } from '../fixtures/availability';
+import { mockStudios } from '../fixtures/studios';
+import { mockUserRecords } from '../fixtures/userRecords';
+import { TEACHER_ROLE_ID } from '../fixtures/roles';
+import { errorResponse, generateMockId, generateRequestId } from '../utils/responses';
+
+const WEEKDAY_ORDER: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Helper to build an availability success envelope
+function availabilityResponse(availability: TeacherAvailability) {
+  const body: TeacherAvailabilityResponse = {
+    success: true,
+    requestId: generateRequestId(),
+    data: availability,
+    meta: null,
+    error: null,
+  };
+  return HttpResponse.json(body);
+}
+
+// Helper to reject unknown users and users without the TEACHER role - returns an error response or null
+function requireTeacher(userId: string) {
+  const user = mockUserRecords.find(record => record.id === userId);
+  if (!user) {
+    return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
+  }
+  if (user.roleId !== TEACHER_ROLE_ID) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Only users with the TEACHER role have availability');
+  }
+  return null;
+}
+
+// Helper to find the stored availability - teachers without an entry have none yet
+function findAvailability(teacherId: string): TeacherAvailability {
+  return mockAvailability.find(availability => availability.teacherId === teacherId)
+    ?? { teacherId, weekly: [], exceptions: [] };
+}
+
+// Helper to sort weekly slots Monday to Sunday, then by start time
+function sortWeekly(weekly: TeacherAvailability['weekly']): TeacherAvailability['weekly'] {
+  return [...weekly].sort((a, b) =>
+    WEEKDAY_ORDER.indexOf(a.day) - WEEKDAY_ORDER.indexOf(b.day) || a.start.localeCompare(b.start)
+  );
+}
+
+// MSW handlers for teacher availability endpoints
+export const availabilityHandlers = [
+  // GET /api/users/:id/availability - Get a teacher's availability
+  http.get('*/api/users/:id/availability', ({ params }) => {
+    const teacherId = params.id as string;
+    const invalid = requireTeacher(teacherId);
+    if (invalid) {
+      return invalid;
+    }
+
+    return availabilityResponse(findAvailability(teacherId));
+  }),
+
+  // PUT /api/users/:id/availability - Replace a teacher's availability
+  http.put('*/api/users/:id/availability', async ({ params, request }) => {
+    const teacherId = params.id as string;
+    const invalid = requireTeacher(teacherId);
+    if (invalid) {
+      return invalid;
+    }
+
+    let data: UpdateTeacherAvailabilityRequest;
+    try {
+      data = await request.json() as UpdateTeacherAvailabilityRequest;
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
+    }
+
+    const problem = validateAvailability(data);
+    if (problem) {
+      return errorResponse(422, 'VALIDATION_ERROR', problem);
+    }
+    if (data.weekly.some(slot => !mockStudios.some(studio => studio.id === slot.studioId))) {
+      return errorResponse(422, 'VALIDATION_ERROR', 'Studio not found');
+    }
+
+    const availability: TeacherAvailability = {
+      teacherId,
+      weekly: sortWeekly(data.weekly.map(({ studioId, day, start, end }) => ({ studioId, day, start, end }))),
+      exceptions: data.exceptions
+        .map(({ id, from, to, reason, note }) => ({
+          id: id || generateMockId(),
+          from,
+          to,
+          reason,
+          note: note?.trim() || null,
+        }))
+        .sort((a, b) => a.from.localeCompare(b.from)),
+    };
+
+    const index = mockAvailability.findIndex(item => item.teacherId === teacherId);
+    if (index === -1) {
+      mockAvailability.push(availability);
+    } else {
+      mockAvailability[index] = availability;
+    }
+
+    return availabilityResponse(availability);
+  }),
+];
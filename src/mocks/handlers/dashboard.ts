@@ -0,0 +1,163 @@
+import { http, HttpResponse } from 'msw';
+import type {
+  DashboardPeriodParams,
+  ErrorLogListResponse,
+  NewUsersCountResponse,
+  RoleUserCount,
+  RoleUserCountListResponse,
+  RoomUtilisation,
+  RoomUtilisationListResponse,
+} from '../../shared/types/dashboard';
+import { addDays, startOfDay, withTime } from '../../shared/utils/date';
+import { getOpeningHoursOn } from '../../shared/utils/lessonConflicts';
+import { mockErrorLog } from '../fixtures/errorLog';
+import { mockLessons } from '../fixtures/lessons';
+import { mockRoles } from '../fixtures/roles';
+import { mockRooms } from '../fixtures/rooms';
+import { mockStudios } from '../fixtures/studios';
+import { mockUserRecords } from '../fixtures/userRecords';
+import { errorResponse, generateRequestId } from '../utils/responses';
+
+// Most errors returned by GET /dashboard/errors
+const MAX_ERRORS = 50;
+
+// Helper to read the from/to period - returns null when it is not a valid period
+function parsePeriod(url: URL): DashboardPeriodParams | null {
+  const from = url.searchParams.get('from') || '';
+  const to = url.searchParams.get('to') || '';
+  if (Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to)) || Date.parse(to) <= Date.parse(from)) {
+    return null;
+  }
+  return { from, to };
+}
+
+// Helper to count the minutes two time ranges share
+function overlapMinutes(start: number, end: number, from: number, to: number): number {
+  return Math.max(0, Math.min(end, to) - Math.max(start, from)) / 60000;
+}
+
+// Helper to sum the opening hours of a studio within a period, day by day in local time
+function openMinutesOf(studioId: string, period: DashboardPeriodParams): number {
+  const studio = mockStudios.find(item => item.id === studioId);
+  const from = Date.parse(period.from);
+  const to = Date.parse(period.to);
+  let minutes = 0;
+
+  for (let day = startOfDay(new Date(from)); day.getTime() < to; day = addDays(day, 1)) {
+    const hours = studio && getOpeningHoursOn(day, studio.openingHours);
+    if (hours) {
+      minutes += overlapMinutes(withTime(day, hours.open).getTime(), withTime(day, hours.close).getTime(), from, to);
+    }
+  }
+
+  return minutes;
+}
+
+// Helper to compute the utilisation of every open room
+function roomUtilisation(period: DashboardPeriodParams): RoomUtilisation[] {
+  const from = Date.parse(period.from);
+  const to = Date.parse(period.to);
+
+  return mockRooms
+    .filter(room => room.status === 'open')
+    .map(room => ({
+      roomId: room.id,
+      room: room.name,
+      studioId: room.studioId,
+      studio: mockStudios.find(studio => studio.id === room.studioId)?.name ?? room.studioId,
+      bookedMinutes: mockLessons
+        .filter(lesson => lesson.roomId === room.id)
+        .reduce((total, lesson) => total + overlapMinutes(Date.parse(lesson.start), Date.parse(lesson.end), from, to), 0),
+      openMinutes: openMinutesOf(room.studioId, period),
+    }));
+}
+
+// MSW handlers for the figures shown by the dashboard widgets
+export const dashboardHandlers = [
+  // GET /api/dashboard/users/by-role - Count active users per role
+  http.get('*/api/dashboard/users/by-role', () => {
+    const counts = new Map<string, number>();
+    mockUserRecords
+      .filter(user => !user.deleted)
+      .forEach(user => {
+        // Resolve on read so renamed roles show up immediately
+        const role = mockRoles.find(item => item.id === user.roleId)?.name ?? user.roleId;
+        counts.set(role, (counts.get(role) ?? 0) + 1);
+      });
+
+    const data: RoleUserCount[] = [...counts]
+      .map(([role, count]) => ({ role, count }))
+      .sort((a, b) => b.count - a.count || a.role.localeCompare(b.role));
+
+    const response: RoleUserCountListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // GET /api/dashboard/users/new - Count users created in a period
+  http.get('*/api/dashboard/users/new', ({ request }) => {
+    const period = parsePeriod(new URL(request.url));
+    if (!period) {
+      return errorResponse(422, 'VALIDATION_ERROR', 'from and to must be ISO 8601 date-times with to after from');
+    }
+
+    const from = Date.parse(period.from);
+    const to = Date.parse(period.to);
+    const response: NewUsersCountResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: {
+        ...period,
+        count: mockUserRecords.filter(user => {
+          const createdAt = Date.parse(user.createdAt);
+          return createdAt >= from && createdAt < to;
+        }).length,
+      },
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // GET /api/dashboard/rooms/utilisation - Booked share of each open room's opening hours
+  http.get('*/api/dashboard/rooms/utilisation', ({ request }) => {
+    const period = parsePeriod(new URL(request.url));
+    if (!period) {
+      return errorResponse(422, 'VALIDATION_ERROR', 'from and to must be ISO 8601 date-times with to after from');
+    }
+
+    const response: RoomUtilisationListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: roomUtilisation(period),
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // GET /api/dashboard/errors - Latest server errors, newest first
+  http.get('*/api/dashboard/errors', ({ request }) => {
+    const limit = Number(new URL(request.url).searchParams.get('limit')) || 5;
+
+    const response: ErrorLogListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: [...mockErrorLog]
+        .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt))
+        .slice(0, Math.min(Math.max(limit, 1), MAX_ERRORS)),
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
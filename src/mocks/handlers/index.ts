@@ -6,13 +6,49 @@
 
 import { authHandlers } from './auth';
 import { userHandlers } from './user';
+import { locationHandlers } from './location';
+import { roleHandlers } from './role';
+import { permissionHandlers } from './permission';
+import { studioHandlers } from './studio';
+import { roomHandlers } from './room';
+import { lessonHandlers } from './lesson';
+import { availabilityHandlers } from './availability';
+import { attendanceHandlers } from './attendance';
+import { dashboardHandlers } from './dashboard';
+import { auditHandlers } from './audit';
+import { activityHandlers } from './activity';
+import { notificationHandlers } from './notification';
 
 // Combine all handlers
 export const handlers = [
   ...authHandlers,
-  ...userHandlers
+  ...userHandlers,
+  ...locationHandlers,
+  ...roleHandlers,
+  ...permissionHandlers,
+  ...studioHandlers,
+  ...roomHandlers,
+  ...lessonHandlers,
+  ...availabilityHandlers,
+  ...attendanceHandlers,
+  ...dashboardHandlers,
+  ...auditHandlers,
+  ...activityHandlers,
+  ...notificationHandlers
 ];
 
 // Export individual handler groups for selective use
 export { authHandlers } from './auth';
 export { userHandlers } from './user';
+export { locationHandlers } from './location';
+export { roleHandlers } from './role';
+export { permissionHandlers } from './permission';
+export { studioHandlers } from './studio';
+export { roomHandlers } from './room';
+export { lessonHandlers } from './lesson';
+export { availabilityHandlers } from './availability';
+export { attendanceHandlers } from './attendance';
+export { dashboardHandlers } from './dashboard';
+export { auditHandlers } from './audit';
+export { activityHandlers } from './activity';
+export { notificationHandlers } from './notification';
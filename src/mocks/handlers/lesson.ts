@@ -0,0 +1,591 @@
+import { http, HttpResponse } from 'msw';
+import type {
+  Lesson,
+  LessonListParams,
+  LessonListResponse,
+  LessonResponse,
+  LessonSeries,
+  LessonSeriesException,
+  LessonSeriesResponse,
+  LessonSlot,
+  CreateLessonRequest,
+  UpdateLessonRequest,
+  DeleteLessonResponse,
+  LessonConflictErrorResponse,
+  RecurrenceScope,
+} from '../../shared/types/lesson';
+import type { ValidationError } from '../../shared/types/api';
+import { formatDate } from '../../shared/i18n';
+import { addDays, formatTime, parseDateKey, toDateKey, weekdayOf, withTime } from '../../shared/utils/date';
+import {
+  findLessonConflicts,
+  findSeriesConflicts,
+  suggestFreeSlots,
+  type LessonCandidate,
+  type LessonSchedule,
+} from '../../shared/utils/lessonConflicts';
+import {
+  daysBetween,
+  expandSeries,
+  formatRecurrence,
+  parseRecurrence,
+  splitRecurrence,
+  type RecurrenceRule,
+} from '../../shared/utils/recurrence';
+import { mockLessons, mockLessonSeries, type LessonRecord } from '../fixtures/lessons';
+import { mockStudios } from '../fixtures/studios';
+import { mockRooms } from '../fixtures/rooms';
+import { mockUserRecords } from '../fixtures/userRecords';
+import { STUDENT_ROLE_ID, TEACHER_ROLE_ID } from '../fixtures/roles';
+import { mockAvailability } from '../fixtures/availability';
+import { mockAttendance } from '../fixtures/attendance';
+import { pushNotification } from '../utils/notifications';
+import { errorResponse, generateMockId, generateRequestId } from '../utils/responses';
+
+const RECURRENCE_SCOPES: RecurrenceScope[] = ['occurrence', 'following', 'series'];
+
+// Helper to build the schedule of a lesson's studio and teacher - the availability check is skipped on override
+function scheduleFor(
+  candidate: Pick<LessonCandidate, 'studioId' | 'teacherId'>,
+  overrideAvailability = false,
+  lessons: LessonRecord[] = mockLessons
+): LessonSchedule {
+  return {
+    lessons,
+    openingHours: mockStudios.find(studio => studio.id === candidate.studioId)?.openingHours ?? [],
+    availability: overrideAvailability
+      ? null
+      : mockAvailability.find(item => item.teacherId === candidate.teacherId) ?? { weekly: [], exceptions: [] },
+  };
+}
+
+// Helper to build a 409 LESSON_CONFLICT envelope
+function conflictResponse(errors: ValidationError[], suggestedSlots: LessonSlot[]) {
+  const body: LessonConflictErrorResponse = {
+    success: false,
+    requestId: generateRequestId(),
+    data: null,
+    meta: null,
+    error: {
+      status: 409,
+      code: 'LESSON_CONFLICT',
+      message: 'The lesson conflicts with the schedule',
+      details: { suggestedSlots },
+      errors,
+    },
+  };
+  return HttpResponse.json(body, { status: 409 });
+}
+
+// Helper to reject a double booking or a lesson outside the opening hours or the teacher's
+// availability - returns null when free. The availability check is skipped on override.
+function checkConflicts(candidate: LessonCandidate, overrideAvailability = false) {
+  const schedule = scheduleFor(candidate, overrideAvailability);
+  const errors = findLessonConflicts(candidate, schedule);
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return conflictResponse(errors, suggestFreeSlots(candidate, schedule, { notBefore: new Date() }));
+}
+
+// Helper to check every occurrence of a new or moved series - the lessons it replaces are ignored
+function checkSeriesConflicts(
+  records: LessonRecord[],
+  series: LessonSeries,
+  replaced: LessonRecord[],
+  overrideAvailability = false
+) {
+  const schedule = scheduleFor(series, overrideAvailability, mockLessons.filter(lesson => !replaced.includes(lesson)));
+  const errors = findSeriesConflicts(
+    records.map(record => ({ ...record, occurrence: record.occurrence as string })),
+    schedule
+  );
+  return errors.length === 0 ? null : conflictResponse(errors, []);
+}
+
+// Helper to resolve studio, room and user names, the series recurrence and the attendance from the fixtures
+function toLesson(record: LessonRecord): Lesson {
+  const userName = (id: string) => mockUserRecords.find(user => user.id === id)?.name ?? id;
+  return {
+    ...record,
+    studio: mockStudios.find(studio => studio.id === record.studioId)?.name ?? record.studioId,
+    room: mockRooms.find(room => room.id === record.roomId)?.name ?? record.roomId,
+    teacher: userName(record.teacherId),
+    student: userName(record.studentId),
+    recurrence: mockLessonSeries.find(series => series.id === record.seriesId)?.recurrence ?? null,
+    attendance: mockAttendance.find(attendance => attendance.lessonId === record.id) ?? null,
+  };
+}
+
+// Helper to build a lesson success envelope
+function lessonResponse(record: LessonRecord, status = 200) {
+  const body: LessonResponse = {
+    success: true,
+    requestId: generateRequestId(),
+    data: toLesson(record),
+    meta: null,
+    error: null,
+  };
+  return HttpResponse.json(body, { status });
+}
+
+// Helper to notify that a lesson, its following occurrences or its series were cancelled
+function notifyLessonCancelled(lesson: Lesson, scope: RecurrenceScope) {
+  const date = formatDate(lesson.start, { weekday: 'short', month: 'short', day: 'numeric' });
+  const messages: Record<RecurrenceScope, string> = {
+    occurrence: `${lesson.student}'s lesson with ${lesson.teacher} on ${date} was cancelled`,
+    following: `${lesson.student}'s lessons with ${lesson.teacher} from ${date} on were cancelled`,
+    series: `${lesson.student}'s recurring lessons with ${lesson.teacher} were cancelled`,
+  };
+  pushNotification({ type: 'lesson_cancelled', title: 'Lesson cancelled', message: messages[scope], link: '/schedule' });
+}
+
+// Helper to check that a user exists, is active and has the given role (by ID, so renamed roles still match)
+function hasRole(userId: string, roleId: string): boolean {
+  const user = mockUserRecords.find(record => record.id === userId);
+  return Boolean(user && !user.deleted && user.roleId === roleId);
+}
+
+// Helper to validate a create/update payload - returns an error response or null
+function validateLesson(data: CreateLessonRequest) {
+  if (!mockStudios.some(studio => studio.id === data.studioId)) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Studio not found');
+  }
+
+  const room = mockRooms.find(r => r.id === data.roomId);
+  if (!room || room.studioId !== data.studioId) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Room does not belong to the selected studio');
+  }
+  if (room.status !== 'open') {
+    return errorResponse(422, 'VALIDATION_ERROR', `${room.name} is under maintenance`);
+  }
+
+  if (!hasRole(data.teacherId, TEACHER_ROLE_ID)) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Teacher must be an active user with the TEACHER role');
+  }
+  if (!hasRole(data.studentId, STUDENT_ROLE_ID)) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Student must be an active user with the STUDENT role');
+  }
+
+  const start = Date.parse(data.start);
+  const end = Date.parse(data.end);
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Start and end must be ISO 8601 date-times');
+  }
+  if (end <= start) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Lesson must end after it starts');
+  }
+
+  if (data.recurrence && !parseRecurrence(data.recurrence)) {
+    return errorResponse(
+      422,
+      'VALIDATION_ERROR',
+      'Recurrence must be a DAILY or WEEKLY RRULE ending with COUNT or UNTIL'
+    );
+  }
+  const scope = (data as UpdateLessonRequest).scope;
+  if (scope !== undefined && !RECURRENCE_SCOPES.includes(scope)) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Scope must be occurrence, following or series');
+  }
+
+  return null;
+}
+
+// Helper to apply a create/update payload to a record
+function applyLessonData(id: string, data: CreateLessonRequest): LessonRecord {
+  return {
+    id,
+    studioId: data.studioId,
+    roomId: data.roomId,
+    teacherId: data.teacherId,
+    studentId: data.studentId,
+    start: new Date(data.start).toISOString(),
+    end: new Date(data.end).toISOString(),
+    note: data.note?.trim() || null,
+    seriesId: null,
+    occurrence: null,
+  };
+}
+
+// Helper to apply a create payload with a recurrence to a new series
+function applySeriesData(id: string, data: CreateLessonRequest): LessonSeries {
+  return {
+    id,
+    studioId: data.studioId,
+    roomId: data.roomId,
+    teacherId: data.teacherId,
+    studentId: data.studentId,
+    start: new Date(data.start).toISOString(),
+    end: new Date(data.end).toISOString(),
+    recurrence: formatRecurrence(parseRecurrence(data.recurrence) as RecurrenceRule),
+    note: data.note?.trim() || null,
+    exceptions: [],
+  };
+}
+
+// Helper to move a 'YYYY-MM-DD' date by whole days
+function shiftDate(date: string, days: number): string {
+  return toDateKey(addDays(parseDateKey(date) as Date, days));
+}
+
+// Helper to build the stored lessons of a series - lessons keep the IDs they had
+// on the same date, so a lesson open in the calendar stays addressable
+function toSeriesRecords(series: LessonSeries, ids = new Map<string, string>()): LessonRecord[] {
+  return expandSeries(series).map(occurrence => ({
+    id: ids.get(occurrence.date) ?? generateMockId(),
+    studioId: series.studioId,
+    roomId: occurrence.roomId,
+    teacherId: occurrence.teacherId,
+    studentId: series.studentId,
+    start: occurrence.start,
+    end: occurrence.end,
+    note: occurrence.note,
+    seriesId: series.id,
+    occurrence: occurrence.date,
+  }));
+}
+
+// Helper to map the occurrence dates of lessons, moved by whole days, to their IDs
+function occurrenceIds(lessons: LessonRecord[], dayShift = 0): Map<string, string> {
+  return new Map(lessons.map(lesson => [shiftDate(lesson.occurrence as string, dayShift), lesson.id]));
+}
+
+// Helper to move a series the way one of its occurrences was moved - the new time of day,
+// the day shift and the other changes of the payload apply to every occurrence.
+// Exceptions move along; the exception of the moved occurrence is replaced by the payload.
+function moveSeries(
+  series: LessonSeries,
+  occurrence: string,
+  data: UpdateLessonRequest,
+  rule: RecurrenceRule,
+  dayShift: number
+): LessonSeries {
+  const start = new Date(data.start);
+  const first = withTime(addDays(new Date(series.start), dayShift), formatTime(start));
+
+  return {
+    ...series,
+    studioId: data.studioId,
+    roomId: data.roomId,
+    teacherId: data.teacherId,
+    studentId: data.studentId,
+    start: first.toISOString(),
+    end: new Date(first.getTime() + Date.parse(data.end) - start.getTime()).toISOString(),
+    // A series repeating on a single weekday moves to the weekday of its new first lesson
+    recurrence: formatRecurrence(rule.byDay.length === 1 ? { ...rule, byDay: [weekdayOf(first)] } : rule),
+    note: data.note?.trim() || null,
+    exceptions: series.exceptions
+      .filter(exception => exception.date !== occurrence)
+      .map(exception => ({ ...exception, date: shiftDate(exception.date, dayShift) })),
+  };
+}
+
+// Helper to record a cancelled or rescheduled occurrence of a series
+function setException(series: LessonSeries, exception: LessonSeriesException) {
+  series.exceptions = [...series.exceptions.filter(item => item.date !== exception.date), exception]
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Helper to remove lessons in place - the fixture array is shared with the other handlers
+function removeLessons(predicate: (lesson: LessonRecord) => boolean) {
+  for (let index = mockLessons.length - 1; index >= 0; index--) {
+    if (predicate(mockLessons[index])) {
+      mockLessons.splice(index, 1);
+    }
+  }
+}
+
+// Helper to store a new or changed series and replace its lessons
+function storeSeries(series: LessonSeries, records: LessonRecord[]) {
+  const index = mockLessonSeries.findIndex(item => item.id === series.id);
+  if (index === -1) {
+    mockLessonSeries.push(series);
+  } else {
+    mockLessonSeries[index] = series;
+  }
+
+  removeLessons(lesson => lesson.seriesId === series.id);
+  mockLessons.push(...records);
+}
+
+// Helper to remove a series with its lessons
+function removeSeries(seriesId: string) {
+  mockLessonSeries.splice(mockLessonSeries.findIndex(series => series.id === seriesId), 1);
+  removeLessons(lesson => lesson.seriesId === seriesId);
+}
+
+// Helper to end a series the day before an occurrence - removes it when the occurrence is the first
+function endSeriesBefore(series: LessonSeries, occurrence: string) {
+  const { before } = splitRecurrence(
+    new Date(series.start),
+    parseRecurrence(series.recurrence) as RecurrenceRule,
+    occurrence
+  );
+  if (!before) {
+    removeSeries(series.id);
+    return;
+  }
+
+  const earlier: LessonSeries = {
+    ...series,
+    recurrence: formatRecurrence(before),
+    exceptions: series.exceptions.filter(exception => exception.date < occurrence),
+  };
+  const lessons = mockLessons.filter(lesson => lesson.seriesId === series.id && (lesson.occurrence as string) < occurrence);
+  storeSeries(earlier, toSeriesRecords(earlier, occurrenceIds(lessons)));
+}
+
+// Helper to update an occurrence of a series, the following ones too or the whole series
+function updateSeriesLesson(series: LessonSeries, record: LessonRecord, data: UpdateLessonRequest) {
+  const occurrence = record.occurrence as string;
+
+  if ((data.scope ?? 'occurrence') === 'occurrence') {
+    if (data.studioId !== series.studioId || data.studentId !== series.studentId) {
+      return errorResponse(422, 'VALIDATION_ERROR', 'The studio and student of a single occurrence cannot change');
+    }
+
+    const lesson: LessonRecord = { ...applyLessonData(record.id, data), seriesId: series.id, occurrence };
+    const conflict = checkConflicts(lesson, data.overrideAvailability);
+    if (conflict) {
+      return conflict;
+    }
+
+    const { roomId, teacherId, start, end, note } = lesson;
+    setException(series, { date: occurrence, status: 'rescheduled', lesson: { roomId, teacherId, start, end, note } });
+    mockLessons[mockLessons.indexOf(record)] = lesson;
+
+    return lessonResponse(lesson);
+  }
+
+  const rule = parseRecurrence(series.recurrence) as RecurrenceRule;
+  const { before, after } = splitRecurrence(new Date(series.start), rule, occurrence);
+  const dayShift = daysBetween(parseDateKey(occurrence) as Date, new Date(data.start));
+  const seriesLessons = mockLessons.filter(lesson => lesson.seriesId === series.id);
+
+  // "This and following" from the first occurrence changes the whole series
+  const splitting = data.scope === 'following' && before !== null;
+  const replaced = splitting
+    ? seriesLessons.filter(lesson => (lesson.occurrence as string) >= occurrence)
+    : seriesLessons;
+
+  let moved: LessonSeries;
+  if (splitting) {
+    const first = withTime(parseDateKey(occurrence) as Date, formatTime(new Date(series.start)));
+    const rest: LessonSeries = {
+      ...series,
+      id: generateMockId(),
+      start: first.toISOString(),
+      end: new Date(first.getTime() + Date.parse(series.end) - Date.parse(series.start)).toISOString(),
+      exceptions: series.exceptions.filter(exception => exception.date >= occurrence),
+    };
+    moved = moveSeries(rest, occurrence, data, parseRecurrence(data.recurrence) ?? after, dayShift);
+  } else {
+    moved = moveSeries(series, occurrence, data, parseRecurrence(data.recurrence) ?? rule, dayShift);
+  }
+
+  const records = toSeriesRecords(moved, occurrenceIds(replaced, dayShift));
+  if (records.length === 0) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'The recurrence has no occurrences');
+  }
+  const conflict = checkSeriesConflicts(records, moved, replaced, data.overrideAvailability);
+  if (conflict) {
+    return conflict;
+  }
+
+  if (splitting) {
+    endSeriesBefore(series, occurrence);
+  }
+  storeSeries(moved, records);
+
+  return lessonResponse(records.find(lesson => lesson.id === record.id) ?? records[0]);
+}
+
+// Helper function to filter lessons overlapping the range and matching the filters
+function filterLessons(lessons: LessonRecord[], params: LessonListParams): LessonRecord[] {
+  const from = Date.parse(params.from);
+  const to = Date.parse(params.to);
+
+  return lessons.filter(lesson =>
+    Date.parse(lesson.start) < to &&
+    Date.parse(lesson.end) > from &&
+    (!params.studioId || lesson.studioId === params.studioId) &&
+    (!params.roomId || lesson.roomId === params.roomId) &&
+    (!params.teacherId || lesson.teacherId === params.teacherId) &&
+    (!params.studentId || lesson.studentId === params.studentId)
+  );
+}
+
+// MSW handlers for lesson endpoints
+export const lessonHandlers = [
+  // GET /api/lessons - List lessons in a time range
+  http.get('*/api/lessons', ({ request }) => {
+    const url = new URL(request.url);
+    const params: LessonListParams = {
+      from: url.searchParams.get('from') || '',
+      to: url.searchParams.get('to') || '',
+      studioId: url.searchParams.get('studioId') || undefined,
+      roomId: url.searchParams.get('roomId') || undefined,
+      teacherId: url.searchParams.get('teacherId') || undefined,
+      studentId: url.searchParams.get('studentId') || undefined,
+    };
+
+    if (Number.isNaN(Date.parse(params.from)) || Number.isNaN(Date.parse(params.to))) {
+      return errorResponse(422, 'VALIDATION_ERROR', 'from and to must be ISO 8601 date-times');
+    }
+
+    const response: LessonListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: filterLessons(mockLessons, params)
+        .sort((a, b) => a.start.localeCompare(b.start))
+        .map(toLesson),
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // GET /api/lessons/series/:id - Get a recurring series with its exceptions
+  http.get('*/api/lessons/series/:id', ({ params }) => {
+    const series = mockLessonSeries.find(item => item.id === params.id);
+    if (!series) {
+      return errorResponse(404, 'LESSON_SERIES_NOT_FOUND', 'Lesson series not found');
+    }
+
+    const response: LessonSeriesResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: series,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // GET /api/lessons/:id - Get lesson by ID
+  http.get('*/api/lessons/:id', ({ params }) => {
+    const lesson = mockLessons.find(l => l.id === params.id);
+    if (!lesson) {
+      return errorResponse(404, 'LESSON_NOT_FOUND', 'Lesson not found');
+    }
+
+    return lessonResponse(lesson);
+  }),
+
+  // POST /api/lessons - Create lesson, or a recurring series when a recurrence is given
+  http.post('*/api/lessons', async ({ request }) => {
+    let data: CreateLessonRequest;
+    try {
+      data = await request.json() as CreateLessonRequest;
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
+    }
+
+    const invalid = validateLesson(data);
+    if (invalid) {
+      return invalid;
+    }
+
+    if (data.recurrence) {
+      const series = applySeriesData(generateMockId(), data);
+      const records = toSeriesRecords(series);
+      if (records.length === 0) {
+        return errorResponse(422, 'VALIDATION_ERROR', 'The recurrence has no occurrences');
+      }
+      const conflict = checkSeriesConflicts(records, series, [], data.overrideAvailability);
+      if (conflict) {
+        return conflict;
+      }
+
+      storeSeries(series, records);
+
+      return lessonResponse(records[0], 201);
+    }
+
+    const lesson = applyLessonData(generateMockId(), data);
+    const conflict = checkConflicts(lesson, data.overrideAvailability);
+    if (conflict) {
+      return conflict;
+    }
+
+    mockLessons.push(lesson);
+
+    return lessonResponse(lesson, 201);
+  }),
+
+  // PUT /api/lessons/:id - Update lesson; occurrences of a series by scope
+  http.put('*/api/lessons/:id', async ({ params, request }) => {
+    const index = mockLessons.findIndex(l => l.id === params.id);
+    if (index === -1) {
+      return errorResponse(404, 'LESSON_NOT_FOUND', 'Lesson not found');
+    }
+
+    let data: UpdateLessonRequest;
+    try {
+      data = await request.json() as UpdateLessonRequest;
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
+    }
+
+    const invalid = validateLesson(data);
+    if (invalid) {
+      return invalid;
+    }
+
+    const series = mockLessonSeries.find(item => item.id === mockLessons[index].seriesId);
+    if (series) {
+      return updateSeriesLesson(series, mockLessons[index], data);
+    }
+
+    const lesson = applyLessonData(mockLessons[index].id, data);
+    const conflict = checkConflicts(lesson, data.overrideAvailability);
+    if (conflict) {
+      return conflict;
+    }
+
+    mockLessons[index] = lesson;
+
+    return lessonResponse(mockLessons[index]);
+  }),
+
+  // DELETE /api/lessons/:id - Delete lesson; occurrences of a series by the scope query parameter
+  http.delete('*/api/lessons/:id', ({ params, request }) => {
+    const index = mockLessons.findIndex(l => l.id === params.id);
+    if (index === -1) {
+      return errorResponse(404, 'LESSON_NOT_FOUND', 'Lesson not found');
+    }
+
+    const scope = (new URL(request.url).searchParams.get('scope') || 'occurrence') as RecurrenceScope;
+    if (!RECURRENCE_SCOPES.includes(scope)) {
+      return errorResponse(422, 'VALIDATION_ERROR', 'Scope must be occurrence, following or series');
+    }
+
+    const record = mockLessons[index];
+    const series = mockLessonSeries.find(item => item.id === record.seriesId);
+    notifyLessonCancelled(toLesson(record), series ? scope : 'occurrence');
+    if (!series) {
+      mockLessons.splice(index, 1);
+    } else if (scope === 'series') {
+      removeSeries(series.id);
+    } else if (scope === 'following') {
+      endSeriesBefore(series, record.occurrence as string);
+    } else {
+      // Cancelled occurrences stay cancelled when the series changes later
+      setException(series, { date: record.occurrence as string, status: 'cancelled', lesson: null });
+      mockLessons.splice(index, 1);
+    }
+
+    const response: DeleteLessonResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: null,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
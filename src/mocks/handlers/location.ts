@@ -0,0 +1,44 @@
+import { http, HttpResponse } from 'msw';
+import type { CountryListResponse, ProvinceListResponse } from '../../shared/types/location';
+import { mockCountries, mockProvinces } from '../fixtures/locations';
+import { errorResponse, generateRequestId } from '../utils/responses';
+
+// Helper to sort locations by display name
+function byName<T extends { name: string }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// MSW handlers for country/province endpoints
+export const locationHandlers = [
+  // GET /api/countries - List countries
+  http.get('*/api/countries', () => {
+    const response: CountryListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: byName(mockCountries),
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // GET /api/countries/:id/provinces - List provinces of a country
+  http.get('*/api/countries/:id/provinces', ({ params }) => {
+    const { id } = params;
+
+    if (!mockCountries.some(country => country.id === id)) {
+      return errorResponse(404, 'COUNTRY_NOT_FOUND', 'Country not found');
+    }
+
+    const response: ProvinceListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: byName(mockProvinces.filter(province => province.countryId === id)),
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
@@ -0,0 +1,84 @@
+import { http, HttpResponse } from 'msw';
+import type {
+  MarkAllNotificationsReadResponse,
+  NotificationListMeta,
+  NotificationListResponse,
+  NotificationResponse,
+} from '../../shared/types/notification';
+import { mockNotifications } from '../fixtures/notifications';
+import { errorResponse, generateRequestId } from '../utils/responses';
+
+// Default page size of GET /notifications
+const DEFAULT_PAGE_SIZE = 20;
+
+// MSW handlers for notification endpoints - handlers add notifications with pushNotification
+export const notificationHandlers = [
+  // GET /api/notifications - List notifications with pagination, newest first
+  http.get('*/api/notifications', ({ request }) => {
+    const url = new URL(request.url);
+    const page = Number(url.searchParams.get('page')) || 0;
+    const size = Number(url.searchParams.get('size')) || DEFAULT_PAGE_SIZE;
+    const unreadOnly = url.searchParams.get('unread') === 'true';
+
+    const notifications = mockNotifications
+      .filter(notification => !unreadOnly || !notification.read)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const totalPages = Math.ceil(notifications.length / size);
+    const meta: NotificationListMeta = {
+      page,
+      size,
+      totalItems: notifications.length,
+      totalPages,
+      hasNext: page < totalPages - 1,
+      unreadCount: mockNotifications.filter(notification => !notification.read).length,
+    };
+
+    const response: NotificationListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: notifications.slice(page * size, (page + 1) * size),
+      meta,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // POST /api/notifications/read-all - Mark all notifications as read
+  http.post('*/api/notifications/read-all', () => {
+    const unread = mockNotifications.filter(notification => !notification.read);
+    unread.forEach(notification => {
+      notification.read = true;
+    });
+
+    const response: MarkAllNotificationsReadResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: { updated: unread.length },
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // POST /api/notifications/:id/read - Mark one notification as read
+  http.post('*/api/notifications/:id/read', ({ params }) => {
+    const notification = mockNotifications.find(item => item.id === params.id);
+    if (!notification) {
+      return errorResponse(404, 'NOTIFICATION_NOT_FOUND', 'Notification not found');
+    }
+
+    notification.read = true;
+
+    const response: NotificationResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: notification,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
@@ -0,0 +1,20 @@
+import { http, HttpResponse } from 'msw';
+import type { RolePermissionsListResponse } from '../../shared/types/permission';
+import { mockRolePermissions } from '../fixtures/permissions';
+import { generateRequestId } from '../utils/responses';
+
+// MSW handlers for permission endpoints
+export const permissionHandlers = [
+  // GET /api/permissions - List permissions per role
+  http.get('*/api/permissions', () => {
+    const response: RolePermissionsListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: mockRolePermissions,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
@@ -0,0 +1,104 @@
+import { http, HttpResponse } from 'msw';
+import type {
+  Role,
+  RoleListResponse,
+  RoleResponse,
+  CreateRoleRequest,
+  UpdateRoleRequest,
+} from '../../shared/types/role';
+import { mockRoles } from '../fixtures/roles';
+import { errorResponse, generateMockId, generateRequestId } from '../utils/responses';
+
+// Helper to build a role success envelope
+function roleResponse(role: Role, status = 200) {
+  const body: RoleResponse = {
+    success: true,
+    requestId: generateRequestId(),
+    data: role,
+    meta: null,
+    error: null,
+  };
+  return HttpResponse.json(body, { status });
+}
+
+// Helper to validate a create/update payload - returns an error response or null
+function validateRole(data: CreateRoleRequest | UpdateRoleRequest, roleId?: string) {
+  const name = data.name?.trim();
+  if (!name) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Role name is required');
+  }
+  const nameTaken = mockRoles.some(role =>
+    role.id !== roleId && role.name.toLowerCase() === name.toLowerCase()
+  );
+  if (nameTaken) {
+    return errorResponse(409, 'ROLE_NAME_EXISTS', 'A role with this name already exists');
+  }
+  return null;
+}
+
+// MSW handlers for role endpoints
+export const roleHandlers = [
+  // GET /api/roles - List roles
+  http.get('*/api/roles', () => {
+    const response: RoleListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: [...mockRoles].sort((a, b) => a.name.localeCompare(b.name)),
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // POST /api/roles - Create role
+  http.post('*/api/roles', async ({ request }) => {
+    let data: CreateRoleRequest;
+    try {
+      data = await request.json() as CreateRoleRequest;
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
+    }
+
+    const invalid = validateRole(data);
+    if (invalid) {
+      return invalid;
+    }
+
+    const role: Role = {
+      id: generateMockId(),
+      name: data.name.trim(),
+      description: data.description?.trim() || null,
+      color: data.color || 'default',
+    };
+    mockRoles.push(role);
+
+    return roleResponse(role, 201);
+  }),
+
+  // PUT /api/roles/:id - Rename/describe role
+  http.put('*/api/roles/:id', async ({ params, request }) => {
+    const role = mockRoles.find(r => r.id === params.id);
+    if (!role) {
+      return errorResponse(404, 'ROLE_NOT_FOUND', 'Role not found');
+    }
+
+    let data: UpdateRoleRequest;
+    try {
+      data = await request.json() as UpdateRoleRequest;
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
+    }
+
+    const invalid = validateRole(data, role.id);
+    if (invalid) {
+      return invalid;
+    }
+
+    role.name = data.name.trim();
+    role.description = data.description?.trim() || null;
+    role.color = data.color || role.color;
+
+    return roleResponse({ ...role });
+  }),
+];
@@ -0,0 +1,161 @@
+import { http, HttpResponse } from 'msw';
+import type {
+  Room,
+  RoomListResponse,
+  RoomResponse,
+  CreateRoomRequest,
+  DeleteRoomResponse,
+} from '../../shared/types/room';
+import { mockRooms } from '../fixtures/rooms';
+import { mockStudios } from '../fixtures/studios';
+import { errorResponse, generateMockId, generateRequestId } from '../utils/responses';
+
+const ROOM_TYPES = ['practice', 'lesson'];
+const ROOM_STATUSES = ['open', 'maintenance'];
+
+// Helper to build a room success envelope
+function roomResponse(room: Room, status = 200) {
+  const body: RoomResponse = {
+    success: true,
+    requestId: generateRequestId(),
+    data: room,
+    meta: null,
+    error: null,
+  };
+  return HttpResponse.json(body, { status });
+}
+
+// Helper to reject requests for unknown studios - returns an error response or null
+function requireStudio(studioId: string) {
+  return mockStudios.some(studio => studio.id === studioId)
+    ? null
+    : errorResponse(404, 'STUDIO_NOT_FOUND', 'Studio not found');
+}
+
+// Helper to validate a create/update payload - returns an error response or null
+function validateRoom(studioId: string, data: CreateRoomRequest, roomId?: string) {
+  const name = data.name?.trim();
+  if (!name) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Room name is required');
+  }
+  if (!ROOM_TYPES.includes(data.type)) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Room type must be practice or lesson');
+  }
+  if (!ROOM_STATUSES.includes(data.status)) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Room status must be open or maintenance');
+  }
+  if (!Number.isInteger(data.capacity) || data.capacity < 1) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Capacity must be a whole number of at least 1');
+  }
+
+  const nameTaken = mockRooms.some(room =>
+    room.studioId === studioId &&
+    room.id !== roomId &&
+    room.name.toLowerCase() === name.toLowerCase()
+  );
+  if (nameTaken) {
+    return errorResponse(409, 'ROOM_NAME_EXISTS', 'A room with this name already exists in this studio');
+  }
+
+  return null;
+}
+
+// Helper to apply a create/update payload to a record
+function applyRoomData(id: string, studioId: string, data: CreateRoomRequest): Room {
+  // Equipment is free text - trim, drop blanks and duplicates
+  const equipment = [...new Set((data.equipment ?? []).map(item => item.trim()).filter(Boolean))];
+
+  return {
+    id,
+    studioId,
+    name: data.name.trim(),
+    type: data.type,
+    capacity: data.capacity,
+    equipment,
+    status: data.status,
+    note: data.note?.trim() || null,
+  };
+}
+
+// MSW handlers for room endpoints (sub-resource of studios)
+export const roomHandlers = [
+  // GET /api/studios/:studioId/rooms - List the rooms of a studio
+  http.get('*/api/studios/:studioId/rooms', ({ params }) => {
+    const studioId = params.studioId as string;
+    const notFound = requireStudio(studioId);
+    if (notFound) {
+      return notFound;
+    }
+
+    const response: RoomListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: mockRooms
+        .filter(room => room.studioId === studioId)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // POST /api/studios/:studioId/rooms - Create room
+  http.post('*/api/studios/:studioId/rooms', async ({ params, request }) => {
+    const studioId = params.studioId as string;
+    const notFound = requireStudio(studioId);
+    if (notFound) {
+      return notFound;
+    }
+
+    const data = await request.json() as CreateRoomRequest;
+    const invalid = validateRoom(studioId, data);
+    if (invalid) {
+      return invalid;
+    }
+
+    const room = applyRoomData(generateMockId(), studioId, data);
+    mockRooms.push(room);
+
+    return roomResponse(room, 201);
+  }),
+
+  // PUT /api/studios/:studioId/rooms/:roomId - Update room
+  http.put('*/api/studios/:studioId/rooms/:roomId', async ({ params, request }) => {
+    const studioId = params.studioId as string;
+    const index = mockRooms.findIndex(room => room.id === params.roomId && room.studioId === studioId);
+    if (index === -1) {
+      return errorResponse(404, 'ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    const data = await request.json() as CreateRoomRequest;
+    const invalid = validateRoom(studioId, data, mockRooms[index].id);
+    if (invalid) {
+      return invalid;
+    }
+
+    mockRooms[index] = applyRoomData(mockRooms[index].id, studioId, data);
+
+    return roomResponse(mockRooms[index]);
+  }),
+
+  // DELETE /api/studios/:studioId/rooms/:roomId - Delete room
+  http.delete('*/api/studios/:studioId/rooms/:roomId', ({ params }) => {
+    const index = mockRooms.findIndex(room => room.id === params.roomId && room.studioId === params.studioId);
+    if (index === -1) {
+      return errorResponse(404, 'ROOM_NOT_FOUND', 'Room not found');
+    }
+
+    mockRooms.splice(index, 1);
+
+    const response: DeleteRoomResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: null,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
@@ -0,0 +1,249 @@
+import { http, HttpResponse } from 'msw';
+import type {
+  Studio,
+  StudioListItem,
+  StudioListParams,
+  StudioListResponse,
+  StudioResponse,
+  CreateStudioRequest,
+  DeleteStudioResponse,
+} from '../../shared/types/studio';
+import type { PaginationMeta } from '../../shared/types/user';
+import { mockStudios } from '../fixtures/studios';
+import { mockRooms } from '../fixtures/rooms';
+import { mockCountries, mockProvinces } from '../fixtures/locations';
+import { errorResponse, generateMockId, generateRequestId } from '../utils/responses';
+
+// Helper to build a studio success envelope
+function studioResponse(studio: Studio, status = 200) {
+  const body: StudioResponse = {
+    success: true,
+    requestId: generateRequestId(),
+    data: toStudio(studio),
+    meta: null,
+    error: null,
+  };
+  return HttpResponse.json(body, { status });
+}
+
+// Helpers to resolve location names from the fixtures
+function countryName(id: string): string {
+  return mockCountries.find(country => country.id === id)?.name ?? id;
+}
+
+function provinceName(id: string): string {
+  return mockProvinces.find(province => province.id === id)?.name ?? id;
+}
+
+// Helper to convert a record to the list item shape (GET /studios)
+function toListItem(studio: Studio): StudioListItem {
+  const { id, name, address, phone } = studio;
+  return {
+    id,
+    name,
+    address,
+    phone,
+    country: countryName(studio.countryId),
+    province: provinceName(studio.provinceId),
+  };
+}
+
+// Helper to convert a record to the studio entity shape with resolved names
+function toStudio(studio: Studio): Studio {
+  return {
+    ...studio,
+    openingHours: studio.openingHours.map(hours => ({ ...hours })),
+    country: countryName(studio.countryId),
+    province: provinceName(studio.provinceId),
+  };
+}
+
+// Helper to validate a create/update payload - returns an error response or null
+function validateStudio(data: CreateStudioRequest, studioId?: string) {
+  if (!data.name?.trim() || !data.address?.trim() || !data.countryId || !data.provinceId) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Name, address, country and province are required');
+  }
+
+  const province = mockProvinces.find(p => p.id === data.provinceId);
+  if (!province || province.countryId !== data.countryId) {
+    return errorResponse(422, 'VALIDATION_ERROR', 'Province does not belong to the selected country');
+  }
+
+  const days = new Set<string>();
+  for (const hours of data.openingHours ?? []) {
+    if (days.has(hours.day)) {
+      return errorResponse(422, 'VALIDATION_ERROR', `Opening hours for ${hours.day} are listed twice`);
+    }
+    days.add(hours.day);
+    if (!(hours.open < hours.close)) {
+      return errorResponse(422, 'VALIDATION_ERROR', `Closing time must be after opening time on ${hours.day}`);
+    }
+  }
+
+  const nameTaken = mockStudios.some(studio =>
+    studio.id !== studioId && studio.name.toLowerCase() === data.name.trim().toLowerCase()
+  );
+  if (nameTaken) {
+    return errorResponse(409, 'STUDIO_NAME_EXISTS', 'A studio with this name already exists');
+  }
+
+  return null;
+}
+
+// Helper to apply a create/update payload to a record
+function applyStudioData(id: string, data: CreateStudioRequest): Studio {
+  return {
+    id,
+    name: data.name.trim(),
+    countryId: data.countryId,
+    provinceId: data.provinceId,
+    address: data.address.trim(),
+    phone: data.phone?.trim() || null,
+    openingHours: (data.openingHours ?? []).map(({ day, open, close }) => ({ day, open, close })),
+    note: data.note?.trim() || null,
+  };
+}
+
+// Helper function to filter studios based on search parameters
+function filterStudios(studios: Studio[], params: StudioListParams): Studio[] {
+  return studios.filter(studio => {
+    if (params.name && !studio.name.toLowerCase().includes(params.name.toLowerCase())) {
+      return false;
+    }
+    if (params.countryId && studio.countryId !== params.countryId) {
+      return false;
+    }
+    if (params.provinceId && studio.provinceId !== params.provinceId) {
+      return false;
+    }
+    return true;
+  });
+}
+
+// Helper function to paginate results
+function paginateResults(studios: StudioListItem[], page: number, size: number) {
+  const totalItems = studios.length;
+  const totalPages = Math.ceil(totalItems / size);
+  const startIndex = page * size;
+
+  const meta: PaginationMeta = {
+    page,
+    size,
+    totalItems,
+    totalPages,
+    hasNext: page < totalPages - 1,
+  };
+
+  return { studios: studios.slice(startIndex, startIndex + size), meta };
+}
+
+// MSW handlers for studio endpoints
+export const studioHandlers = [
+  // GET /api/studios - List studios with filtering and pagination
+  http.get('*/api/studios', ({ request }) => {
+    const url = new URL(request.url);
+    const params: StudioListParams = {
+      page: Number(url.searchParams.get('page')) || 0,
+      size: Number(url.searchParams.get('size')) || 10,
+      name: url.searchParams.get('name') || undefined,
+      countryId: url.searchParams.get('countryId') || undefined,
+      provinceId: url.searchParams.get('provinceId') || undefined,
+    };
+
+    const studios = filterStudios(mockStudios, params)
+      .map(toListItem)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const paginated = paginateResults(studios, params.page || 0, params.size || 10);
+
+    const response: StudioListResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: paginated.studios,
+      meta: paginated.meta,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // GET /api/studios/:id - Get single studio
+  http.get('*/api/studios/:id', ({ params }) => {
+    const studio = mockStudios.find(s => s.id === params.id);
+    if (!studio) {
+      return errorResponse(404, 'STUDIO_NOT_FOUND', 'Studio not found');
+    }
+
+    return studioResponse(studio);
+  }),
+
+  // POST /api/studios - Create studio
+  http.post('*/api/studios', async ({ request }) => {
+    let data: CreateStudioRequest;
+    try {
+      data = await request.json() as CreateStudioRequest;
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
+    }
+
+    const invalid = validateStudio(data);
+    if (invalid) {
+      return invalid;
+    }
+
+    const studio = applyStudioData(generateMockId(), data);
+    mockStudios.push(studio);
+
+    return studioResponse(studio, 201);
+  }),
+
+  // PUT /api/studios/:id - Update studio
+  http.put('*/api/studios/:id', async ({ params, request }) => {
+    const index = mockStudios.findIndex(s => s.id === params.id);
+    if (index === -1) {
+      return errorResponse(404, 'STUDIO_NOT_FOUND', 'Studio not found');
+    }
+
+    let data: CreateStudioRequest;
+    try {
+      data = await request.json() as CreateStudioRequest;
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
+    }
+
+    const invalid = validateStudio(data, mockStudios[index].id);
+    if (invalid) {
+      return invalid;
+    }
+
+    mockStudios[index] = applyStudioData(mockStudios[index].id, data);
+
+    return studioResponse(mockStudios[index]);
+  }),
+
+  // DELETE /api/studios/:id - Delete studio
+  http.delete('*/api/studios/:id', ({ params }) => {
+    const index = mockStudios.findIndex(s => s.id === params.id);
+    if (index === -1) {
+      return errorResponse(404, 'STUDIO_NOT_FOUND', 'Studio not found');
+    }
+
+    mockStudios.splice(index, 1);
+
+    // Rooms are owned by the studio and go with it
+    for (let i = mockRooms.length - 1; i >= 0; i--) {
+      if (mockRooms[i].studioId === params.id) {
+        mockRooms.splice(i, 1);
+      }
+    }
+
+    const response: DeleteStudioResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: null,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+];
@@ -1,69 +1,134 @@
 import { http, HttpResponse } from 'msw';
-import type { 
-  UserListParams, 
-  UserListResponse, 
-  UserResponse, 
+import type {
+  UserListParams,
+  UserListResponse,
+  UserResponse,
   CreateUserRequest,
+  CreateUserResponse,
   UpdateUserRequest,
+  DeleteUserResponse,
+  RestoreUserResponse,
+  UserBulkItem,
+  UserBulkRequest,
+  UserBulkResponse,
   UserListItem,
   User,
-  PaginationMeta 
+  PaginationMeta,
+  UserSortField,
+  SortOrder
 } from '../../shared/types/user';
-import type { APIResponse } from '../../shared/types/api';
-
-// Mock user data for testing
-const mockUsers: UserListItem[] = [
-  {
-    id: '01234567890123456789012345',
-    name: 'John Doe',
-    email: 'john.doe@example.com',
-    phone: '+1-555-0101',
-    role: 'USER',
-    country: 'United States',
-    province: 'California',
-    note: null,
-  },
-  {
-    id: '01234567890123456789012346',
-    name: 'Jane Smith',
-    email: 'jane.admin@example.com',
-    phone: '+1-555-0102',
-    role: 'ADMIN',
-    country: 'United States',
-    province: 'New York',
-    note: null,
-  },
-  {
-    id: '01234567890123456789012347',
-    name: 'Bob Johnson',
-    email: 'bob.moderator@example.com',
-    phone: '+1-555-0103',
-    role: 'MODERATOR',
-    country: 'Canada',
-    province: 'Ontario',
-    note: null,
-  },
-  {
-    id: '01234567890123456789012348',
-    name: 'Alice Williams',
-    email: 'alice.user@example.com',
-    phone: '+1-555-0104',
-    role: 'USER',
-    country: 'United Kingdom',
-    province: 'England',
-    note: null,
-  },
-  {
-    id: '01234567890123456789012349',
-    name: 'Charlie Brown',
-    email: 'charlie.dev@example.com',
-    phone: '+1-555-0105',
-    role: 'USER',
-    country: 'Australia',
-    province: 'New South Wales',
-    note: null,
-  },
-];
+import type { APIError, BulkOperationFailure } from '../../shared/types/api';
+import type { AuditAction } from '../../shared/types/audit';
+import { mockCountries, mockProvinces } from '../fixtures/locations';
+import { mockRoles } from '../fixtures/roles';
+import { mockUserRecords as mockUsers, type MockUserRecord } from '../fixtures/userRecords';
+import { recordAuditEvent } from '../utils/audit';
+import { errorResponse, generateMockId, generateRequestId } from '../utils/responses';
+
+// Helper to resolve a ULID reference to its display name using the role and location fixtures
+function resolveName(idField: 'roleId' | 'countryId' | 'provinceId', id: string): string {
+  const references = {
+    roleId: mockRoles,
+    countryId: mockCountries,
+    provinceId: mockProvinces,
+  };
+  return references[idField].find(reference => reference.id === id)?.name ?? id;
+}
+
+// Helper to convert a record to the list item shape (GET /users)
+// The role name is resolved on read so renamed roles show up immediately
+function toListItem(record: MockUserRecord): UserListItem {
+  const { id, name, email, phone, country, province, note } = record;
+  return { id, name, email, phone, role: resolveName('roleId', record.roleId), country, province, note };
+}
+
+// Helper to convert a record to the user entity shape with resolved names (GET/PUT /users/{id})
+function toUser(record: MockUserRecord): User {
+  return { ...record, role: resolveName('roleId', record.roleId) };
+}
+
+// Helper to record a change of a user in the audit log - snapshots use the GET /users/{id} shape
+function auditUserChange(
+  request: Request,
+  action: AuditAction,
+  before: MockUserRecord | null,
+  after: MockUserRecord
+): void {
+  recordAuditEvent(request, {
+    action,
+    entityType: 'user',
+    entityId: after.id,
+    entityName: after.name,
+    before: before && { ...toUser(before), deleted: Boolean(before.deleted) },
+    after: { ...toUser(after), deleted: Boolean(after.deleted) },
+  });
+}
+
+// Helper to apply a create/update payload to a record
+function applyUserData(
+  record: Pick<MockUserRecord, 'id' | 'deleted' | 'createdAt'>,
+  data: CreateUserRequest | UpdateUserRequest
+): MockUserRecord {
+  return {
+    id: record.id,
+    deleted: record.deleted,
+    createdAt: record.createdAt,
+    name: data.name,
+    email: data.email,
+    phone: data.phone || null,
+    note: data.note || null,
+    roleId: data.roleId,
+    role: resolveName('roleId', data.roleId),
+    countryId: data.countryId,
+    country: resolveName('countryId', data.countryId),
+    provinceId: data.provinceId,
+    province: resolveName('provinceId', data.provinceId),
+  };
+}
+
+// Helper to apply a single bulk item - returns the failure reason, or null on success
+function applyBulkItem(operation: UserBulkRequest['operation'], item: UserBulkItem): APIError | null {
+  const user = mockUsers.find(u => u.id === item.id);
+  if (!user) {
+    return { code: 'USER_NOT_FOUND', message: 'User not found' };
+  }
+
+  switch (operation) {
+    case 'delete':
+      if (user.deleted) {
+        return { code: 'USER_ALREADY_DELETED', message: 'User is already deleted' };
+      }
+      user.deleted = true;
+      return null;
+    case 'restore':
+      if (!user.deleted) {
+        return { code: 'USER_NOT_DELETED', message: 'User is not deleted' };
+      }
+      user.deleted = false;
+      return null;
+    case 'update':
+      if (user.deleted) {
+        return { code: 'USER_DELETED', message: 'Deleted users cannot be updated' };
+      }
+      if (!item.roleId) {
+        return { code: 'VALIDATION_ERROR', message: 'Role is required', field: 'roleId' };
+      }
+      user.roleId = item.roleId;
+      user.role = resolveName('roleId', item.roleId);
+      return null;
+    default:
+      return { code: 'UNSUPPORTED_OPERATION', message: `Unsupported operation: ${operation}` };
+  }
+}
+
+// Helper function to filter records by the country/province ULID filters
+// (list items only carry the resolved names)
+function filterByLocation(users: MockUserRecord[], params: UserListParams): MockUserRecord[] {
+  return users.filter(user =>
+    (!params.countryId || user.countryId === params.countryId) &&
+    (!params.provinceId || user.provinceId === params.provinceId)
+  );
+}
 
 // Helper function to filter users based on search parameters
 function filterUsers(users: UserListItem[], params: UserListParams): UserListItem[] {
@@ -72,29 +137,41 @@ function filterUsers(users: UserListItem[], params: UserListParams): UserListIte
     if (params.email && !user.email.toLowerCase().includes(params.email.toLowerCase())) {
       return false;
     }
-    
+
     // Name filter (matches the 'name' field in UserListItem)
     if (params.name && !user.name.toLowerCase().includes(params.name.toLowerCase())) {
       return false;
     }
-    
+
     // Phone filter
     if (params.phone && user.phone && !user.phone.toLowerCase().includes(params.phone.toLowerCase())) {
       return false;
     }
-    
+
     // Role filter
     if (params.role && user.role !== params.role) {
       return false;
     }
-    
-    // Note: Country and Province filters would need ULID resolution in real implementation
-    // For now, we'll skip these filters in the mock
-    
+
     return true;
   });
 }
 
+// Helper function to sort users by a list column (stable, case-insensitive)
+const SORT_FIELDS: UserSortField[] = ['name', 'email', 'role', 'country', 'province'];
+
+function sortUsers(users: UserListItem[], params: UserListParams): UserListItem[] {
+  const { sort, order } = params;
+  if (!sort || !SORT_FIELDS.includes(sort)) {
+    return users;
+  }
+
+  const direction = order === 'desc' ? -1 : 1;
+  return [...users].sort((a, b) =>
+    direction * a[sort].localeCompare(b[sort], undefined, { sensitivity: 'base' })
+  );
+}
+
 // Helper function to paginate results
 function paginateResults(users: UserListItem[], page: number, size: number) {
   const totalItems = users.length;
@@ -102,7 +179,7 @@ function paginateResults(users: UserListItem[], page: number, size: number) {
   const startIndex = page * size;
   const endIndex = startIndex + size;
   const paginatedUsers = users.slice(startIndex, endIndex);
-  
+
   const meta: PaginationMeta = {
     page,
     size,
@@ -110,7 +187,7 @@ function paginateResults(users: UserListItem[], page: number, size: number) {
     totalPages,
     hasNext: page < totalPages - 1,
   };
-  
+
   return { users: paginatedUsers, meta };
 }
 
@@ -129,92 +206,65 @@ export const userHandlers = [
       countryId: url.searchParams.get('countryId') || undefined,
       provinceId: url.searchParams.get('provinceId') || undefined,
       deleted: url.searchParams.get('deleted') === 'true' || false,
+      sort: (url.searchParams.get('sort') as UserSortField) || undefined,
+      order: (url.searchParams.get('order') as SortOrder) || undefined,
     };
 
-    // Simulate network delay
-    const delay = Number(url.searchParams.get('_delay')) || 100;
-
     // Simulate error scenario
     const simulateError = url.searchParams.get('_error');
     if (simulateError === 'server') {
-      return new HttpResponse(null, { 
+      return new HttpResponse(null, {
         status: 500,
         statusText: 'Internal Server Error'
       });
     }
-    
+
     if (simulateError === 'unauthorized') {
-      return HttpResponse.json(
-        { 
-          success: false,
-          requestId: `req_${Date.now()}_${Math.random().toString(36).substring(2)}`,
-          data: null,
-          meta: null,
-          error: {
-            status: 401,
-            code: 'UNAUTHORIZED',
-            message: 'Unauthorized access'
-          }
-        }, 
-        { status: 401 }
-      );
+      return errorResponse(401, 'UNAUTHORIZED', 'Unauthorized access');
     }
 
-    // Filter and paginate users
-    const filteredUsers = filterUsers(mockUsers, searchParams);
-    const paginatedResult = paginateResults(filteredUsers, searchParams.page || 0, searchParams.size || 10);
+    // Filter, sort and paginate users - active and deleted users are listed separately
+    const visibleUsers = mockUsers.filter(u => Boolean(u.deleted) === searchParams.deleted);
+    const filteredUsers = filterUsers(filterByLocation(visibleUsers, searchParams).map(toListItem), searchParams);
+    const sortedUsers = sortUsers(filteredUsers, searchParams);
+    const paginatedResult = paginateResults(sortedUsers, searchParams.page || 0, searchParams.size || 10);
 
     const response: UserListResponse = {
       success: true,
-      requestId: `req_${Date.now()}_${Math.random().toString(36).substring(2)}`,
+      requestId: generateRequestId(),
       data: paginatedResult.users,
       meta: paginatedResult.meta,
       error: null,
     };
 
-    return HttpResponse.json(response, { 
+    return HttpResponse.json(response, {
       headers: { 'Content-Type': 'application/json' }
     });
   }),
 
   // GET /api/users/:id - Get single user
   http.get('*/api/users/:id', ({ params, request }) => {
-    const userId = Number(params.id);
+    const userId = String(params.id);
     const url = new URL(request.url);
-    
+
     // Simulate error scenario
     const simulateError = url.searchParams.get('_error');
     if (simulateError === 'not_found') {
-      return HttpResponse.json(
-        { 
-          success: false, 
-          message: 'User not found',
-          errorCode: 'USER_NOT_FOUND'
-        } as APIResponse<null>, 
-        { status: 404 }
-      );
+      return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
     }
 
     const user = mockUsers.find(u => u.id === userId);
-    
+
     if (!user) {
-      return HttpResponse.json(
-        { 
-          success: false, 
-          message: 'User not found',
-          errorCode: 'USER_NOT_FOUND'
-        } as APIResponse<null>, 
-        { status: 404 }
-      );
+      return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
     }
 
-    // Convert to full User object (same as UserListItem for now)
-    const fullUser: User = { ...user };
-
     const response: UserResponse = {
       success: true,
-      message: 'User retrieved successfully',
-      data: fullUser,
+      requestId: generateRequestId(),
+      data: toUser(user),
+      meta: null,
+      error: null,
     };
 
     return HttpResponse.json(response);
@@ -223,170 +273,212 @@ export const userHandlers = [
   // POST /api/users - Create new user
   http.post('*/api/users', async ({ request }) => {
     const url = new URL(request.url);
-    
+
     // Simulate error scenario
     const simulateError = url.searchParams.get('_error');
     if (simulateError === 'validation') {
-      return HttpResponse.json(
-        { 
-          success: false, 
-          message: 'Validation failed',
-          errorCode: 'VALIDATION_ERROR'
-        } as APIResponse<null>, 
-        { status: 422 }
-      );
+      return errorResponse(422, 'VALIDATION_ERROR', 'Validation failed');
     }
 
     try {
       const createUserData = await request.json() as CreateUserRequest;
-      
+
       // Simulate email already exists error
       const emailExists = mockUsers.some(u => u.email === createUserData.email);
       if (emailExists) {
-        return HttpResponse.json(
-          { 
-            success: false, 
-            message: 'Email already exists',
-            errorCode: 'EMAIL_ALREADY_EXISTS'
-          } as APIResponse<null>, 
-          { status: 409 }
-        );
+        return errorResponse(409, 'EMAIL_ALREADY_EXISTS', 'Email already exists');
       }
 
-      // Create new user
-      const newUser: UserListItem = {
-        id: Math.max(...mockUsers.map(u => u.id)) + 1,
-        email: createUserData.email,
-        firstName: createUserData.firstName,
-        lastName: createUserData.lastName,
-        phone: createUserData.phone || null,
-        role: createUserData.role,
-        country: createUserData.country || null,
-        province: createUserData.province || null,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
       // Add to mock data (in real scenario, this would be persisted)
-      mockUsers.push(newUser);
+      const createdUser = applyUserData(
+        { id: generateMockId(), deleted: false, createdAt: new Date().toISOString() },
+        createUserData
+      );
+      mockUsers.push(createdUser);
+      auditUserChange(request, 'create', null, createdUser);
 
-      const response: UserResponse = {
+      // Backend returns data: null for create operations per API spec
+      const response: CreateUserResponse = {
         success: true,
-        message: 'User created successfully',
-        data: newUser,
+        requestId: generateRequestId(),
+        data: null,
+        meta: null,
+        error: null,
       };
 
       return HttpResponse.json(response, { status: 201 });
-    } catch (error) {
-      return HttpResponse.json(
-        { 
-          success: false, 
-          message: 'Invalid request body',
-          errorCode: 'INVALID_REQUEST'
-        } as APIResponse<null>, 
-        { status: 400 }
-      );
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
+    }
+  }),
+
+  // POST /api/users/bulk - Apply one operation to several users
+  http.post('*/api/users/bulk', async ({ request }) => {
+    const startTime = Date.now();
+
+    let bulkRequest: UserBulkRequest;
+    try {
+      bulkRequest = await request.json() as UserBulkRequest;
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
+    }
+
+    const { operation, items, options } = bulkRequest;
+    if (!['delete', 'restore', 'update'].includes(operation) || !Array.isArray(items)) {
+      return errorResponse(400, 'INVALID_REQUEST', 'Unsupported bulk operation');
     }
+
+    const continueOnError = options?.continueOnError ?? true;
+    const processed: UserListItem[] = [];
+    const failures: BulkOperationFailure[] = [];
+    let skipped = 0;
+
+    items.forEach((item, index) => {
+      // Stop at the first failure unless asked to continue
+      if (!continueOnError && failures.length > 0) {
+        skipped++;
+        return;
+      }
+
+      const existing = mockUsers.find(u => u.id === item.id);
+      const before = existing ? { ...existing } : null;
+      const error = applyBulkItem(operation, item);
+      if (error) {
+        failures.push({ index, id: item.id, error, input: item });
+        return;
+      }
+
+      const user = mockUsers.find(u => u.id === item.id);
+      if (user) {
+        auditUserChange(request, operation as AuditAction, before, user);
+        processed.push(toListItem(user));
+      }
+    });
+
+    const response: UserBulkResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      timestamp: new Date().toISOString(),
+      data: processed,
+      summary: {
+        total: items.length,
+        successful: processed.length,
+        failed: failures.length,
+        skipped,
+        processingTime: Date.now() - startTime,
+      },
+      failures,
+    };
+
+    return HttpResponse.json(response);
   }),
 
   // PUT /api/users/:id - Update user
   http.put('*/api/users/:id', async ({ params, request }) => {
-    const userId = Number(params.id);
+    const userId = String(params.id);
     const url = new URL(request.url);
-    
+
     // Simulate error scenario
     const simulateError = url.searchParams.get('_error');
     if (simulateError === 'not_found') {
-      return HttpResponse.json(
-        { 
-          success: false, 
-          message: 'User not found',
-          errorCode: 'USER_NOT_FOUND'
-        } as APIResponse<null>, 
-        { status: 404 }
-      );
+      return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
     }
 
     try {
       const updateUserData = await request.json() as UpdateUserRequest;
-      
+
       const userIndex = mockUsers.findIndex(u => u.id === userId);
       if (userIndex === -1) {
-        return HttpResponse.json(
-          { 
-            success: false, 
-            message: 'User not found',
-            errorCode: 'USER_NOT_FOUND'
-          } as APIResponse<null>, 
-          { status: 404 }
-        );
+        return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
       }
 
-      // Update user
-      const updatedUser: UserListItem = {
-        ...mockUsers[userIndex],
-        ...updateUserData,
-        updatedAt: new Date().toISOString(),
-      };
+      // Email must stay unique across other users
+      const emailTaken = mockUsers.some(u => u.id !== userId && u.email === updateUserData.email);
+      if (emailTaken) {
+        return errorResponse(409, 'EMAIL_ALREADY_EXISTS', 'Email already exists');
+      }
 
+      // Update user
+      const updatedUser = applyUserData(mockUsers[userIndex], updateUserData);
+      auditUserChange(request, 'update', mockUsers[userIndex], updatedUser);
       mockUsers[userIndex] = updatedUser;
 
       const response: UserResponse = {
         success: true,
-        message: 'User updated successfully',
-        data: updatedUser,
+        requestId: generateRequestId(),
+        data: toUser(updatedUser),
+        meta: null,
+        error: null,
       };
 
       return HttpResponse.json(response);
-    } catch (error) {
-      return HttpResponse.json(
-        { 
-          success: false, 
-          message: 'Invalid request body',
-          errorCode: 'INVALID_REQUEST'
-        } as APIResponse<null>, 
-        { status: 400 }
-      );
+    } catch {
+      return errorResponse(400, 'INVALID_REQUEST', 'Invalid request body');
     }
   }),
 
-  // DELETE /api/users/:id - Delete user
+  // DELETE /api/users/:id - Soft delete user
   http.delete('*/api/users/:id', ({ params, request }) => {
-    const userId = Number(params.id);
+    const userId = String(params.id);
+    const url = new URL(request.url);
+
+    // Simulate error scenario
+    const simulateError = url.searchParams.get('_error');
+    if (simulateError === 'not_found') {
+      return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
+    }
+
+    const user = mockUsers.find(u => u.id === userId && !u.deleted);
+    if (!user) {
+      return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
+    }
+
+    // Mark as deleted - the record stays available for restore
+    const before = { ...user };
+    user.deleted = true;
+    auditUserChange(request, 'delete', before, user);
+
+    const response: DeleteUserResponse = {
+      success: true,
+      requestId: generateRequestId(),
+      data: null,
+      meta: null,
+      error: null,
+    };
+
+    return HttpResponse.json(response);
+  }),
+
+  // POST /api/users/:id/restore - Restore soft-deleted user
+  http.post('*/api/users/:id/restore', ({ params, request }) => {
+    const userId = String(params.id);
     const url = new URL(request.url);
-    
+
     // Simulate error scenario
     const simulateError = url.searchParams.get('_error');
     if (simulateError === 'not_found') {
-      return HttpResponse.json(
-        { 
-          success: false, 
-          message: 'User not found',
-          errorCode: 'USER_NOT_FOUND'
-        } as APIResponse<null>, 
-        { status: 404 }
-      );
+      return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
     }
 
-    const userIndex = mockUsers.findIndex(u => u.id === userId);
-    if (userIndex === -1) {
-      return HttpResponse.json(
-        { 
-          success: false, 
-          message: 'User not found',
-          errorCode: 'USER_NOT_FOUND'
-        } as APIResponse<null>, 
-        { status: 404 }
-      );
+    const user = mockUsers.find(u => u.id === userId);
+    if (!user) {
+      return errorResponse(404, 'USER_NOT_FOUND', 'User not found');
     }
 
-    // Remove user from mock data
-    mockUsers.splice(userIndex, 1);
+    if (!user.deleted) {
+      return errorResponse(409, 'USER_NOT_DELETED', 'User is not deleted');
+    }
+
+    const before = { ...user };
+    user.deleted = false;
+    auditUserChange(request, 'restore', before, user);
 
-    const response: APIResponse<null> = {
+    const response: RestoreUserResponse = {
       success: true,
-      message: 'User deleted successfully',
+      requestId: generateRequestId(),
       data: null,
+      meta: null,
+      error: null,
     };
 
     return HttpResponse.json(response);
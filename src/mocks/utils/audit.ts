@@ -0,0 +1,51 @@
+/**
+ * Audit Utilities for MSW Mocks
+ *
+ * Record the mutations of the mock handlers in the audit log (GET /audit)
+ */
+
+import type { AuditActor, AuditEvent } from '../../shared/types/audit';
+import { mockAuditEvents } from '../fixtures/auditEvents';
+import { mockUsers } from '../fixtures/users';
+import { decodeMockJWT } from './jwt';
+import { generateMockId } from './responses';
+
+/**
+ * Signed-in user of a request, read from its bearer token
+ * Falls back to the admin user, like GET /auth/me.
+ */
+export function getRequestActor(request: Request): AuditActor {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  const payload = token ? decodeMockJWT(token) : null;
+  const email: string | undefined = payload?.email;
+  const user = Object.values(mockUsers).find(item => item.email === email);
+
+  if (user) {
+    return { id: user.id, name: user.name, email: user.email };
+  }
+  if (email) {
+    return { id: payload.sub ?? payload.user_id ?? email, name: payload.name ?? email, email };
+  }
+  return { id: mockUsers.admin.id, name: mockUsers.admin.name, email: mockUsers.admin.email };
+}
+
+/**
+ * Record a change made by a request
+ * The request ID is the X-Request-ID sent by the HTTP client, so the event
+ * can be matched with the client's logs.
+ */
+export function recordAuditEvent(
+  request: Request,
+  change: Pick<AuditEvent, 'action' | 'entityType' | 'entityId' | 'entityName' | 'before' | 'after'>
+): AuditEvent {
+  const event: AuditEvent = {
+    id: generateMockId(),
+    occurredAt: new Date().toISOString(),
+    actor: getRequestActor(request),
+    ...change,
+    requestId: request.headers.get('x-request-id') ?? `req_${Date.now()}_${Math.random().toString(36).substring(2)}`,
+  };
+
+  mockAuditEvents.unshift(event);
+  return event;
+}
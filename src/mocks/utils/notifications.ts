@@ -0,0 +1,26 @@
+/**
+ * Notification Utilities for MSW Mocks
+ *
+ * Add notifications from the mock handlers, so polling clients pick them up
+ */
+
+import type { AppNotification } from '../../shared/types/notification';
+import { mockNotifications } from '../fixtures/notifications';
+import { generateMockId } from './responses';
+
+/**
+ * Add an unread notification created now
+ */
+export function pushNotification(
+  notification: Pick<AppNotification, 'type' | 'title' | 'message' | 'link'>
+): AppNotification {
+  const created: AppNotification = {
+    id: generateMockId(),
+    createdAt: new Date().toISOString(),
+    read: false,
+    ...notification,
+  };
+
+  mockNotifications.unshift(created);
+  return created;
+}
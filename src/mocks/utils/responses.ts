@@ -0,0 +1,42 @@
+/**
+ * Response Utilities for MSW Mocks
+ *
+ * Request IDs, record IDs and error envelopes shared by the mock handlers
+ */
+
+import { HttpResponse } from 'msw';
+import type { UserErrorResponse } from '../../shared/types/user';
+
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Generate a request ID in the same format as the HTTP client
+ */
+export function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+}
+
+/**
+ * Generate a ULID-shaped identifier for newly created records
+ */
+export function generateMockId(): string {
+  let id = '01J';
+  while (id.length < 26) {
+    id += ULID_ALPHABET[Math.floor(Math.random() * ULID_ALPHABET.length)];
+  }
+  return id;
+}
+
+/**
+ * Build an error envelope matching the API specification
+ */
+export function errorResponse(status: number, code: string, message: string) {
+  const body: UserErrorResponse = {
+    success: false,
+    requestId: generateRequestId(),
+    data: null,
+    meta: null,
+    error: { status, code, message },
+  };
+  return HttpResponse.json(body, { status });
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { activityHandlers } from '../../mocks/handlers/activity';
+import { userHandlers } from '../../mocks/handlers/user';
+import { activityAPI } from './activity';
+import { userApi } from './user';
+
+// Setup MSW server for testing
+const server = setupServer(...activityHandlers, ...userHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const JOHN_ID = '01234567890123456789012345';
+const EMILY_ID = '01234567890123456789012350';
+const LIAM_ID = '01234567890123456789012353';
+const TEACHER_ROLE_ID = '01J9WR00000000000000000004';
+
+describe('User Activity API Client', () => {
+  describe('listUserActivity', () => {
+    it('should combine audited changes, sign-ins and account creation, newest first', async () => {
+      const result = await activityAPI.listUserActivity(EMILY_ID);
+
+      expect(result.success).toBe(true);
+      expect(result.data.map(entry => entry.type).sort()).toEqual([
+        'account_created',
+        'login',
+        'login',
+        'login',
+        'profile_updated',
+      ]);
+      expect(result.data.find(entry => entry.type === 'profile_updated')).toMatchObject({
+        summary: 'Profile updated: note',
+        actor: { email: 'admin@example.com' },
+      });
+      // Created before the audit log - no actor recorded
+      expect(result.data[result.data.length - 1]).toMatchObject({ type: 'account_created', actor: null });
+      const times = result.data.map(entry => entry.occurredAt);
+      expect(times).toEqual([...times].sort().reverse());
+    });
+
+    it('should list the lessons a student attended', async () => {
+      const result = await activityAPI.listUserActivity(LIAM_ID);
+
+      expect(result.data.filter(entry => entry.type === 'lesson_attended')).toEqual([
+        expect.objectContaining({ summary: 'Attended lesson with Emily Chen in Practice Room A' }),
+      ]);
+    });
+
+    it('should record role changes and profile edits made through the user API', async () => {
+      const john = (await userApi.getUserById(JOHN_ID)).data;
+      await userApi.updateUser(JOHN_ID, {
+        name: john.name,
+        email: john.email,
+        phone: '+1-555-0199',
+        roleId: TEACHER_ROLE_ID,
+        countryId: john.countryId,
+        provinceId: john.provinceId,
+      });
+
+      const result = await activityAPI.listUserActivity(JOHN_ID, { page: 0, size: 2 });
+      expect(result.data.map(entry => entry.summary).sort()).toEqual([
+        'Profile updated: phone',
+        'Role changed from USER to TEACHER',
+      ]);
+      expect(result.meta).toMatchObject({ page: 0, size: 2, totalItems: 3, hasNext: true });
+
+      const next = await activityAPI.listUserActivity(JOHN_ID, { page: 1, size: 2 });
+      expect(next.data).toEqual([expect.objectContaining({ type: 'account_created' })]);
+      expect(next.meta.hasNext).toBe(false);
+    });
+
+    it('should handle user not found', async () => {
+      await expect(activityAPI.listUserActivity('01J9ZZZZZZZZZZZZZZZZZZZZZZ')).rejects.toMatchObject({
+        response: { status: 404, data: { error: { code: 'USER_NOT_FOUND' } } },
+      });
+    });
+  });
+});
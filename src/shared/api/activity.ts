@@ -0,0 +1,37 @@
+/**
+ * User Activity API Client
+ *
+ * HTTP client functions for the activity timeline of a user
+ */
+
+import { httpClient } from './http';
+import type { UserActivityListResponse, UserActivityParams } from '../types/activity';
+
+// Base path for user API endpoints - activity is a sub-resource of a user
+const BASE_PATH = '/users';
+
+/**
+ * User activity API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const activityAPI = {
+  /**
+   * List what happened to an account, newest first
+   * GET /users/{id}/activity
+   *
+   * @param userId User ULID
+   * @param params Pagination parameters
+   * @returns Promise<UserActivityListResponse> Paginated activity
+   */
+  listUserActivity: async (userId: string, params: UserActivityParams = {}): Promise<UserActivityListResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/${userId}/activity`, { params });
+    return response.data as UserActivityListResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const {
+  listUserActivity,
+} = activityAPI;
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { attendanceHandlers } from '../../mocks/handlers/attendance';
+import { lessonHandlers } from '../../mocks/handlers/lesson';
+import { attendanceAPI } from './attendance';
+import { lessonAPI } from './lesson';
+
+// Setup MSW server for testing
+const server = setupServer(...attendanceHandlers, ...lessonHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const YESTERDAY_LESSON_ID = '01J9WN00000000000000000001';
+const NEXT_WEEK_LESSON_ID = '01J9WN00000000000000000008';
+
+describe('Attendance API Client', () => {
+  describe('recordAttendance', () => {
+    it('should replace the attendance read with the lesson', async () => {
+      const before = await lessonAPI.getLessonById(YESTERDAY_LESSON_ID);
+      expect(before.data.attendance).toMatchObject({ status: 'attended' });
+
+      try {
+        const result = await attendanceAPI.recordAttendance(YESTERDAY_LESSON_ID, {
+          status: 'absent_unexcused',
+          note: '  No show  ',
+        });
+        expect(result.data).toMatchObject({
+          lessonId: YESTERDAY_LESSON_ID,
+          status: 'absent_unexcused',
+          note: 'No show',
+        });
+
+        const after = await lessonAPI.getLessonById(YESTERDAY_LESSON_ID);
+        expect(after.data.attendance).toEqual(result.data);
+      } finally {
+        await attendanceAPI.recordAttendance(YESTERDAY_LESSON_ID, { status: 'attended' });
+      }
+    });
+
+    it('should only record absences and cancellations ahead of a lesson', async () => {
+      await expect(
+        attendanceAPI.recordAttendance(NEXT_WEEK_LESSON_ID, { status: 'attended' })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+
+      await attendanceAPI.recordAttendance(NEXT_WEEK_LESSON_ID, { status: 'studio_cancelled', note: 'Piano tuning' });
+      const lesson = await lessonAPI.getLessonById(NEXT_WEEK_LESSON_ID);
+      expect(lesson.data.attendance).toMatchObject({ status: 'studio_cancelled', note: 'Piano tuning' });
+
+      await attendanceAPI.clearAttendance(NEXT_WEEK_LESSON_ID);
+      expect((await lessonAPI.getLessonById(NEXT_WEEK_LESSON_ID)).data.attendance).toBeNull();
+    });
+
+    it('should reject unknown lessons', async () => {
+      await expect(
+        attendanceAPI.recordAttendance('01J9ZZZZZZZZZZZZZZZZZZZZZZ', { status: 'attended' })
+      ).rejects.toMatchObject({ response: { status: 404 } });
+    });
+  });
+
+  describe('clearAttendance', () => {
+    it('should reject lessons without attendance', async () => {
+      await expect(attendanceAPI.clearAttendance(NEXT_WEEK_LESSON_ID)).rejects.toMatchObject({
+        response: { status: 404, data: { error: { code: 'ATTENDANCE_NOT_FOUND' } } },
+      });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Attendance API Client
+ *
+ * HTTP client functions for lesson attendance operations
+ * Attendance is read with the lessons (Lesson.attendance, GET /lessons).
+ */
+
+import { httpClient } from './http';
+import type {
+  AttendanceResponse,
+  ClearAttendanceResponse,
+  RecordAttendanceRequest,
+} from '../types/attendance';
+
+// Base path for lesson API endpoints - attendance is a sub-resource of a lesson
+const BASE_PATH = '/lessons';
+
+/**
+ * Attendance API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const attendanceAPI = {
+  /**
+   * Record the attendance of a lesson, replacing the one recorded before
+   * PUT /lessons/{id}/attendance
+   *
+   * @param lessonId Lesson ULID
+   * @param data Attendance status and optional note
+   * @returns Promise<AttendanceResponse> Recorded attendance
+   */
+  recordAttendance: async (lessonId: string, data: RecordAttendanceRequest): Promise<AttendanceResponse> => {
+    const response = await httpClient.put(`${BASE_PATH}/${lessonId}/attendance`, data);
+    return response.data as AttendanceResponse;
+  },
+
+  /**
+   * Clear the attendance of a lesson
+   * DELETE /lessons/{id}/attendance
+   *
+   * @param lessonId Lesson ULID
+   * @returns Promise<ClearAttendanceResponse> Clear confirmation
+   */
+  clearAttendance: async (lessonId: string): Promise<ClearAttendanceResponse> => {
+    const response = await httpClient.delete(`${BASE_PATH}/${lessonId}/attendance`);
+    return response.data as ClearAttendanceResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const {
+  recordAttendance,
+  clearAttendance,
+} = attendanceAPI;
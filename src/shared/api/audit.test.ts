@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { auditHandlers } from '../../mocks/handlers/audit';
+import { userHandlers } from '../../mocks/handlers/user';
+import { auditAPI } from './audit';
+import { userApi } from './user';
+import type { UpdateUserRequest } from '../types/user';
+
+// Setup MSW server for testing
+const server = setupServer(...auditHandlers, ...userHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const BOB_ID = '01234567890123456789012347';
+const EMILY_ID = '01234567890123456789012350';
+
+describe('Audit API Client', () => {
+  describe('listAuditEvents', () => {
+    it('should list audit events newest first with pagination', async () => {
+      const result = await auditAPI.listAuditEvents();
+
+      expect(result.success).toBe(true);
+      expect(result.meta).toMatchObject({ page: 0, size: 20 });
+      const times = result.data.map(event => event.occurredAt);
+      expect(times).toEqual([...times].sort().reverse());
+      expect(result.data.find(event => event.entityId === EMILY_ID)).toMatchObject({
+        action: 'update',
+        before: { note: 'Piano' },
+        after: { note: 'Piano and music theory' },
+      });
+    });
+
+    it('should filter by actor, entity type and date range', async () => {
+      const byActor = await auditAPI.listAuditEvents({ actor: 'ADMIN@example' });
+      expect(byActor.data.length).toBeGreaterThan(0);
+      expect(byActor.data.every(event => event.actor.email === 'admin@example.com')).toBe(true);
+
+      const noActor = await auditAPI.listAuditEvents({ actor: 'nobody' });
+      expect(noActor.data).toEqual([]);
+
+      const byType = await auditAPI.listAuditEvents({ entityType: 'user' });
+      expect(byType.meta.totalItems).toBe(byActor.meta.totalItems);
+
+      const future = await auditAPI.listAuditEvents({ from: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+      expect(future.meta.totalItems).toBe(0);
+    });
+
+    it('should reject an invalid date range', async () => {
+      await expect(auditAPI.listAuditEvents({ from: 'yesterday' })).rejects.toMatchObject({
+        response: { status: 422, data: { error: { code: 'VALIDATION_ERROR' } } },
+      });
+    });
+  });
+
+  describe('recording user mutations', () => {
+    it('should record an update with the state before and after', async () => {
+      const bob = (await userApi.getUserById(BOB_ID)).data;
+      const updateData: UpdateUserRequest = {
+        name: bob.name,
+        email: bob.email,
+        phone: bob.phone ?? undefined,
+        roleId: bob.roleId,
+        countryId: bob.countryId,
+        provinceId: bob.provinceId,
+        note: 'Prefers evening lessons',
+      };
+      await userApi.updateUser(BOB_ID, updateData);
+
+      const result = await auditAPI.listAuditEvents({ entityId: BOB_ID });
+      expect(result.data[0]).toMatchObject({
+        action: 'update',
+        entityType: 'user',
+        entityName: 'Bob Johnson',
+        actor: { email: 'admin@example.com' },
+        before: { note: bob.note },
+        after: { note: 'Prefers evening lessons' },
+      });
+      expect(result.data[0].requestId).toMatch(/^req_/);
+    });
+
+    it('should record soft deletes and restores', async () => {
+      await userApi.deleteUser(BOB_ID);
+      await userApi.restoreUser(BOB_ID);
+
+      const result = await auditAPI.listAuditEvents({ entityId: BOB_ID });
+      expect(result.data.slice(0, 2).map(event => event.action).sort()).toEqual(['delete', 'restore']);
+      const deleted = result.data.find(event => event.action === 'delete');
+      expect(deleted).toMatchObject({ before: { deleted: false }, after: { deleted: true } });
+    });
+
+    it('should record creates without a state before', async () => {
+      await userApi.createUser({
+        name: 'Nora Quinn',
+        email: 'nora.quinn@example.com',
+        roleId: '01J9WR00000000000000000005',
+        countryId: '01J9WC00000000000000000002',
+        provinceId: '01J9WP00000000000000000003',
+      });
+
+      const result = await auditAPI.listAuditEvents({ actor: 'admin' });
+      expect(result.data[0]).toMatchObject({
+        action: 'create',
+        entityName: 'Nora Quinn',
+        before: null,
+        after: { email: 'nora.quinn@example.com', role: 'STUDENT' },
+      });
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Audit API Client
+ *
+ * HTTP client functions for reading the audit log
+ */
+
+import { httpClient } from './http';
+import type { AuditListParams, AuditListResponse } from '../types/audit';
+
+// Base path for audit API endpoints
+const BASE_PATH = '/audit';
+
+/**
+ * Audit API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const auditAPI = {
+  /**
+   * List audit events with filtering and pagination, newest first
+   * GET /audit
+   *
+   * @param params Query parameters for filtering and pagination
+   * @returns Promise<AuditListResponse> Paginated audit events
+   */
+  listAuditEvents: async (params: AuditListParams = {}): Promise<AuditListResponse> => {
+    const response = await httpClient.get(BASE_PATH, { params });
+    return response.data as AuditListResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const {
+  listAuditEvents,
+} = auditAPI;
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { availabilityHandlers } from '../../mocks/handlers/availability';
+import { lessonHandlers } from '../../mocks/handlers/lesson';
+import { availabilityAPI } from './availability';
+import { lessonAPI } from './lesson';
+import { addDays, startOfDay, withTime } from '../utils/date';
+import type { UpdateTeacherAvailabilityRequest } from '../types/availability';
+import type { CreateLessonRequest } from '../types/lesson';
+
+// Setup MSW server for testing
+const server = setupServer(...availabilityHandlers, ...lessonHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const TORONTO_STUDIO_ID = '01J9WS00000000000000000001';
+const STEINWAY_HALL_ID = '01J9WM00000000000000000001';
+const EMILY_ID = '01234567890123456789012350';
+const MARCO_ID = '01234567890123456789012351';
+const SOPHIE_ID = '01234567890123456789012352';
+const JOHN_ID = '01234567890123456789012345'; // USER role
+
+// A Thursday four weeks ahead - outside the vacation fixture
+const today = startOfDay(new Date());
+const lessonDay = addDays(today, 28 + ((4 - today.getDay() + 7) % 7));
+
+const thursdayLesson: CreateLessonRequest = {
+  studioId: TORONTO_STUDIO_ID,
+  roomId: STEINWAY_HALL_ID,
+  teacherId: MARCO_ID,
+  studentId: SOPHIE_ID,
+  start: withTime(lessonDay, '11:00').toISOString(),
+  end: withTime(lessonDay, '12:00').toISOString(),
+};
+
+describe('Availability API Client', () => {
+  describe('getAvailability', () => {
+    it("should return a teacher's weekly availability and exceptions", async () => {
+      const result = await availabilityAPI.getAvailability(EMILY_ID);
+
+      expect(result.success).toBe(true);
+      expect(result.data.teacherId).toBe(EMILY_ID);
+      expect(result.data.weekly).toContainEqual({
+        studioId: TORONTO_STUDIO_ID,
+        day: 'monday',
+        start: '09:00',
+        end: '19:00',
+      });
+      expect(result.data.exceptions[0]).toMatchObject({ reason: 'vacation' });
+    });
+
+    it('should reject unknown users and users without the TEACHER role', async () => {
+      await expect(availabilityAPI.getAvailability('01J9ZZZZZZZZZZZZZZZZZZZZZZ')).rejects.toMatchObject({
+        response: { status: 404 },
+      });
+      await expect(availabilityAPI.getAvailability(JOHN_ID)).rejects.toMatchObject({
+        response: { status: 422 },
+      });
+    });
+  });
+
+  describe('updateAvailability', () => {
+    it('should replace the availability and refuse lessons outside it unless overridden', async () => {
+      const original = (await availabilityAPI.getAvailability(MARCO_ID)).data;
+      const update: UpdateTeacherAvailabilityRequest = {
+        weekly: [
+          { studioId: TORONTO_STUDIO_ID, day: 'thursday', start: '13:00', end: '17:00' },
+          { studioId: TORONTO_STUDIO_ID, day: 'monday', start: '09:00', end: '12:00' },
+        ],
+        exceptions: [{ from: '2030-01-02', to: '2030-01-03', reason: 'sick', note: ' Flu ' }],
+      };
+
+      try {
+        const result = await availabilityAPI.updateAvailability(MARCO_ID, update);
+        expect(result.data.weekly.map(slot => slot.day)).toEqual(['monday', 'thursday']);
+        expect(result.data.exceptions[0]).toMatchObject({ from: '2030-01-02', note: 'Flu' });
+        expect(result.data.exceptions[0].id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+
+        await expect(lessonAPI.createLesson(thursdayLesson)).rejects.toMatchObject({
+          response: {
+            status: 409,
+            data: { error: { errors: [{ field: 'teacherId', code: 'TEACHER_UNAVAILABLE' }] } },
+          },
+        });
+
+        const overridden = await lessonAPI.createLesson({ ...thursdayLesson, overrideAvailability: true });
+        await lessonAPI.deleteLesson(overridden.data.id);
+      } finally {
+        await availabilityAPI.updateAvailability(MARCO_ID, original);
+      }
+    });
+
+    it('should reject overlapping weekly times', async () => {
+      await expect(
+        availabilityAPI.updateAvailability(MARCO_ID, {
+          weekly: [
+            { studioId: TORONTO_STUDIO_ID, day: 'monday', start: '09:00', end: '12:00' },
+            { studioId: TORONTO_STUDIO_ID, day: 'monday', start: '11:00', end: '13:00' },
+          ],
+          exceptions: [],
+        })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+    });
+  });
+});
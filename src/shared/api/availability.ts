@@ -0,0 +1,56 @@
+/**
+ * Teacher Availability API Client
+ *
+ * HTTP client functions for teacher availability operations
+ */
+
+import { httpClient } from './http';
+import type {
+  TeacherAvailabilityResponse,
+  UpdateTeacherAvailabilityRequest,
+} from '../types/availability';
+
+// Base path for user API endpoints - availability is a sub-resource of a teacher
+const BASE_PATH = '/users';
+
+/**
+ * Teacher availability API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const availabilityAPI = {
+  /**
+   * Get a teacher's weekly availability and exceptions
+   * GET /users/{id}/availability
+   *
+   * @param teacherId ULID of a user with the TEACHER role
+   * @returns Promise<TeacherAvailabilityResponse> Availability data
+   */
+  getAvailability: async (teacherId: string): Promise<TeacherAvailabilityResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/${teacherId}/availability`);
+    return response.data as TeacherAvailabilityResponse;
+  },
+
+  /**
+   * Replace a teacher's weekly availability and exceptions
+   * PUT /users/{id}/availability
+   *
+   * @param teacherId ULID of a user with the TEACHER role
+   * @param data Weekly availability and exceptions
+   * @returns Promise<TeacherAvailabilityResponse> Updated availability
+   */
+  updateAvailability: async (
+    teacherId: string,
+    data: UpdateTeacherAvailabilityRequest
+  ): Promise<TeacherAvailabilityResponse> => {
+    const response = await httpClient.put(`${BASE_PATH}/${teacherId}/availability`, data);
+    return response.data as TeacherAvailabilityResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const {
+  getAvailability,
+  updateAvailability,
+} = availabilityAPI;
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { dashboardHandlers } from '../../mocks/handlers/dashboard';
+import { dashboardAPI } from './dashboard';
+import { addDays, startOfDay, withTime } from '../utils/date';
+
+// Setup MSW server for testing
+const server = setupServer(...dashboardHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const GUITAR_STUDIO_ID = '01J9WM00000000000000000005';
+const DRUM_ROOM_ID = '01J9WM00000000000000000003';
+
+describe('Dashboard API Client', () => {
+  describe('getActiveUsersByRole', () => {
+    it('should count the active users per role, largest first', async () => {
+      const result = await dashboardAPI.getActiveUsersByRole();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toContainEqual({ role: 'TEACHER', count: 2 });
+      expect(result.data.reduce((total, entry) => total + entry.count, 0)).toBe(9);
+      const counts = result.data.map(entry => entry.count);
+      expect(counts).toEqual([...counts].sort((a, b) => b - a));
+    });
+  });
+
+  describe('getNewUsers', () => {
+    it('should count the users created in the period', async () => {
+      const recent = await dashboardAPI.getNewUsers({
+        from: addDays(new Date(), -2).toISOString(),
+        to: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      });
+      expect(recent.data.count).toBe(1);
+
+      const january = await dashboardAPI.getNewUsers({
+        from: '2024-01-01T00:00:00.000Z',
+        to: '2024-02-01T00:00:00.000Z',
+      });
+      expect(january.data).toEqual({
+        from: '2024-01-01T00:00:00.000Z',
+        to: '2024-02-01T00:00:00.000Z',
+        count: 2,
+      });
+    });
+
+    it('should reject a period ending before it starts', async () => {
+      await expect(dashboardAPI.getNewUsers({
+        from: '2024-02-01T00:00:00.000Z',
+        to: '2024-01-01T00:00:00.000Z',
+      })).rejects.toMatchObject({
+        response: { status: 422, data: { error: { code: 'VALIDATION_ERROR' } } },
+      });
+    });
+  });
+
+  describe('getRoomUtilisation', () => {
+    it('should count the booked minutes within the period for open rooms only', async () => {
+      // Today's 15:00–15:45 lesson in the Guitar Studio, cut at 15:30
+      const today = startOfDay(new Date());
+      const result = await dashboardAPI.getRoomUtilisation({
+        from: withTime(today, '15:00').toISOString(),
+        to: withTime(today, '15:30').toISOString(),
+      });
+
+      const guitarStudio = result.data.find(room => room.roomId === GUITAR_STUDIO_ID);
+      expect(guitarStudio).toMatchObject({ room: 'Guitar Studio', bookedMinutes: 30 });
+      expect(guitarStudio!.openMinutes).toBeLessThanOrEqual(30);
+      expect(result.data.some(room => room.roomId === DRUM_ROOM_ID)).toBe(false);
+    });
+  });
+
+  describe('getRecentErrors', () => {
+    it('should return the latest errors, newest first', async () => {
+      const result = await dashboardAPI.getRecentErrors(2);
+
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0].occurredAt > result.data[1].occurredAt).toBe(true);
+      expect(result.data[0]).toMatchObject({ status: 500, path: '/api/lessons/01J9WN00000000000000000001/attendance' });
+    });
+  });
+});
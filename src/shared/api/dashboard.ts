@@ -0,0 +1,80 @@
+/**
+ * Dashboard API Client
+ *
+ * HTTP client functions for the figures shown by the dashboard widgets
+ */
+
+import { httpClient } from './http';
+import type {
+  DashboardPeriodParams,
+  ErrorLogListResponse,
+  NewUsersCountResponse,
+  RoleUserCountListResponse,
+  RoomUtilisationListResponse,
+} from '../types/dashboard';
+
+// Base path for dashboard API endpoints
+const BASE_PATH = '/dashboard';
+
+/**
+ * Dashboard API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const dashboardAPI = {
+  /**
+   * Count the active users per role
+   * GET /dashboard/users/by-role
+   *
+   * @returns Promise<RoleUserCountListResponse> One count per role, largest first
+   */
+  getActiveUsersByRole: async (): Promise<RoleUserCountListResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/users/by-role`);
+    return response.data as RoleUserCountListResponse;
+  },
+
+  /**
+   * Count the users created in a period
+   * GET /dashboard/users/new
+   *
+   * @param params Period (from inclusive, to exclusive)
+   * @returns Promise<NewUsersCountResponse> Number of new users
+   */
+  getNewUsers: async (params: DashboardPeriodParams): Promise<NewUsersCountResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/users/new`, { params });
+    return response.data as NewUsersCountResponse;
+  },
+
+  /**
+   * Booked share of the opening hours of each room in a period
+   * GET /dashboard/rooms/utilisation
+   *
+   * @param params Period (from inclusive, to exclusive)
+   * @returns Promise<RoomUtilisationListResponse> One entry per open room
+   */
+  getRoomUtilisation: async (params: DashboardPeriodParams): Promise<RoomUtilisationListResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/rooms/utilisation`, { params });
+    return response.data as RoomUtilisationListResponse;
+  },
+
+  /**
+   * Latest server errors
+   * GET /dashboard/errors
+   *
+   * @param limit Maximum number of errors (default 5)
+   * @returns Promise<ErrorLogListResponse> Errors, newest first
+   */
+  getRecentErrors: async (limit = 5): Promise<ErrorLogListResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/errors`, { params: { limit } });
+    return response.data as ErrorLogListResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const {
+  getActiveUsersByRole,
+  getNewUsers,
+  getRoomUtilisation,
+  getRecentErrors,
+} = dashboardAPI;
@@ -7,6 +7,7 @@
 
 import { notification } from 'antd';
 import type { APIError } from '../types/api';
+import { t, type MessageKey } from '../i18n';
 
 /**
  * Error severity levels for different handling strategies
@@ -26,82 +27,83 @@ export interface ErrorHandlingConfig {
 
 /**
  * User-friendly error message mapping
- * Maps technical error codes to user-friendly messages
+ * Maps technical error codes to user-friendly messages, translated into the
+ * current locale by getErrorInfo (see the errors.* keys of the catalogues)
  */
-export const ERROR_MESSAGES: Record<string, { message: string; severity: ErrorSeverity; retryable: boolean }> = {
+export const ERROR_MESSAGES: Record<string, { messageKey: MessageKey; severity: ErrorSeverity; retryable: boolean }> = {
   // Authentication Errors
   'AUTH_TOKEN_EXPIRED': {
-    message: 'Your session has expired. Please log in again.',
+    messageKey: 'errors.AUTH_TOKEN_EXPIRED',
     severity: 'medium',
     retryable: false,
   },
   'AUTH_INVALID_TOKEN': {
-    message: 'Invalid authentication. Please log in again.',
+    messageKey: 'errors.AUTH_INVALID_TOKEN',
     severity: 'medium',
     retryable: false,
   },
   'AUTH_INSUFFICIENT_PERMISSIONS': {
-    message: "You don't have permission to perform this action.",
+    messageKey: 'errors.AUTH_INSUFFICIENT_PERMISSIONS',
     severity: 'medium',
     retryable: false,
   },
 
   // Network Errors
   'NETWORK_ERROR': {
-    message: 'Network connection failed. Please check your internet connection.',
+    messageKey: 'errors.NETWORK_ERROR',
     severity: 'high',
     retryable: true,
   },
   'NETWORK_TIMEOUT': {
-    message: 'Request timed out. Please try again.',
+    messageKey: 'errors.NETWORK_TIMEOUT',
     severity: 'medium',
     retryable: true,
   },
 
   // Server Errors
   'SERVER_ERROR': {
-    message: 'Server error occurred. Our team has been notified.',
+    messageKey: 'errors.SERVER_ERROR',
     severity: 'high',
     retryable: true,
   },
   'SERVICE_UNAVAILABLE': {
-    message: 'Service is temporarily unavailable. Please try again later.',
+    messageKey: 'errors.SERVICE_UNAVAILABLE',
     severity: 'high',
     retryable: true,
   },
   'RATE_LIMIT_EXCEEDED': {
-    message: 'Too many requests. Please wait a moment before trying again.',
+    messageKey: 'errors.RATE_LIMIT_EXCEEDED',
     severity: 'medium',
     retryable: true,
   },
 
   // Validation Errors
   'VALIDATION_ERROR': {
-    message: 'Please check your input and try again.',
+    messageKey: 'errors.VALIDATION_ERROR',
     severity: 'low',
     retryable: false,
   },
   'INVALID_REQUEST': {
-    message: 'Invalid request format.',
+    messageKey: 'errors.INVALID_REQUEST',
     severity: 'low',
     retryable: false,
   },
 
   // Resource Errors
   'RESOURCE_NOT_FOUND': {
-    message: 'The requested resource was not found.',
+    messageKey: 'errors.RESOURCE_NOT_FOUND',
     severity: 'low',
     retryable: false,
   },
   'RESOURCE_CONFLICT': {
-    message: 'This action conflicts with existing data.',
+    messageKey: 'errors.RESOURCE_CONFLICT',
     severity: 'medium',
     retryable: false,
   },
 
   // Default fallback
   'UNKNOWN_ERROR': {
-    message: 'An unexpected error occurred. Please try again.',
+    messageKey: 'errors.UNKNOWN_ERROR',
     severity: 'medium',
     retryable: true,
   },
@@ -143,10 +145,11 @@ export function getErrorInfo(error: APIError | string | number): {
     errorCode = error.code || 'UNKNOWN_ERROR';
   }
 
-  const errorInfo = ERROR_MESSAGES[errorCode] || ERROR_MESSAGES['UNKNOWN_ERROR'];
+  const { messageKey, ...errorInfo } = ERROR_MESSAGES[errorCode] || ERROR_MESSAGES['UNKNOWN_ERROR'];
 
   return {
     code: errorCode,
+    message: t(messageKey),
     ...errorInfo,
   };
 }
@@ -193,14 +196,14 @@ export function showErrorNotification(
 function getNotificationTitle(severity: ErrorSeverity): string {
   switch (severity) {
     case 'critical':
-      return 'Critical Error';
+      return t('errors.title.critical');
     case 'high':
-      return 'Error';
+      return t('errors.title.high');
     case 'medium':
-      return 'Warning';
+      return t('errors.title.medium');
     case 'low':
     default:
-      return 'Notice';
+      return t('errors.title.low');
   }
 }
 
@@ -304,7 +307,7 @@ export function normalizeError(error: any): APIError {
     
     return {
       code: data?.code || HTTP_STATUS_TO_ERROR_CODE[status] || 'UNKNOWN_ERROR',
-      message: data?.message || error.message || 'An unexpected error occurred',
+      message: data?.message || error.message || t('errors.unexpected'),
       details: data?.details,
       field: data?.field,
       timestamp: new Date().toISOString(),
@@ -315,7 +318,7 @@ export function normalizeError(error: any): APIError {
   if (error?.request || error?.code === 'ECONNABORTED') {
     return {
       code: error.code === 'ECONNABORTED' ? 'NETWORK_TIMEOUT' : 'NETWORK_ERROR',
-      message: 'Network connection failed',
+      message: t('errors.networkConnectionFailed'),
       timestamp: new Date().toISOString(),
     };
   }
@@ -323,7 +326,7 @@ export function normalizeError(error: any): APIError {
   // Generic error
   return {
     code: 'UNKNOWN_ERROR',
-    message: error?.message || 'An unexpected error occurred',
+    message: error?.message || t('errors.unexpected'),
     timestamp: new Date().toISOString(),
   };
 }
@@ -0,0 +1,386 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { lessonHandlers } from '../../mocks/handlers/lesson';
+import { lessonAPI } from './lesson';
+import { addDays, startOfDay, toDateKey, withTime } from '../utils/date';
+import type { CreateLessonRequest, LessonConflictErrorResponse } from '../types/lesson';
+
+// Setup MSW server for testing
+const server = setupServer(...lessonHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const TORONTO_STUDIO_ID = '01J9WS00000000000000000001';
+const STEINWAY_HALL_ID = '01J9WM00000000000000000001';
+const DRUM_ROOM_ID = '01J9WM00000000000000000003'; // under maintenance
+const HARBOUR_ROOM_ID = '01J9WM00000000000000000004'; // Vancouver
+const EMILY_ID = '01234567890123456789012350';
+const MARCO_ID = '01234567890123456789012351';
+const SOPHIE_ID = '01234567890123456789012352';
+const LIAM_ID = '01234567890123456789012353';
+const PRACTICE_ROOM_A_ID = '01J9WM00000000000000000002';
+const JOHN_ID = '01234567890123456789012345'; // USER role
+
+const today = startOfDay(new Date());
+// A Wednesday three weeks ahead - the Toronto studio is open 09:00–21:00
+const lessonDay = addDays(today, 21 + ((3 - today.getDay() + 7) % 7));
+
+const newLesson: CreateLessonRequest = {
+  studioId: TORONTO_STUDIO_ID,
+  roomId: STEINWAY_HALL_ID,
+  teacherId: EMILY_ID,
+  studentId: SOPHIE_ID,
+  start: withTime(lessonDay, '13:00').toISOString(),
+  end: withTime(lessonDay, '14:00').toISOString(),
+};
+
+describe('Lesson API Client', () => {
+  describe('listLessons', () => {
+    it("should list today's lessons sorted by start with resolved names", async () => {
+      const result = await lessonAPI.listLessons({
+        from: today.toISOString(),
+        to: addDays(today, 1).toISOString(),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.length).toBeGreaterThanOrEqual(3);
+      const starts = result.data.map(lesson => lesson.start);
+      expect(starts).toEqual([...starts].sort());
+      expect(result.data[0]).toMatchObject({
+        studio: 'Downtown Toronto Studio',
+        room: 'Steinway Hall',
+        teacher: 'Emily Chen',
+        student: 'Sophie Martin',
+      });
+    });
+
+    it('should filter by teacher', async () => {
+      const result = await lessonAPI.listLessons({
+        from: addDays(today, -7).toISOString(),
+        to: addDays(today, 14).toISOString(),
+        teacherId: MARCO_ID,
+      });
+
+      expect(result.data.length).toBeGreaterThan(0);
+      expect(result.data.every(lesson => lesson.teacherId === MARCO_ID)).toBe(true);
+    });
+
+    it('should require a time range', async () => {
+      await expect(lessonAPI.listLessons({ from: '', to: '' })).rejects.toMatchObject({
+        response: { status: 422 },
+      });
+    });
+  });
+
+  describe('createLesson / updateLesson / deleteLesson', () => {
+    it('should create, update and delete a lesson', async () => {
+      const created = await lessonAPI.createLesson(newLesson);
+      const lessonId = created.data.id;
+      expect(created.data).toMatchObject({ room: 'Steinway Hall', teacher: 'Emily Chen' });
+
+      const end = withTime(lessonDay, '14:30').toISOString();
+      const updated = await lessonAPI.updateLesson(lessonId, { ...newLesson, end, note: 'Longer lesson' });
+      expect(updated.data).toMatchObject({ end, note: 'Longer lesson' });
+
+      await lessonAPI.deleteLesson(lessonId);
+      await expect(lessonAPI.getLessonById(lessonId)).rejects.toMatchObject({
+        response: { status: 404 },
+      });
+    });
+
+    it('should reject a room of another studio or under maintenance', async () => {
+      await expect(
+        lessonAPI.createLesson({ ...newLesson, roomId: HARBOUR_ROOM_ID })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+      await expect(
+        lessonAPI.createLesson({ ...newLesson, roomId: DRUM_ROOM_ID })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+    });
+
+    it('should reject users without the teacher or student role', async () => {
+      await expect(
+        lessonAPI.createLesson({ ...newLesson, teacherId: JOHN_ID })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+      await expect(
+        lessonAPI.createLesson({ ...newLesson, studentId: EMILY_ID })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+    });
+
+    it('should reject lessons that end before they start', async () => {
+      await expect(
+        lessonAPI.createLesson({ ...newLesson, end: newLesson.start })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+    });
+  });
+
+  describe('booking conflicts', () => {
+    it('should reject a double-booked room, teacher or student with 409 LESSON_CONFLICT', async () => {
+      const created = await lessonAPI.createLesson(newLesson);
+      const lessonId = created.data.id;
+
+      try {
+        const overlapping = {
+          start: withTime(lessonDay, '13:30').toISOString(),
+          end: withTime(lessonDay, '14:30').toISOString(),
+        };
+
+        await expect(
+          lessonAPI.createLesson({
+            ...newLesson,
+            ...overlapping,
+            teacherId: MARCO_ID,
+            studentId: LIAM_ID,
+            overrideAvailability: true,
+          })
+        ).rejects.toMatchObject({
+          response: {
+            status: 409,
+            data: {
+              error: {
+                code: 'LESSON_CONFLICT',
+                errors: [
+                  {
+                    field: 'roomId',
+                    code: 'ROOM_DOUBLE_BOOKED',
+                    context: { lessonId, start: newLesson.start, end: newLesson.end },
+                  },
+                ],
+              },
+            },
+          },
+        });
+
+        await expect(
+          lessonAPI.createLesson({ ...newLesson, ...overlapping, roomId: PRACTICE_ROOM_A_ID })
+        ).rejects.toMatchObject({
+          response: {
+            status: 409,
+            data: {
+              error: {
+                errors: [{ code: 'TEACHER_DOUBLE_BOOKED' }, { code: 'STUDENT_DOUBLE_BOOKED' }],
+              },
+            },
+          },
+        });
+      } finally {
+        await lessonAPI.deleteLesson(lessonId);
+      }
+    });
+
+    it('should suggest free slots of the same length', async () => {
+      const created = await lessonAPI.createLesson(newLesson);
+
+      try {
+        await lessonAPI.createLesson({ ...newLesson, studentId: LIAM_ID });
+        expect.unreachable('Expected a conflict');
+      } catch (error) {
+        const { suggestedSlots } = (error as { response: { data: LessonConflictErrorResponse } })
+          .response.data.error.details;
+        expect(suggestedSlots.length).toBeGreaterThan(0);
+        suggestedSlots.forEach(slot => {
+          expect(Date.parse(slot.end) - Date.parse(slot.start)).toBe(60 * 60 * 1000);
+          expect(Date.parse(slot.start) >= Date.parse(newLesson.end) || Date.parse(slot.end) <= Date.parse(newLesson.start)).toBe(true);
+        });
+      } finally {
+        await lessonAPI.deleteLesson(created.data.id);
+      }
+    });
+
+    it('should reject lessons outside the studio opening hours', async () => {
+      await expect(
+        lessonAPI.createLesson({
+          ...newLesson,
+          start: withTime(lessonDay, '20:30').toISOString(),
+          end: withTime(lessonDay, '21:30').toISOString(),
+        })
+      ).rejects.toMatchObject({
+        response: {
+          status: 409,
+          data: {
+            error: {
+              errors: expect.arrayContaining([
+                expect.objectContaining({
+                  field: 'start',
+                  code: 'OUTSIDE_OPENING_HOURS',
+                  context: expect.objectContaining({ close: '21:00' }),
+                }),
+              ]),
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe('recurring series', () => {
+    const weeklyLesson: CreateLessonRequest = {
+      ...newLesson,
+      roomId: PRACTICE_ROOM_A_ID,
+      studentId: LIAM_ID,
+      start: withTime(lessonDay, '17:00').toISOString(),
+      end: withTime(lessonDay, '17:45').toISOString(),
+      recurrence: 'FREQ=WEEKLY;BYDAY=WE;COUNT=4',
+    };
+
+    // Helper to list the lessons of a series in the weeks after lessonDay, sorted by start
+    const listSeries = async (seriesId: string) => {
+      const result = await lessonAPI.listLessons({
+        from: lessonDay.toISOString(),
+        to: addDays(lessonDay, 35).toISOString(),
+      });
+      return result.data.filter(lesson => lesson.seriesId === seriesId);
+    };
+
+    it('should create a weekly series and track cancelled and rescheduled occurrences', async () => {
+      const created = await lessonAPI.createLesson(weeklyLesson);
+      const seriesId = created.data.seriesId as string;
+
+      try {
+        expect(created.data).toMatchObject({
+          start: weeklyLesson.start,
+          occurrence: toDateKey(lessonDay),
+          recurrence: 'FREQ=WEEKLY;BYDAY=WE;COUNT=4',
+        });
+        const lessons = await listSeries(seriesId);
+        expect(lessons.map(lesson => new Date(lesson.start).getDay())).toEqual([3, 3, 3, 3]);
+
+        // Move the second lesson to 18:00 and cancel the third
+        const moved = await lessonAPI.updateLesson(lessons[1].id, {
+          ...weeklyLesson,
+          start: withTime(addDays(lessonDay, 7), '18:00').toISOString(),
+          end: withTime(addDays(lessonDay, 7), '18:45').toISOString(),
+          scope: 'occurrence',
+        });
+        expect(moved.data).toMatchObject({ id: lessons[1].id, seriesId, occurrence: lessons[1].occurrence });
+        await lessonAPI.deleteLesson(lessons[2].id);
+
+        const series = await lessonAPI.getLessonSeries(seriesId);
+        expect(series.data.exceptions).toEqual([
+          expect.objectContaining({ date: lessons[1].occurrence, status: 'rescheduled' }),
+          { date: lessons[2].occurrence, status: 'cancelled', lesson: null },
+        ]);
+        expect((await listSeries(seriesId)).map(lesson => lesson.id)).toEqual([
+          lessons[0].id,
+          lessons[1].id,
+          lessons[3].id,
+        ]);
+      } finally {
+        await lessonAPI.deleteLesson(created.data.id, 'series');
+      }
+
+      await expect(lessonAPI.getLessonSeries(seriesId)).rejects.toMatchObject({ response: { status: 404 } });
+      expect(await listSeries(seriesId)).toEqual([]);
+    });
+
+    it('should move this and the following occurrences to a new series', async () => {
+      const created = await lessonAPI.createLesson(weeklyLesson);
+      const seriesId = created.data.seriesId as string;
+      const lessons = await listSeries(seriesId);
+      let splitId = seriesId;
+
+      try {
+        // From the third lesson on, Thursdays at 16:00
+        const thursday = addDays(lessonDay, 15);
+        const moved = await lessonAPI.updateLesson(lessons[2].id, {
+          ...weeklyLesson,
+          start: withTime(thursday, '16:00').toISOString(),
+          end: withTime(thursday, '16:45').toISOString(),
+          recurrence: undefined,
+          scope: 'following',
+        });
+        splitId = moved.data.seriesId as string;
+
+        expect(splitId).not.toBe(seriesId);
+        expect(moved.data).toMatchObject({ id: lessons[2].id, recurrence: 'FREQ=WEEKLY;BYDAY=TH;COUNT=2' });
+        expect((await lessonAPI.getLessonSeries(seriesId)).data.recurrence).toBe('FREQ=WEEKLY;BYDAY=WE;COUNT=2');
+
+        const following = await listSeries(splitId);
+        expect(following.map(lesson => lesson.id)).toEqual([lessons[2].id, lessons[3].id]);
+        expect(following.map(lesson => new Date(lesson.start).getDay())).toEqual([4, 4]);
+        expect(following[1].start).toBe(withTime(addDays(thursday, 7), '16:00').toISOString());
+      } finally {
+        await lessonAPI.deleteLesson(lessons[0].id, 'series');
+        await lessonAPI.deleteLesson(lessons[3].id, 'series');
+      }
+    });
+
+    it('should change the time of the whole series', async () => {
+      const created = await lessonAPI.createLesson(weeklyLesson);
+      const seriesId = created.data.seriesId as string;
+      const lessons = await listSeries(seriesId);
+
+      try {
+        const day = addDays(lessonDay, 7);
+        await lessonAPI.updateLesson(lessons[1].id, {
+          ...weeklyLesson,
+          start: withTime(day, '15:00').toISOString(),
+          end: withTime(day, '16:00').toISOString(),
+          recurrence: undefined,
+          scope: 'series',
+        });
+
+        const updated = await listSeries(seriesId);
+        expect(updated.map(lesson => lesson.id)).toEqual(lessons.map(lesson => lesson.id));
+        expect(updated.map(lesson => lesson.start)).toEqual(
+          [0, 7, 14, 21].map(offset => withTime(addDays(lessonDay, offset), '15:00').toISOString())
+        );
+        expect(updated.every(lesson => Date.parse(lesson.end) - Date.parse(lesson.start) === 60 * 60 * 1000)).toBe(true);
+      } finally {
+        await lessonAPI.deleteLesson(created.data.id, 'series');
+      }
+    });
+
+    it('should reject a series when any occurrence conflicts', async () => {
+      const thirdWeek = addDays(lessonDay, 14);
+      const single = await lessonAPI.createLesson({
+        ...weeklyLesson,
+        studentId: SOPHIE_ID,
+        start: withTime(thirdWeek, '17:30').toISOString(),
+        end: withTime(thirdWeek, '18:30').toISOString(),
+        recurrence: undefined,
+      });
+
+      try {
+        await expect(lessonAPI.createLesson(weeklyLesson)).rejects.toMatchObject({
+          response: {
+            status: 409,
+            data: {
+              error: {
+                code: 'LESSON_CONFLICT',
+                details: { suggestedSlots: [] },
+                errors: [
+                  {
+                    code: 'ROOM_DOUBLE_BOOKED',
+                    context: { lessonId: single.data.id, occurrence: toDateKey(thirdWeek) },
+                  },
+                  { code: 'TEACHER_DOUBLE_BOOKED' },
+                ],
+              },
+            },
+          },
+        });
+      } finally {
+        await lessonAPI.deleteLesson(single.data.id);
+      }
+    });
+
+    it('should reject recurrences that do not end or are not supported', async () => {
+      await expect(
+        lessonAPI.createLesson({ ...weeklyLesson, recurrence: 'FREQ=WEEKLY' })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+      await expect(
+        lessonAPI.createLesson({ ...weeklyLesson, recurrence: 'FREQ=MONTHLY;COUNT=3' })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Lesson API Client
+ * 
+ * HTTP client functions for lesson scheduling operations
+ */
+
+import { httpClient } from './http';
+import type {
+  LessonListParams,
+  LessonListResponse,
+  LessonResponse,
+  LessonSeriesResponse,
+  CreateLessonRequest,
+  UpdateLessonRequest,
+  DeleteLessonResponse,
+  RecurrenceScope,
+} from '../types/lesson';
+
+// Base path for lesson API endpoints
+const BASE_PATH = '/lessons';
+
+/**
+ * Lesson API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const lessonAPI = {
+  /**
+   * List lessons overlapping a time range
+   * GET /lessons
+   * 
+   * @param params Time range and studio/room/teacher/student filters
+   * @returns Promise<LessonListResponse> Lessons sorted by start time
+   */
+  listLessons: async (params: LessonListParams): Promise<LessonListResponse> => {
+    const response = await httpClient.get(BASE_PATH, { params });
+    return response.data as LessonListResponse;
+  },
+
+  /**
+   * Get lesson by ID
+   * GET /lessons/{id}
+   * 
+   * @param id Lesson ULID
+   * @returns Promise<LessonResponse> Lesson data
+   */
+  getLessonById: async (id: string): Promise<LessonResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/${id}`);
+    return response.data as LessonResponse;
+  },
+
+  /**
+   * Get a recurring lesson series with its cancelled and rescheduled occurrences
+   * GET /lessons/series/{id}
+   * 
+   * @param id Series ULID (Lesson.seriesId)
+   * @returns Promise<LessonSeriesResponse> Series data
+   */
+  getLessonSeries: async (id: string): Promise<LessonSeriesResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/series/${id}`);
+    return response.data as LessonSeriesResponse;
+  },
+
+  /**
+   * Create a new lesson, or a recurring series when data.recurrence is set
+   * POST /lessons
+   * 
+   * @param data Lesson creation data
+   * @returns Promise<LessonResponse> Created lesson (the first occurrence of a series)
+   */
+  createLesson: async (data: CreateLessonRequest): Promise<LessonResponse> => {
+    const response = await httpClient.post(BASE_PATH, data);
+    return response.data as LessonResponse;
+  },
+
+  /**
+   * Update existing lesson
+   * PUT /lessons/{id}
+   * 
+   * @param id Lesson ULID
+   * @param data Lesson update data - data.scope selects the occurrences of a series
+   * @returns Promise<LessonResponse> Updated lesson
+   */
+  updateLesson: async (id: string, data: UpdateLessonRequest): Promise<LessonResponse> => {
+    const response = await httpClient.put(`${BASE_PATH}/${id}`, data);
+    return response.data as LessonResponse;
+  },
+
+  /**
+   * Delete lesson
+   * DELETE /lessons/{id}
+   * 
+   * @param id Lesson ULID
+   * @param scope Occurrences of a series to delete (default 'occurrence')
+   * @returns Promise<DeleteLessonResponse> Delete confirmation
+   */
+  deleteLesson: async (id: string, scope?: RecurrenceScope): Promise<DeleteLessonResponse> => {
+    const response = await httpClient.delete(`${BASE_PATH}/${id}`, { params: scope ? { scope } : undefined });
+    return response.data as DeleteLessonResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const {
+  listLessons,
+  getLessonById,
+  getLessonSeries,
+  createLesson,
+  updateLesson,
+  deleteLesson,
+} = lessonAPI;
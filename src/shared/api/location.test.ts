@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { locationHandlers } from '../../mocks/handlers/location';
+import { countryAPI } from './location';
+
+// Setup MSW server for testing
+const server = setupServer(...locationHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('Location API Client', () => {
+  describe('listCountries', () => {
+    it('should fetch countries sorted by name', async () => {
+      const result = await countryAPI.listCountries();
+
+      expect(result.success).toBe(true);
+      expect(result.data.length).toBeGreaterThan(0);
+
+      const names = result.data.map(country => country.name);
+      expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+      expect(result.data).toContainEqual({ id: '01J9WC00000000000000000002', name: 'Canada', code: 'CA' });
+    });
+
+    it('should return ULID country IDs', async () => {
+      const result = await countryAPI.listCountries();
+
+      result.data.forEach(country => {
+        expect(country.id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+      });
+    });
+  });
+
+  describe('listProvinces', () => {
+    it('should fetch only the provinces of the given country', async () => {
+      const result = await countryAPI.listProvinces('01J9WC00000000000000000002');
+
+      expect(result.success).toBe(true);
+      expect(result.data.map(province => province.name)).toEqual([
+        'Alberta',
+        'British Columbia',
+        'Ontario',
+        'Quebec',
+      ]);
+      result.data.forEach(province => {
+        expect(province.countryId).toBe('01J9WC00000000000000000002');
+      });
+    });
+
+    it('should reject with 404 for an unknown country', async () => {
+      await expect(countryAPI.listProvinces('01J9WC0000000000000000ZZZZ')).rejects.toMatchObject({
+        response: { status: 404 },
+      });
+    });
+  });
+});
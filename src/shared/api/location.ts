@@ -0,0 +1,45 @@
+/**
+ * Location API Client
+ * 
+ * HTTP client functions for country and province lookups
+ */
+
+import { httpClient } from './http';
+import type { CountryListResponse, ProvinceListResponse } from '../types/location';
+
+// Base path for location API endpoints
+const BASE_PATH = '/countries';
+
+/**
+ * Location API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const countryAPI = {
+  /**
+   * List all countries
+   * GET /countries
+   * 
+   * @returns Promise<CountryListResponse> Countries sorted by name
+   */
+  listCountries: async (): Promise<CountryListResponse> => {
+    const response = await httpClient.get(BASE_PATH);
+    return response.data as CountryListResponse;
+  },
+
+  /**
+   * List the provinces/states of a country
+   * GET /countries/{id}/provinces
+   * 
+   * @param countryId Country ULID
+   * @returns Promise<ProvinceListResponse> Provinces sorted by name
+   */
+  listProvinces: async (countryId: string): Promise<ProvinceListResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/${countryId}/provinces`);
+    return response.data as ProvinceListResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const { listCountries, listProvinces } = countryAPI;
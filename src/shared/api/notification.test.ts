@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { notificationHandlers } from '../../mocks/handlers/notification';
+import { lessonHandlers } from '../../mocks/handlers/lesson';
+import { notificationAPI } from './notification';
+import { lessonAPI } from './lesson';
+
+// Setup MSW server for testing
+const server = setupServer(...notificationHandlers, ...lessonHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const LIAM_LESSON_ID = '01J9WN00000000000000000001';
+
+describe('Notification API Client', () => {
+  describe('listNotifications', () => {
+    it('should list notifications newest first with the unread count', async () => {
+      const result = await notificationAPI.listNotifications();
+
+      expect(result.success).toBe(true);
+      expect(result.meta).toMatchObject({ page: 0, size: 20, unreadCount: 2 });
+      const times = result.data.map(notification => notification.createdAt);
+      expect(times).toEqual([...times].sort().reverse());
+      expect(result.data[0]).toMatchObject({ type: 'user_pending_approval', read: false });
+    });
+
+    it('should list only unread notifications and paginate', async () => {
+      const unread = await notificationAPI.listNotifications({ unread: true });
+      expect(unread.data.every(notification => !notification.read)).toBe(true);
+      expect(unread.meta.totalItems).toBe(unread.meta.unreadCount);
+
+      const firstPage = await notificationAPI.listNotifications({ page: 0, size: 2 });
+      expect(firstPage.data).toHaveLength(2);
+      expect(firstPage.meta.hasNext).toBe(true);
+    });
+  });
+
+  describe('markAsRead', () => {
+    it('should mark one notification as read', async () => {
+      const { data } = await notificationAPI.listNotifications({ unread: true });
+
+      const result = await notificationAPI.markAsRead(data[0].id);
+      expect(result.data).toMatchObject({ id: data[0].id, read: true });
+
+      const after = await notificationAPI.listNotifications();
+      expect(after.meta.unreadCount).toBe(data.length - 1);
+    });
+
+    it('should handle notification not found', async () => {
+      await expect(notificationAPI.markAsRead('01J9ZZZZZZZZZZZZZZZZZZZZZZ')).rejects.toMatchObject({
+        response: { status: 404, data: { error: { code: 'NOTIFICATION_NOT_FOUND' } } },
+      });
+    });
+  });
+
+  describe('markAllAsRead', () => {
+    it('should mark every notification as read', async () => {
+      const before = await notificationAPI.listNotifications();
+
+      const result = await notificationAPI.markAllAsRead();
+      expect(result.data.updated).toBe(before.meta.unreadCount);
+
+      const after = await notificationAPI.listNotifications();
+      expect(after.meta.unreadCount).toBe(0);
+    });
+  });
+
+  describe('new notifications', () => {
+    it('should notify when a lesson is cancelled', async () => {
+      await lessonAPI.deleteLesson(LIAM_LESSON_ID);
+
+      const result = await notificationAPI.listNotifications({ unread: true });
+      expect(result.data[0]).toMatchObject({
+        type: 'lesson_cancelled',
+        title: 'Lesson cancelled',
+        link: '/schedule',
+      });
+      expect(result.data[0].message).toMatch(/^Liam Tan's lesson with Emily Chen on /);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Notification API Client
+ *
+ * HTTP client functions for the signed-in user's in-app notifications
+ */
+
+import { httpClient } from './http';
+import type { RequestConfig } from '../types/api';
+import type {
+  NotificationListParams,
+  NotificationListResponse,
+  NotificationResponse,
+  MarkAllNotificationsReadResponse,
+} from '../types/notification';
+
+// Base path for notification API endpoints
+const BASE_PATH = '/notifications';
+
+/**
+ * Notification API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const notificationAPI = {
+  /**
+   * List notifications with pagination, newest first
+   * GET /notifications
+   *
+   * @param params Query parameters for filtering and pagination
+   * @param config Optional request config (e.g. skipErrorHandling for background polling)
+   * @returns Promise<NotificationListResponse> Paginated notifications with the unread count
+   */
+  listNotifications: async (
+    params: NotificationListParams = {},
+    config?: RequestConfig
+  ): Promise<NotificationListResponse> => {
+    const response = await httpClient.get(BASE_PATH, { ...config, params });
+    return response.data as NotificationListResponse;
+  },
+
+  /**
+   * Mark a notification as read
+   * POST /notifications/{id}/read
+   *
+   * @param id Notification ULID
+   * @returns Promise<NotificationResponse> Updated notification
+   */
+  markAsRead: async (id: string): Promise<NotificationResponse> => {
+    const response = await httpClient.post(`${BASE_PATH}/${id}/read`);
+    return response.data as NotificationResponse;
+  },
+
+  /**
+   * Mark all notifications as read
+   * POST /notifications/read-all
+   *
+   * @returns Promise<MarkAllNotificationsReadResponse> Number of notifications marked as read
+   */
+  markAllAsRead: async (): Promise<MarkAllNotificationsReadResponse> => {
+    const response = await httpClient.post(`${BASE_PATH}/read-all`);
+    return response.data as MarkAllNotificationsReadResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const {
+  listNotifications,
+  markAsRead,
+  markAllAsRead,
+} = notificationAPI;
@@ -0,0 +1,33 @@
+/**
+ * Permission API Client
+ * 
+ * HTTP client functions for the role permission model
+ */
+
+import { httpClient } from './http';
+import type { RolePermissionsListResponse } from '../types/permission';
+
+// Base path for permission API endpoints
+const BASE_PATH = '/permissions';
+
+/**
+ * Permission API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const permissionAPI = {
+  /**
+   * List the permissions granted to each role
+   * GET /permissions
+   * 
+   * @returns Promise<RolePermissionsListResponse> Permissions per role
+   */
+  listRolePermissions: async (): Promise<RolePermissionsListResponse> => {
+    const response = await httpClient.get(BASE_PATH);
+    return response.data as RolePermissionsListResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const { listRolePermissions } = permissionAPI;
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { roleHandlers } from '../../mocks/handlers/role';
+import { userHandlers } from '../../mocks/handlers/user';
+import { roleAPI } from './role';
+import { userApi } from './user';
+
+// Setup MSW server for testing
+const server = setupServer(...roleHandlers, ...userHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('Role API Client', () => {
+  describe('listRoles', () => {
+    it('should fetch roles sorted by name with metadata', async () => {
+      const result = await roleAPI.listRoles();
+
+      expect(result.success).toBe(true);
+      const names = result.data.map(role => role.name);
+      expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+      expect(result.data).toContainEqual(expect.objectContaining({
+        id: '01J9WR00000000000000000001',
+        name: 'ADMIN',
+        color: 'red',
+      }));
+    });
+  });
+
+  describe('createRole', () => {
+    it('should create a role that is then listed', async () => {
+      const result = await roleAPI.createRole({ name: 'ASSISTANT', description: 'Helps teachers', color: 'gold' });
+
+      expect(result.data.id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+      expect(result.data).toMatchObject({ name: 'ASSISTANT', description: 'Helps teachers', color: 'gold' });
+
+      const list = await roleAPI.listRoles();
+      expect(list.data.map(role => role.name)).toContain('ASSISTANT');
+    });
+
+    it('should reject duplicate role names', async () => {
+      await expect(roleAPI.createRole({ name: 'admin', color: 'red' })).rejects.toMatchObject({
+        response: { status: 409 },
+      });
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should rename a role and resolve the new name on users', async () => {
+      const roleId = '01J9WR00000000000000000003';
+      const result = await roleAPI.updateRole(roleId, { name: 'SUPERVISOR', description: 'Renamed', color: 'orange' });
+      expect(result.data).toMatchObject({ id: roleId, name: 'SUPERVISOR', description: 'Renamed', color: 'orange' });
+
+      const user = await userApi.getUserById('01234567890123456789012347');
+      expect(user.data.role).toBe('SUPERVISOR');
+
+      // Restore the original role for other tests
+      await roleAPI.updateRole(roleId, { name: 'MODERATOR', description: 'Manages users and content', color: 'green' });
+    });
+
+    it('should return 404 for an unknown role', async () => {
+      await expect(
+        roleAPI.updateRole('01J9WR0000000000000000ZZZZ', { name: 'X', color: 'red' })
+      ).rejects.toMatchObject({ response: { status: 404 } });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Role API Client
+ * 
+ * HTTP client functions for role administration
+ */
+
+import { httpClient } from './http';
+import type {
+  RoleListResponse,
+  RoleResponse,
+  CreateRoleRequest,
+  UpdateRoleRequest,
+} from '../types/role';
+
+// Base path for role API endpoints
+const BASE_PATH = '/roles';
+
+/**
+ * Role API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const roleAPI = {
+  /**
+   * List all roles
+   * GET /roles
+   * 
+   * @returns Promise<RoleListResponse> Roles sorted by name
+   */
+  listRoles: async (): Promise<RoleListResponse> => {
+    const response = await httpClient.get(BASE_PATH);
+    return response.data as RoleListResponse;
+  },
+
+  /**
+   * Create a new role
+   * POST /roles
+   * 
+   * @param data Role creation data
+   * @returns Promise<RoleResponse> Created role
+   */
+  createRole: async (data: CreateRoleRequest): Promise<RoleResponse> => {
+    const response = await httpClient.post(BASE_PATH, data);
+    return response.data as RoleResponse;
+  },
+
+  /**
+   * Update (rename/describe) an existing role
+   * PUT /roles/{id}
+   * 
+   * @param id Role ULID
+   * @param data Role update data
+   * @returns Promise<RoleResponse> Updated role
+   */
+  updateRole: async (id: string, data: UpdateRoleRequest): Promise<RoleResponse> => {
+    const response = await httpClient.put(`${BASE_PATH}/${id}`, data);
+    return response.data as RoleResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const { listRoles, createRole, updateRole } = roleAPI;
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { roomHandlers } from '../../mocks/handlers/room';
+import { studioHandlers } from '../../mocks/handlers/studio';
+import { mockRooms } from '../../mocks/fixtures/rooms';
+import { roomAPI } from './room';
+import { studioAPI } from './studio';
+import type { CreateRoomRequest } from '../types/room';
+
+// Setup MSW server for testing
+const server = setupServer(...roomHandlers, ...studioHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const TORONTO_ID = '01J9WS00000000000000000001';
+const BROOKLYN_ID = '01J9WS00000000000000000004';
+
+const newRoom: CreateRoomRequest = {
+  name: 'Violin Room',
+  type: 'lesson',
+  capacity: 2,
+  equipment: ['Music stand', ' Music stand ', ''],
+  status: 'open',
+};
+
+describe('Room API Client', () => {
+  describe('listRooms', () => {
+    it('should list the rooms of a studio sorted by name', async () => {
+      const result = await roomAPI.listRooms(TORONTO_ID);
+
+      expect(result.success).toBe(true);
+      expect(result.data.map(room => room.name)).toEqual(['Drum Room', 'Practice Room A', 'Steinway Hall']);
+      expect(result.data.every(room => room.studioId === TORONTO_ID)).toBe(true);
+    });
+
+    it('should return 404 for an unknown studio', async () => {
+      await expect(roomAPI.listRooms('01J9WS0000000000000000ZZZZ')).rejects.toMatchObject({
+        response: { status: 404 },
+      });
+    });
+  });
+
+  describe('createRoom / updateRoom / deleteRoom', () => {
+    it('should create, update and delete a room', async () => {
+      const created = await roomAPI.createRoom(BROOKLYN_ID, newRoom);
+      const roomId = created.data.id;
+      expect(created.data).toMatchObject({ studioId: BROOKLYN_ID, name: 'Violin Room', equipment: ['Music stand'] });
+
+      const updated = await roomAPI.updateRoom(BROOKLYN_ID, roomId, { ...newRoom, status: 'maintenance' });
+      expect(updated.data.status).toBe('maintenance');
+
+      await roomAPI.deleteRoom(BROOKLYN_ID, roomId);
+      const list = await roomAPI.listRooms(BROOKLYN_ID);
+      expect(list.data.map(room => room.id)).not.toContain(roomId);
+    });
+
+    it('should reject duplicate names within a studio only', async () => {
+      await expect(
+        roomAPI.createRoom(TORONTO_ID, { ...newRoom, name: 'drum room' })
+      ).rejects.toMatchObject({ response: { status: 409 } });
+    });
+
+    it('should reject a capacity below 1', async () => {
+      await expect(
+        roomAPI.createRoom(TORONTO_ID, { ...newRoom, capacity: 0 })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+    });
+
+    it('should not update a room through another studio', async () => {
+      await expect(
+        roomAPI.updateRoom(BROOKLYN_ID, '01J9WM00000000000000000001', newRoom)
+      ).rejects.toMatchObject({ response: { status: 404 } });
+    });
+  });
+
+  describe('deleteStudio', () => {
+    it('should remove the rooms of a deleted studio', async () => {
+      const studio = await studioAPI.createStudio({
+        name: 'Temporary Studio',
+        countryId: '01J9WC00000000000000000001',
+        provinceId: '01J9WP00000000000000000001',
+        address: '1 Test St',
+        openingHours: [],
+      });
+      await roomAPI.createRoom(studio.data.id, newRoom);
+
+      expect(mockRooms.some(room => room.studioId === studio.data.id)).toBe(true);
+
+      await studioAPI.deleteStudio(studio.data.id);
+      expect(mockRooms.some(room => room.studioId === studio.data.id)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Room API Client
+ * 
+ * HTTP client functions for the rooms of a studio (/studios/{studioId}/rooms)
+ */
+
+import { httpClient } from './http';
+import type {
+  RoomListResponse,
+  RoomResponse,
+  CreateRoomRequest,
+  UpdateRoomRequest,
+  DeleteRoomResponse,
+} from '../types/room';
+
+// Rooms are a sub-resource of studios
+const roomsPath = (studioId: string) => `/studios/${studioId}/rooms`;
+
+/**
+ * Room API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const roomAPI = {
+  /**
+   * List the rooms of a studio
+   * GET /studios/{studioId}/rooms
+   * 
+   * @param studioId Studio ULID
+   * @returns Promise<RoomListResponse> Rooms sorted by name
+   */
+  listRooms: async (studioId: string): Promise<RoomListResponse> => {
+    const response = await httpClient.get(roomsPath(studioId));
+    return response.data as RoomListResponse;
+  },
+
+  /**
+   * Create a room in a studio
+   * POST /studios/{studioId}/rooms
+   * 
+   * @param studioId Studio ULID
+   * @param data Room creation data
+   * @returns Promise<RoomResponse> Created room
+   */
+  createRoom: async (studioId: string, data: CreateRoomRequest): Promise<RoomResponse> => {
+    const response = await httpClient.post(roomsPath(studioId), data);
+    return response.data as RoomResponse;
+  },
+
+  /**
+   * Update a room
+   * PUT /studios/{studioId}/rooms/{roomId}
+   * 
+   * @param studioId Studio ULID
+   * @param roomId Room ULID
+   * @param data Room update data
+   * @returns Promise<RoomResponse> Updated room
+   */
+  updateRoom: async (studioId: string, roomId: string, data: UpdateRoomRequest): Promise<RoomResponse> => {
+    const response = await httpClient.put(`${roomsPath(studioId)}/${roomId}`, data);
+    return response.data as RoomResponse;
+  },
+
+  /**
+   * Delete a room
+   * DELETE /studios/{studioId}/rooms/{roomId}
+   * 
+   * @param studioId Studio ULID
+   * @param roomId Room ULID
+   * @returns Promise<DeleteRoomResponse> Delete confirmation
+   */
+  deleteRoom: async (studioId: string, roomId: string): Promise<DeleteRoomResponse> => {
+    const response = await httpClient.delete(`${roomsPath(studioId)}/${roomId}`);
+    return response.data as DeleteRoomResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const {
+  listRooms,
+  createRoom,
+  updateRoom,
+  deleteRoom,
+} = roomAPI;
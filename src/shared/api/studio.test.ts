@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { studioHandlers } from '../../mocks/handlers/studio';
+import { studioAPI } from './studio';
+import type { CreateStudioRequest } from '../types/studio';
+
+// Setup MSW server for testing
+const server = setupServer(...studioHandlers);
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' });
+});
+
+afterEach(() => {
+  server.resetHandlers();
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const CANADA_ID = '01J9WC00000000000000000002';
+const ONTARIO_ID = '01J9WP00000000000000000003';
+const ENGLAND_ID = '01J9WP00000000000000000004';
+
+const newStudio: CreateStudioRequest = {
+  name: 'Ottawa Rideau Studio',
+  countryId: CANADA_ID,
+  provinceId: ONTARIO_ID,
+  address: '50 Rideau St, Ottawa, ON K1N 9J7',
+  phone: '+1-613-555-0140',
+  openingHours: [
+    { day: 'saturday', open: '10:00', close: '16:00' },
+    { day: 'monday', open: '09:00', close: '17:00' },
+  ],
+};
+
+describe('Studio API Client', () => {
+  describe('listStudios', () => {
+    it('should filter studios by country and resolve location names', async () => {
+      const result = await studioAPI.listStudios({ countryId: CANADA_ID });
+
+      expect(result.success).toBe(true);
+      expect(result.data.map(studio => studio.name)).toEqual([
+        'Downtown Toronto Studio',
+        'Vancouver Harbour Studio',
+      ]);
+      expect(result.data[0]).toMatchObject({ country: 'Canada', province: 'Ontario' });
+    });
+
+    it('should paginate results', async () => {
+      const result = await studioAPI.listStudios({ page: 1, size: 2 });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.meta).toMatchObject({ page: 1, size: 2, hasNext: false });
+      expect(result.meta.totalItems).toBeGreaterThanOrEqual(4);
+    });
+  });
+
+  describe('getStudioById', () => {
+    it('should return 404 for an unknown studio', async () => {
+      await expect(studioAPI.getStudioById('01J9WS0000000000000000ZZZZ')).rejects.toMatchObject({
+        response: { status: 404 },
+      });
+    });
+  });
+
+  describe('createStudio / updateStudio / deleteStudio', () => {
+    it('should create, update and delete a studio', async () => {
+      const created = await studioAPI.createStudio(newStudio);
+      const studioId = created.data.id;
+      expect(studioId).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+      expect(created.data).toMatchObject({ country: 'Canada', province: 'Ontario' });
+      expect(created.data.openingHours).toHaveLength(2);
+
+      const updated = await studioAPI.updateStudio(studioId, { ...newStudio, phone: undefined });
+      expect(updated.data.phone).toBeNull();
+
+      await studioAPI.deleteStudio(studioId);
+      await expect(studioAPI.getStudioById(studioId)).rejects.toMatchObject({
+        response: { status: 404 },
+      });
+    });
+
+    it('should reject a province outside the selected country', async () => {
+      await expect(
+        studioAPI.createStudio({ ...newStudio, provinceId: ENGLAND_ID })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+    });
+
+    it('should reject closing times before opening times', async () => {
+      await expect(
+        studioAPI.createStudio({
+          ...newStudio,
+          openingHours: [{ day: 'monday', open: '18:00', close: '09:00' }],
+        })
+      ).rejects.toMatchObject({ response: { status: 422 } });
+    });
+
+    it('should reject duplicate studio names', async () => {
+      await expect(
+        studioAPI.createStudio({ ...newStudio, name: 'orchard music studio' })
+      ).rejects.toMatchObject({ response: { status: 409 } });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Studio API Client
+ * 
+ * HTTP client functions for studio management operations
+ */
+
+import { httpClient } from './http';
+import type {
+  StudioListParams,
+  StudioListResponse,
+  StudioResponse,
+  CreateStudioRequest,
+  UpdateStudioRequest,
+  DeleteStudioResponse,
+} from '../types/studio';
+
+// Base path for studio API endpoints
+const BASE_PATH = '/studios';
+
+/**
+ * Studio API operations
+ * All operations use Firebase authentication automatically via httpClient
+ */
+export const studioAPI = {
+  /**
+   * List studios with filtering and pagination
+   * GET /studios
+   * 
+   * @param params Filter and pagination parameters
+   * @returns Promise<StudioListResponse> Paginated list of studios
+   */
+  listStudios: async (params: StudioListParams): Promise<StudioListResponse> => {
+    const response = await httpClient.get(BASE_PATH, { params });
+    return response.data as StudioListResponse;
+  },
+
+  /**
+   * Get studio by ID
+   * GET /studios/{id}
+   * 
+   * @param id Studio ULID
+   * @returns Promise<StudioResponse> Studio data
+   */
+  getStudioById: async (id: string): Promise<StudioResponse> => {
+    const response = await httpClient.get(`${BASE_PATH}/${id}`);
+    return response.data as StudioResponse;
+  },
+
+  /**
+   * Create a new studio
+   * POST /studios
+   * 
+   * @param data Studio creation data
+   * @returns Promise<StudioResponse> Created studio
+   */
+  createStudio: async (data: CreateStudioRequest): Promise<StudioResponse> => {
+    const response = await httpClient.post(BASE_PATH, data);
+    return response.data as StudioResponse;
+  },
+
+  /**
+   * Update existing studio
+   * PUT /studios/{id}
+   * 
+   * @param id Studio ULID
+   * @param data Studio update data
+   * @returns Promise<StudioResponse> Updated studio
+   */
+  updateStudio: async (id: string, data: UpdateStudioRequest): Promise<StudioResponse> => {
+    const response = await httpClient.put(`${BASE_PATH}/${id}`, data);
+    return response.data as StudioResponse;
+  },
+
+  /**
+   * Delete studio
+   * DELETE /studios/{id}
+   * 
+   * @param id Studio ULID
+   * @returns Promise<DeleteStudioResponse> Delete confirmation
+   */
+  deleteStudio: async (id: string): Promise<DeleteStudioResponse> => {
+    const response = await httpClient.delete(`${BASE_PATH}/${id}`);
+    return response.data as DeleteStudioResponse;
+  },
+};
+
+/**
+ * Export individual functions for convenience
+ */
+export const {
+  listStudios,
+  getStudioById,
+  createStudio,
+  updateStudio,
+  deleteStudio,
+} = studioAPI;
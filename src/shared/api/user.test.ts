@@ -111,6 +111,36 @@ describe('User API Client', () => {
       expect(result.data!.meta.totalItems).toBe(0);
     });
 
+    it('should sort users by name ascending across pages', async () => {
+      const firstPage = await userApi.listUsers({ page: 0, size: 2, deleted: false, sort: 'name', order: 'asc' });
+      const secondPage = await userApi.listUsers({ page: 1, size: 2, deleted: false, sort: 'name', order: 'asc' });
+
+      const names = [...firstPage.data, ...secondPage.data].map(user => user.name);
+      expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+      expect(names[0]).toBe('Alice Williams');
+    });
+
+    it('should sort users by country descending', async () => {
+      const result = await userApi.listUsers({ page: 0, size: 10, deleted: false, sort: 'country', order: 'desc' });
+
+      const countries = result.data.map(user => user.country);
+      expect(countries).toEqual([...countries].sort((a, b) => b.localeCompare(a)));
+    });
+
+    it('should filter users by country and province ULID', async () => {
+      const byCountry = await userApi.listUsers({ page: 0, size: 10, deleted: false, countryId: '01J9WC00000000000000000001' });
+      expect(byCountry.data.map(user => user.country)).toEqual(['United States', 'United States']);
+
+      const byProvince = await userApi.listUsers({
+        page: 0,
+        size: 10,
+        deleted: false,
+        countryId: '01J9WC00000000000000000001',
+        provinceId: '01J9WP00000000000000000002',
+      });
+      expect(byProvince.data.map(user => user.province)).toEqual(['New York']);
+    });
+
     it('should handle server errors gracefully', async () => {
       const params: UserListParams = {
         page: 0,
@@ -137,183 +167,221 @@ describe('User API Client', () => {
     });
   });
 
-  describe('getUser', () => {
+  describe('getUserById', () => {
     it('should fetch a specific user by ID', async () => {
-      const result = await userApi.getUser(1);
+      const result = await userApi.getUserById('01234567890123456789012345');
 
       expect(result.success).toBe(true);
       expect(result.data).toBeDefined();
-      expect(result.data!.id).toBe(1);
-      expect(result.data!.email).toBe('john.doe@example.com');
-      expect(result.data!.firstName).toBe('John');
-      expect(result.data!.lastName).toBe('Doe');
+      expect(result.data.id).toBe('01234567890123456789012345');
+      expect(result.data.email).toBe('john.doe@example.com');
+      expect(result.data.name).toBe('John Doe');
+      expect(result.data.roleId).toBeDefined();
+      expect(result.data.countryId).toBeDefined();
+      expect(result.data.provinceId).toBeDefined();
     });
 
     it('should handle user not found', async () => {
-      const result = await userApi.getUser(999);
-
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('User not found');
-    });
-
-    it('should handle simulated not found error', async () => {
-      // Using URL parameter to trigger error in MSW handler
-      const result = await userApi.getUser(1, { _error: 'not_found' } as any);
-
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('User not found');
+      await expect(userApi.getUserById('01J9ZZZZZZZZZZZZZZZZZZZZZZ')).rejects.toThrow();
     });
   });
 
   describe('createUser', () => {
     it('should create a new user successfully', async () => {
       const newUserData: CreateUserRequest = {
+        name: 'New User',
         email: 'newuser@example.com',
-        firstName: 'New',
-        lastName: 'User',
         phone: '+1-555-0999',
-        role: 'USER',
-        country: 'Canada',
-        province: 'British Columbia',
+        roleId: '01J9WR00000000000000000002',
+        countryId: '01J9WC00000000000000000002',
+        provinceId: '01J9WP00000000000000000003',
       };
 
       const result = await userApi.createUser(newUserData);
 
+      // Backend returns data: null for create operations
       expect(result.success).toBe(true);
-      expect(result.data).toBeDefined();
-      expect(result.data!.email).toBe(newUserData.email);
-      expect(result.data!.firstName).toBe(newUserData.firstName);
-      expect(result.data!.lastName).toBe(newUserData.lastName);
-      expect(result.data!.role).toBe(newUserData.role);
-      expect(result.data!.id).toBeGreaterThan(0);
+      expect(result.data).toBeNull();
+
+      const list = await userApi.listUsers({ email: 'newuser@example.com', deleted: false });
+      expect(list.data).toHaveLength(1);
+      expect(list.data[0].name).toBe('New User');
+      expect(list.data[0].country).toBe('Canada');
+      expect(list.data[0].province).toBe('Ontario');
     });
 
     it('should handle email already exists error', async () => {
       const existingUserData: CreateUserRequest = {
+        name: 'Test User',
         email: 'john.doe@example.com', // Email that already exists
-        firstName: 'Test',
-        lastName: 'User',
-        role: 'USER',
-      };
-
-      const result = await userApi.createUser(existingUserData);
-
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('Email already exists');
-    });
-
-    it('should handle validation errors', async () => {
-      // Trigger validation error via URL parameter
-      const userData: CreateUserRequest & { _error?: string } = {
-        email: 'test@example.com',
-        firstName: 'Test',
-        lastName: 'User',
-        role: 'USER',
-        _error: 'validation',
+        roleId: '01J9WR00000000000000000002',
+        countryId: '01J9WC00000000000000000001',
+        provinceId: '01J9WP00000000000000000001',
       };
 
-      const result = await userApi.createUser(userData);
-
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('Validation failed');
+      await expect(userApi.createUser(existingUserData)).rejects.toThrow();
     });
 
     it('should create user with minimal required fields', async () => {
       const minimalUserData: CreateUserRequest = {
+        name: 'Min User',
         email: 'minimal@example.com',
-        firstName: 'Min',
-        lastName: 'User',
-        role: 'USER',
+        roleId: '01J9WR00000000000000000002',
+        countryId: '01J9WC00000000000000000001',
+        provinceId: '01J9WP00000000000000000001',
       };
 
       const result = await userApi.createUser(minimalUserData);
 
       expect(result.success).toBe(true);
-      expect(result.data!.phone).toBeNull();
-      expect(result.data!.country).toBeNull();
-      expect(result.data!.province).toBeNull();
+
+      const list = await userApi.listUsers({ email: 'minimal@example.com', deleted: false });
+      expect(list.data[0].phone).toBeNull();
+      expect(list.data[0].note).toBeNull();
     });
   });
 
   describe('updateUser', () => {
     it('should update an existing user successfully', async () => {
       const updateData: UpdateUserRequest = {
-        firstName: 'Updated',
-        lastName: 'Name',
+        name: 'Jane Updated',
+        email: 'jane.admin@example.com',
         phone: '+1-555-UPDATED',
-        country: 'Updated Country',
+        roleId: '01J9WR00000000000000000001',
+        countryId: '01J9WC00000000000000000001',
+        provinceId: '01J9WP00000000000000000002',
+        note: 'Updated note',
       };
 
-      const result = await userApi.updateUser(1, updateData);
+      const result = await userApi.updateUser('01234567890123456789012346', updateData);
 
       expect(result.success).toBe(true);
-      expect(result.data).toBeDefined();
-      expect(result.data!.id).toBe(1);
-      expect(result.data!.firstName).toBe('Updated');
-      expect(result.data!.lastName).toBe('Name');
-      expect(result.data!.phone).toBe('+1-555-UPDATED');
-      expect(result.data!.country).toBe('Updated Country');
+      expect(result.data.id).toBe('01234567890123456789012346');
+      expect(result.data.name).toBe('Jane Updated');
+      expect(result.data.phone).toBe('+1-555-UPDATED');
+      expect(result.data.note).toBe('Updated note');
     });
 
     it('should handle user not found for update', async () => {
       const updateData: UpdateUserRequest = {
-        firstName: 'Updated',
+        name: 'Nobody',
+        email: 'nobody@example.com',
+        roleId: '01J9WR00000000000000000002',
+        countryId: '01J9WC00000000000000000001',
+        provinceId: '01J9WP00000000000000000001',
       };
 
-      const result = await userApi.updateUser(999, updateData);
-
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('User not found');
+      await expect(userApi.updateUser('01J9ZZZZZZZZZZZZZZZZZZZZZZ', updateData)).rejects.toThrow();
     });
+  });
 
-    it('should handle simulated not found error for update', async () => {
-      const updateData: UpdateUserRequest & { _error?: string } = {
-        firstName: 'Updated',
-        _error: 'not_found',
-      };
+  describe('deleteUser', () => {
+    it('should soft delete an existing user', async () => {
+      const result = await userApi.deleteUser('01234567890123456789012347');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBeNull();
 
-      const result = await userApi.updateUser(1, updateData);
+      // Deleted users move from the active list to the deleted list
+      const active = await userApi.listUsers({ page: 0, size: 10, deleted: false });
+      expect(active.data.some(user => user.id === '01234567890123456789012347')).toBe(false);
 
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('User not found');
+      const deleted = await userApi.listUsers({ page: 0, size: 10, deleted: true });
+      expect(deleted.data.some(user => user.id === '01234567890123456789012347')).toBe(true);
     });
 
-    it('should update only provided fields', async () => {
-      const updateData: UpdateUserRequest = {
-        firstName: 'PartialUpdate',
-      };
+    it('should handle user not found for deletion', async () => {
+      await expect(userApi.deleteUser('01J9ZZZZZZZZZZZZZZZZZZZZZZ')).rejects.toThrow();
+    });
 
-      const result = await userApi.updateUser(2, updateData);
+    it('should reject deleting an already deleted user', async () => {
+      await expect(userApi.deleteUser('01234567890123456789012347')).rejects.toThrow();
+    });
+  });
+
+  describe('restoreUser', () => {
+    it('should restore a soft-deleted user', async () => {
+      const result = await userApi.restoreUser('01234567890123456789012347');
 
       expect(result.success).toBe(true);
-      expect(result.data!.firstName).toBe('PartialUpdate');
-      // Other fields should remain unchanged
-      expect(result.data!.email).toBe('jane.admin@example.com');
-      expect(result.data!.role).toBe('ADMIN');
+
+      const user = await userApi.getUserById('01234567890123456789012347');
+      expect(user.data.deleted).toBe(false);
+
+      const active = await userApi.listUsers({ page: 0, size: 10, deleted: false });
+      expect(active.data.some(item => item.id === '01234567890123456789012347')).toBe(true);
+    });
+
+    it('should reject restoring a user that is not deleted', async () => {
+      await expect(userApi.restoreUser('01234567890123456789012345')).rejects.toThrow();
+    });
+
+    it('should handle user not found for restore', async () => {
+      await expect(userApi.restoreUser('01J9ZZZZZZZZZZZZZZZZZZZZZZ')).rejects.toThrow();
     });
   });
 
-  describe('deleteUser', () => {
-    it('should delete an existing user successfully', async () => {
-      const result = await userApi.deleteUser(3);
+  describe('bulk', () => {
+    it('should delete and restore several users', async () => {
+      const items = [
+        { id: '01234567890123456789012348' },
+        { id: '01234567890123456789012349' },
+      ];
 
-      expect(result.success).toBe(true);
-      expect(result.message).toContain('deleted successfully');
+      const deleted = await userApi.bulk({ operation: 'delete', items });
+
+      expect(deleted.success).toBe(true);
+      expect(deleted.summary).toMatchObject({ total: 2, successful: 2, failed: 0, skipped: 0 });
+      expect(deleted.data.map(user => user.id)).toEqual(items.map(item => item.id));
+
+      const restored = await userApi.bulk({ operation: 'restore', items });
+
+      expect(restored.summary).toMatchObject({ total: 2, successful: 2, failed: 0 });
     });
 
-    it('should handle user not found for deletion', async () => {
-      const result = await userApi.deleteUser(999);
+    it('should change the role of several users', async () => {
+      const result = await userApi.bulk({
+        operation: 'update',
+        items: [
+          { id: '01234567890123456789012348', roleId: '01J9WR00000000000000000003' },
+        ],
+      });
 
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('User not found');
+      expect(result.summary.successful).toBe(1);
+      expect(result.data[0].role).toBe('MODERATOR');
     });
 
-    it('should handle simulated not found error for deletion', async () => {
-      // Using URL parameter to trigger error in MSW handler
-      const result = await userApi.deleteUser(1, { _error: 'not_found' } as any);
+    it('should report partial failures per item', async () => {
+      const result = await userApi.bulk({
+        operation: 'restore',
+        items: [
+          { id: '01234567890123456789012345' },
+          { id: '01J9ZZZZZZZZZZZZZZZZZZZZZZ' },
+        ],
+      });
+
+      expect(result.summary).toMatchObject({ total: 2, successful: 0, failed: 2 });
+      expect(result.failures).toEqual([
+        expect.objectContaining({ index: 0, id: '01234567890123456789012345', error: expect.objectContaining({ code: 'USER_NOT_DELETED' }) }),
+        expect.objectContaining({ index: 1, id: '01J9ZZZZZZZZZZZZZZZZZZZZZZ', error: expect.objectContaining({ code: 'USER_NOT_FOUND' }) }),
+      ]);
+    });
 
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('User not found');
+    it('should skip remaining items after a failure when continueOnError is false', async () => {
+      const result = await userApi.bulk({
+        operation: 'update',
+        items: [
+          { id: '01J9ZZZZZZZZZZZZZZZZZZZZZZ', roleId: '01J9WR00000000000000000002' },
+          { id: '01234567890123456789012348', roleId: '01J9WR00000000000000000002' },
+        ],
+        options: { continueOnError: false },
+      });
+
+      expect(result.summary).toMatchObject({ total: 2, successful: 0, failed: 1, skipped: 1 });
+    });
+
+    it('should reject unsupported operations', async () => {
+      await expect(userApi.bulk({ operation: 'create', items: [] })).rejects.toThrow();
     });
   });
 
@@ -14,7 +14,11 @@ import type {
   CreateUserResponse,
   UserResponse,
   DeleteUserResponse,
+  RestoreUserResponse,
+  UserBulkRequest,
+  UserBulkResponse,
 } from '../types/user';
+import type { RequestConfig } from '../types/api';
 
 // Base path for user API endpoints
 const BASE_PATH = '/users';
@@ -41,10 +45,11 @@ export const userAPI = {
    * POST /users
    * 
    * @param data User creation data
+   * @param config Optional request config (e.g. skipErrorHandling for batch imports)
    * @returns Promise<CreateUserResponse> Create confirmation (data: null)
    */
-  createUser: async (data: CreateUserRequest): Promise<CreateUserResponse> => {
-    const response = await httpClient.post(BASE_PATH, data);
+  createUser: async (data: CreateUserRequest, config?: RequestConfig): Promise<CreateUserResponse> => {
+    const response = await httpClient.post(BASE_PATH, data, config);
     return response.data as CreateUserResponse;
   },
 
@@ -84,6 +89,34 @@ export const userAPI = {
     const response = await httpClient.delete(`${BASE_PATH}/${id}`);
     return response.data as DeleteUserResponse;
   },
+
+  /**
+   * Restore a soft-deleted user
+   * POST /users/{id}/restore
+   * 
+   * @param id User ULID
+   * @returns Promise<RestoreUserResponse> Restore confirmation
+   */
+  restoreUser: async (id: string): Promise<RestoreUserResponse> => {
+    const response = await httpClient.post(`${BASE_PATH}/${id}/restore`);
+    return response.data as RestoreUserResponse;
+  },
+
+  /**
+   * Apply one operation to several users
+   * POST /users/bulk
+   * 
+   * Supported operations: 'delete', 'restore' and 'update' (role change).
+   * Items that fail are reported in `failures` - the request itself still
+   * succeeds unless it is malformed.
+   * 
+   * @param request Bulk operation with the affected user items
+   * @returns Promise<UserBulkResponse> Summary with per-item failures
+   */
+  bulk: async (request: UserBulkRequest): Promise<UserBulkResponse> => {
+    const response = await httpClient.post(`${BASE_PATH}/bulk`, request);
+    return response.data as UserBulkResponse;
+  },
 };
 
 /**
@@ -95,6 +128,8 @@ export const {
   getUserById,
   updateUser,
   deleteUser,
+  restoreUser,
+  bulk: bulkUsers,
 } = userAPI;
 
 /**
@@ -0,0 +1,30 @@
+/**
+ * MYC Language Switcher Component
+ *
+ * Select of the UI locale, shown in the Header
+ * The choice is persisted, so the app opens in it next time.
+ */
+
+import { Select } from 'antd';
+import { GlobalOutlined } from '@ant-design/icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { LOCALES } from '../i18n/locales';
+
+export function LanguageSwitcher() {
+  const { t, locale, setLocale } = useTranslation();
+
+  return (
+    <Select
+      value={locale}
+      onChange={setLocale}
+      options={LOCALES.map(({ value, label }) => ({ value, label }))}
+      prefix={<GlobalOutlined />}
+      variant="borderless"
+      popupMatchSelectWidth={false}
+      aria-label={t('header.language')}
+      style={{ minWidth: 180 }}
+    />
+  );
+}
+
+export default LanguageSwitcher;
@@ -5,6 +5,7 @@
 
 // Layout components
 export { Page } from './Page';
+export { LanguageSwitcher } from './LanguageSwitcher';
 
 // Error handling components
 export { ErrorFallback } from './ErrorFallback';
@@ -3,13 +3,19 @@
  * 
  * Provides route-level authentication and authorization protection.
  * Redirects unauthenticated users to login page with return path.
- * Supports optional role-based access control.
+ * Supports optional permission- and role-based access control.
  */
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
+import { Alert } from 'antd';
+import { Button } from '../../../ui/Button';
 import { useAuthStatus, useUser } from '../../hooks/useAuth';
+import { usePermissionsLoader, retryPermissions } from '../../hooks/usePermission';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useAuthStore } from '../../stores/authStore';
 import { UserRole } from '../../types/domain';
+import type { Permission } from '../../types/permission';
 
 /**
  * Props for ProtectedRoute component
@@ -21,6 +27,9 @@ export interface ProtectedRouteProps {
   /** Required role(s) for access - if not provided, any authenticated user can access */
   requiredRole?: UserRole | UserRole[];
   
+  /** Required permission(s) for access - all must be granted (preferred over requiredRole) */
+  requiredPermission?: Permission | Permission[];
+  
   /** Custom redirect path for unauthenticated users (defaults to /login) */
   redirectTo?: string;
   
@@ -48,18 +57,41 @@ const DefaultLoadingFallback: React.FC = () => (
   </div>
 );
 
+/**
+ * Shown when the permissions could not be loaded - access is unknown, not denied
+ */
+const PermissionsErrorFallback: React.FC = () => {
+  const { t } = useTranslation();
+
+  return (
+    <Alert
+      type="error"
+      showIcon
+      message={t('permissions.loadFailed')}
+      style={{ margin: '24px' }}
+      action={
+        <Button size="small" onClick={retryPermissions}>
+          {t('common.retry')}
+        </Button>
+      }
+    />
+  );
+};
+
 /**
  * ProtectedRoute Component
  * 
  * Wraps components that require authentication. Features:
  * - Authentication checking with loading states
  * - Automatic redirect to login with return path
- * - Optional role-based access control
+ * - Optional permission- and role-based access control
+ * - Retry when the permissions fail to load (button, or the next navigation)
  * - Customizable loading and redirect behavior
  */
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
   requiredRole,
+  requiredPermission,
   redirectTo = '/login',
   showLoading = true,
   fallback,
@@ -67,6 +99,14 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   const location = useLocation();
   const { isAuthenticated, isInitialized } = useAuthStatus();
   const { user, hasRole, hasAnyRole } = useUser();
+  const permissionsLoading = usePermissionsLoader();
+  const grantedPermissions = useAuthStore((state) => state.permissions);
+  const permissionsStatus = useAuthStore((state) => state.permissionsStatus);
+
+  // A failed permissions load is retried on the next navigation
+  useEffect(() => {
+    retryPermissions();
+  }, [location.pathname]);
 
   // Show loading state during auth initialization
   if (!isInitialized && showLoading) {
@@ -99,6 +139,22 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     }
   }
 
+  // Check permission-based access if required (waits for the permissions to load)
+  if (requiredPermission) {
+    if (permissionsLoading) {
+      return fallback || <DefaultLoadingFallback />;
+    }
+
+    if (permissionsStatus === 'error') {
+      return <PermissionsErrorFallback />;
+    }
+
+    const permissions = Array.isArray(requiredPermission) ? requiredPermission : [requiredPermission];
+    if (!permissions.every(permission => grantedPermissions.includes(permission))) {
+      return <Navigate to="/unauthorized" replace />;
+    }
+  }
+
   // Render protected content
   return <>{children}</>;
 };
@@ -8,6 +8,7 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Page } from '../Page';
 import { Button } from '../../../ui/Button';
+import { useTranslation } from '../../hooks/useTranslation';
 
 /**
  * Unauthorized Page Component
@@ -16,9 +17,10 @@ import { Button } from '../../../ui/Button';
  */
 export const UnauthorizedPage: React.FC = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation();
 
   return (
-    <Page title="Access Denied">
+    <Page title={t('unauthorized.title')}>
       <div style={{ textAlign: 'center', padding: '2rem 0', maxWidth: '500px', margin: '0 auto' }}>
         <div style={{ fontSize: '4rem', marginBottom: '1rem' }}>🔒</div>
         
@@ -26,7 +28,7 @@ export const UnauthorizedPage: React.FC = () => {
           color: 'var(--myc-color-text, #333)', 
           marginBottom: '1rem' 
         }}>
-          Access Denied
+          {t('unauthorized.title')}
         </h2>
         
         <p style={{ 
@@ -34,8 +36,7 @@ export const UnauthorizedPage: React.FC = () => {
           marginBottom: '2rem',
           lineHeight: '1.5'
         }}>
-          You don't have permission to access this page. Please contact your administrator 
-          if you believe this is an error.
+          {t('unauthorized.message')}
         </p>
 
         <div style={{ display: 'flex', gap: '1rem', justifyContent: 'center', flexWrap: 'wrap' }}>
@@ -43,14 +44,14 @@ export const UnauthorizedPage: React.FC = () => {
             variant="primary"
             onClick={() => navigate('/')}
           >
-            Go to Dashboard
+            {t('unauthorized.goToDashboard')}
           </Button>
           
           <Button
             variant="default"
             onClick={() => navigate(-1)}
           >
-            Go Back
+            {t('unauthorized.goBack')}
           </Button>
         </div>
       </div>
@@ -22,5 +22,21 @@ export {
   useLogout,
 } from './useAuth';
 
+// Permission Hooks
+export { usePermission, usePermissionsLoader, retryPermissions } from './usePermission';
+
+// Translation Hooks
+export { useTranslation } from './useTranslation';
+
+// Data Hooks
+export { useRoles } from './useRoles';
+export { useUsersByRole } from './useUsersByRole';
+export { useStudios, useStudioRooms } from './useStudios';
+export { useTeacherAvailability } from './useTeacherAvailability';
+
 // Re-export types
 export type { UseAuthReturn } from './useAuth';
+export type { UseRolesReturn } from './useRoles';
+export type { UseUsersByRoleReturn } from './useUsersByRole';
+export type { UseStudiosReturn, UseStudioRoomsReturn } from './useStudios';
+export type { UseTeacherAvailabilityReturn } from './useTeacherAvailability';
@@ -6,6 +6,7 @@
  */
 
 import { useEffect, useCallback } from 'react';
+import { useShallow } from 'zustand/react/shallow';
 import { useAuthStore } from '../stores/authStore';
 import type { LoginCredentials, User } from '../types/domain';
 
@@ -90,11 +91,11 @@ export function useAuth(): UseAuthReturn {
  * Useful for components that only need to know if user is logged in
  */
 export function useAuthStatus() {
-  return useAuthStore((state) => ({
+  return useAuthStore(useShallow((state) => ({
     isAuthenticated: state.isAuthenticated,
     isLoading: state.isLoading,
     isInitialized: state.isInitialized,
-  }));
+  })));
 }
 
 /**
@@ -104,13 +105,13 @@ export function useAuthStatus() {
  * Avoids re-renders when only state changes
  */
 export function useAuthActions() {
-  return useAuthStore((state) => ({
+  return useAuthStore(useShallow((state) => ({
     login: state.login,
     logout: state.logout,
     clearError: state.clearError,
     refreshToken: state.refreshToken,
     updateUser: state.updateUser,
-  }));
+  })));
 }
 
 /**
@@ -120,14 +121,14 @@ export function useAuthActions() {
  * Re-renders only when user data changes
  */
 export function useUser() {
-  return useAuthStore((state) => ({
+  return useAuthStore(useShallow((state) => ({
     user: state.user,
     isAuthenticated: state.isAuthenticated,
     hasRole: state.hasRole,
     hasAnyRole: state.hasAnyRole,
     isAdmin: state.isAdmin,
     canAccess: state.canAccess,
-  }));
+  })));
 }
 
 /**
@@ -139,10 +140,10 @@ export function useUser() {
  * @param autoInitialize - Whether to automatically initialize on mount (default: true)
  */
 export function useInitializeAuth(autoInitialize: boolean = true) {
-  const { initializeAuth, isInitialized } = useAuthStore((state) => ({
+  const { initializeAuth, isInitialized } = useAuthStore(useShallow((state) => ({
     initializeAuth: state.initializeAuth,
     isInitialized: state.isInitialized,
-  }));
+  })));
 
   const initialize = useCallback(() => {
     if (!isInitialized) {
@@ -203,14 +204,14 @@ export function useRoleGuard(requiredRole: string | string[]) {
  * Resource Access Hook
  * 
  * Checks if the current user can access a specific resource
- * Useful for conditional UI rendering and navigation guards
+ * Resources are permission identifiers - prefer usePermission for new code
  * 
- * @param resource - The resource identifier to check access for
+ * @param resource - The permission to check access for (e.g. 'users:write')
  * 
  * @example
  * ```tsx
  * function UserList() {
- *   const { canAccess } = useResourceAccess('users-management');
+ *   const { canAccess } = useResourceAccess('users:write');
  *   
  *   return (
  *     <div>
@@ -240,10 +241,10 @@ export function useResourceAccess(resource: string) {
  * @param autoClearTimeout - Milliseconds after which to auto-clear errors (default: 5000)
  */
 export function useAuthError(autoClearTimeout: number = 5000) {
-  const { error, clearError } = useAuthStore((state) => ({
+  const { error, clearError } = useAuthStore(useShallow((state) => ({
     error: state.error,
     clearError: state.clearError,
-  }));
+  })));
 
   // Auto-clear errors after timeout
   useEffect(() => {
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { http, HttpResponse } from 'msw';
+import { server } from '@/test-setup';
+
+// Mock Firebase so the auth store can be imported without configuration
+vi.mock('../../config/firebase', () => ({
+  auth: {},
+  googleProvider: {},
+}));
+
+import { useAuthStore } from '../stores/authStore';
+import { usePermission, retryPermissions } from './usePermission';
+import type { User } from '../types/domain';
+
+const signIn = (role: User['role']) => {
+  useAuthStore.setState({
+    isAuthenticated: true,
+    user: {
+      id: 'user-1',
+      name: 'Test User',
+      email: 'test@example.com',
+      role,
+      status: 'active',
+      deleted: false,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    },
+    permissions: [],
+    permissionsStatus: 'idle',
+  });
+};
+
+describe('usePermission', () => {
+  beforeEach(() => {
+    useAuthStore.setState({ isAuthenticated: false, user: null, permissions: [], permissionsStatus: 'idle' });
+  });
+
+  it('should grant the permissions of the signed-in role', async () => {
+    signIn('admin');
+    const { result } = renderHook(() => usePermission('users:write'));
+
+    await waitFor(() => expect(result.current).toBe(true));
+    expect(useAuthStore.getState().permissionsStatus).toBe('loaded');
+  });
+
+  it('should deny permissions the role does not have', async () => {
+    signIn('teacher');
+    const { result } = renderHook(() => usePermission(['users:read', 'users:write']));
+
+    await waitFor(() => expect(useAuthStore.getState().permissionsStatus).toBe('loaded'));
+    expect(result.current).toBe(false);
+    expect(useAuthStore.getState().hasPermission('users:read')).toBe(true);
+  });
+
+  it('should finish loading when the user is updated while the permissions load', async () => {
+    signIn('admin');
+    const { result } = renderHook(() => usePermission('users:write'));
+
+    act(() => useAuthStore.getState().updateUser({ name: 'Renamed User' }));
+
+    await waitFor(() => expect(useAuthStore.getState().permissionsStatus).toBe('loaded'));
+    expect(result.current).toBe(true);
+  });
+
+  it('should deny everything when signed out', () => {
+    const { result } = renderHook(() => usePermission('studios:read'));
+
+    expect(result.current).toBe(false);
+    expect(useAuthStore.getState().canAccess('studios:read')).toBe(false);
+  });
+
+  it('should load the permissions again when retried after a failure', async () => {
+    server.use(http.get('*/api/permissions', () => HttpResponse.json({}, { status: 503 }), { once: true }));
+    signIn('admin');
+    const { result } = renderHook(() => usePermission('users:write'));
+
+    await waitFor(() => expect(useAuthStore.getState().permissionsStatus).toBe('error'));
+    expect(result.current).toBe(false);
+
+    act(() => retryPermissions());
+
+    await waitFor(() => expect(result.current).toBe(true));
+  });
+});
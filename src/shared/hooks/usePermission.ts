@@ -0,0 +1,97 @@
+/**
+ * Permission Hooks
+ *
+ * Permission-based access control for the signed-in user.
+ * Permissions per role are loaded once from GET /permissions and kept in
+ * the auth store; components check them with usePermission('users:write').
+ */
+
+import { useEffect } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useAuthStore } from '../stores/authStore';
+import { permissionAPI } from '../api/permission';
+import type { Permission } from '../types/permission';
+
+/**
+ * Load the permissions of the signed-in user's role
+ * Skipped while a load is in flight or already done for this user.
+ */
+async function loadPermissions(): Promise<void> {
+  const { user, permissionsStatus, setPermissions } = useAuthStore.getState();
+  if (!user || permissionsStatus !== 'idle') return;
+
+  setPermissions('loading');
+  try {
+    const response = await permissionAPI.listRolePermissions();
+    // Ignore the result if the user signed out or another user signed in meanwhile -
+    // compared by ID, as profile updates replace the user object
+    const current = useAuthStore.getState().user;
+    if (current?.id !== user.id) return;
+
+    const granted = response.data.find(entry => entry.role === current.role);
+    setPermissions('loaded', granted?.permissions ?? []);
+  } catch (error) {
+    console.error('Error loading permissions:', error);
+    if (useAuthStore.getState().user?.id === user.id) {
+      setPermissions('error');
+    }
+  }
+}
+
+/**
+ * Load the permissions again after a failed load
+ * Resets the status to idle so the mounted loaders request them again.
+ */
+export function retryPermissions(): void {
+  const { user, permissionsStatus, setPermissions } = useAuthStore.getState();
+  if (user && permissionsStatus === 'error') {
+    setPermissions('idle');
+  }
+}
+
+/**
+ * Permissions Loader Hook
+ *
+ * Makes sure the permissions of the signed-in user are loaded
+ *
+ * @returns Whether permissions are still loading (false once loaded or failed)
+ */
+export function usePermissionsLoader(): boolean {
+  const { user, permissionsStatus } = useAuthStore(useShallow((state) => ({
+    user: state.user,
+    permissionsStatus: state.permissionsStatus,
+  })));
+
+  useEffect(() => {
+    if (user && permissionsStatus === 'idle') {
+      loadPermissions();
+    }
+  }, [user, permissionsStatus]);
+
+  return Boolean(user) && (permissionsStatus === 'idle' || permissionsStatus === 'loading');
+}
+
+/**
+ * Permission Hook
+ *
+ * Checks whether the signed-in user has a permission (or all of several)
+ *
+ * @param permission - Permission(s) required
+ *
+ * @example
+ * ```tsx
+ * function UsersToolbar() {
+ *   const canWrite = usePermission('users:write');
+ *
+ *   return canWrite ? <AddUserButton /> : null;
+ * }
+ * ```
+ */
+export function usePermission(permission: Permission | Permission[]): boolean {
+  usePermissionsLoader();
+
+  return useAuthStore((state) => {
+    const required = Array.isArray(permission) ? permission : [permission];
+    return required.every(item => state.hasPermission(item));
+  });
+}
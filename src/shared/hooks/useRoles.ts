@@ -0,0 +1,51 @@
+/**
+ * Roles Hook
+ *
+ * Loads the role list (GET /roles) for components that display roles,
+ * e.g. role tags coloured from the role metadata.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { roleAPI } from '../api/role';
+import { t } from '../i18n';
+import type { Role } from '../types/role';
+
+export interface UseRolesReturn {
+  roles: Role[];
+  loading: boolean;
+  error: string | null;
+  /** Tag colour of a role by name - 'default' for unknown roles */
+  getRoleColor: (name: string) => string;
+  /** Reload the roles (e.g. after creating or renaming one) */
+  reload: () => Promise<void>;
+}
+
+export function useRoles(): UseRolesReturn {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await roleAPI.listRoles();
+      setRoles(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('roles.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const getRoleColor = useMemo(() => {
+    const colors = new Map(roles.map(role => [role.name, role.color]));
+    return (name: string) => colors.get(name) ?? 'default';
+  }, [roles]);
+
+  return { roles, loading, error, getRoleColor, reload };
+}
@@ -0,0 +1,97 @@
+/**
+ * Studio Hooks
+ *
+ * Load studios (GET /studios) and the rooms of one studio
+ * (GET /studios/{id}/rooms) for selects outside the studios feature,
+ * e.g. the schedule filters and the lesson form.
+ */
+
+import { useEffect, useState } from 'react';
+import { studioAPI } from '../api/studio';
+import { roomAPI } from '../api/room';
+import { t } from '../i18n';
+import type { StudioListItem } from '../types/studio';
+import type { Room } from '../types/room';
+
+// Large enough to list every studio in one request
+const STUDIOS_PAGE_SIZE = 100;
+
+export interface UseStudiosReturn {
+  studios: StudioListItem[];
+  loading: boolean;
+  error: string | null;
+}
+
+export interface UseStudioRoomsReturn {
+  rooms: Room[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useStudios(): UseStudiosReturn {
+  const [studios, setStudios] = useState<StudioListItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await studioAPI.listStudios({ size: STUDIOS_PAGE_SIZE });
+        if (!cancelled) setStudios(response.data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('studios.loadFailed'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { studios, loading, error };
+}
+
+/**
+ * @param studioId Studio ULID - no rooms are loaded until a studio is given
+ */
+export function useStudioRooms(studioId?: string): UseStudioRoomsReturn {
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRooms([]);
+    if (!studioId) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await roomAPI.listRooms(studioId);
+        if (!cancelled) setRooms(response.data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('rooms.loadFailed'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [studioId]);
+
+  return { rooms, loading, error };
+}
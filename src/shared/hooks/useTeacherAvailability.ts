@@ -0,0 +1,54 @@
+/**
+ * Teacher Availability Hook
+ *
+ * Load a teacher's availability (GET /users/{id}/availability)
+ * outside the users feature, e.g. to grey out the schedule.
+ */
+
+import { useEffect, useState } from 'react';
+import { availabilityAPI } from '../api/availability';
+import { t } from '../i18n';
+import type { TeacherAvailability } from '../types/availability';
+
+export interface UseTeacherAvailabilityReturn {
+  availability: TeacherAvailability | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * @param teacherId Teacher ULID - nothing is loaded until a teacher is given
+ */
+export function useTeacherAvailability(teacherId?: string): UseTeacherAvailabilityReturn {
+  const [availability, setAvailability] = useState<TeacherAvailability | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAvailability(null);
+    if (!teacherId) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await availabilityAPI.getAvailability(teacherId);
+        if (!cancelled) setAvailability(response.data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('availability.loadFailed'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [teacherId]);
+
+  return { availability, loading, error };
+}
@@ -0,0 +1,44 @@
+/**
+ * Translation Hook
+ *
+ * Translates UI strings into the locale chosen with the Header's language
+ * switcher; components re-render when the locale changes.
+ */
+
+import { useCallback } from 'react';
+import { useLocaleStore } from '../stores/localeStore';
+import { translate } from '../i18n/translate';
+import { localizeDate } from '../i18n/format';
+import type { MessageKey } from '../i18n/messages/en';
+import type { MessageParams } from '../i18n/types';
+
+/**
+ * Translation Hook
+ *
+ * @returns t to translate a message key, formatDate for dates, the current locale and setLocale
+ *
+ * @example
+ * ```tsx
+ * function UsersTotal({ total }: { total: number }) {
+ *   const { t } = useTranslation();
+ *
+ *   return <span>{t('table.totalUsers', { start: 1, end: 10, count: total })}</span>;
+ * }
+ * ```
+ */
+export function useTranslation() {
+  const locale = useLocaleStore((state) => state.locale);
+  const setLocale = useLocaleStore((state) => state.setLocale);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale]
+  );
+
+  const formatDate = useCallback(
+    (value: Date | string | number, options: Intl.DateTimeFormatOptions) => localizeDate(locale, value, options),
+    [locale]
+  );
+
+  return { t, formatDate, locale, setLocale };
+}
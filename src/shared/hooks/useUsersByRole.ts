@@ -0,0 +1,54 @@
+/**
+ * Users By Role Hook
+ *
+ * Loads the active users with one role (GET /users?role=...), e.g. the
+ * teachers and students offered when scheduling a lesson.
+ */
+
+import { useEffect, useState } from 'react';
+import { userAPI } from '../api/user';
+import { t } from '../i18n';
+import type { UserListItem } from '../types/user';
+
+// Large enough for a studio's teachers or students in one request
+const USERS_BY_ROLE_PAGE_SIZE = 100;
+
+export interface UseUsersByRoleReturn {
+  users: UserListItem[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * @param role Role name as used by the user list filter (e.g. 'TEACHER')
+ */
+export function useUsersByRole(role: string): UseUsersByRoleReturn {
+  const [users, setUsers] = useState<UserListItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await userAPI.listUsers({ role, deleted: false, size: USERS_BY_ROLE_PAGE_SIZE });
+        if (!cancelled) setUsers(response.data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('users.fetchFailed'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [role]);
+
+  return { users, loading, error };
+}
@@ -0,0 +1,48 @@
+/**
+ * Date Formatting
+ *
+ * Dates and weekday names in the conventions of a locale (Intl.DateTimeFormat)
+ */
+
+import type { Weekday } from '../types/studio';
+import type { SupportedLocale } from './locales';
+
+// A Sunday - the weekdays follow from it in Date.getDay() order
+const REFERENCE_SUNDAY = new Date(2026, 0, 4);
+
+const WEEKDAY_INDEX: Record<Weekday, number> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+};
+
+/**
+ * Date or date-time in a locale
+ *
+ * @example
+ * localizeDate('fr-CA', '2026-12-15T16:30:00', { month: 'short', day: 'numeric', year: 'numeric' }) // '15 déc. 2026'
+ */
+export function localizeDate(
+  locale: SupportedLocale,
+  value: Date | string | number,
+  options: Intl.DateTimeFormatOptions
+): string {
+  return new Date(value).toLocaleString(locale, options);
+}
+
+/**
+ * Name of a weekday in a locale, e.g. 'Tuesday' or 'mardi'
+ */
+export function localizeWeekday(
+  locale: SupportedLocale,
+  weekday: Weekday,
+  width: 'long' | 'short' = 'long'
+): string {
+  const day = new Date(REFERENCE_SUNDAY);
+  day.setDate(day.getDate() + WEEKDAY_INDEX[weekday]);
+  return day.toLocaleDateString(locale, { weekday: width });
+}
@@ -0,0 +1,43 @@
+/**
+ * i18n Barrel Export
+ *
+ * Components translate with the useTranslation hook; code outside React
+ * (e.g. API error handling) uses t() and formatDate(), which read the
+ * current locale.
+ */
+
+import { useLocaleStore } from '../stores/localeStore';
+import { translate } from './translate';
+import { localizeDate } from './format';
+import type { SupportedLocale } from './locales';
+import type { MessageKey } from './messages/en';
+import type { MessageParams } from './types';
+
+export { translate } from './translate';
+export { localizeDate, localizeWeekday } from './format';
+export { LOCALES, DEFAULT_LOCALE, resolveLocale } from './locales';
+export type { SupportedLocale } from './locales';
+export type { MessageKey } from './messages/en';
+export type { Message, MessageParams, PluralMessage } from './types';
+
+/**
+ * Message in the current locale - for code outside React components
+ * Components use useTranslation so they re-render when the locale changes.
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(currentLocale(), key, params);
+}
+
+/**
+ * Date in the current locale - for code outside React components
+ */
+export function formatDate(value: Date | string | number, options: Intl.DateTimeFormatOptions): string {
+  return localizeDate(currentLocale(), value, options);
+}
+
+/**
+ * Locale chosen with the Header's language switcher
+ */
+export function currentLocale(): SupportedLocale {
+  return useLocaleStore.getState().locale;
+}
@@ -0,0 +1,43 @@
+/**
+ * Supported Locales
+ *
+ * Locales of the regions our studios operate in. Each locale uses the
+ * message catalogue of its language; the region sets number, date and
+ * Ant Design component formats.
+ */
+
+/**
+ * Locale identifier (BCP 47 language tag)
+ */
+export type SupportedLocale = 'en-CA' | 'fr-CA' | 'en-AU' | 'en-SG';
+
+/**
+ * Language of a message catalogue
+ */
+export type CatalogueLanguage = 'en' | 'fr';
+
+export const LOCALES: { value: SupportedLocale; label: string; language: CatalogueLanguage }[] = [
+  { value: 'en-CA', label: 'English (Canada)', language: 'en' },
+  { value: 'fr-CA', label: 'Français (Canada)', language: 'fr' },
+  { value: 'en-AU', label: 'English (Australia)', language: 'en' },
+  { value: 'en-SG', label: 'English (Singapore)', language: 'en' },
+];
+
+export const DEFAULT_LOCALE: SupportedLocale = 'en-CA';
+
+/**
+ * Best supported locale for the browser's preferred languages
+ * An exact match wins, then the first locale of the same language
+ * (e.g. fr-FR → fr-CA), then the default locale.
+ */
+export function resolveLocale(preferred: readonly string[]): SupportedLocale {
+  for (const tag of preferred) {
+    const exact = LOCALES.find(locale => locale.value.toLowerCase() === tag.toLowerCase());
+    if (exact) return exact.value;
+
+    const language = tag.split('-')[0].toLowerCase();
+    const sameLanguage = LOCALES.find(locale => locale.language === language);
+    if (sameLanguage) return sameLanguage.value;
+  }
+  return DEFAULT_LOCALE;
+}
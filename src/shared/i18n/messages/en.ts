@@ -0,0 +1,581 @@
+/**
+ * English Message Catalogue
+ *
+ * Source catalogue - every message key is defined here first.
+ * Plural messages pick a form by the `count` parameter (Intl.PluralRules).
+ */
+
+import type { Message } from '../types';
+
+export const en = {
+  // Header and navigation
+  'header.appName': 'MYC Studio Management System',
+  'header.logout': 'Logout',
+  'header.language': 'Language',
+  'header.search': 'Search',
+  'nav.dashboard': 'Dashboard',
+  'nav.users': 'Users',
+  'nav.roles': 'Roles',
+  'nav.studios': 'Studios',
+  'nav.schedule': 'Schedule',
+  'nav.audit': 'Audit Log',
+  'nav.notifications': 'Notifications',
+
+  // Shared labels
+  'common.retry': 'Retry',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.restore': 'Restore',
+  'common.refresh': 'Refresh',
+  'common.save': 'Save',
+  'common.saveChanges': 'Save Changes',
+  'common.actions': 'Actions',
+  'common.status': 'Status',
+  'common.name': 'Name',
+  'common.email': 'Email',
+  'common.phone': 'Phone',
+  'common.role': 'Role',
+
+  // Permissions
+  'permissions.loadFailed': 'Your permissions could not be loaded.',
+
+  // Login page
+  'login.title': 'MYC Studio Management',
+  'login.subtitle': 'Please sign in with Google to continue',
+  'login.continueWithGoogle': 'Continue with Google',
+  'login.signingIn': 'Signing in with Google...',
+  'login.securedByGoogle': 'Secure authentication powered by Google',
+
+  // Unauthorized page
+  'unauthorized.title': 'Access Denied',
+  'unauthorized.message': "You don't have permission to access this page. Please contact your administrator if you believe this is an error.",
+  'unauthorized.goToDashboard': 'Go to Dashboard',
+  'unauthorized.goBack': 'Go Back',
+
+  // User filters
+  'userFilters.name': 'Name',
+  'userFilters.namePlaceholder': 'Enter name',
+  'userFilters.email': 'Email',
+  'userFilters.emailPlaceholder': 'Enter email',
+  'userFilters.phone': 'Phone',
+  'userFilters.phonePlaceholder': 'Enter phone',
+  'userFilters.role': 'Role',
+  'userFilters.rolePlaceholder': 'Select role',
+  'userFilters.country': 'Country',
+  'userFilters.countryPlaceholder': 'Select country',
+  'userFilters.province': 'Province',
+  'userFilters.provincePlaceholder': 'Select province',
+  'userFilters.selectCountryFirst': 'Please select a country first',
+  'userFilters.noProvinces': 'No provinces found',
+  'userFilters.status': 'Status',
+  'userFilters.active': 'Active',
+  'userFilters.deleted': 'Deleted',
+  'userFilters.search': 'Search',
+  'userFilters.reset': 'Reset',
+
+  // Table pagination totals
+  'table.totalItems': { one: '{start}-{end} of {count} item', other: '{start}-{end} of {count} items' },
+  'table.totalUsers': { one: '{start}-{end} of {count} user', other: '{start}-{end} of {count} users' },
+  'table.totalStudios': { one: '{start}-{end} of {count} studio', other: '{start}-{end} of {count} studios' },
+  'table.totalEvents': { one: '{start}-{end} of {count} event', other: '{start}-{end} of {count} events' },
+
+  // Recurring lessons
+  'recurrence.daily': { one: 'Every day', other: 'Every {count} days' },
+  'recurrence.weekly': { one: 'Every {days}', other: 'Every {count} weeks on {days}' },
+  'recurrence.times': { one: '{pattern}, once', other: '{pattern}, {count} times' },
+  'recurrence.until': '{pattern} until {date}',
+
+  // Users
+  'users.title': 'Users',
+  'users.importCsv': 'Import CSV',
+  'users.addUser': 'Add User',
+  'users.loadError': 'Error Loading Users',
+  'users.loading': 'Loading users...',
+  'users.empty': 'No users found. Try adjusting your filters or add a new user.',
+  'users.fetchFailed': 'Failed to fetch users',
+  'users.deleteTitle': 'Delete user?',
+  'users.deleteMessage': '{name} will be moved to deleted users.',
+  'users.deleted': 'User {name} deleted',
+  'users.deleteFailed': 'Failed to delete user',
+  'users.restored': 'User {name} restored',
+  'users.restoreFailed': 'Failed to restore user',
+  'users.bulkDeleteTitle': 'Delete selected users?',
+  'users.bulkDeleteMessage': 'The selected users will be moved to deleted users.',
+  'users.bulkFailed': 'Bulk operation failed',
+  'users.bulk.create': { one: '{count} user created', other: '{count} users created' },
+  'users.bulk.update': { one: '{count} user updated', other: '{count} users updated' },
+  'users.bulk.delete': { one: '{count} user deleted', other: '{count} users deleted' },
+  'users.bulk.restore': { one: '{count} user restored', other: '{count} users restored' },
+  'users.bulk.upsert': { one: '{count} user saved', other: '{count} users saved' },
+  'users.bulkResult.create': '{successful} of {count} users created, {failed} failed',
+  'users.bulkResult.update': '{successful} of {count} users updated, {failed} failed',
+  'users.bulkResult.delete': '{successful} of {count} users deleted, {failed} failed',
+  'users.bulkResult.restore': '{successful} of {count} users restored, {failed} failed',
+  'users.bulkResult.upsert': '{successful} of {count} users saved, {failed} failed',
+  'users.bulkResult.skipped': { one: '{count} skipped after the first failure', other: '{count} skipped after the first failure' },
+  'users.bulkResult.unknownUser': 'Unknown user',
+  'users.bulkBar.selected': { one: '{count} user selected', other: '{count} users selected' },
+  'users.bulkBar.changeRole': 'Change role',
+  'users.bulkBar.clearSelection': 'Clear selection',
+  'users.export.button': 'Export',
+  'users.export.csv': 'CSV (.csv)',
+  'users.export.xlsx': 'Excel (.xlsx)',
+  'users.export.title': 'Exporting users to {format}',
+  'users.export.progress': 'Loaded {loaded} of {count} users',
+  'users.export.done': { one: 'Exported {count} user', other: 'Exported {count} users' },
+  'users.export.cancelled': 'Export cancelled',
+  'users.export.failed': 'Failed to export users',
+  'users.field.name': 'Name',
+  'users.field.email': 'Email',
+  'users.field.phone': 'Phone',
+  'users.field.role': 'Role',
+  'users.field.country': 'Country',
+  'users.field.province': 'Province',
+  'users.field.location': 'Country / Province',
+  'users.field.note': 'Note',
+  'users.status.active': 'Active',
+  'users.status.deleted': 'Deleted',
+  'users.table.empty': 'No users found',
+  'users.form.editTitle': 'Edit User',
+  'users.form.create': 'Create User',
+  'users.form.loading': 'Loading user...',
+  'users.form.loadError': 'Error Loading User',
+  'users.form.loadFailed': 'Failed to load user',
+  'users.form.saveFailed': 'Failed to save user',
+  'users.form.created': 'User {name} created',
+  'users.form.updated': 'User {name} updated',
+  'users.form.nameBlank': 'Name cannot be blank',
+  'users.form.countryRequired': 'Country is required',
+  'users.form.provinceRequired': 'Province is required',
+
+  // Attendance
+  'attendance.status.attended': 'Attended',
+  'attendance.status.absent_excused': 'Absent (excused)',
+  'attendance.status.absent_unexcused': 'Absent (unexcused)',
+  'attendance.status.teacher_absent': 'Teacher absent',
+  'attendance.status.studio_cancelled': 'Cancelled by studio',
+  'attendance.invalidStatus': 'Attendance status is not valid',
+  'attendance.notStarted': '{status} can only be recorded once the lesson has started',
+  'attendance.noteTooLong': 'Note must be at most {max} characters',
+
+  // User profile
+  'users.detail.title': 'User Details',
+  'users.detail.backToList': 'Back to list',
+  'users.detail.tab.details': 'Details',
+  'users.detail.tab.availability': 'Availability',
+  'users.detail.tab.attendance': 'Attendance',
+  'users.detail.tab.activity': 'Activity',
+
+  // User import validation
+  'userImport.emptyFile': 'The file is empty',
+  'userImport.missingColumns': 'Missing required columns: {columns}',
+  'userImport.nameRequired': 'Name is required',
+  'userImport.emailRequired': 'Email is required',
+  'userImport.invalidEmail': 'Invalid email format: {email}',
+  'userImport.duplicateEmail': 'Duplicate email (also on row {row})',
+  'userImport.roleRequired': 'Role is required',
+  'userImport.unknownRole': 'Unknown role: {role}',
+  'userImport.countryRequired': 'Country is required',
+  'userImport.unknownCountry': 'Unknown country: {country}',
+  'userImport.provinceRequired': 'Province is required',
+  'userImport.unknownProvince': 'Unknown province for {country}: {province}',
+
+  // Teacher availability
+  'availability.reason.vacation': 'Vacation',
+  'availability.reason.sick': 'Sick',
+  'availability.reason.other': 'Other',
+  'availability.awayOn': 'Teacher is away on {date} ({reason})',
+  'availability.awayFromTo': 'Teacher is away {from} to {to} ({reason})',
+  'availability.availableOnly': 'Teacher is available {times} on {day} at this studio (your local time)',
+  'availability.notAvailable': 'Teacher is not available on {day} at this studio',
+  'availability.slotRequired': 'Studio, day, start and end are required for every weekly time',
+  'availability.endBeforeStart': 'End must be after start on {day} {start}–{end}',
+  'availability.overlap': '{day} {start}–{end} overlaps {otherStart}–{otherEnd}',
+  'availability.exceptionDaysRequired': 'Every exception needs a valid first and last day',
+  'availability.exceptionEndsBeforeStart': 'Exception {date} ends before it starts',
+  'availability.exceptionReasonRequired': 'Exception {date} needs a reason',
+
+  // Teacher availability editor
+  'availability.weeklyTitle': 'Weekly Availability',
+  'availability.weeklyHelp': 'Lessons can only be booked inside these times.',
+  'availability.weeklyEmpty': 'No weekly availability yet - lessons cannot be booked.',
+  'availability.exceptionsTitle': 'Exceptions',
+  'availability.exceptionsHelp': 'Vacations, sick days and other days off.',
+  'availability.exceptionsEmpty': 'No exceptions',
+  'availability.studio': 'Studio',
+  'availability.selectStudio': 'Select studio',
+  'availability.day': 'Day',
+  'availability.from': 'From',
+  'availability.to': 'To',
+  'availability.removeTime': 'Remove time',
+  'availability.addTime': 'Add Time',
+  'availability.firstDay': 'First day',
+  'availability.lastDay': 'Last day',
+  'availability.reason': 'Reason',
+  'availability.note': 'Note',
+  'availability.removeException': 'Remove exception',
+  'availability.addException': 'Add Exception',
+  'availability.loading': 'Loading availability...',
+  'availability.loadError': 'Error Loading Availability',
+  'availability.loadFailed': 'Failed to load availability',
+  'availability.saved': 'Availability saved',
+  'availability.saveFailed': 'Failed to save availability',
+  'availability.reset': 'Reset',
+  'availability.save': 'Save Availability',
+
+  // Attendance history
+  'attendance.period': 'Period',
+  'attendance.period.30': 'Last 30 days',
+  'attendance.period.90': 'Last 90 days',
+  'attendance.period.365': 'Last 12 months',
+  'attendance.column.date': 'Date',
+  'attendance.column.time': 'Time',
+  'attendance.column.teacher': 'Teacher',
+  'attendance.column.room': 'Room',
+  'attendance.column.attendance': 'Attendance',
+  'attendance.column.note': 'Note',
+  'attendance.notRecorded': 'Not recorded',
+  'attendance.empty': 'No lessons in this period',
+  'attendance.loadError': 'Error Loading Attendance',
+  'attendance.loadFailed': 'Failed to load attendance',
+  'attendance.saveFailed': 'Failed to save attendance',
+  'attendance.noteSaveFailed': 'Failed to save note',
+
+  // User activity
+  'activity.type.account_created': 'Created',
+  'activity.type.role_changed': 'Role',
+  'activity.type.profile_updated': 'Profile',
+  'activity.type.deleted': 'Deleted',
+  'activity.type.restored': 'Restored',
+  'activity.type.login': 'Sign-in',
+  'activity.type.lesson_attended': 'Lesson',
+  'activity.by': 'by {name}',
+  'activity.empty': 'No activity recorded',
+  'activity.loadMore': 'Load more',
+  'activity.loadError': 'Error Loading Activity',
+  'activity.loadFailed': 'Failed to load activity',
+
+  // User filter presets
+  'presets.placeholder': 'Saved filters',
+  'presets.empty': 'No saved filters yet',
+  'presets.defaultName': '{name} (default)',
+  'presets.save': 'Save Filters',
+  'presets.setDefault': 'Set as default',
+  'presets.removeDefault': 'Remove as default',
+  'presets.rename': 'Rename',
+  'presets.renameLabel': 'Rename preset',
+  'presets.deleteLabel': 'Delete preset',
+  'presets.saveTitle': 'Save Filters as Preset',
+  'presets.renameTitle': 'Rename Preset',
+  'presets.namePlaceholder': 'e.g. Teachers in Ontario',
+  'presets.nameTaken': 'A preset with this name already exists',
+  'presets.deleteTitle': 'Delete preset?',
+  'presets.deleteMessage': 'The saved filters "{name}" will be removed.',
+
+  // User import
+  'userImport.title': 'Import Users from CSV',
+  'userImport.drop': 'Click or drag a CSV file to this area',
+  'userImport.reading': 'Reading file...',
+  'userImport.hint': 'Columns: name, email, phone, role, country, province, note. Role, country and province are matched by name.',
+  'userImport.readError': 'Could Not Read File',
+  'userImport.readFailed': 'Failed to read file',
+  'userImport.noRows': 'The file has no data rows',
+  'userImport.createFailed': 'Failed to create user',
+  'userImport.row': 'Row',
+  'userImport.valid': 'Valid',
+  'userImport.invalid': 'Invalid',
+  'userImport.errors': 'Errors',
+  'userImport.validRows': '{valid} of {count} rows are valid',
+  'userImport.skipped': 'Rows with errors will be skipped. Fix them in the file and import it again, or download the error report after importing.',
+  'userImport.chooseAnother': 'Choose Another File',
+  'userImport.import': { one: 'Import {count} Valid User', other: 'Import {count} Valid Users' },
+  'userImport.done': '{imported} users imported, {failed} rows not imported',
+  'userImport.downloadReport': 'Download Error Report',
+  'userImport.close': 'Close',
+
+  // Roles
+  'roles.title': 'Roles',
+  'roles.add': 'Add Role',
+  'roles.loadError': 'Error Loading Roles',
+  'roles.loadFailed': 'Failed to load roles',
+  'roles.empty': 'No roles found',
+  'roles.field.name': 'Name',
+  'roles.field.description': 'Description',
+  'roles.field.color': 'Tag Colour',
+  'roles.editTitle': 'Edit Role',
+  'roles.create': 'Create Role',
+  'roles.created': 'Role {name} created',
+  'roles.updated': 'Role {name} updated',
+  'roles.saveFailed': 'Failed to save role',
+  'roles.namePlaceholder': 'e.g. TEACHER',
+  'roles.nameBlank': 'Name cannot be blank',
+  'roles.nameTooLong': 'Name must be at most {max} characters',
+
+  // Studio opening hours
+  'openingHours.closed': 'Closed',
+  'openingHours.openingTime': '{day} opening time',
+  'openingHours.closingTime': '{day} closing time',
+  'openingHours.duplicateDay': '{day} is listed twice',
+  'openingHours.timesRequired': 'Opening and closing times are required on {day}',
+  'openingHours.closeBeforeOpen': 'Closing time must be after opening time on {day}',
+
+  // Studios
+  'studios.title': 'Studios',
+  'studios.add': 'Add Studio',
+  'studios.loading': 'Loading studios...',
+  'studios.loadError': 'Error Loading Studios',
+  'studios.fetchFailed': 'Failed to fetch studios',
+  'studios.loadFailed': 'Failed to load studios',
+  'studios.empty': 'No studios found',
+  'studios.namePlaceholder': 'Enter studio name',
+  'studios.deleted': 'Studio {name} deleted',
+  'studios.deleteFailed': 'Failed to delete studio',
+  'studios.deleteTitle': 'Delete studio?',
+  'studios.deleteMessage': '{name} and its rooms will be permanently removed.',
+  'studios.field.name': 'Name',
+  'studios.field.address': 'Address',
+  'studios.field.country': 'Country',
+  'studios.field.province': 'Province',
+  'studios.field.location': 'Country / Province',
+  'studios.field.phone': 'Phone',
+  'studios.field.openingHours': 'Opening Hours',
+  'studios.field.note': 'Note',
+  'studios.form.editTitle': 'Edit Studio',
+  'studios.form.create': 'Create Studio',
+  'studios.form.loading': 'Loading studio...',
+  'studios.form.loadError': 'Error Loading Studio',
+  'studios.form.loadFailed': 'Failed to load studio',
+  'studios.form.saveFailed': 'Failed to save studio',
+  'studios.form.created': 'Studio {name} created',
+  'studios.form.updated': 'Studio {name} updated',
+  'studios.form.nameBlank': 'Name cannot be blank',
+  'studios.form.addressBlank': 'Address cannot be blank',
+  'studios.detail.title': 'Studio Details',
+  'studios.detail.tab.rooms': 'Rooms',
+
+  // Rooms
+  'rooms.add': 'Add Room',
+  'rooms.editTitle': 'Edit Room',
+  'rooms.create': 'Create Room',
+  'rooms.loadError': 'Error Loading Rooms',
+  'rooms.loadFailed': 'Failed to load rooms',
+  'rooms.empty': 'No rooms yet',
+  'rooms.created': 'Room {name} created',
+  'rooms.updated': 'Room {name} updated',
+  'rooms.saveFailed': 'Failed to save room',
+  'rooms.deleted': 'Room {name} deleted',
+  'rooms.deleteFailed': 'Failed to delete room',
+  'rooms.deleteTitle': 'Delete room?',
+  'rooms.deleteMessage': '{name} will be permanently removed from this studio.',
+  'rooms.field.name': 'Name',
+  'rooms.field.type': 'Type',
+  'rooms.field.capacity': 'Capacity',
+  'rooms.field.equipment': 'Equipment',
+  'rooms.field.note': 'Note',
+  'rooms.namePlaceholder': 'e.g. Practice Room A',
+  'rooms.equipmentPlaceholder': 'Select or type equipment',
+  'rooms.typeRequired': 'Type is required',
+  'rooms.capacityRequired': 'Capacity is required',
+  'rooms.statusRequired': 'Status is required',
+  'rooms.type.lesson': 'Lesson room',
+  'rooms.type.practice': 'Practice room',
+  'rooms.status.open': 'Open',
+  'rooms.status.maintenance': 'Under maintenance',
+
+  // Lesson conflicts
+  'lessonConflicts.roomBooked': 'Room is already booked {time}',
+  'lessonConflicts.teacherBooked': 'Teacher already teaches a lesson {time}',
+  'lessonConflicts.studentBooked': 'Student already has a lesson {time}',
+  'lessonConflicts.outsideOpeningHours': 'Studio is open {open}–{close} on {day} (your local time)',
+  'lessonConflicts.studioClosed': 'Studio is closed on {day}',
+  'lessonConflicts.title': 'This lesson conflicts with the schedule',
+  'lessonConflicts.freeSlots': 'Free slots nearby:',
+  'lessonConflicts.noFreeSlot': 'No free slot found in the next {days} days.',
+
+  // Schedule
+  'schedule.title': 'Schedule',
+  'schedule.loading': 'Loading lessons...',
+  'schedule.loadError': 'Error Loading Lessons',
+  'schedule.loadFailed': 'Failed to load lessons',
+  'schedule.today': 'Today',
+  'schedule.previous': 'Previous',
+  'schedule.next': 'Next',
+  'schedule.view.day': 'Day',
+  'schedule.view.week': 'Week',
+  'schedule.view.month': 'Month',
+  'schedule.allStudios': 'All studios',
+  'schedule.allRooms': 'All rooms',
+  'schedule.allTeachers': 'All teachers',
+  'schedule.dragHint': 'Drag across time slots to create a lesson.',
+  'schedule.unavailableHint': "Grey slots are outside the teacher's availability.",
+  'schedule.recurringLesson': 'Recurring lesson',
+  'schedule.more': '+{count} more',
+
+  // Lessons
+  'lesson.title': 'Lesson',
+  'lesson.newTitle': 'New Lesson',
+  'lesson.editTitle': 'Edit Lesson',
+  'lesson.create': 'Create Lesson',
+  'lesson.created': 'Lesson created',
+  'lesson.seriesCreated': 'Lesson series created',
+  'lesson.updated': 'Lesson updated',
+  'lesson.seriesUpdated': 'Lessons updated',
+  'lesson.saveFailed': 'Failed to save lesson',
+  'lesson.deleted': 'Lesson deleted',
+  'lesson.seriesDeleted': 'Lessons deleted',
+  'lesson.deleteFailed': 'Failed to delete lesson',
+  'lesson.deleteTitle': 'Delete lesson?',
+  'lesson.deleteMessage': 'The lesson of {student} with {teacher} will be removed from the schedule.',
+  'lesson.recurring': 'Recurring lesson: {description}',
+  'lesson.field.studio': 'Studio',
+  'lesson.field.room': 'Room',
+  'lesson.field.teacher': 'Teacher',
+  'lesson.field.student': 'Student',
+  'lesson.field.date': 'Date',
+  'lesson.field.start': 'Start',
+  'lesson.field.end': 'End',
+  'lesson.field.repeat': 'Repeat',
+  'lesson.field.occurrences': 'Lessons',
+  'lesson.field.note': 'Note',
+  'lesson.studioRequired': 'Studio is required',
+  'lesson.roomRequired': 'Room is required',
+  'lesson.teacherRequired': 'Teacher is required',
+  'lesson.studentRequired': 'Student is required',
+  'lesson.dateRequired': 'Date is required',
+  'lesson.startRequired': 'Start time is required',
+  'lesson.endRequired': 'End time is required',
+  'lesson.endBeforeStart': 'End time must be after start time',
+  'lesson.occurrencesRequired': 'Number of lessons is required',
+  'lesson.selectStudio': 'Select studio',
+  'lesson.selectRoom': 'Select room',
+  'lesson.selectStudioFirst': 'Select a studio first',
+  'lesson.selectTeacher': 'Select teacher',
+  'lesson.selectStudent': 'Select student',
+  'lesson.roomUnderMaintenance': '{name} (under maintenance)',
+  'lesson.overrideAvailability': "Book outside the teacher's availability",
+  'lesson.repeat.none': 'Does not repeat',
+  'lesson.repeat.weekly': 'Weekly',
+  'lesson.repeat.biweekly': 'Every 2 weeks',
+
+  // Recurring lesson scope
+  'recurrenceScope.saveTitle': 'Save recurring lesson',
+  'recurrenceScope.deleteTitle': 'Delete recurring lesson',
+  'recurrenceScope.occurrence': 'This lesson',
+  'recurrenceScope.following': 'This and following lessons',
+  'recurrenceScope.series': 'All lessons of the series',
+
+  // Dashboard
+  'dashboard.title': 'Dashboard',
+  'dashboard.welcome': 'Welcome to MYC Studio Management System',
+  'dashboard.welcomeBack': 'Welcome back, {name}',
+  'dashboard.empty': 'Nothing to show on your dashboard yet',
+  'dashboard.widget.activeUsers': 'Active Users',
+  'dashboard.widget.newUsers': 'New Users',
+  'dashboard.widget.todayLessons': "Today's Lessons",
+  'dashboard.widget.roomUtilisation': 'Room Utilisation',
+  'dashboard.widget.attendance': 'Attendance Check-in',
+  'dashboard.widget.recentErrors': 'Recent Errors',
+  'dashboard.viewUsers': 'View users',
+  'dashboard.total': 'Total',
+  'dashboard.noActiveUsers': 'No active users',
+  'dashboard.thisMonth': 'This month',
+  'dashboard.lastMonth': '{count} last month',
+  'dashboard.roomUtilisationThisWeek': 'Room Utilisation This Week',
+  'dashboard.roomUtilisationLabel': '{room} utilisation',
+  'dashboard.noOpenRooms': 'No open rooms',
+  'dashboard.openSchedule': 'Open schedule',
+  'dashboard.noLessonsToday': 'No lessons scheduled today',
+  'dashboard.noRecentErrors': 'No recent errors',
+  'dashboard.myLessonsToday': 'My Lessons Today',
+  'dashboard.selectTeacherHint': 'Select a teacher to check in lessons',
+  'dashboard.attendanceOf': 'Attendance of {student}',
+  'dashboard.attendanceNoteOf': 'Attendance note of {student}',
+
+  // Audit log
+  'audit.title': 'Audit Log',
+  'audit.loadError': 'Error Loading Audit Log',
+  'audit.fetchFailed': 'Failed to fetch audit events',
+  'audit.empty': 'No audit events found',
+  'audit.noFieldChanged': 'No field changed',
+  'audit.actorPlaceholder': 'Name or email',
+  'audit.entityType': 'Entity type',
+  'audit.allTypes': 'All types',
+  'audit.from': 'From',
+  'audit.to': 'To',
+  'audit.toBeforeFrom': 'To must be on or after From',
+  'audit.column.time': 'Time',
+  'audit.column.actor': 'Actor',
+  'audit.column.action': 'Action',
+  'audit.column.entity': 'Entity',
+  'audit.column.changes': 'Changes',
+  'audit.column.requestId': 'Request ID',
+  'audit.column.field': 'Field',
+  'audit.column.before': 'Before',
+  'audit.column.after': 'After',
+  'audit.action.create': 'Created',
+  'audit.action.update': 'Updated',
+  'audit.action.delete': 'Deleted',
+  'audit.action.restore': 'Restored',
+  'audit.entityType.user': 'User',
+  'audit.field.deleted': 'Deleted',
+
+  // Notifications
+  'notifications.title': 'Notifications',
+  'notifications.bellUnread': 'Notifications, {count} unread',
+  'notifications.markRead': 'Mark as read',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.markReadFailed': 'Failed to mark notification as read',
+  'notifications.markAllReadFailed': 'Failed to mark notifications as read',
+  'notifications.viewAll': 'View all notifications',
+  'notifications.empty': 'No notifications',
+  'notifications.emptyUnread': 'No unread notifications',
+  'notifications.loadError': 'Error Loading Notifications',
+  'notifications.fetchFailed': 'Failed to fetch notifications',
+  'notifications.filter.all': 'All',
+  'notifications.filter.unread': 'Unread ({count})',
+  'notifications.justNow': 'Just now',
+  'notifications.minutesAgo': '{count} min ago',
+  'notifications.hoursAgo': '{count} h ago',
+  'notifications.daysAgo': '{count} d ago',
+
+  // Command palette
+  'commandPalette.placeholder': 'Search users, studios and pages, or type a command',
+  'commandPalette.searching': 'Searching...',
+  'commandPalette.noResults': 'No results',
+  'commandPalette.pages': 'Pages',
+  'commandPalette.goTo': 'Go to {page}',
+  'commandPalette.addUser': 'Add user',
+  'commandPalette.logOut': 'Log out',
+
+  // API error messages (ERROR_MESSAGES codes)
+  'errors.AUTH_TOKEN_EXPIRED': 'Your session has expired. Please log in again.',
+  'errors.AUTH_INVALID_TOKEN': 'Invalid authentication. Please log in again.',
+  'errors.AUTH_INSUFFICIENT_PERMISSIONS': "You don't have permission to perform this action.",
+  'errors.NETWORK_ERROR': 'Network connection failed. Please check your internet connection.',
+  'errors.NETWORK_TIMEOUT': 'Request timed out. Please try again.',
+  'errors.SERVER_ERROR': 'Server error occurred. Our team has been notified.',
+  'errors.SERVICE_UNAVAILABLE': 'Service is temporarily unavailable. Please try again later.',
+  'errors.RATE_LIMIT_EXCEEDED': 'Too many requests. Please wait a moment before trying again.',
+  'errors.VALIDATION_ERROR': 'Please check your input and try again.',
+  'errors.INVALID_REQUEST': 'Invalid request format.',
+  'errors.RESOURCE_NOT_FOUND': 'The requested resource was not found.',
+  'errors.RESOURCE_CONFLICT': 'This action conflicts with existing data.',
+  'errors.UNKNOWN_ERROR': 'An unexpected error occurred. Please try again.',
+  'errors.networkConnectionFailed': 'Network connection failed',
+  'errors.unexpected': 'An unexpected error occurred',
+
+  // Error notification titles by severity
+  'errors.title.critical': 'Critical Error',
+  'errors.title.high': 'Error',
+  'errors.title.medium': 'Warning',
+  'errors.title.low': 'Notice',
+} satisfies Record<string, Message>;
+
+/**
+ * Key of a message in the catalogues
+ */
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,576 @@
+/**
+ * French Message Catalogue (Canadian French)
+ *
+ * Must define every key of the English catalogue.
+ */
+
+import type { Message } from '../types';
+import type { MessageKey } from './en';
+
+export const fr: Record<MessageKey, Message> = {
+  // Header and navigation
+  'header.appName': 'Système de gestion des studios MYC',
+  'header.logout': 'Déconnexion',
+  'header.language': 'Langue',
+  'header.search': 'Rechercher',
+  'nav.dashboard': 'Tableau de bord',
+  'nav.users': 'Utilisateurs',
+  'nav.roles': 'Rôles',
+  'nav.studios': 'Studios',
+  'nav.schedule': 'Horaire',
+  'nav.audit': "Journal d'audit",
+  'nav.notifications': 'Notifications',
+
+  // Shared labels
+  'common.retry': 'Réessayer',
+  'common.yes': 'Oui',
+  'common.no': 'Non',
+  'common.close': 'Fermer',
+  'common.cancel': 'Annuler',
+  'common.delete': 'Supprimer',
+  'common.edit': 'Modifier',
+  'common.restore': 'Restaurer',
+  'common.refresh': 'Actualiser',
+  'common.save': 'Enregistrer',
+  'common.saveChanges': 'Enregistrer les modifications',
+  'common.actions': 'Actions',
+  'common.status': 'Statut',
+  'common.name': 'Nom',
+  'common.email': 'Courriel',
+  'common.phone': 'Téléphone',
+  'common.role': 'Rôle',
+
+  // Permissions
+  'permissions.loadFailed': "Vos autorisations n'ont pas pu être chargées.",
+
+  // Login page
+  'login.title': 'Gestion des studios MYC',
+  'login.subtitle': 'Veuillez vous connecter avec Google pour continuer',
+  'login.continueWithGoogle': 'Continuer avec Google',
+  'login.signingIn': 'Connexion avec Google...',
+  'login.securedByGoogle': 'Authentification sécurisée par Google',
+
+  // Unauthorized page
+  'unauthorized.title': 'Accès refusé',
+  'unauthorized.message': "Vous n'avez pas la permission d'accéder à cette page. Veuillez communiquer avec votre administrateur si vous croyez qu'il s'agit d'une erreur.",
+  'unauthorized.goToDashboard': 'Aller au tableau de bord',
+  'unauthorized.goBack': 'Retour',
+
+  // User filters
+  'userFilters.name': 'Nom',
+  'userFilters.namePlaceholder': 'Entrez un nom',
+  'userFilters.email': 'Courriel',
+  'userFilters.emailPlaceholder': 'Entrez un courriel',
+  'userFilters.phone': 'Téléphone',
+  'userFilters.phonePlaceholder': 'Entrez un numéro de téléphone',
+  'userFilters.role': 'Rôle',
+  'userFilters.rolePlaceholder': 'Sélectionnez un rôle',
+  'userFilters.country': 'Pays',
+  'userFilters.countryPlaceholder': 'Sélectionnez un pays',
+  'userFilters.province': 'Province',
+  'userFilters.provincePlaceholder': 'Sélectionnez une province',
+  'userFilters.selectCountryFirst': "Veuillez d'abord sélectionner un pays",
+  'userFilters.noProvinces': 'Aucune province trouvée',
+  'userFilters.status': 'Statut',
+  'userFilters.active': 'Actif',
+  'userFilters.deleted': 'Supprimé',
+  'userFilters.search': 'Rechercher',
+  'userFilters.reset': 'Réinitialiser',
+
+  // Table pagination totals
+  'table.totalItems': { one: '{start}-{end} sur {count} élément', other: '{start}-{end} sur {count} éléments' },
+  'table.totalUsers': { one: '{start}-{end} sur {count} utilisateur', other: '{start}-{end} sur {count} utilisateurs' },
+  'table.totalStudios': { one: '{start}-{end} sur {count} studio', other: '{start}-{end} sur {count} studios' },
+  'table.totalEvents': { one: '{start}-{end} sur {count} événement', other: '{start}-{end} sur {count} événements' },
+
+  // Recurring lessons
+  'recurrence.daily': { one: 'Chaque jour', other: 'Tous les {count} jours' },
+  'recurrence.weekly': { one: 'Chaque {days}', other: 'Toutes les {count} semaines le {days}' },
+  'recurrence.times': { one: '{pattern}, une fois', other: '{pattern}, {count} fois' },
+  'recurrence.until': "{pattern} jusqu'au {date}",
+
+  // Users
+  'users.title': 'Utilisateurs',
+  'users.importCsv': 'Importer un CSV',
+  'users.addUser': 'Ajouter un utilisateur',
+  'users.loadError': 'Erreur de chargement des utilisateurs',
+  'users.loading': 'Chargement des utilisateurs...',
+  'users.empty': 'Aucun utilisateur trouvé. Modifiez vos filtres ou ajoutez un utilisateur.',
+  'users.fetchFailed': 'Impossible de charger les utilisateurs',
+  'users.deleteTitle': "Supprimer l'utilisateur?",
+  'users.deleteMessage': '{name} sera déplacé vers les utilisateurs supprimés.',
+  'users.deleted': 'Utilisateur {name} supprimé',
+  'users.deleteFailed': "Impossible de supprimer l'utilisateur",
+  'users.restored': 'Utilisateur {name} restauré',
+  'users.restoreFailed': "Impossible de restaurer l'utilisateur",
+  'users.bulkDeleteTitle': 'Supprimer les utilisateurs sélectionnés?',
+  'users.bulkDeleteMessage': 'Les utilisateurs sélectionnés seront déplacés vers les utilisateurs supprimés.',
+  'users.bulkFailed': "L'opération groupée a échoué",
+  'users.bulk.create': { one: '{count} utilisateur créé', other: '{count} utilisateurs créés' },
+  'users.bulk.update': { one: '{count} utilisateur mis à jour', other: '{count} utilisateurs mis à jour' },
+  'users.bulk.delete': { one: '{count} utilisateur supprimé', other: '{count} utilisateurs supprimés' },
+  'users.bulk.restore': { one: '{count} utilisateur restauré', other: '{count} utilisateurs restaurés' },
+  'users.bulk.upsert': { one: '{count} utilisateur enregistré', other: '{count} utilisateurs enregistrés' },
+  'users.bulkResult.create': '{successful} utilisateurs sur {count} créés, {failed} en échec',
+  'users.bulkResult.update': '{successful} utilisateurs sur {count} mis à jour, {failed} en échec',
+  'users.bulkResult.delete': '{successful} utilisateurs sur {count} supprimés, {failed} en échec',
+  'users.bulkResult.restore': '{successful} utilisateurs sur {count} restaurés, {failed} en échec',
+  'users.bulkResult.upsert': '{successful} utilisateurs sur {count} enregistrés, {failed} en échec',
+  'users.bulkResult.skipped': { one: '{count} ignoré après le premier échec', other: '{count} ignorés après le premier échec' },
+  'users.bulkResult.unknownUser': 'Utilisateur inconnu',
+  'users.bulkBar.selected': { one: '{count} utilisateur sélectionné', other: '{count} utilisateurs sélectionnés' },
+  'users.bulkBar.changeRole': 'Changer le rôle',
+  'users.bulkBar.clearSelection': 'Effacer la sélection',
+  'users.export.button': 'Exporter',
+  'users.export.csv': 'CSV (.csv)',
+  'users.export.xlsx': 'Excel (.xlsx)',
+  'users.export.title': 'Exportation des utilisateurs en {format}',
+  'users.export.progress': '{loaded} utilisateurs chargés sur {count}',
+  'users.export.done': { one: '{count} utilisateur exporté', other: '{count} utilisateurs exportés' },
+  'users.export.cancelled': 'Exportation annulée',
+  'users.export.failed': "Impossible d'exporter les utilisateurs",
+  'users.field.name': 'Nom',
+  'users.field.email': 'Courriel',
+  'users.field.phone': 'Téléphone',
+  'users.field.role': 'Rôle',
+  'users.field.country': 'Pays',
+  'users.field.province': 'Province',
+  'users.field.location': 'Pays / Province',
+  'users.field.note': 'Note',
+  'users.status.active': 'Actif',
+  'users.status.deleted': 'Supprimé',
+  'users.table.empty': 'Aucun utilisateur trouvé',
+  'users.form.editTitle': "Modifier l'utilisateur",
+  'users.form.create': "Créer l'utilisateur",
+  'users.form.loading': "Chargement de l'utilisateur...",
+  'users.form.loadError': "Erreur de chargement de l'utilisateur",
+  'users.form.loadFailed': "Impossible de charger l'utilisateur",
+  'users.form.saveFailed': "Impossible d'enregistrer l'utilisateur",
+  'users.form.created': 'Utilisateur {name} créé',
+  'users.form.updated': 'Utilisateur {name} mis à jour',
+  'users.form.nameBlank': 'Le nom ne peut pas être vide',
+  'users.form.countryRequired': 'Le pays est requis',
+  'users.form.provinceRequired': 'La province est requise',
+
+  // Attendance
+  'attendance.status.attended': 'Présent',
+  'attendance.status.absent_excused': 'Absent (motivé)',
+  'attendance.status.absent_unexcused': 'Absent (non motivé)',
+  'attendance.status.teacher_absent': 'Professeur absent',
+  'attendance.status.studio_cancelled': 'Annulé par le studio',
+  'attendance.invalidStatus': "Le statut de présence n'est pas valide",
+  'attendance.notStarted': "{status} ne peut être enregistré qu'une fois le cours commencé",
+  'attendance.noteTooLong': 'La note doit compter au plus {max} caractères',
+
+  // User profile
+  'users.detail.title': "Détails de l'utilisateur",
+  'users.detail.backToList': 'Retour à la liste',
+  'users.detail.tab.details': 'Détails',
+  'users.detail.tab.availability': 'Disponibilités',
+  'users.detail.tab.attendance': 'Présences',
+  'users.detail.tab.activity': 'Activité',
+
+  // User import validation
+  'userImport.emptyFile': 'Le fichier est vide',
+  'userImport.missingColumns': 'Colonnes requises manquantes : {columns}',
+  'userImport.nameRequired': 'Le nom est requis',
+  'userImport.emailRequired': 'Le courriel est requis',
+  'userImport.invalidEmail': 'Format de courriel invalide : {email}',
+  'userImport.duplicateEmail': 'Courriel en double (aussi à la ligne {row})',
+  'userImport.roleRequired': 'Le rôle est requis',
+  'userImport.unknownRole': 'Rôle inconnu : {role}',
+  'userImport.countryRequired': 'Le pays est requis',
+  'userImport.unknownCountry': 'Pays inconnu : {country}',
+  'userImport.provinceRequired': 'La province est requise',
+  'userImport.unknownProvince': 'Province inconnue pour {country} : {province}',
+
+  // Teacher availability
+  'availability.reason.vacation': 'Vacances',
+  'availability.reason.sick': 'Maladie',
+  'availability.reason.other': 'Autre',
+  'availability.awayOn': 'Le professeur est absent le {date} ({reason})',
+  'availability.awayFromTo': 'Le professeur est absent du {from} au {to} ({reason})',
+  'availability.availableOnly': 'Le professeur est disponible {times} le {day} dans ce studio (heure locale)',
+  'availability.notAvailable': "Le professeur n'est pas disponible le {day} dans ce studio",
+  'availability.slotRequired': 'Le studio, le jour, le début et la fin sont requis pour chaque plage hebdomadaire',
+  'availability.endBeforeStart': 'La fin doit suivre le début le {day} {start}–{end}',
+  'availability.overlap': '{day} {start}–{end} chevauche {otherStart}–{otherEnd}',
+  'availability.exceptionDaysRequired': 'Chaque exception doit avoir un premier et un dernier jour valides',
+  'availability.exceptionEndsBeforeStart': "L'exception du {date} se termine avant de commencer",
+  'availability.exceptionReasonRequired': "L'exception du {date} doit avoir un motif",
+
+  // Teacher availability editor
+  'availability.weeklyTitle': 'Disponibilités hebdomadaires',
+  'availability.weeklyHelp': 'Les cours ne peuvent être réservés que pendant ces plages.',
+  'availability.weeklyEmpty': 'Aucune disponibilité hebdomadaire - les cours ne peuvent pas être réservés.',
+  'availability.exceptionsTitle': 'Exceptions',
+  'availability.exceptionsHelp': 'Vacances, congés de maladie et autres jours de congé.',
+  'availability.exceptionsEmpty': 'Aucune exception',
+  'availability.studio': 'Studio',
+  'availability.selectStudio': 'Choisir un studio',
+  'availability.day': 'Jour',
+  'availability.from': 'De',
+  'availability.to': 'À',
+  'availability.removeTime': 'Retirer la plage',
+  'availability.addTime': 'Ajouter une plage',
+  'availability.firstDay': 'Premier jour',
+  'availability.lastDay': 'Dernier jour',
+  'availability.reason': 'Motif',
+  'availability.note': 'Note',
+  'availability.removeException': "Retirer l'exception",
+  'availability.addException': 'Ajouter une exception',
+  'availability.loading': 'Chargement des disponibilités...',
+  'availability.loadError': 'Erreur de chargement des disponibilités',
+  'availability.loadFailed': 'Impossible de charger les disponibilités',
+  'availability.saved': 'Disponibilités enregistrées',
+  'availability.saveFailed': "Impossible d'enregistrer les disponibilités",
+  'availability.reset': 'Réinitialiser',
+  'availability.save': 'Enregistrer les disponibilités',
+
+  // Attendance history
+  'attendance.period': 'Période',
+  'attendance.period.30': '30 derniers jours',
+  'attendance.period.90': '90 derniers jours',
+  'attendance.period.365': '12 derniers mois',
+  'attendance.column.date': 'Date',
+  'attendance.column.time': 'Heure',
+  'attendance.column.teacher': 'Professeur',
+  'attendance.column.room': 'Salle',
+  'attendance.column.attendance': 'Présence',
+  'attendance.column.note': 'Note',
+  'attendance.notRecorded': 'Non enregistrée',
+  'attendance.empty': 'Aucun cours pendant cette période',
+  'attendance.loadError': 'Erreur de chargement des présences',
+  'attendance.loadFailed': 'Impossible de charger les présences',
+  'attendance.saveFailed': "Impossible d'enregistrer la présence",
+  'attendance.noteSaveFailed': "Impossible d'enregistrer la note",
+
+  // User activity
+  'activity.type.account_created': 'Création',
+  'activity.type.role_changed': 'Rôle',
+  'activity.type.profile_updated': 'Profil',
+  'activity.type.deleted': 'Suppression',
+  'activity.type.restored': 'Restauration',
+  'activity.type.login': 'Connexion',
+  'activity.type.lesson_attended': 'Cours',
+  'activity.by': 'par {name}',
+  'activity.empty': 'Aucune activité enregistrée',
+  'activity.loadMore': 'Charger plus',
+  'activity.loadError': "Erreur de chargement de l'activité",
+  'activity.loadFailed': "Impossible de charger l'activité",
+
+  // User filter presets
+  'presets.placeholder': 'Filtres enregistrés',
+  'presets.empty': 'Aucun filtre enregistré',
+  'presets.defaultName': '{name} (par défaut)',
+  'presets.save': 'Enregistrer les filtres',
+  'presets.setDefault': 'Définir par défaut',
+  'presets.removeDefault': 'Retirer par défaut',
+  'presets.rename': 'Renommer',
+  'presets.renameLabel': 'Renommer le filtre',
+  'presets.deleteLabel': 'Supprimer le filtre',
+  'presets.saveTitle': 'Enregistrer les filtres',
+  'presets.renameTitle': 'Renommer le filtre',
+  'presets.namePlaceholder': 'p. ex. Professeurs en Ontario',
+  'presets.nameTaken': 'Un filtre porte déjà ce nom',
+  'presets.deleteTitle': 'Supprimer le filtre?',
+  'presets.deleteMessage': 'Les filtres enregistrés « {name} » seront supprimés.',
+
+  // User import
+  'userImport.title': "Importer des utilisateurs à partir d'un CSV",
+  'userImport.drop': 'Cliquez ou glissez un fichier CSV dans cette zone',
+  'userImport.reading': 'Lecture du fichier...',
+  'userImport.hint': 'Colonnes : name, email, phone, role, country, province, note. Le rôle, le pays et la province sont associés par leur nom.',
+  'userImport.readError': 'Impossible de lire le fichier',
+  'userImport.readFailed': 'Impossible de lire le fichier',
+  'userImport.noRows': 'Le fichier ne contient aucune ligne de données',
+  'userImport.createFailed': "Impossible de créer l'utilisateur",
+  'userImport.row': 'Ligne',
+  'userImport.valid': 'Valide',
+  'userImport.invalid': 'Invalide',
+  'userImport.errors': 'Erreurs',
+  'userImport.validRows': '{valid} lignes valides sur {count}',
+  'userImport.skipped': "Les lignes en erreur seront ignorées. Corrigez-les dans le fichier et importez-le de nouveau, ou téléchargez le rapport d'erreurs après l'importation.",
+  'userImport.chooseAnother': 'Choisir un autre fichier',
+  'userImport.import': { one: 'Importer {count} utilisateur valide', other: 'Importer {count} utilisateurs valides' },
+  'userImport.done': '{imported} utilisateurs importés, {failed} lignes non importées',
+  'userImport.downloadReport': "Télécharger le rapport d'erreurs",
+  'userImport.close': 'Fermer',
+
+  // Roles
+  'roles.title': 'Rôles',
+  'roles.add': 'Ajouter un rôle',
+  'roles.loadError': 'Erreur de chargement des rôles',
+  'roles.loadFailed': 'Impossible de charger les rôles',
+  'roles.empty': 'Aucun rôle trouvé',
+  'roles.field.name': 'Nom',
+  'roles.field.description': 'Description',
+  'roles.field.color': "Couleur de l'étiquette",
+  'roles.editTitle': 'Modifier le rôle',
+  'roles.create': 'Créer le rôle',
+  'roles.created': 'Rôle {name} créé',
+  'roles.updated': 'Rôle {name} mis à jour',
+  'roles.saveFailed': "Impossible d'enregistrer le rôle",
+  'roles.namePlaceholder': 'p. ex. TEACHER',
+  'roles.nameBlank': 'Le nom ne peut pas être vide',
+  'roles.nameTooLong': 'Le nom doit compter au plus {max} caractères',
+
+  // Studio opening hours
+  'openingHours.closed': 'Fermé',
+  'openingHours.openingTime': "{day} heure d'ouverture",
+  'openingHours.closingTime': '{day} heure de fermeture',
+  'openingHours.duplicateDay': '{day} figure deux fois',
+  'openingHours.timesRequired': "Les heures d'ouverture et de fermeture sont requises le {day}",
+  'openingHours.closeBeforeOpen': "L'heure de fermeture doit suivre l'heure d'ouverture le {day}",
+
+  // Studios
+  'studios.title': 'Studios',
+  'studios.add': 'Ajouter un studio',
+  'studios.loading': 'Chargement des studios...',
+  'studios.loadError': 'Erreur de chargement des studios',
+  'studios.fetchFailed': 'Impossible de récupérer les studios',
+  'studios.loadFailed': 'Impossible de charger les studios',
+  'studios.empty': 'Aucun studio trouvé',
+  'studios.namePlaceholder': 'Saisir le nom du studio',
+  'studios.deleted': 'Studio {name} supprimé',
+  'studios.deleteFailed': 'Impossible de supprimer le studio',
+  'studios.deleteTitle': 'Supprimer le studio ?',
+  'studios.deleteMessage': '{name} et ses salles seront définitivement supprimés.',
+  'studios.field.name': 'Nom',
+  'studios.field.address': 'Adresse',
+  'studios.field.country': 'Pays',
+  'studios.field.province': 'Province',
+  'studios.field.location': 'Pays / Province',
+  'studios.field.phone': 'Téléphone',
+  'studios.field.openingHours': "Heures d'ouverture",
+  'studios.field.note': 'Note',
+  'studios.form.editTitle': 'Modifier le studio',
+  'studios.form.create': 'Créer le studio',
+  'studios.form.loading': 'Chargement du studio...',
+  'studios.form.loadError': 'Erreur de chargement du studio',
+  'studios.form.loadFailed': 'Impossible de charger le studio',
+  'studios.form.saveFailed': "Impossible d'enregistrer le studio",
+  'studios.form.created': 'Studio {name} créé',
+  'studios.form.updated': 'Studio {name} mis à jour',
+  'studios.form.nameBlank': 'Le nom ne peut pas être vide',
+  'studios.form.addressBlank': "L'adresse ne peut pas être vide",
+  'studios.detail.title': 'Détails du studio',
+  'studios.detail.tab.rooms': 'Salles',
+
+  // Rooms
+  'rooms.add': 'Ajouter une salle',
+  'rooms.editTitle': 'Modifier la salle',
+  'rooms.create': 'Créer la salle',
+  'rooms.loadError': 'Erreur de chargement des salles',
+  'rooms.loadFailed': 'Impossible de charger les salles',
+  'rooms.empty': 'Aucune salle pour le moment',
+  'rooms.created': 'Salle {name} créée',
+  'rooms.updated': 'Salle {name} mise à jour',
+  'rooms.saveFailed': "Impossible d'enregistrer la salle",
+  'rooms.deleted': 'Salle {name} supprimée',
+  'rooms.deleteFailed': 'Impossible de supprimer la salle',
+  'rooms.deleteTitle': 'Supprimer la salle ?',
+  'rooms.deleteMessage': '{name} sera définitivement retirée de ce studio.',
+  'rooms.field.name': 'Nom',
+  'rooms.field.type': 'Type',
+  'rooms.field.capacity': 'Capacité',
+  'rooms.field.equipment': 'Équipement',
+  'rooms.field.note': 'Note',
+  'rooms.namePlaceholder': 'ex. Salle de pratique A',
+  'rooms.equipmentPlaceholder': "Choisir ou saisir l'équipement",
+  'rooms.typeRequired': 'Le type est requis',
+  'rooms.capacityRequired': 'La capacité est requise',
+  'rooms.statusRequired': 'Le statut est requis',
+  'rooms.type.lesson': 'Salle de cours',
+  'rooms.type.practice': 'Salle de pratique',
+  'rooms.status.open': 'Ouverte',
+  'rooms.status.maintenance': 'En maintenance',
+
+  // Lesson conflicts
+  'lessonConflicts.roomBooked': 'La salle est déjà réservée {time}',
+  'lessonConflicts.teacherBooked': "L'enseignant donne déjà un cours {time}",
+  'lessonConflicts.studentBooked': "L'élève a déjà un cours {time}",
+  'lessonConflicts.outsideOpeningHours': 'Le studio est ouvert de {open} à {close} le {day} (heure locale)',
+  'lessonConflicts.studioClosed': 'Le studio est fermé le {day}',
+  'lessonConflicts.title': "Ce cours entre en conflit avec l'horaire",
+  'lessonConflicts.freeSlots': 'Créneaux libres à proximité :',
+  'lessonConflicts.noFreeSlot': 'Aucun créneau libre dans les {days} prochains jours.',
+
+  // Schedule
+  'schedule.title': 'Horaire',
+  'schedule.loading': 'Chargement des cours...',
+  'schedule.loadError': 'Erreur de chargement des cours',
+  'schedule.loadFailed': 'Impossible de charger les cours',
+  'schedule.today': "Aujourd'hui",
+  'schedule.previous': 'Précédent',
+  'schedule.next': 'Suivant',
+  'schedule.view.day': 'Jour',
+  'schedule.view.week': 'Semaine',
+  'schedule.view.month': 'Mois',
+  'schedule.allStudios': 'Tous les studios',
+  'schedule.allRooms': 'Toutes les salles',
+  'schedule.allTeachers': 'Tous les enseignants',
+  'schedule.dragHint': 'Faites glisser sur les créneaux pour créer un cours.',
+  'schedule.unavailableHint': "Les créneaux gris sont hors des disponibilités de l'enseignant.",
+  'schedule.recurringLesson': 'Cours récurrent',
+  'schedule.more': '+{count} de plus',
+
+  // Lessons
+  'lesson.title': 'Cours',
+  'lesson.newTitle': 'Nouveau cours',
+  'lesson.editTitle': 'Modifier le cours',
+  'lesson.create': 'Créer le cours',
+  'lesson.created': 'Cours créé',
+  'lesson.seriesCreated': 'Série de cours créée',
+  'lesson.updated': 'Cours mis à jour',
+  'lesson.seriesUpdated': 'Cours mis à jour',
+  'lesson.saveFailed': "Impossible d'enregistrer le cours",
+  'lesson.deleted': 'Cours supprimé',
+  'lesson.seriesDeleted': 'Cours supprimés',
+  'lesson.deleteFailed': 'Impossible de supprimer le cours',
+  'lesson.deleteTitle': 'Supprimer le cours ?',
+  'lesson.deleteMessage': "Le cours de {student} avec {teacher} sera retiré de l'horaire.",
+  'lesson.recurring': 'Cours récurrent : {description}',
+  'lesson.field.studio': 'Studio',
+  'lesson.field.room': 'Salle',
+  'lesson.field.teacher': 'Enseignant',
+  'lesson.field.student': 'Élève',
+  'lesson.field.date': 'Date',
+  'lesson.field.start': 'Début',
+  'lesson.field.end': 'Fin',
+  'lesson.field.repeat': 'Répétition',
+  'lesson.field.occurrences': 'Cours',
+  'lesson.field.note': 'Note',
+  'lesson.studioRequired': 'Le studio est requis',
+  'lesson.roomRequired': 'La salle est requise',
+  'lesson.teacherRequired': "L'enseignant est requis",
+  'lesson.studentRequired': "L'élève est requis",
+  'lesson.dateRequired': 'La date est requise',
+  'lesson.startRequired': "L'heure de début est requise",
+  'lesson.endRequired': "L'heure de fin est requise",
+  'lesson.endBeforeStart': "L'heure de fin doit suivre l'heure de début",
+  'lesson.occurrencesRequired': 'Le nombre de cours est requis',
+  'lesson.selectStudio': 'Choisir un studio',
+  'lesson.selectRoom': 'Choisir une salle',
+  'lesson.selectStudioFirst': "Choisissez d'abord un studio",
+  'lesson.selectTeacher': 'Choisir un enseignant',
+  'lesson.selectStudent': 'Choisir un élève',
+  'lesson.roomUnderMaintenance': '{name} (en maintenance)',
+  'lesson.overrideAvailability': "Réserver hors des disponibilités de l'enseignant",
+  'lesson.repeat.none': 'Ne se répète pas',
+  'lesson.repeat.weekly': 'Chaque semaine',
+  'lesson.repeat.biweekly': 'Toutes les 2 semaines',
+
+  // Recurring lesson scope
+  'recurrenceScope.saveTitle': 'Enregistrer le cours récurrent',
+  'recurrenceScope.deleteTitle': 'Supprimer le cours récurrent',
+  'recurrenceScope.occurrence': 'Ce cours',
+  'recurrenceScope.following': 'Ce cours et les suivants',
+  'recurrenceScope.series': 'Tous les cours de la série',
+
+  // Dashboard
+  'dashboard.title': 'Tableau de bord',
+  'dashboard.welcome': 'Bienvenue dans le système de gestion des studios MYC',
+  'dashboard.welcomeBack': 'Bon retour, {name}',
+  'dashboard.empty': "Rien à afficher sur votre tableau de bord pour l'instant",
+  'dashboard.widget.activeUsers': 'Utilisateurs actifs',
+  'dashboard.widget.newUsers': 'Nouveaux utilisateurs',
+  'dashboard.widget.todayLessons': "Cours d'aujourd'hui",
+  'dashboard.widget.roomUtilisation': 'Occupation des salles',
+  'dashboard.widget.attendance': 'Prise des présences',
+  'dashboard.widget.recentErrors': 'Erreurs récentes',
+  'dashboard.viewUsers': 'Voir les utilisateurs',
+  'dashboard.total': 'Total',
+  'dashboard.noActiveUsers': 'Aucun utilisateur actif',
+  'dashboard.thisMonth': 'Ce mois-ci',
+  'dashboard.lastMonth': '{count} le mois dernier',
+  'dashboard.roomUtilisationThisWeek': 'Occupation des salles cette semaine',
+  'dashboard.roomUtilisationLabel': 'Occupation de {room}',
+  'dashboard.noOpenRooms': 'Aucune salle ouverte',
+  'dashboard.openSchedule': "Ouvrir l'horaire",
+  'dashboard.noLessonsToday': "Aucun cours prévu aujourd'hui",
+  'dashboard.noRecentErrors': 'Aucune erreur récente',
+  'dashboard.myLessonsToday': "Mes cours d'aujourd'hui",
+  'dashboard.selectTeacherHint': 'Choisissez un enseignant pour prendre les présences',
+  'dashboard.attendanceOf': 'Présence de {student}',
+  'dashboard.attendanceNoteOf': 'Note de présence de {student}',
+
+  // Audit log
+  'audit.title': "Journal d'audit",
+  'audit.loadError': "Erreur de chargement du journal d'audit",
+  'audit.fetchFailed': "Impossible de récupérer les événements d'audit",
+  'audit.empty': "Aucun événement d'audit trouvé",
+  'audit.noFieldChanged': 'Aucun champ modifié',
+  'audit.actorPlaceholder': 'Nom ou courriel',
+  'audit.entityType': "Type d'entité",
+  'audit.allTypes': 'Tous les types',
+  'audit.from': 'Du',
+  'audit.to': 'Au',
+  'audit.toBeforeFrom': 'La date de fin doit suivre la date de début',
+  'audit.column.time': 'Heure',
+  'audit.column.actor': 'Auteur',
+  'audit.column.action': 'Action',
+  'audit.column.entity': 'Entité',
+  'audit.column.changes': 'Modifications',
+  'audit.column.requestId': 'ID de requête',
+  'audit.column.field': 'Champ',
+  'audit.column.before': 'Avant',
+  'audit.column.after': 'Après',
+  'audit.action.create': 'Créé',
+  'audit.action.update': 'Modifié',
+  'audit.action.delete': 'Supprimé',
+  'audit.action.restore': 'Restauré',
+  'audit.entityType.user': 'Utilisateur',
+  'audit.field.deleted': 'Supprimé',
+
+  // Notifications
+  'notifications.title': 'Notifications',
+  'notifications.bellUnread': 'Notifications, {count} non lues',
+  'notifications.markRead': 'Marquer comme lue',
+  'notifications.markAllRead': 'Tout marquer comme lu',
+  'notifications.markReadFailed': 'Impossible de marquer la notification comme lue',
+  'notifications.markAllReadFailed': 'Impossible de marquer les notifications comme lues',
+  'notifications.viewAll': 'Voir toutes les notifications',
+  'notifications.empty': 'Aucune notification',
+  'notifications.emptyUnread': 'Aucune notification non lue',
+  'notifications.loadError': 'Erreur de chargement des notifications',
+  'notifications.fetchFailed': 'Impossible de récupérer les notifications',
+  'notifications.filter.all': 'Toutes',
+  'notifications.filter.unread': 'Non lues ({count})',
+  'notifications.justNow': "À l'instant",
+  'notifications.minutesAgo': 'il y a {count} min',
+  'notifications.hoursAgo': 'il y a {count} h',
+  'notifications.daysAgo': 'il y a {count} j',
+
+  // Command palette
+  'commandPalette.placeholder': 'Rechercher des utilisateurs, des studios et des pages, ou saisir une commande',
+  'commandPalette.searching': 'Recherche...',
+  'commandPalette.noResults': 'Aucun résultat',
+  'commandPalette.pages': 'Pages',
+  'commandPalette.goTo': 'Aller à {page}',
+  'commandPalette.addUser': 'Ajouter un utilisateur',
+  'commandPalette.logOut': 'Se déconnecter',
+
+  // API error messages (ERROR_MESSAGES codes)
+  'errors.AUTH_TOKEN_EXPIRED': 'Votre session a expiré. Veuillez vous reconnecter.',
+  'errors.AUTH_INVALID_TOKEN': 'Authentification invalide. Veuillez vous reconnecter.',
+  'errors.AUTH_INSUFFICIENT_PERMISSIONS': "Vous n'avez pas la permission d'effectuer cette action.",
+  'errors.NETWORK_ERROR': 'La connexion réseau a échoué. Veuillez vérifier votre connexion Internet.',
+  'errors.NETWORK_TIMEOUT': 'La requête a expiré. Veuillez réessayer.',
+  'errors.SERVER_ERROR': 'Une erreur de serveur est survenue. Notre équipe a été avisée.',
+  'errors.SERVICE_UNAVAILABLE': 'Le service est temporairement indisponible. Veuillez réessayer plus tard.',
+  'errors.RATE_LIMIT_EXCEEDED': 'Trop de requêtes. Veuillez patienter un moment avant de réessayer.',
+  'errors.VALIDATION_ERROR': 'Veuillez vérifier les données saisies et réessayer.',
+  'errors.INVALID_REQUEST': 'Format de requête invalide.',
+  'errors.RESOURCE_NOT_FOUND': 'La ressource demandée est introuvable.',
+  'errors.RESOURCE_CONFLICT': 'Cette action entre en conflit avec des données existantes.',
+  'errors.UNKNOWN_ERROR': 'Une erreur inattendue est survenue. Veuillez réessayer.',
+  'errors.networkConnectionFailed': 'La connexion réseau a échoué',
+  'errors.unexpected': 'Une erreur inattendue est survenue',
+
+  // Error notification titles by severity
+  'errors.title.critical': 'Erreur critique',
+  'errors.title.high': 'Erreur',
+  'errors.title.medium': 'Avertissement',
+  'errors.title.low': 'Avis',
+};
@@ -0,0 +1,51 @@
+/**
+ * Message Translation Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { translate } from './translate';
+import { resolveLocale } from './locales';
+import { en } from './messages/en';
+import { fr } from './messages/fr';
+
+describe('translate', () => {
+  it('should translate a message into the locale language', () => {
+    expect(translate('en-AU', 'unauthorized.title')).toBe('Access Denied');
+    expect(translate('fr-CA', 'unauthorized.title')).toBe('Accès refusé');
+  });
+
+  it('should pick the plural form of the locale', () => {
+    expect(translate('en-CA', 'table.totalUsers', { start: 1, end: 1, count: 1 })).toBe('1-1 of 1 user');
+    expect(translate('en-CA', 'table.totalUsers', { start: 0, end: 0, count: 0 })).toBe('0-0 of 0 users');
+    // French uses the singular for zero
+    expect(translate('fr-CA', 'table.totalUsers', { start: 0, end: 0, count: 0 })).toBe('0-0 sur 0 utilisateur');
+    expect(translate('fr-CA', 'table.totalUsers', { start: 1, end: 10, count: 25 })).toBe('1-10 sur 25 utilisateurs');
+  });
+
+  it('should format numbers for the locale', () => {
+    expect(translate('en-SG', 'table.totalItems', { start: 1, end: 10, count: 1250 })).toBe('1-10 of 1,250 items');
+    expect(translate('fr-CA', 'table.totalItems', { start: 1, end: 10, count: 1250 }))
+      .toBe(`1-10 sur ${new Intl.NumberFormat('fr-CA').format(1250)} éléments`);
+  });
+
+  it('should leave placeholders without a parameter', () => {
+    expect(translate('en-CA', 'table.totalItems', { count: 2 })).toBe('{start}-{end} of 2 items');
+  });
+
+  it('should define every English message in French', () => {
+    expect(Object.keys(fr).sort()).toEqual(Object.keys(en).sort());
+  });
+});
+
+describe('resolveLocale', () => {
+  it('should prefer an exact match, then the same language', () => {
+    expect(resolveLocale(['en-SG', 'fr-CA'])).toBe('en-SG');
+    expect(resolveLocale(['fr-FR'])).toBe('fr-CA');
+    expect(resolveLocale(['de-DE', 'en-US'])).toBe('en-CA');
+  });
+
+  it('should fall back to the default locale', () => {
+    expect(resolveLocale(['ja-JP'])).toBe('en-CA');
+    expect(resolveLocale([])).toBe('en-CA');
+  });
+});
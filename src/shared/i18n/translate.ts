@@ -0,0 +1,40 @@
+/**
+ * Message Translation
+ *
+ * Looks up a message for a locale, picks its plural form and fills in
+ * its parameters. Messages missing from a catalogue fall back to English.
+ */
+
+import { LOCALES, type CatalogueLanguage, type SupportedLocale } from './locales';
+import { en, type MessageKey } from './messages/en';
+import { fr } from './messages/fr';
+import type { Message, MessageParams, PluralMessage } from './types';
+
+const CATALOGUES: Record<CatalogueLanguage, Partial<Record<MessageKey, Message>>> = { en, fr };
+
+// Helper to pick the plural form of a message for a count
+function selectPluralForm(locale: SupportedLocale, message: PluralMessage, count: number): string {
+  const category = new Intl.PluralRules(locale).select(count);
+  return message[category] ?? message.other;
+}
+
+/**
+ * Message for a locale with its parameters filled in
+ *
+ * @example
+ * translate('fr-CA', 'table.totalUsers', { start: 1, end: 10, count: 25 }) // '1-10 sur 25 utilisateurs'
+ */
+export function translate(locale: SupportedLocale, key: MessageKey, params: MessageParams = {}): string {
+  const language = LOCALES.find(item => item.value === locale)?.language ?? 'en';
+  const message = CATALOGUES[language][key] ?? en[key];
+  const template = typeof message === 'string'
+    ? message
+    : selectPluralForm(locale, message, Number(params.count ?? 0));
+
+  const numberFormat = new Intl.NumberFormat(locale);
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? numberFormat.format(value) : value;
+  });
+}
@@ -0,0 +1,20 @@
+/**
+ * i18n Types
+ */
+
+/**
+ * Message with one form per plural category of the locale
+ * `other` is required - it is the fallback of every language.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * Catalogue message - `{name}` placeholders are replaced by parameters
+ */
+export type Message = string | PluralMessage;
+
+/**
+ * Parameters of a message - numbers are formatted for the locale,
+ * `count` also picks the plural form
+ */
+export type MessageParams = Record<string, string | number>;
@@ -8,6 +8,7 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import type { User, LoginCredentials, AuthResponse } from '../types/domain';
+import type { Permission } from '../types/permission';
 import { auth, googleProvider } from '../../config/firebase';
 import { 
   signInWithPopup, 
@@ -27,6 +28,8 @@ interface AuthState {
   isLoading: boolean;
   error: string | null;
   isInitialized: boolean; // Tracks if auth state has been restored from Firebase
+  permissions: Permission[]; // Permissions of the signed-in user's role
+  permissionsStatus: 'idle' | 'loading' | 'loaded' | 'error';
 
   // Actions
   login: (credentials?: LoginCredentials) => Promise<void>; // Made optional for Firebase Google auth
@@ -36,11 +39,13 @@ interface AuthState {
   refreshToken: () => Promise<void>; // Not needed for Firebase, but kept for compatibility
   updateUser: (user: Partial<User>) => void;
   updateProfile: (profileData: Partial<User>) => Promise<void>;
+  setPermissions: (status: AuthState['permissionsStatus'], permissions?: Permission[]) => void;
   
   // Helpers/Selectors
   hasRole: (role: string) => boolean;
   hasAnyRole: (roles: string[]) => boolean;
   isAdmin: () => boolean;
+  hasPermission: (permission: Permission) => boolean;
   canAccess: (resource: string) => boolean;
 }
 
@@ -72,6 +77,8 @@ export const useAuthStore = create<AuthState>()(
       isLoading: false,
       error: null,
       isInitialized: false,
+      permissions: [],
+      permissionsStatus: 'idle',
 
       /**
        * Login Action - Firebase Google Authentication
@@ -88,12 +95,14 @@ export const useAuthStore = create<AuthState>()(
           // Convert Firebase user to application user format
           const user = firebaseUserToAppUser(firebaseUser);
 
-          // Update authentication state
+          // Update authentication state - permissions are loaded for the new user
           set({
             isAuthenticated: true,
             user,
             isLoading: false,
             error: null,
+            permissions: [],
+            permissionsStatus: 'idle',
           });
 
           console.log('✅ Google login successful:', user.email);
@@ -148,6 +157,8 @@ export const useAuthStore = create<AuthState>()(
             user: null,
             isLoading: false,
             error: null,
+            permissions: [],
+            permissionsStatus: 'idle',
           });
           
           console.log('✅ Logout completed');
@@ -160,6 +171,8 @@ export const useAuthStore = create<AuthState>()(
             user: null,
             isLoading: false,
             error: null,
+            permissions: [],
+            permissionsStatus: 'idle',
           });
         }
       },
@@ -189,6 +202,8 @@ export const useAuthStore = create<AuthState>()(
                 user,
                 isLoading: false,
                 isInitialized: true,
+                permissions: [],
+                permissionsStatus: 'idle',
               });
               console.log('✅ Firebase auth state restored:', user.email);
             } else {
@@ -198,6 +213,8 @@ export const useAuthStore = create<AuthState>()(
                 user: null,
                 isLoading: false,
                 isInitialized: true,
+                permissions: [],
+                permissionsStatus: 'idle',
               });
               console.log('ℹ️ No Firebase authentication found');
             }
@@ -301,26 +318,29 @@ export const useAuthStore = create<AuthState>()(
         return get().hasRole('admin');
       },
 
+      /**
+       * Set Permissions Action
+       * Stores the permissions of the signed-in user's role (see usePermission)
+       */
+      setPermissions: (status, permissions = []) => {
+        set({ permissionsStatus: status, permissions });
+      },
+
+      /**
+       * Permission Check Helper
+       * Checks if the signed-in user's role grants a permission
+       */
+      hasPermission: (permission: Permission) => {
+        const { isAuthenticated, permissions } = get();
+        return isAuthenticated && permissions.includes(permission);
+      },
+
       /**
        * Resource Access Helper
-       * Basic permission checking (can be extended)
+       * Kept for existing callers - resources are permission identifiers (e.g. 'users:write')
        */
       canAccess: (resource: string) => {
-        const { isAuthenticated, user } = get();
-        
-        if (!isAuthenticated || !user) return false;
-
-        // Basic role-based access control
-        switch (user.role) {
-          case 'admin':
-            return true; // Admins can access everything
-          case 'teacher':
-            return !resource.includes('admin'); // Teachers can access non-admin resources
-          case 'student':
-            return resource.includes('student'); // Students can only access student resources
-          default:
-            return false;
-        }
+        return get().hasPermission(resource as Permission);
       },
     }),
     {
@@ -0,0 +1,55 @@
+/**
+ * Locale Zustand Store
+ *
+ * UI locale of the app, persisted to localStorage
+ * - Starts from the browser's preferred languages on the first visit
+ * - Read by useTranslation, t() and MYCThemeProvider (Ant Design locale)
+ */
+
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { resolveLocale, type SupportedLocale } from '../i18n/locales';
+
+/**
+ * Locale State Interface
+ */
+interface LocaleState {
+  // State
+  locale: SupportedLocale;
+
+  // Actions
+  setLocale: (locale: SupportedLocale) => void;
+}
+
+// Helper to read the browser's preferred languages
+function browserLanguages(): readonly string[] {
+  if (typeof navigator === 'undefined') return [];
+  return navigator.languages?.length ? navigator.languages : [navigator.language];
+}
+
+/**
+ * Locale Store Implementation
+ */
+export const useLocaleStore = create<LocaleState>()(
+  devtools(
+    persist(
+      (set) => ({
+        // Initial State
+        locale: resolveLocale(browserLanguages()),
+
+        /**
+         * Switch the UI locale
+         */
+        setLocale: (locale) => {
+          set({ locale });
+        },
+      }),
+      {
+        name: 'myc-locale', // localStorage key
+      }
+    ),
+    {
+      name: 'locale-store', // DevTools name
+    }
+  )
+);
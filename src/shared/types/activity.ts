@@ -0,0 +1,63 @@
+/**
+ * User Activity Types for MYC Studio Management System
+ * Timeline of what happened to one account (GET /users/{id}/activity),
+ * combined from the audit log, sign-ins and lesson attendance
+ */
+
+import type { AuditActor } from './audit';
+import type { PaginationMeta } from './user';
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * Kind of activity on an account
+ */
+export type UserActivityType =
+  | 'account_created'
+  | 'role_changed'
+  | 'profile_updated'
+  | 'deleted'
+  | 'restored'
+  | 'login'
+  | 'lesson_attended';
+
+/**
+ * One entry of a user's activity timeline (GET /users/{id}/activity)
+ */
+export interface UserActivity {
+  id: string;                 // unique within the timeline
+  type: UserActivityType;
+  occurredAt: string;         // ISO 8601 date-time
+  summary: string;            // e.g. 'Role changed from USER to TEACHER'
+  actor: AuditActor | null;   // who made the change - null for the user's own sign-ins and lessons
+  requestId: string | null;   // X-Request-ID of an audited change
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * User activity query parameters (GET /users/{id}/activity)
+ */
+export interface UserActivityParams {
+  page?: number;  // Page number (default 0)
+  size?: number;  // Page size (default 20)
+}
+
+// ============================================================================
+// API Response Wrappers
+// ============================================================================
+
+/**
+ * User activity API response (GET /users/{id}/activity), newest first
+ */
+export interface UserActivityListResponse {
+  success: true;
+  requestId: string;
+  data: UserActivity[];
+  meta: PaginationMeta;
+  error: null;
+}
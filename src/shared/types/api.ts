@@ -400,7 +400,7 @@ export interface BulkOperationRequest<TData = any> {
 /**
  * Bulk Operation Types
  */
-export type BulkOperationType = 'create' | 'update' | 'delete' | 'upsert';
+export type BulkOperationType = 'create' | 'update' | 'delete' | 'restore' | 'upsert';
 
 /**
  * Bulk Operation Options
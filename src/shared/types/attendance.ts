@@ -0,0 +1,71 @@
+/**
+ * Attendance Types for MYC Studio Management System
+ * Attendance recorded per lesson (/lessons/{id}/attendance) - billing and
+ * make-up lessons depend on it
+ */
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * What happened to a lesson
+ * - absent_excused / absent_unexcused: the student did not come
+ * - teacher_absent: the teacher did not come
+ * - studio_cancelled: the studio cancelled the lesson
+ */
+export type AttendanceStatus =
+  | 'attended'
+  | 'absent_excused'
+  | 'absent_unexcused'
+  | 'teacher_absent'
+  | 'studio_cancelled';
+
+/**
+ * Attendance of a lesson from API response (PUT /lessons/{id}/attendance)
+ */
+export interface Attendance {
+  lessonId: string;    // ULID
+  status: AttendanceStatus;
+  note: string | null;
+  recordedAt: string;  // ISO 8601 date-time of the last change
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Record attendance request payload (PUT /lessons/{id}/attendance)
+ * Replaces the attendance recorded before
+ */
+export interface RecordAttendanceRequest {
+  status: AttendanceStatus;
+  note?: string | null;
+}
+
+// ============================================================================
+// API Response Wrappers
+// ============================================================================
+
+/**
+ * Attendance API response (PUT /lessons/{id}/attendance)
+ */
+export interface AttendanceResponse {
+  success: true;
+  requestId: string;
+  data: Attendance;
+  meta: null;
+  error: null;
+}
+
+/**
+ * Clear attendance API response (DELETE /lessons/{id}/attendance)
+ */
+export interface ClearAttendanceResponse {
+  success: true;
+  requestId: string;
+  data: null;
+  meta: null;
+  error: null;
+}
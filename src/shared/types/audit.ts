@@ -0,0 +1,81 @@
+/**
+ * Audit Types for MYC Studio Management System
+ * Audit events record who changed what (GET /audit). The actor of an event
+ * is the user the API stores in the changed resource's AuditFields
+ * (createdBy, updatedBy, deletedBy).
+ */
+
+import type { PaginationMeta } from './user';
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * Change recorded by an audit event
+ * - delete and restore are soft deletes, recorded as a change of `deleted`
+ */
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+/**
+ * Kind of resource an audit event is about
+ */
+export type AuditEntityType = 'user';
+
+/**
+ * User who made a change
+ */
+export interface AuditActor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Audit event from API response (GET /audit)
+ * `before` and `after` are snapshots of the resource - null before a create
+ */
+export interface AuditEvent {
+  id: string;            // ULID
+  occurredAt: string;    // ISO 8601 date-time
+  actor: AuditActor;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;      // ULID of the changed resource
+  entityName: string;    // display name of the resource when it was changed
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  requestId: string;     // X-Request-ID of the request that made the change
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Audit list query parameters (GET /audit)
+ */
+export interface AuditListParams {
+  page?: number;                 // Page number (default 0)
+  size?: number;                 // Page size (default 20)
+  actor?: string;                // Actor name or email filter
+  entityType?: AuditEntityType;  // Entity type filter
+  entityId?: string;             // Changed resource ULID filter
+  from?: string;                 // ISO 8601 date-time, inclusive
+  to?: string;                   // ISO 8601 date-time, exclusive
+}
+
+// ============================================================================
+// API Response Wrappers
+// ============================================================================
+
+/**
+ * Audit list API response (GET /audit), newest first
+ */
+export interface AuditListResponse {
+  success: true;
+  requestId: string;
+  data: AuditEvent[];
+  meta: PaginationMeta;
+  error: null;
+}
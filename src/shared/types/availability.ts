@@ -0,0 +1,80 @@
+/**
+ * Teacher Availability Types for MYC Studio Management System
+ * Weekly recurring availability per studio plus whole-day exceptions
+ * (/users/{id}/availability) - lessons are only booked inside it
+ */
+
+import type { Weekday } from './studio';
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * Weekly recurring time a teacher is available at a studio
+ */
+export interface AvailabilitySlot {
+  studioId: string;  // ULID
+  day: Weekday;
+  start: string;     // 'HH:mm'
+  end: string;       // 'HH:mm', after start
+}
+
+/**
+ * Why a teacher is away
+ */
+export type AvailabilityExceptionReason = 'vacation' | 'sick' | 'other';
+
+/**
+ * Days a teacher is away despite the weekly availability
+ */
+export interface AvailabilityException {
+  id: string;         // ULID
+  from: string;       // 'YYYY-MM-DD'
+  to: string;         // 'YYYY-MM-DD', inclusive, not before from
+  reason: AvailabilityExceptionReason;
+  note: string | null;
+}
+
+/**
+ * Teacher availability from API response (GET/PUT /users/{id}/availability)
+ */
+export interface TeacherAvailability {
+  teacherId: string;  // ULID of a user with the TEACHER role
+  weekly: AvailabilitySlot[];
+  exceptions: AvailabilityException[];
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Update availability request payload (PUT /users/{id}/availability)
+ * Replaces the weekly availability and the exceptions; exceptions without an ID are created
+ */
+export interface UpdateTeacherAvailabilityRequest {
+  weekly: AvailabilitySlot[];
+  exceptions: {
+    id?: string;
+    from: string;
+    to: string;
+    reason: AvailabilityExceptionReason;
+    note?: string | null;
+  }[];
+}
+
+// ============================================================================
+// API Response Wrappers
+// ============================================================================
+
+/**
+ * Teacher availability API response
+ */
+export interface TeacherAvailabilityResponse {
+  success: true;
+  requestId: string;
+  data: TeacherAvailability;
+  meta: null;
+  error: null;
+}
@@ -0,0 +1,112 @@
+/**
+ * Dashboard Types for MYC Studio Management System
+ * Figures shown by the dashboard widgets (/dashboard/...)
+ */
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * Number of active (not deleted) users with one role (GET /dashboard/users/by-role)
+ */
+export interface RoleUserCount {
+  role: string;  // resolved role name
+  count: number;
+}
+
+/**
+ * Number of users created in a period (GET /dashboard/users/new)
+ */
+export interface NewUsersCount {
+  from: string;  // ISO 8601 date-time, inclusive
+  to: string;    // ISO 8601 date-time, exclusive
+  count: number;
+}
+
+/**
+ * Booked share of a room's opening hours in a period (GET /dashboard/rooms/utilisation)
+ * Rooms under maintenance are left out.
+ */
+export interface RoomUtilisation {
+  roomId: string;        // ULID
+  room: string;          // resolved room name
+  studioId: string;      // ULID
+  studio: string;        // resolved studio name
+  bookedMinutes: number; // minutes of lessons in the room
+  openMinutes: number;   // minutes the studio is open
+}
+
+/**
+ * Server error recorded by the API (GET /dashboard/errors)
+ */
+export interface ErrorLogEntry {
+  id: string;          // ULID
+  occurredAt: string;  // ISO 8601 date-time
+  status: number;      // HTTP status returned
+  code: string;        // error code, e.g. 'SERVER_ERROR'
+  message: string;
+  method: string;      // HTTP method of the failed request
+  path: string;        // API path of the failed request
+  requestId: string;
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Period query parameters (GET /dashboard/users/new, GET /dashboard/rooms/utilisation)
+ */
+export interface DashboardPeriodParams {
+  from: string;  // ISO 8601 date-time, inclusive
+  to: string;    // ISO 8601 date-time, exclusive
+}
+
+// ============================================================================
+// API Response Wrappers
+// ============================================================================
+
+/**
+ * Active users by role API response (GET /dashboard/users/by-role)
+ */
+export interface RoleUserCountListResponse {
+  success: true;
+  requestId: string;
+  data: RoleUserCount[];
+  meta: null;
+  error: null;
+}
+
+/**
+ * New users API response (GET /dashboard/users/new)
+ */
+export interface NewUsersCountResponse {
+  success: true;
+  requestId: string;
+  data: NewUsersCount;
+  meta: null;
+  error: null;
+}
+
+/**
+ * Room utilisation API response (GET /dashboard/rooms/utilisation)
+ */
+export interface RoomUtilisationListResponse {
+  success: true;
+  requestId: string;
+  data: RoomUtilisation[];
+  meta: null;
+  error: null;
+}
+
+/**
+ * Recent errors API response (GET /dashboard/errors), newest first
+ */
+export interface ErrorLogListResponse {
+  success: true;
+  requestId: string;
+  data: ErrorLogEntry[];
+  meta: null;
+  error: null;
+}
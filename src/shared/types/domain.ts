@@ -26,18 +26,11 @@ export interface User {
 
 /**
  * User Role Type
+ * Access level of the signed-in user (route guards). Roles assigned to
+ * managed users are loaded from GET /roles (see types/role.ts).
  */
 export type UserRole = 'admin' | 'teacher' | 'student';
 
-/**
- * User Role Constants
- */
-export const UserRoles = {
-  ADMIN: 'admin' as const,
-  TEACHER: 'teacher' as const,
-  STUDENT: 'student' as const,
-} as const;
-
 /**
  * User Status Type
  */
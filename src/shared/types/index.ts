@@ -4,3 +4,15 @@
 
 export * from './errors';
 export * from './user';
+export * from './location';
+export * from './role';
+export * from './permission';
+export * from './studio';
+export * from './room';
+export * from './lesson';
+export * from './availability';
+export * from './attendance';
+export * from './dashboard';
+export * from './audit';
+export * from './activity';
+export * from './notification';
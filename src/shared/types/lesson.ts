@@ -0,0 +1,207 @@
+/**
+ * Lesson Types for MYC Studio Management System
+ * A lesson books a teacher, a student and a room of a studio for a time slot
+ * Recurring lessons belong to a series repeating by an RRULE-style pattern
+ */
+
+import type { ValidationError } from './api';
+import type { Attendance } from './attendance';
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * Lesson entity from API response (GET/POST/PUT /lessons)
+ */
+export interface Lesson {
+  id: string;         // ULID
+  studioId: string;   // ULID
+  roomId: string;     // ULID of a room of the studio
+  teacherId: string;  // ULID of a user with the TEACHER role
+  studentId: string;  // ULID of a user with the STUDENT role
+  start: string;      // ISO 8601 date-time
+  end: string;        // ISO 8601 date-time, after start
+  note: string | null;
+  seriesId: string | null;    // ULID of the recurring series, null for a single lesson
+  occurrence: string | null;  // 'YYYY-MM-DD' date of the occurrence in its series, before rescheduling
+  studio: string;     // resolved studio name
+  room: string;       // resolved room name
+  teacher: string;    // resolved teacher name
+  student: string;    // resolved student name
+  recurrence: string | null;  // resolved RRULE of the series
+  attendance: Attendance | null;  // resolved attendance, null until recorded
+}
+
+/**
+ * Why an occurrence of a series differs from the pattern
+ */
+export type LessonExceptionStatus = 'cancelled' | 'rescheduled';
+
+/**
+ * Time, room, teacher and note of a rescheduled occurrence
+ */
+export type LessonOccurrenceChange = Pick<Lesson, 'roomId' | 'teacherId' | 'start' | 'end' | 'note'>;
+
+/**
+ * Occurrence of a series that was cancelled or rescheduled
+ */
+export interface LessonSeriesException {
+  date: string;  // 'YYYY-MM-DD' original date of the occurrence
+  status: LessonExceptionStatus;
+  lesson: LessonOccurrenceChange | null;  // null when cancelled
+}
+
+/**
+ * Recurring lesson series from API response (GET /lessons/series/{id})
+ * Its occurrences are listed by GET /lessons like single lessons.
+ */
+export interface LessonSeries {
+  id: string;         // ULID
+  studioId: string;   // ULID
+  roomId: string;     // ULID of a room of the studio
+  teacherId: string;  // ULID of a user with the TEACHER role
+  studentId: string;  // ULID of a user with the STUDENT role
+  start: string;      // ISO 8601 date-time of the first occurrence
+  end: string;        // ISO 8601 date-time, after start
+  recurrence: string; // RRULE, e.g. 'FREQ=WEEKLY;BYDAY=TU;COUNT=12'
+  note: string | null;
+  exceptions: LessonSeriesException[];
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Create lesson request payload (POST /lessons)
+ */
+export interface CreateLessonRequest {
+  studioId: string;
+  roomId: string;
+  teacherId: string;
+  studentId: string;
+  start: string;  // ISO 8601 date-time
+  end: string;    // ISO 8601 date-time
+  note?: string;
+  overrideAvailability?: boolean;  // book outside the teacher's availability (availability:override)
+  recurrence?: string;  // RRULE - creates a recurring series starting with this lesson
+}
+
+/**
+ * Occurrences of a series changed by an update or delete
+ * - occurrence: only this one, tracked as an exception of the series
+ * - following: this one and the later ones, which become a new series
+ * - series: every occurrence
+ */
+export type RecurrenceScope = 'occurrence' | 'following' | 'series';
+
+/**
+ * Update lesson request payload (PUT /lessons/{id})
+ * scope and recurrence apply to occurrences of a series only
+ */
+export interface UpdateLessonRequest extends CreateLessonRequest {
+  scope?: RecurrenceScope;  // default 'occurrence'
+}
+
+/**
+ * Lesson list API parameters (GET /lessons)
+ * Returns lessons overlapping [from, to)
+ */
+export interface LessonListParams {
+  from: string;        // ISO 8601 date-time (inclusive)
+  to: string;          // ISO 8601 date-time (exclusive)
+  studioId?: string;   // Studio ULID filter
+  roomId?: string;     // Room ULID filter
+  teacherId?: string;  // Teacher ULID filter
+  studentId?: string;  // Student ULID filter
+}
+
+// ============================================================================
+// API Response Wrappers
+// ============================================================================
+
+/**
+ * Lesson list API response (GET /lessons) - sorted by start, not paginated
+ */
+export interface LessonListResponse {
+  success: true;
+  requestId: string;
+  data: Lesson[];
+  meta: null;
+  error: null;
+}
+
+/**
+ * Lesson get/create/update API response
+ */
+export interface LessonResponse {
+  success: true;
+  requestId: string;
+  data: Lesson;
+  meta: null;
+  error: null;
+}
+
+/**
+ * Lesson series API response (GET /lessons/series/{id})
+ */
+export interface LessonSeriesResponse {
+  success: true;
+  requestId: string;
+  data: LessonSeries;
+  meta: null;
+  error: null;
+}
+
+/**
+ * Lesson delete API response (DELETE /lessons/{id})
+ */
+export interface DeleteLessonResponse {
+  success: true;
+  requestId: string;
+  data: null;
+  meta: null;
+  error: null;
+}
+
+/**
+ * Codes of the ValidationError entries of a LESSON_CONFLICT response
+ */
+export type LessonConflictCode =
+  | 'ROOM_DOUBLE_BOOKED'
+  | 'TEACHER_DOUBLE_BOOKED'
+  | 'STUDENT_DOUBLE_BOOKED'
+  | 'OUTSIDE_OPENING_HOURS'
+  | 'TEACHER_UNAVAILABLE';
+
+/**
+ * Free time slot suggested instead of a conflicting one
+ */
+export interface LessonSlot {
+  start: string;  // ISO 8601 date-time
+  end: string;    // ISO 8601 date-time
+}
+
+/**
+ * Lesson conflict error response (409 LESSON_CONFLICT from POST/PUT /lessons)
+ * - errors: one entry per conflict; context holds the conflicting lesson
+ *   ({ lessonId, start, end }), the opening hours of the day ({ day, open, close })
+ *   or the teacher's availability ({ exception } or { day, slots }); conflicts of a
+ *   series also hold the date of the conflicting occurrence ({ occurrence })
+ * - details.suggestedSlots: free slots of the same length near the requested one
+ *   (none for a series)
+ */
+export interface LessonConflictErrorResponse {
+  success: false;
+  requestId: string;
+  data: null;
+  meta: null;
+  error: {
+    status: 409;
+    code: 'LESSON_CONFLICT';
+    message: string;
+    details: { suggestedSlots: LessonSlot[] };
+    errors: ValidationError[];
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Location Types for MYC Studio Management System
+ * Countries and provinces used by address fields and the user filters
+ */
+
+import type { Country, Province } from './domain';
+
+/**
+ * Country list API response (GET /countries)
+ * Data is a direct array of countries sorted by name
+ */
+export interface CountryListResponse {
+  success: true;
+  requestId: string;
+  data: Country[];
+  meta: null;
+  error: null;
+}
+
+/**
+ * Province list API response (GET /countries/{id}/provinces)
+ * Data is a direct array of the country's provinces sorted by name
+ */
+export interface ProvinceListResponse {
+  success: true;
+  requestId: string;
+  data: Province[];
+  meta: null;
+  error: null;
+}
@@ -0,0 +1,91 @@
+/**
+ * Notification Types for MYC Studio Management System
+ * In-app notifications of the signed-in user (GET /notifications), shown
+ * in the Header's notification center and on the /notifications page
+ */
+
+import type { PaginationMeta } from './user';
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * Kind of event a notification is about
+ */
+export type NotificationType =
+  | 'user_pending_approval'
+  | 'lesson_cancelled'
+  | 'import_finished';
+
+/**
+ * Notification from API response (GET /notifications)
+ * Named AppNotification so it does not shadow the browser's Notification.
+ */
+export interface AppNotification {
+  id: string;              // ULID
+  type: NotificationType;
+  title: string;
+  message: string;
+  createdAt: string;       // ISO 8601 date-time
+  read: boolean;
+  link: string | null;     // App path of the notification's subject, e.g. /users/{id}
+}
+
+/**
+ * Pagination metadata of the notification list, with the unread count of
+ * all notifications so the bell badge needs no extra request
+ */
+export interface NotificationListMeta extends PaginationMeta {
+  unreadCount: number;
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Notification list query parameters (GET /notifications)
+ */
+export interface NotificationListParams {
+  page?: number;        // Page number (default 0)
+  size?: number;        // Page size (default 20)
+  unread?: boolean;     // Only unread notifications
+}
+
+// ============================================================================
+// API Response Wrappers
+// ============================================================================
+
+/**
+ * Notification list API response (GET /notifications), newest first
+ */
+export interface NotificationListResponse {
+  success: true;
+  requestId: string;
+  data: AppNotification[];
+  meta: NotificationListMeta;
+  error: null;
+}
+
+/**
+ * Single notification API response (POST /notifications/{id}/read)
+ */
+export interface NotificationResponse {
+  success: true;
+  requestId: string;
+  data: AppNotification;
+  meta: null;
+  error: null;
+}
+
+/**
+ * Mark all as read API response (POST /notifications/read-all)
+ */
+export interface MarkAllNotificationsReadResponse {
+  success: true;
+  requestId: string;
+  data: { updated: number }; // Number of notifications that were unread
+  meta: null;
+  error: null;
+}
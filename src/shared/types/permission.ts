@@ -0,0 +1,47 @@
+/**
+ * Permission Types for MYC Studio Management System
+ * Access is granted per permission ("resource:action"), never by role name
+ */
+
+/**
+ * Permission identifier
+ * - `:read` allows viewing a resource
+ * - `:write` allows creating, editing and deleting it
+ * - `availability:override` allows booking lessons outside a teacher's availability
+ * - `errors:read` allows viewing the server errors recorded by the API
+ * - `audit:read` allows viewing the audit log of changes
+ */
+export type Permission =
+  | 'users:read'
+  | 'users:write'
+  | 'roles:read'
+  | 'roles:write'
+  | 'studios:read'
+  | 'studios:write'
+  | 'lessons:read'
+  | 'lessons:write'
+  | 'availability:write'
+  | 'availability:override'
+  | 'attendance:read'
+  | 'attendance:write'
+  | 'errors:read'
+  | 'audit:read';
+
+/**
+ * Permissions granted to one role
+ */
+export interface RolePermissions {
+  role: string; // Role of the signed-in user (User.role)
+  permissions: Permission[];
+}
+
+/**
+ * Role permissions API response (GET /permissions)
+ */
+export interface RolePermissionsListResponse {
+  success: true;
+  requestId: string;
+  data: RolePermissions[];
+  meta: null;
+  error: null;
+}
@@ -0,0 +1,55 @@
+/**
+ * Role Types for MYC Studio Management System
+ * Roles are referenced by ULID (`roleId`) on users and carry display metadata
+ */
+
+/**
+ * Role entity from API response (GET /roles)
+ */
+export interface Role {
+  id: string;                 // ULID
+  name: string;               // e.g. 'ADMIN' - shown in role tags and used by the user list filter
+  description: string | null;
+  color: string;              // Tag colour (antd preset name, e.g. 'red')
+}
+
+/**
+ * Create role request payload (POST /roles)
+ */
+export interface CreateRoleRequest {
+  name: string;
+  description?: string;
+  color: string;
+}
+
+/**
+ * Update role request payload (PUT /roles/{id}) - rename, describe or recolour
+ */
+export interface UpdateRoleRequest {
+  name: string;
+  description?: string;
+  color: string;
+}
+
+/**
+ * Role list API response (GET /roles)
+ * Data is a direct array of roles sorted by name
+ */
+export interface RoleListResponse {
+  success: true;
+  requestId: string;
+  data: Role[];
+  meta: null;
+  error: null;
+}
+
+/**
+ * Role create/update API response (POST /roles, PUT /roles/{id})
+ */
+export interface RoleResponse {
+  success: true;
+  requestId: string;
+  data: Role;
+  meta: null;
+  error: null;
+}
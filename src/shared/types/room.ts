@@ -0,0 +1,107 @@
+/**
+ * Room Types for MYC Studio Management System
+ * Rooms belong to a studio (/studios/{studioId}/rooms) and are the
+ * resources lessons are booked into
+ */
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * Kind of room - practice rooms are booked by students, lesson rooms by teachers
+ */
+export type RoomType = 'practice' | 'lesson';
+
+/**
+ * Room availability - rooms under maintenance cannot be booked
+ */
+export type RoomStatus = 'open' | 'maintenance';
+
+/**
+ * Room entity from API response (GET/POST/PUT /studios/{studioId}/rooms)
+ */
+export interface Room {
+  id: string;           // ULID
+  studioId: string;     // ULID of the owning studio
+  name: string;         // unique within the studio
+  type: RoomType;
+  capacity: number;     // maximum number of people, at least 1
+  equipment: string[];  // e.g. ['Grand piano', 'Music stand']
+  status: RoomStatus;
+  note: string | null;
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Create room request payload (POST /studios/{studioId}/rooms)
+ */
+export interface CreateRoomRequest {
+  name: string;
+  type: RoomType;
+  capacity: number;
+  equipment: string[];
+  status: RoomStatus;
+  note?: string;
+}
+
+/**
+ * Update room request payload (PUT /studios/{studioId}/rooms/{roomId})
+ */
+export type UpdateRoomRequest = CreateRoomRequest;
+
+// ============================================================================
+// API Response Wrappers
+// ============================================================================
+
+/**
+ * Room list API response (GET /studios/{studioId}/rooms) - not paginated
+ */
+export interface RoomListResponse {
+  success: true;
+  requestId: string;
+  data: Room[];
+  meta: null;
+  error: null;
+}
+
+/**
+ * Room create/update API response
+ */
+export interface RoomResponse {
+  success: true;
+  requestId: string;
+  data: Room;
+  meta: null;
+  error: null;
+}
+
+/**
+ * Room delete API response (DELETE /studios/{studioId}/rooms/{roomId})
+ */
+export interface DeleteRoomResponse {
+  success: true;
+  requestId: string;
+  data: null;
+  meta: null;
+  error: null;
+}
+
+// ============================================================================
+// Form Types
+// ============================================================================
+
+/**
+ * Room form data (create/edit modal)
+ */
+export interface RoomFormData {
+  name: string;
+  type: RoomType;
+  capacity: number;
+  equipment: string[];
+  status: RoomStatus;
+  note?: string;
+}
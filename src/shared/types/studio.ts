@@ -0,0 +1,146 @@
+/**
+ * Studio Types for MYC Studio Management System
+ * Studios are the locations where lessons take place
+ */
+
+import type { PaginationMeta } from './user';
+
+// ============================================================================
+// API Response Types
+// ============================================================================
+
+/**
+ * Day of the week used by opening hours
+ */
+export type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+/**
+ * Opening hours of one day - days without an entry are closed
+ */
+export interface StudioOpeningHours {
+  day: Weekday;
+  open: string;  // 'HH:mm'
+  close: string; // 'HH:mm', after open
+}
+
+/**
+ * Studio list item from API response (GET /studios)
+ */
+export interface StudioListItem {
+  id: string;        // ULID
+  name: string;
+  address: string;
+  phone: string | null;
+  country: string;   // resolved country name
+  province: string;  // resolved province name
+}
+
+/**
+ * Studio entity from API response (GET/POST/PUT /studios/{id})
+ */
+export interface Studio {
+  id: string;         // ULID
+  name: string;
+  countryId: string;  // ULID
+  provinceId: string; // ULID
+  address: string;
+  phone: string | null;
+  openingHours: StudioOpeningHours[];
+  note: string | null;
+  country?: string;   // resolved country name
+  province?: string;  // resolved province name
+}
+
+// ============================================================================
+// API Request Types
+// ============================================================================
+
+/**
+ * Create studio request payload (POST /studios)
+ */
+export interface CreateStudioRequest {
+  name: string;
+  countryId: string;  // ULID
+  provinceId: string; // ULID
+  address: string;
+  phone?: string;
+  openingHours: StudioOpeningHours[];
+  note?: string;
+}
+
+/**
+ * Update studio request payload (PUT /studios/{id})
+ */
+export type UpdateStudioRequest = CreateStudioRequest;
+
+/**
+ * Studio list API parameters (GET /studios)
+ */
+export interface StudioListParams {
+  page?: number;        // Page number (default 0)
+  size?: number;        // Page size (default 10)
+  name?: string;        // Name filter
+  countryId?: string;   // Country ULID filter
+  provinceId?: string;  // Province ULID filter
+}
+
+// ============================================================================
+// API Response Wrappers
+// ============================================================================
+
+/**
+ * Studio list API response (GET /studios)
+ */
+export interface StudioListResponse {
+  success: true;
+  requestId: string;
+  data: StudioListItem[];
+  meta: PaginationMeta;
+  error: null;
+}
+
+/**
+ * Studio get/create/update API response (GET/PUT /studios/{id}, POST /studios)
+ */
+export interface StudioResponse {
+  success: true;
+  requestId: string;
+  data: Studio;
+  meta: null;
+  error: null;
+}
+
+/**
+ * Studio delete API response (DELETE /studios/{id})
+ */
+export interface DeleteStudioResponse {
+  success: true;
+  requestId: string;
+  data: null;
+  meta: null;
+  error: null;
+}
+
+// ============================================================================
+// Form Types
+// ============================================================================
+
+/**
+ * Studio form data (create/edit drawer)
+ */
+export interface StudioFormData {
+  name: string;
+  countryId: string;
+  provinceId: string;
+  address: string;
+  phone?: string;
+  openingHours: StudioOpeningHours[];
+  note?: string;
+}
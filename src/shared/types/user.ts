@@ -3,6 +3,8 @@
  * Based on exact API documentation and backend DTOs
  */
 
+import type { BulkOperationRequest, BulkResponse } from './api';
+
 // ============================================================================
 // API Response Types - Matching Exact Backend Format
 // ============================================================================
@@ -35,6 +37,11 @@ export interface User {
   email: string;
   phone: string | null;
   note: string | null;
+  role?: string;      // resolved role name (GET /users/{id})
+  country?: string;   // resolved country name (GET /users/{id})
+  province?: string;  // resolved province name (GET /users/{id})
+  deleted?: boolean;  // soft delete flag (GET /users/{id})
+  createdAt?: string; // ISO 8601 creation time (GET /users/{id})
 }
 
 /**
@@ -81,6 +88,21 @@ export interface UpdateUserRequest {
   note?: string;
 }
 
+/**
+ * Bulk user operation item (POST /users/bulk)
+ * - delete / restore: id only
+ * - update: id plus the fields to change (currently roleId)
+ */
+export interface UserBulkItem {
+  id: string;       // ULID
+  roleId?: string;  // ULID - required for 'update'
+}
+
+/**
+ * Bulk user operation request (POST /users/bulk)
+ */
+export type UserBulkRequest = BulkOperationRequest<UserBulkItem>;
+
 /**
  * User list API parameters (GET /users)
  * Matches the exact parameters from docs/common/api/user/user-list.md
@@ -95,6 +117,8 @@ export interface UserListParams {
   email?: string;       // Email filter
   role?: string;        // Role filter
   deleted: boolean;     // Required: show deleted users
+  sort?: UserSortField; // Sort field
+  order?: SortOrder;    // Sort order (default asc when sort is set)
 }
 
 // ============================================================================
@@ -164,6 +188,24 @@ export interface DeleteUserResponse {
   error: null;
 }
 
+/**
+ * User restore API response (POST /users/{id}/restore)
+ */
+export interface RestoreUserResponse {
+  success: true;
+  requestId: string;
+  data: null;
+  meta: null;
+  error: null;
+}
+
+/**
+ * Bulk user operation response (POST /users/bulk)
+ * `data` holds the users that were processed successfully,
+ * `failures` the per-item errors
+ */
+export type UserBulkResponse = BulkResponse<UserListItem>;
+
 /**
  * Error response format matching API specification
  */
@@ -236,6 +278,32 @@ export interface UserTableState {
   filters: UserFilterData;
 }
 
+/**
+ * Router state passed between the users list and detail pages
+ * Preserves the list query string (filters, page, size) for the "Back to list" link
+ */
+export interface UsersListNavigationState {
+  listSearch?: string;
+}
+
+/**
+ * Router state of a navigation to the users list
+ * Opens the Add user drawer, e.g. from the command palette
+ */
+export interface UsersListLocationState {
+  openCreate?: boolean;
+}
+
+/**
+ * Saved UserFilters preset
+ * Stores the filter fields only - page, size and sort are not part of a preset
+ */
+export interface UserFilterPreset {
+  id: string;
+  name: string;
+  filters: Omit<UserListParams, 'page' | 'size' | 'sort' | 'order'>;
+}
+
 /**
  * User list loading states
  */
@@ -248,6 +316,7 @@ export interface UserOperationState {
   creating: boolean;
   updating: boolean;
   deleting: boolean;
+  restoring: boolean;
   loading: boolean;
   error: string | null;
 }
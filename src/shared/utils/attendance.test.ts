@@ -0,0 +1,67 @@
+/**
+ * Attendance Utilities Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getAttendanceLabel, summarizeAttendance, validateAttendance } from './attendance';
+import type { Attendance, AttendanceStatus } from '../types/attendance';
+
+const now = new Date(2026, 9, 21, 12, 0);
+const pastLesson = { start: new Date(2026, 9, 21, 10, 0).toISOString() };
+const futureLesson = { start: new Date(2026, 9, 22, 10, 0).toISOString() };
+
+const attendance = (status: AttendanceStatus): Attendance => ({
+  lessonId: 'lesson-1',
+  status,
+  note: null,
+  recordedAt: now.toISOString(),
+});
+
+describe('Attendance Utilities', () => {
+  describe('validateAttendance', () => {
+    it('should accept any status once the lesson has started', () => {
+      expect(validateAttendance(pastLesson, { status: 'attended' }, now)).toBeNull();
+      expect(validateAttendance(pastLesson, { status: 'absent_unexcused', note: 'No show' }, now)).toBeNull();
+    });
+
+    it('should only accept absences and cancellations ahead of the lesson', () => {
+      expect(validateAttendance(futureLesson, { status: 'absent_excused' }, now)).toBeNull();
+      expect(validateAttendance(futureLesson, { status: 'studio_cancelled' }, now)).toBeNull();
+      expect(validateAttendance(futureLesson, { status: 'attended' }, now))
+        .toBe('Attended can only be recorded once the lesson has started');
+    });
+
+    it('should reject unknown statuses and long notes', () => {
+      expect(validateAttendance(pastLesson, { status: 'late' as AttendanceStatus }, now))
+        .toBe('Attendance status is not valid');
+      expect(validateAttendance(pastLesson, { status: 'attended', note: 'x'.repeat(501) }, now))
+        .toBe('Note must be at most 500 characters');
+    });
+  });
+
+  describe('summarizeAttendance', () => {
+    it('should count lessons per status and lessons without attendance', () => {
+      const summary = summarizeAttendance([
+        { attendance: attendance('attended') },
+        { attendance: attendance('attended') },
+        { attendance: attendance('absent_excused') },
+        { attendance: null },
+      ]);
+
+      expect(summary).toEqual({
+        attended: 2,
+        absent_excused: 1,
+        absent_unexcused: 0,
+        teacher_absent: 0,
+        studio_cancelled: 0,
+        unrecorded: 1,
+      });
+    });
+  });
+
+  describe('getAttendanceLabel', () => {
+    it('should label each status', () => {
+      expect(getAttendanceLabel('studio_cancelled')).toBe('Cancelled by studio');
+    });
+  });
+});
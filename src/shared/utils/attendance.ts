@@ -0,0 +1,84 @@
+/**
+ * Attendance Utilities for MYC
+ *
+ * Used by the check-in list, the attendance history and the attendance mock handlers
+ * - Labels and tag colors of the attendance statuses
+ * - Validation of attendance before it is recorded
+ * - Counts per status for an attendance history
+ */
+
+import { currentLocale, t, translate, type SupportedLocale } from '../i18n';
+import type { AttendanceStatus, RecordAttendanceRequest } from '../types/attendance';
+import type { Lesson } from '../types/lesson';
+
+export const ATTENDANCE_STATUSES: { value: AttendanceStatus; color: string }[] = [
+  { value: 'attended', color: 'green' },
+  { value: 'absent_excused', color: 'gold' },
+  { value: 'absent_unexcused', color: 'red' },
+  { value: 'teacher_absent', color: 'purple' },
+  { value: 'studio_cancelled', color: 'default' },
+];
+
+// Statuses that can only be known once the lesson has started
+const STATUSES_AFTER_START: AttendanceStatus[] = ['attended', 'absent_unexcused'];
+
+// Longest note stored with an attendance
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Label of an attendance status in a locale, e.g. 'Absent (excused)'
+ */
+export function getAttendanceLabel(status: AttendanceStatus, locale: SupportedLocale = currentLocale()): string {
+  return translate(locale, `attendance.status.${status}`);
+}
+
+/**
+ * Tag color of an attendance status
+ */
+export function getAttendanceColor(status: AttendanceStatus): string {
+  return ATTENDANCE_STATUSES.find(option => option.value === status)?.color ?? 'default';
+}
+
+/**
+ * Validate attendance for a lesson - returns the first problem, or null when valid
+ * Absences and cancellations can be recorded ahead; attended and unexcused
+ * absences only once the lesson has started.
+ */
+export function validateAttendance(
+  lesson: Pick<Lesson, 'start'>,
+  request: RecordAttendanceRequest,
+  now = new Date()
+): string | null {
+  if (!ATTENDANCE_STATUSES.some(option => option.value === request.status)) {
+    return t('attendance.invalidStatus');
+  }
+  if (STATUSES_AFTER_START.includes(request.status) && Date.parse(lesson.start) > now.getTime()) {
+    return t('attendance.notStarted', { status: getAttendanceLabel(request.status) });
+  }
+  if ((request.note?.trim().length ?? 0) > MAX_NOTE_LENGTH) {
+    return t('attendance.noteTooLong', { max: MAX_NOTE_LENGTH });
+  }
+  return null;
+}
+
+/**
+ * Number of lessons per attendance status, and of lessons without attendance
+ */
+export function summarizeAttendance(
+  lessons: Pick<Lesson, 'attendance'>[]
+): Record<AttendanceStatus | 'unrecorded', number> {
+  const summary: Record<AttendanceStatus | 'unrecorded', number> = {
+    attended: 0,
+    absent_excused: 0,
+    absent_unexcused: 0,
+    teacher_absent: 0,
+    studio_cancelled: 0,
+    unrecorded: 0,
+  };
+
+  lessons.forEach(lesson => {
+    summary[lesson.attendance?.status ?? 'unrecorded'] += 1;
+  });
+
+  return summary;
+}
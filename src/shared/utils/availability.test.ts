@@ -0,0 +1,94 @@
+/**
+ * Teacher Availability Utilities Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findAvailabilityConflict, isTeacherAvailable, validateAvailability } from './availability';
+import type { TeacherAvailability } from '../types/availability';
+
+// Wednesday 21 October 2026, local time
+const at = (time: string, day = 21) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, 9, day, hours, minutes);
+};
+
+const availability: TeacherAvailability = {
+  teacherId: 'teacher-1',
+  weekly: [
+    { studioId: 'studio-1', day: 'wednesday', start: '09:00', end: '12:00' },
+    { studioId: 'studio-2', day: 'wednesday', start: '14:00', end: '18:00' },
+    { studioId: 'studio-1', day: 'thursday', start: '09:00', end: '17:00' },
+  ],
+  exceptions: [
+    { id: 'exception-1', from: '2026-10-22', to: '2026-10-23', reason: 'vacation', note: null },
+  ],
+};
+
+describe('Teacher Availability Utilities', () => {
+  describe('isTeacherAvailable', () => {
+    it('should accept ranges within a weekly slot of the studio', () => {
+      expect(isTeacherAvailable(availability, at('09:00'), at('12:00'), 'studio-1')).toBe(true);
+      expect(isTeacherAvailable(availability, at('14:00'), at('15:00'), 'studio-1')).toBe(false);
+      expect(isTeacherAvailable(availability, at('14:00'), at('15:00'))).toBe(true);
+    });
+
+    it('should reject ranges running past the end of a slot', () => {
+      expect(isTeacherAvailable(availability, at('11:30'), at('12:30'), 'studio-1')).toBe(false);
+    });
+
+    it('should reject exception days', () => {
+      expect(isTeacherAvailable(availability, at('10:00', 22), at('11:00', 22), 'studio-1')).toBe(false);
+    });
+  });
+
+  describe('findAvailabilityConflict', () => {
+    const lesson = { studioId: 'studio-1', teacherId: 'teacher-1' };
+
+    it('should list the weekly slots of the day as context', () => {
+      expect(
+        findAvailabilityConflict({ ...lesson, start: at('12:00').toISOString(), end: at('13:00').toISOString() }, availability)
+      ).toMatchObject({
+        field: 'teacherId',
+        code: 'TEACHER_UNAVAILABLE',
+        message: 'Teacher is available 09:00–12:00 on Wednesday at this studio (your local time)',
+        context: { day: 'wednesday', slots: [availability.weekly[0]] },
+      });
+    });
+
+    it('should report the exception the lesson falls on', () => {
+      expect(
+        findAvailabilityConflict({ ...lesson, start: at('10:00', 23).toISOString(), end: at('11:00', 23).toISOString() }, availability)
+      ).toMatchObject({
+        message: 'Teacher is away 2026-10-22 to 2026-10-23 (Vacation)',
+        context: { exception: availability.exceptions[0] },
+      });
+    });
+  });
+
+  describe('validateAvailability', () => {
+    it('should accept valid availability', () => {
+      expect(validateAvailability(availability)).toBeNull();
+    });
+
+    it('should reject overlapping weekly slots, even at different studios', () => {
+      expect(validateAvailability({
+        weekly: [
+          ...availability.weekly,
+          { studioId: 'studio-2', day: 'wednesday', start: '11:00', end: '13:00' },
+        ],
+        exceptions: [],
+      })).toBe('Wednesday 09:00–12:00 overlaps 11:00–13:00');
+    });
+
+    it('should reject slots and exceptions that end before they start', () => {
+      expect(validateAvailability({
+        weekly: [{ studioId: 'studio-1', day: 'monday', start: '12:00', end: '09:00' }],
+        exceptions: [],
+      })).toBe('End must be after start on Monday 12:00–09:00');
+      expect(validateAvailability({
+        weekly: [],
+        exceptions: [{ from: '2026-10-23', to: '2026-10-22', reason: 'sick' }],
+      })).toBe('Exception 2026-10-23 ends before it starts');
+    });
+  });
+});
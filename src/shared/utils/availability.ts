@@ -0,0 +1,152 @@
+/**
+ * Teacher Availability Utilities for MYC
+ *
+ * Used by the availability editor, the schedule and the lesson conflict check
+ * - Whether a teacher is available for a time range at a studio
+ * - Validation of availability before it is sent to the API
+ */
+
+import type { ValidationError } from '../types/api';
+import type {
+  AvailabilityException,
+  AvailabilityExceptionReason,
+  AvailabilitySlot,
+  TeacherAvailability,
+  UpdateTeacherAvailabilityRequest,
+} from '../types/availability';
+import type { Weekday } from '../types/studio';
+import { currentLocale, localizeWeekday, t, translate, type SupportedLocale } from '../i18n';
+import { formatTime, isSameDay, parseDateKey, toDateKey, weekdayOf } from './date';
+
+export const AVAILABILITY_EXCEPTION_REASONS: AvailabilityExceptionReason[] = ['vacation', 'sick', 'other'];
+
+/**
+ * Label of the reason of an exception in a locale, e.g. 'Vacation'
+ */
+export function getExceptionReasonLabel(
+  reason: AvailabilityExceptionReason,
+  locale: SupportedLocale = currentLocale()
+): string {
+  return translate(locale, `availability.reason.${reason}`);
+}
+
+const weekdayName = (day: Weekday) => localizeWeekday(currentLocale(), day);
+
+/**
+ * Exception covering the local day of the given date
+ */
+export function findAvailabilityException(
+  availability: Pick<TeacherAvailability, 'exceptions'>,
+  date: Date
+): AvailabilityException | undefined {
+  const key = toDateKey(date);
+  return availability.exceptions.find(exception => exception.from <= key && key <= exception.to);
+}
+
+/**
+ * Weekly slots matching the weekday of the date - at one studio, or at any when studioId is omitted
+ */
+export function getAvailabilityOn(
+  availability: Pick<TeacherAvailability, 'weekly'>,
+  date: Date,
+  studioId?: string
+): AvailabilitySlot[] {
+  const day = weekdayOf(date);
+  return availability.weekly.filter(slot => slot.day === day && (!studioId || slot.studioId === studioId));
+}
+
+/**
+ * Whether the teacher is available for the whole time range
+ * The range must fit in one weekly slot and not fall on an exception day.
+ */
+export function isTeacherAvailable(
+  availability: Pick<TeacherAvailability, 'weekly' | 'exceptions'>,
+  start: Date,
+  end: Date,
+  studioId?: string
+): boolean {
+  if (!isSameDay(start, end) || findAvailabilityException(availability, start)) {
+    return false;
+  }
+
+  const from = formatTime(start);
+  const to = formatTime(end);
+  return getAvailabilityOn(availability, start, studioId).some(slot => slot.start <= from && to <= slot.end);
+}
+
+/**
+ * Check a lesson against the teacher's availability at its studio
+ * Weekly slots are matched in the viewer's local time zone.
+ * Returns a TEACHER_UNAVAILABLE error, or null when the teacher is available.
+ */
+export function findAvailabilityConflict(
+  candidate: { studioId: string; teacherId: string; start: string; end: string },
+  availability: Pick<TeacherAvailability, 'weekly' | 'exceptions'>
+): ValidationError | null {
+  const start = new Date(candidate.start);
+  const end = new Date(candidate.end);
+  if (isTeacherAvailable(availability, start, end, candidate.studioId)) {
+    return null;
+  }
+
+  const exception = findAvailabilityException(availability, start);
+  if (exception) {
+    return {
+      field: 'teacherId',
+      code: 'TEACHER_UNAVAILABLE',
+      message: exception.from === exception.to
+        ? t('availability.awayOn', { date: exception.from, reason: getExceptionReasonLabel(exception.reason) })
+        : t('availability.awayFromTo', { from: exception.from, to: exception.to, reason: getExceptionReasonLabel(exception.reason) }),
+      value: candidate.teacherId,
+      context: { exception },
+    };
+  }
+
+  const day = weekdayOf(start);
+  const slots = getAvailabilityOn(availability, start, candidate.studioId);
+  return {
+    field: 'teacherId',
+    code: 'TEACHER_UNAVAILABLE',
+    message: slots.length > 0
+      ? t('availability.availableOnly', { times: slots.map(slot => `${slot.start}–${slot.end}`).join(', '), day: weekdayName(day) })
+      : t('availability.notAvailable', { day: weekdayName(day) }),
+    value: candidate.teacherId,
+    context: { day, slots },
+  };
+}
+
+/**
+ * Validate availability - returns the first problem, or null when valid
+ * Weekly slots may not overlap, even at different studios.
+ */
+export function validateAvailability({ weekly, exceptions }: UpdateTeacherAvailabilityRequest): string | null {
+  for (const [index, slot] of weekly.entries()) {
+    if (!slot.studioId || !slot.day || !slot.start || !slot.end) {
+      return t('availability.slotRequired');
+    }
+    const day = weekdayName(slot.day);
+    if (slot.start >= slot.end) {
+      return t('availability.endBeforeStart', { day, start: slot.start, end: slot.end });
+    }
+    const overlapping = weekly.find((other, otherIndex) =>
+      otherIndex !== index && other.day === slot.day && other.start < slot.end && other.end > slot.start
+    );
+    if (overlapping) {
+      return t('availability.overlap', { day, start: slot.start, end: slot.end, otherStart: overlapping.start, otherEnd: overlapping.end });
+    }
+  }
+
+  for (const exception of exceptions) {
+    if (!parseDateKey(exception.from) || !parseDateKey(exception.to)) {
+      return t('availability.exceptionDaysRequired');
+    }
+    if (exception.to < exception.from) {
+      return t('availability.exceptionEndsBeforeStart', { date: exception.from });
+    }
+    if (!AVAILABILITY_EXCEPTION_REASONS.includes(exception.reason)) {
+      return t('availability.exceptionReasonRequired', { date: exception.from });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,69 @@
+/**
+ * CSV Utilities Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('CSV Utilities', () => {
+  describe('parseCsv', () => {
+    it('should parse simple rows', () => {
+      expect(parseCsv('name,email\nJohn,john@example.com\n')).toEqual([
+        { line: 1, fields: ['name', 'email'] },
+        { line: 2, fields: ['John', 'john@example.com'] },
+      ]);
+    });
+
+    it('should handle quoted fields with commas, quotes and newlines', () => {
+      expect(parseCsv('note\n"Hello, ""world""\nsecond line"')).toEqual([
+        { line: 1, fields: ['note'] },
+        { line: 2, fields: ['Hello, "world"\nsecond line'] },
+      ]);
+    });
+
+    it('should handle CRLF line endings, BOM and blank lines', () => {
+      expect(parseCsv('\uFEFFa,b\r\n\r\n1,2\r\n')).toEqual([
+        { line: 1, fields: ['a', 'b'] },
+        { line: 3, fields: ['1', '2'] },
+      ]);
+    });
+
+    it('should keep empty fields', () => {
+      expect(parseCsv('a,,c\n,,')).toEqual([
+        { line: 1, fields: ['a', '', 'c'] },
+        { line: 2, fields: ['', '', ''] },
+      ]);
+    });
+
+    it('should report the line each record starts on', () => {
+      const records = parseCsv('note\n"first\nsecond"\n\nlast\n');
+
+      expect(records.map(record => record.line)).toEqual([1, 2, 5]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should escape fields that need quoting', () => {
+      expect(toCsv([['name', 'note'], ['John', 'Says "hi", twice'], [null, undefined]])).toBe(
+        'name,note\r\nJohn,"Says ""hi"", twice"\r\n,'
+      );
+    });
+
+    it('should neutralise text that would run as a spreadsheet formula', () => {
+      expect(toCsv([['=SUM(A1:A2)', '+1-A1', '-2+cmd', '@cmd', '\tx', '\r=1', 'a=b', -2]])).toBe(
+        `'=SUM(A1:A2),'+1-A1,'-2+cmd,'@cmd,'\tx,"'\r=1",a=b,-2`
+      );
+    });
+
+    it('should leave phone numbers and signed numbers unquoted', () => {
+      expect(toCsv([['+1-555-0101', '+33 (1) 23 45 67 89', '-2', '-1.5']])).toBe(
+        '+1-555-0101,+33 (1) 23 45 67 89,-2,-1.5'
+      );
+    });
+
+    it('should round-trip through parseCsv', () => {
+      const rows = [['a', 'b,c'], ['line\nbreak', '"quoted"']];
+      expect(parseCsv(toCsv(rows)).map(record => record.fields)).toEqual(rows);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * CSV Utilities for MYC
+ *
+ * - Parse CSV text into records (RFC 4180: quoted fields, escaped quotes, CRLF)
+ * - Serialize rows back to CSV text
+ * - Trigger a browser download for generated files
+ */
+
+/**
+ * CSV record with the source line it starts on (1-based)
+ * A record spans several lines when a quoted field contains newlines.
+ */
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Parse CSV text into an array of records
+ * Blank lines are skipped; a leading UTF-8 BOM is ignored.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== '') {
+      records.push({ line: rowStartLine, fields: row });
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\n') {
+      line++;
+    }
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+      rowStartLine = line;
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  // Last row without trailing newline
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return records;
+}
+
+// Leading characters spreadsheets treat as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Phone numbers and signed numbers start with + or - but cannot run as a formula
+const PHONE_OR_NUMBER = /^[+-]?[\d\s().-]+$/;
+
+/**
+ * Escape a single CSV field - quotes fields containing separators, quotes or newlines
+ * Text that a spreadsheet would run as a formula is prefixed with a single quote.
+ */
+function escapeCsvField(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !PHONE_OR_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to CSV text (CRLF line endings)
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+/**
+ * Download content as a file in the browser
+ */
+export function downloadFile(content: BlobPart, filename: string, type: string = 'text/csv;charset=utf-8'): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,44 @@
+/**
+ * Date Utilities Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addDays, isSameDay, parseDateKey, toDateKey, formatTime, withTime, startOfDay } from './date';
+
+describe('Date Utilities', () => {
+  describe('addDays', () => {
+    it('should keep the local time of day across months', () => {
+      const result = addDays(new Date(2026, 0, 30, 9, 30), 3);
+      expect(toDateKey(result)).toBe('2026-02-02');
+      expect(formatTime(result)).toBe('09:30');
+    });
+
+    it('should not mutate the input', () => {
+      const date = new Date(2026, 4, 1);
+      addDays(date, 1);
+      expect(toDateKey(date)).toBe('2026-05-01');
+    });
+  });
+
+  describe('date keys', () => {
+    it('should round-trip local dates', () => {
+      const date = parseDateKey('2026-10-19');
+      expect(date).toEqual(new Date(2026, 9, 19));
+      expect(toDateKey(date!)).toBe('2026-10-19');
+    });
+
+    it('should reject malformed and impossible dates', () => {
+      expect(parseDateKey('2026-02-30')).toBeNull();
+      expect(parseDateKey('19/10/2026')).toBeNull();
+      expect(parseDateKey(null)).toBeNull();
+    });
+  });
+
+  describe('times', () => {
+    it('should set and format the time of day', () => {
+      const date = withTime(new Date(2026, 9, 19, 23, 59), '07:05');
+      expect(formatTime(date)).toBe('07:05');
+      expect(isSameDay(date, startOfDay(new Date(2026, 9, 19, 12)))).toBe(true);
+    });
+  });
+});
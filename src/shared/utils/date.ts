@@ -0,0 +1,90 @@
+/**
+ * Date Utilities for MYC
+ *
+ * Local-time helpers for scheduling (dayjs is not a dependency)
+ * - Day arithmetic that keeps the wall-clock time across DST changes
+ * - 'YYYY-MM-DD' date keys for URLs and grouping
+ * - 'HH:mm' times used by time selects and lesson display
+ */
+
+import type { Weekday } from '../types/studio';
+
+/**
+ * Midnight (local time) of the given day
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Add whole days, keeping the local time of day
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Whether two dates fall on the same local day
+ */
+export function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local date as 'YYYY-MM-DD'
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse a 'YYYY-MM-DD' key to local midnight - null when invalid
+ */
+export function parseDateKey(key: string | null | undefined): Date | null {
+  const match = key?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/**
+ * Local time of day as 'HH:mm'
+ */
+export function formatTime(date: Date): string {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Set the local time of day from 'HH:mm'
+ */
+export function withTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes);
+}
+
+const WEEKDAYS_BY_INDEX: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+/**
+ * Local weekday of a date, as used by opening hours and availability
+ */
+export function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS_BY_INDEX[date.getDay()];
+}
@@ -0,0 +1,182 @@
+/**
+ * Lesson Conflict Utilities Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findLessonConflicts,
+  findOpeningHoursConflict,
+  findSeriesConflicts,
+  suggestFreeSlots,
+  type BookedLesson,
+} from './lessonConflicts';
+import type { StudioOpeningHours } from '../types/studio';
+import type { TeacherAvailability } from '../types/availability';
+
+// Wednesday 21 October 2026, local time
+const at = (time: string, day = 21) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, 9, day, hours, minutes).toISOString();
+};
+
+const openingHours: StudioOpeningHours[] = [
+  { day: 'wednesday', open: '09:00', close: '18:00' },
+  { day: 'thursday', open: '09:00', close: '18:00' },
+];
+
+// Teacher available on Wednesday mornings only
+const availability: Pick<TeacherAvailability, 'weekly' | 'exceptions'> = {
+  weekly: [{ studioId: 'studio-1', day: 'wednesday', start: '09:00', end: '12:00' }],
+  exceptions: [],
+};
+
+const booked: BookedLesson = {
+  id: 'lesson-1',
+  studioId: 'studio-1',
+  roomId: 'room-1',
+  teacherId: 'teacher-1',
+  studentId: 'student-1',
+  start: at('10:00'),
+  end: at('11:00'),
+};
+
+const candidate = {
+  studioId: 'studio-1',
+  roomId: 'room-2',
+  teacherId: 'teacher-2',
+  studentId: 'student-2',
+  start: at('10:30'),
+  end: at('11:30'),
+};
+
+describe('Lesson Conflict Utilities', () => {
+  describe('findLessonConflicts', () => {
+    it('should report a double-booked room with the conflicting lesson as context', () => {
+      const errors = findLessonConflicts({ ...candidate, roomId: 'room-1' }, { lessons: [booked], openingHours });
+
+      expect(errors).toEqual([
+        {
+          field: 'roomId',
+          code: 'ROOM_DOUBLE_BOOKED',
+          message: 'Room is already booked 10:00–11:00',
+          value: 'room-1',
+          context: { lessonId: 'lesson-1', start: booked.start, end: booked.end },
+        },
+      ]);
+    });
+
+    it('should report teacher and student double bookings', () => {
+      const errors = findLessonConflicts(
+        { ...candidate, teacherId: 'teacher-1', studentId: 'student-1' },
+        { lessons: [booked], openingHours }
+      );
+
+      expect(errors.map(error => error.code)).toEqual(['TEACHER_DOUBLE_BOOKED', 'STUDENT_DOUBLE_BOOKED']);
+    });
+
+    it('should ignore back-to-back lessons and the lesson being moved', () => {
+      const schedule = { lessons: [booked], openingHours };
+      expect(
+        findLessonConflicts({ ...booked, id: undefined, start: at('11:00'), end: at('12:00') }, schedule)
+      ).toEqual([]);
+      expect(findLessonConflicts({ ...booked, start: at('10:30'), end: at('11:30') }, schedule)).toEqual([]);
+    });
+
+    it("should report lessons outside the teacher's availability", () => {
+      const afternoon = { ...candidate, start: at('11:30'), end: at('12:30') };
+
+      expect(findLessonConflicts(afternoon, { lessons: [], openingHours, availability })).toEqual([
+        expect.objectContaining({ field: 'teacherId', code: 'TEACHER_UNAVAILABLE' }),
+      ]);
+      expect(findLessonConflicts(afternoon, { lessons: [], openingHours, availability: null })).toEqual([]);
+    });
+  });
+
+  describe('findOpeningHoursConflict', () => {
+    it('should accept lessons within the opening hours', () => {
+      expect(findOpeningHoursConflict({ start: at('09:00'), end: at('18:00') }, openingHours)).toBeNull();
+    });
+
+    it('should reject lessons running past closing time', () => {
+      expect(findOpeningHoursConflict({ start: at('17:30'), end: at('18:30') }, openingHours)).toMatchObject({
+        field: 'start',
+        code: 'OUTSIDE_OPENING_HOURS',
+        message: 'Studio is open 09:00–18:00 on Wednesday (your local time)',
+        context: { day: 'wednesday', open: '09:00', close: '18:00' },
+      });
+    });
+
+    it('should reject lessons on closed days', () => {
+      expect(
+        findOpeningHoursConflict({ start: at('10:00', 25), end: at('11:00', 25) }, openingHours)
+      ).toMatchObject({
+        message: 'Studio is closed on Sunday',
+        context: { day: 'sunday', open: null, close: null },
+      });
+    });
+  });
+
+  describe('findSeriesConflicts', () => {
+    it('should report the conflicts of each occurrence with its day', () => {
+      const occurrences = [21, 28].map(day => ({
+        ...candidate,
+        roomId: 'room-1',
+        start: at('10:30', day),
+        end: at('11:30', day),
+        occurrence: `2026-10-${day}`,
+      }));
+
+      const errors = findSeriesConflicts(occurrences, { lessons: [booked], openingHours });
+
+      expect(errors).toEqual([
+        expect.objectContaining({
+          code: 'ROOM_DOUBLE_BOOKED',
+          message: 'Wed, Oct 21: Room is already booked 10:00–11:00',
+          context: { lessonId: 'lesson-1', start: booked.start, end: booked.end, occurrence: '2026-10-21' },
+        }),
+      ]);
+    });
+  });
+
+  describe('suggestFreeSlots', () => {
+    it('should suggest the nearest free slots of the same length', () => {
+      const slots = suggestFreeSlots(
+        { ...candidate, roomId: 'room-1', start: at('09:30'), end: at('10:30') },
+        { lessons: [booked], openingHours },
+        { limit: 2 }
+      );
+
+      expect(slots).toEqual([
+        { start: at('09:00'), end: at('10:00') },
+        { start: at('11:00'), end: at('12:00') },
+      ]);
+    });
+
+    it('should continue on the next open day', () => {
+      const slots = suggestFreeSlots(
+        { ...candidate, start: at('17:00'), end: at('18:00') },
+        { lessons: [{ ...booked, teacherId: 'teacher-2', start: at('09:00'), end: at('18:00') }], openingHours },
+        { limit: 1, notBefore: new Date(at('12:00')) }
+      );
+
+      expect(slots).toEqual([{ start: at('09:00', 22), end: at('10:00', 22) }]);
+    });
+
+    it("should only suggest slots within the teacher's availability", () => {
+      const slots = suggestFreeSlots(
+        { ...candidate, teacherId: 'teacher-1', start: at('11:30'), end: at('12:30') },
+        { lessons: [booked], openingHours, availability },
+        { limit: 5 }
+      );
+
+      expect(slots).toEqual([
+        { start: at('09:00'), end: at('10:00') },
+        { start: at('11:00'), end: at('12:00') },
+      ]);
+    });
+
+    it('should return nothing for an empty range', () => {
+      expect(suggestFreeSlots({ ...candidate, end: candidate.start }, { lessons: [], openingHours })).toEqual([]);
+    });
+  });
+});
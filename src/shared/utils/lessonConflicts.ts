@@ -0,0 +1,217 @@
+/**
+ * Lesson Conflict Utilities for MYC
+ *
+ * Used by the lesson form before saving and by the /lessons mock handlers
+ * - Double bookings of the room, the teacher or the student
+ * - Lessons outside the studio opening hours or the teacher's availability
+ * - Free slots of the same length to suggest instead
+ * - Conflicts of every occurrence of a recurring series
+ *
+ * Studios have no time zone of their own: weekdays, opening hours and
+ * availability are compared in the viewer's local time.
+ */
+
+import type { ValidationError } from '../types/api';
+import type { Lesson, LessonConflictCode, LessonSlot } from '../types/lesson';
+import type { StudioOpeningHours, Weekday } from '../types/studio';
+import type { TeacherAvailability } from '../types/availability';
+import type { MessageKey } from '../i18n';
+import { currentLocale, formatDate, localizeWeekday, t } from '../i18n';
+import { findAvailabilityConflict } from './availability';
+import { addDays, formatTime, isSameDay, startOfDay, weekdayOf, withTime } from './date';
+
+/**
+ * Booking compared against a new or moved lesson
+ */
+export type BookedLesson = Pick<Lesson, 'id' | 'studioId' | 'roomId' | 'teacherId' | 'studentId' | 'start' | 'end'>;
+
+/**
+ * Lesson being created (no id) or moved (its own booking is ignored)
+ */
+export type LessonCandidate = Omit<BookedLesson, 'id'> & { id?: string };
+
+/**
+ * Schedule a lesson is checked against
+ */
+export interface LessonSchedule {
+  /** Lessons around the candidate - other studios too, for teacher and student bookings */
+  lessons: BookedLesson[];
+  /** Opening hours of the candidate's studio */
+  openingHours: StudioOpeningHours[];
+  /** Availability of the candidate's teacher - omit (or null) to skip the check, e.g. on override */
+  availability?: Pick<TeacherAvailability, 'weekly' | 'exceptions'> | null;
+}
+
+/**
+ * Options for suggesting free slots
+ */
+export interface SuggestFreeSlotsOptions {
+  /** Maximum number of slots returned */
+  limit?: number;
+  /** Number of days searched, starting with the day of the requested slot */
+  days?: number;
+  /** Minutes between candidate start times */
+  stepMinutes?: number;
+  /** Skip slots starting before this time (e.g. now) */
+  notBefore?: Date;
+}
+
+// Bookings that must not overlap, in the order conflicts are reported
+const DOUBLE_BOOKINGS: {
+  field: 'roomId' | 'teacherId' | 'studentId';
+  code: LessonConflictCode;
+  message: MessageKey;
+}[] = [
+  { field: 'roomId', code: 'ROOM_DOUBLE_BOOKED', message: 'lessonConflicts.roomBooked' },
+  { field: 'teacherId', code: 'TEACHER_DOUBLE_BOOKED', message: 'lessonConflicts.teacherBooked' },
+  { field: 'studentId', code: 'STUDENT_DOUBLE_BOOKED', message: 'lessonConflicts.studentBooked' },
+];
+
+const MINUTE = 60 * 1000;
+
+const formatRange = (start: string, end: string) =>
+  `${formatTime(new Date(start))}–${formatTime(new Date(end))}`;
+
+const weekdayName = (day: Weekday) => localizeWeekday(currentLocale(), day);
+
+/**
+ * Whether two time ranges overlap - touching ranges do not
+ */
+export function lessonsOverlap(a: Pick<BookedLesson, 'start' | 'end'>, b: Pick<BookedLesson, 'start' | 'end'>): boolean {
+  return Date.parse(a.start) < Date.parse(b.end) && Date.parse(a.end) > Date.parse(b.start);
+}
+
+/**
+ * Opening hours of the local weekday of the given date - undefined when closed
+ */
+export function getOpeningHoursOn(date: Date, openingHours: StudioOpeningHours[]): StudioOpeningHours | undefined {
+  const day = weekdayOf(date);
+  return openingHours.find(hours => hours.day === day);
+}
+
+/**
+ * Check that a lesson lies within the opening hours of its day
+ * Day and times are read in the viewer's local time, as the message says.
+ * Returns an OUTSIDE_OPENING_HOURS error, or null when it fits.
+ */
+export function findOpeningHoursConflict(
+  candidate: Pick<LessonCandidate, 'start' | 'end'>,
+  openingHours: StudioOpeningHours[]
+): ValidationError | null {
+  const start = new Date(candidate.start);
+  const end = new Date(candidate.end);
+  const day = weekdayOf(start);
+  const hours = getOpeningHoursOn(start, openingHours);
+
+  if (hours && isSameDay(start, end) && formatTime(start) >= hours.open && formatTime(end) <= hours.close) {
+    return null;
+  }
+
+  return {
+    field: 'start',
+    code: 'OUTSIDE_OPENING_HOURS',
+    message: hours
+      ? t('lessonConflicts.outsideOpeningHours', { open: hours.open, close: hours.close, day: weekdayName(day) })
+      : t('lessonConflicts.studioClosed', { day: weekdayName(day) }),
+    value: candidate.start,
+    context: { day, open: hours?.open ?? null, close: hours?.close ?? null },
+  };
+}
+
+/**
+ * Find every conflict of a new or moved lesson
+ * - One error per overlapping lesson of the same room, teacher or student
+ * - One error when the lesson is outside the studio opening hours
+ * - One error when the teacher is not available
+ */
+export function findLessonConflicts(
+  candidate: LessonCandidate,
+  { lessons, openingHours, availability }: LessonSchedule
+): ValidationError[] {
+  const overlapping = lessons.filter(lesson => lesson.id !== candidate.id && lessonsOverlap(lesson, candidate));
+  const errors: ValidationError[] = [];
+
+  DOUBLE_BOOKINGS.forEach(({ field, code, message }) => {
+    overlapping
+      .filter(lesson => lesson[field] === candidate[field])
+      .forEach(lesson => {
+        errors.push({
+          field,
+          code,
+          message: t(message, { time: formatRange(lesson.start, lesson.end) }),
+          value: candidate[field],
+          context: { lessonId: lesson.id, start: lesson.start, end: lesson.end },
+        });
+      });
+  });
+
+  const hoursConflict = findOpeningHoursConflict(candidate, openingHours);
+  if (hoursConflict) {
+    errors.push(hoursConflict);
+  }
+
+  const availabilityConflict = availability ? findAvailabilityConflict(candidate, availability) : null;
+  if (availabilityConflict) {
+    errors.push(availabilityConflict);
+  }
+
+  return errors;
+}
+
+/**
+ * Find the conflicts of every occurrence of a new or moved series
+ * Messages start with the day of the occurrence and context holds its date.
+ */
+export function findSeriesConflicts(
+  occurrences: (LessonCandidate & { occurrence: string })[],
+  schedule: LessonSchedule
+): ValidationError[] {
+  return occurrences.flatMap(({ occurrence, ...candidate }) => {
+    const day = formatDate(candidate.start, { weekday: 'short', month: 'short', day: 'numeric' });
+    return findLessonConflicts(candidate, schedule).map(error => ({
+      ...error,
+      message: `${day}: ${error.message}`,
+      context: { ...error.context, occurrence },
+    }));
+  });
+}
+
+/**
+ * Suggest free slots with the same length, room, teacher and student
+ * Slots closest to the requested start are picked, then returned in time order.
+ */
+export function suggestFreeSlots(
+  candidate: LessonCandidate,
+  schedule: LessonSchedule,
+  { limit = 3, days = 7, stepMinutes = 15, notBefore }: SuggestFreeSlotsOptions = {}
+): LessonSlot[] {
+  const requested = Date.parse(candidate.start);
+  const duration = Date.parse(candidate.end) - requested;
+  if (!(duration > 0)) {
+    return [];
+  }
+
+  const slots: LessonSlot[] = [];
+  const firstDay = startOfDay(new Date(requested));
+
+  for (let offset = 0; offset < days; offset++) {
+    const day = addDays(firstDay, offset);
+    const hours = getOpeningHoursOn(day, schedule.openingHours);
+    if (!hours) continue;
+
+    const close = withTime(day, hours.close).getTime();
+    for (let start = withTime(day, hours.open).getTime(); start + duration <= close; start += stepMinutes * MINUTE) {
+      if (notBefore && start < notBefore.getTime()) continue;
+
+      const slot = { start: new Date(start).toISOString(), end: new Date(start + duration).toISOString() };
+      if (findLessonConflicts({ ...candidate, ...slot }, schedule).length === 0) {
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots
+    .sort((a, b) => Math.abs(Date.parse(a.start) - requested) - Math.abs(Date.parse(b.start) - requested))
+    .slice(0, limit)
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
@@ -0,0 +1,251 @@
+/**
+ * Recurrence Utilities Test Suite
+ *
+ * Expansion is checked in time zones with DST changes, so occurrences
+ * must keep their local time while their UTC offset changes.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  daysBetween,
+  describeRecurrence,
+  expandRecurrence,
+  expandSeries,
+  formatRecurrence,
+  parseRecurrence,
+  splitRecurrence,
+  type RecurrenceRule,
+} from './recurrence';
+import { formatTime, toDateKey } from './date';
+
+// Run the tests of a block with the local time zone set to zone
+function inTimeZone(zone: string) {
+  const original = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = zone;
+  });
+  afterAll(() => {
+    // Assigning undefined would store the string "undefined", which Node reads as UTC
+    if (original === undefined) delete process.env.TZ;
+    else process.env.TZ = original;
+  });
+}
+
+const weekly = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  freq: 'WEEKLY',
+  interval: 1,
+  byDay: [],
+  count: 12,
+  until: null,
+  ...overrides,
+});
+
+describe('Recurrence Utilities', () => {
+  describe('parseRecurrence / formatRecurrence', () => {
+    it('should parse and format a weekly rule', () => {
+      const rule = parseRecurrence('FREQ=WEEKLY;BYDAY=TU;COUNT=12');
+
+      expect(rule).toEqual(weekly({ byDay: ['tuesday'] }));
+      expect(formatRecurrence(rule as RecurrenceRule)).toBe('FREQ=WEEKLY;BYDAY=TU;COUNT=12');
+    });
+
+    it('should accept the RRULE prefix, lower case, day lists and UNTIL date-times', () => {
+      const rule = parseRecurrence('RRULE:freq=weekly;interval=2;byday=th,tu;until=20261215T235959Z');
+
+      expect(rule).toEqual(weekly({ interval: 2, byDay: ['tuesday', 'thursday'], count: null, until: '2026-12-15' }));
+      expect(formatRecurrence(rule as RecurrenceRule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;UNTIL=20261215');
+    });
+
+    it.each([
+      ['a rule without an end', 'FREQ=WEEKLY'],
+      ['both COUNT and UNTIL', 'FREQ=WEEKLY;COUNT=3;UNTIL=20261215'],
+      ['an unsupported frequency', 'FREQ=MONTHLY;COUNT=3'],
+      ['BYDAY on a daily rule', 'FREQ=DAILY;BYDAY=MO;COUNT=3'],
+      ['an unknown weekday', 'FREQ=WEEKLY;BYDAY=XX;COUNT=3'],
+      ['a zero count', 'FREQ=WEEKLY;COUNT=0'],
+      ['too many occurrences', 'FREQ=DAILY;COUNT=201'],
+      ['an invalid date', 'FREQ=WEEKLY;UNTIL=20260231'],
+      ['an unsupported part', 'FREQ=WEEKLY;COUNT=3;BYMONTH=1'],
+    ])('should reject %s', (_, value) => {
+      expect(parseRecurrence(value)).toBeNull();
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should describe weekly and daily rules', () => {
+      const tuesday = new Date(2026, 9, 13, 16, 0);
+
+      expect(describeRecurrence(weekly(), tuesday)).toBe('Every Tuesday, 12 times');
+      expect(describeRecurrence(weekly({ interval: 2, byDay: ['tuesday', 'thursday'], count: null, until: '2026-12-15' }), tuesday))
+        .toBe('Every 2 weeks on Tuesday, Thursday until Dec 15, 2026');
+      expect(describeRecurrence({ ...weekly(), freq: 'DAILY', count: 1 }, tuesday)).toBe('Every day, once');
+    });
+
+    it('should describe rules in the given locale', () => {
+      const tuesday = new Date(2026, 9, 13, 16, 0);
+
+      expect(describeRecurrence(weekly(), tuesday, 'fr-CA')).toBe('Chaque mardi, 12 fois');
+      expect(describeRecurrence(weekly({ interval: 2, byDay: ['tuesday', 'thursday'], count: null, until: '2026-12-15' }), tuesday, 'fr-CA'))
+        .toBe("Toutes les 2 semaines le mardi, jeudi jusqu'au 15 déc. 2026");
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should repeat on the weekday of the first lesson', () => {
+      const occurrences = expandRecurrence(new Date(2026, 9, 13, 16, 0), weekly());
+
+      expect(occurrences).toHaveLength(12);
+      expect(occurrences.map(date => date.getDay())).toEqual(Array(12).fill(2));
+      expect(toDateKey(occurrences[11])).toBe('2026-12-29');
+    });
+
+    it('should skip days before the first lesson and end on the UNTIL day', () => {
+      // Wednesday 14 October: Tuesdays and Thursdays every other week until 10 November
+      const rule = weekly({ interval: 2, byDay: ['tuesday', 'thursday'], count: null, until: '2026-11-10' });
+      const occurrences = expandRecurrence(new Date(2026, 9, 14, 9, 30), rule);
+
+      expect(occurrences.map(toDateKey)).toEqual(['2026-10-15', '2026-10-27', '2026-10-29', '2026-11-10']);
+    });
+
+    it('should repeat daily rules every n days', () => {
+      const occurrences = expandRecurrence(new Date(2026, 9, 30, 8, 0), { ...weekly(), freq: 'DAILY', interval: 3, count: 3 });
+
+      expect(occurrences.map(toDateKey)).toEqual(['2026-10-30', '2026-11-02', '2026-11-05']);
+    });
+
+    describe('across DST changes in America/Toronto', () => {
+      inTimeZone('America/Toronto');
+
+      it('should keep 16:00 when the clocks fall back', () => {
+        // Summer time ends on Sunday 1 November 2026
+        const occurrences = expandRecurrence(new Date(2026, 9, 20, 16, 0), weekly({ count: 3 }));
+
+        expect(occurrences.map(formatTime)).toEqual(['16:00', '16:00', '16:00']);
+        expect(occurrences.map(date => date.toISOString())).toEqual([
+          '2026-10-20T20:00:00.000Z',
+          '2026-10-27T20:00:00.000Z',
+          '2026-11-03T21:00:00.000Z',
+        ]);
+      });
+
+      it('should keep 16:00 when the clocks spring forward', () => {
+        // Summer time starts on Sunday 8 March 2026
+        const occurrences = expandRecurrence(new Date(2026, 2, 3, 16, 0), weekly({ count: 2 }));
+
+        expect(occurrences.map(date => date.toISOString())).toEqual([
+          '2026-03-03T21:00:00.000Z',
+          '2026-03-10T20:00:00.000Z',
+        ]);
+      });
+
+      it('should keep lessons on the day of the change at their local time', () => {
+        const occurrences = expandRecurrence(new Date(2026, 9, 31, 10, 0), { ...weekly(), freq: 'DAILY', count: 3 });
+
+        expect(occurrences.map(date => `${toDateKey(date)} ${formatTime(date)}`)).toEqual([
+          '2026-10-31 10:00',
+          '2026-11-01 10:00',
+          '2026-11-02 10:00',
+        ]);
+        expect(occurrences[2].getTime() - occurrences[1].getTime()).toBe(24 * 60 * 60 * 1000);
+        expect(occurrences[1].getTime() - occurrences[0].getTime()).toBe(25 * 60 * 60 * 1000);
+      });
+    });
+
+    describe('across DST changes in Europe/Berlin', () => {
+      inTimeZone('Europe/Berlin');
+
+      it('should keep the local time when the clocks fall back a week before North America', () => {
+        // Summer time ends on Sunday 25 October 2026
+        const occurrences = expandRecurrence(new Date(2026, 9, 19, 18, 30), weekly({ byDay: ['monday'], count: 2 }));
+
+        expect(occurrences.map(date => date.toISOString())).toEqual([
+          '2026-10-19T16:30:00.000Z',
+          '2026-10-26T17:30:00.000Z',
+        ]);
+      });
+    });
+  });
+
+  describe('expandSeries', () => {
+    inTimeZone('America/Toronto');
+
+    it('should apply cancelled and rescheduled occurrences and keep the lesson length', () => {
+      const start = new Date(2026, 9, 20, 16, 0);
+      const occurrences = expandSeries({
+        start: start.toISOString(),
+        end: new Date(2026, 9, 20, 16, 45).toISOString(),
+        recurrence: 'FREQ=WEEKLY;COUNT=4',
+        roomId: 'room-1',
+        teacherId: 'teacher-1',
+        note: null,
+        exceptions: [
+          { date: '2026-10-27', status: 'cancelled', lesson: null },
+          {
+            date: '2026-11-03',
+            status: 'rescheduled',
+            lesson: {
+              roomId: 'room-2',
+              teacherId: 'teacher-2',
+              start: new Date(2026, 10, 5, 17, 0).toISOString(),
+              end: new Date(2026, 10, 5, 17, 45).toISOString(),
+              note: 'Moved',
+            },
+          },
+        ],
+      });
+
+      expect(occurrences.map(occurrence => occurrence.date)).toEqual(['2026-10-20', '2026-11-03', '2026-11-10']);
+      expect(occurrences[1]).toMatchObject({ roomId: 'room-2', teacherId: 'teacher-2', note: 'Moved' });
+      expect(occurrences[2]).toMatchObject({
+        roomId: 'room-1',
+        start: '2026-11-10T21:00:00.000Z',
+        end: '2026-11-10T21:45:00.000Z',
+      });
+    });
+
+    it('should return no occurrences for an invalid recurrence', () => {
+      expect(expandSeries({
+        start: '2026-10-20T20:00:00.000Z',
+        end: '2026-10-20T20:45:00.000Z',
+        recurrence: 'FREQ=WEEKLY',
+        roomId: 'room-1',
+        teacherId: 'teacher-1',
+        note: null,
+        exceptions: [],
+      })).toEqual([]);
+    });
+  });
+
+  describe('splitRecurrence', () => {
+    const start = new Date(2026, 9, 13, 16, 0);
+
+    it('should split a counted rule at an occurrence', () => {
+      expect(splitRecurrence(start, weekly(), '2026-11-03')).toEqual({
+        before: weekly({ count: 3 }),
+        after: weekly({ count: 9 }),
+      });
+    });
+
+    it('should keep the end date of the remaining occurrences', () => {
+      const rule = weekly({ count: null, until: '2026-12-15' });
+
+      expect(splitRecurrence(start, rule, '2026-10-27')).toEqual({
+        before: weekly({ count: 2 }),
+        after: rule,
+      });
+    });
+
+    it('should have nothing before the first occurrence', () => {
+      expect(splitRecurrence(start, weekly(), '2026-10-13').before).toBeNull();
+    });
+  });
+
+  describe('daysBetween', () => {
+    inTimeZone('America/Toronto');
+
+    it('should count the 25-hour day of a DST change as one day', () => {
+      expect(daysBetween(new Date(2026, 9, 31, 23, 0), new Date(2026, 10, 2, 1, 0))).toBe(2);
+      expect(daysBetween(new Date(2026, 10, 2), new Date(2026, 9, 26))).toBe(-7);
+    });
+  });
+});
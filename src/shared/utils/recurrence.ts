@@ -0,0 +1,265 @@
+/**
+ * Recurrence Utilities for MYC
+ *
+ * RRULE-style patterns of recurring lesson series (a subset of RFC 5545)
+ * - FREQ=DAILY or FREQ=WEEKLY with INTERVAL, BYDAY and either COUNT or UNTIL
+ * - Expansion keeps the local wall-clock time of the first lesson across DST changes
+ * - Cancelled and rescheduled occurrences are applied from the series exceptions
+ * Used by the lesson form and by the /lessons mock handlers.
+ */
+
+import type { Weekday } from '../types/studio';
+import type { LessonOccurrenceChange, LessonSeries } from '../types/lesson';
+import { addDays, formatTime, parseDateKey, startOfDay, toDateKey, weekdayOf, withTime } from './date';
+import { currentLocale, localizeDate, localizeWeekday, translate, type SupportedLocale } from '../i18n';
+
+/**
+ * Supported RRULE frequencies
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY';
+
+/**
+ * Parsed RRULE
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  /** Repeat every n days or weeks */
+  interval: number;
+  /** Weekdays of a WEEKLY rule - empty repeats on the weekday of the first lesson */
+  byDay: Weekday[];
+  /** Number of occurrences - null when the rule ends on a date */
+  count: number | null;
+  /** Last possible day as 'YYYY-MM-DD' (inclusive) - null when the rule ends after count */
+  until: string | null;
+}
+
+/**
+ * Occurrence of a series with its exceptions applied
+ */
+export interface SeriesOccurrence extends LessonOccurrenceChange {
+  /** 'YYYY-MM-DD' date of the occurrence by the pattern */
+  date: string;
+}
+
+/**
+ * Most occurrences a series can have
+ */
+export const MAX_OCCURRENCES = 200;
+
+// Weekdays in RRULE order (weeks start on Monday) with their BYDAY codes
+const WEEKDAY_CODES: [Weekday, string][] = [
+  ['monday', 'MO'],
+  ['tuesday', 'TU'],
+  ['wednesday', 'WE'],
+  ['thursday', 'TH'],
+  ['friday', 'FR'],
+  ['saturday', 'SA'],
+  ['sunday', 'SU'],
+];
+
+const WEEK_ORDER = WEEKDAY_CODES.map(([day]) => day);
+
+const RULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const isPositiveInteger = (value: number) => Number.isInteger(value) && value > 0;
+
+/**
+ * Parse an RRULE such as 'FREQ=WEEKLY;BYDAY=TU;COUNT=12'
+ * Returns null when the rule is invalid, unsupported or does not end.
+ */
+export function parseRecurrence(value: string | null | undefined): RecurrenceRule | null {
+  const parts = new Map(
+    (value ?? '')
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map(part => {
+        const [key, partValue = ''] = part.split('=');
+        return [key.trim().toUpperCase(), partValue.trim().toUpperCase()] as const;
+      })
+  );
+  if ([...parts.keys()].some(key => !RULE_PARTS.includes(key))) {
+    return null;
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+    return null;
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!isPositiveInteger(interval)) {
+    return null;
+  }
+
+  const codes = parts.get('BYDAY')?.split(',') ?? [];
+  const byDay = codes.map(code => WEEKDAY_CODES.find(([, dayCode]) => dayCode === code)?.[0]);
+  if (byDay.some(day => !day) || (freq === 'DAILY' && byDay.length > 0)) {
+    return null;
+  }
+
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null;
+  if (count !== null && !(isPositiveInteger(count) && count <= MAX_OCCURRENCES)) {
+    return null;
+  }
+
+  // UNTIL is a date ('20261215') or a date-time whose date is used ('20261215T235959Z')
+  const untilMatch = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+  const until = untilMatch ? `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}` : null;
+  if (parts.has('UNTIL') && !parseDateKey(until)) {
+    return null;
+  }
+
+  // A series must end, by count or by date but not both
+  if ((count === null) === (until === null)) {
+    return null;
+  }
+
+  return {
+    freq,
+    interval,
+    byDay: WEEK_ORDER.filter(day => byDay.includes(day)),
+    count,
+    until,
+  };
+}
+
+/**
+ * Format a rule as an RRULE, e.g. 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=12'
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAY_CODES.find(([weekday]) => weekday === day)?.[1]).join(',')}`);
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== null) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Describe a rule in a locale (the current one by default),
+ * e.g. 'Every Tuesday, 12 times' or 'Every 2 weeks on Tuesday until Dec 15, 2026'
+ */
+export function describeRecurrence(rule: RecurrenceRule, start: Date, locale: SupportedLocale = currentLocale()): string {
+  const days = (rule.byDay.length > 0 ? rule.byDay : [weekdayOf(start)])
+    .map(day => localizeWeekday(locale, day))
+    .join(', ');
+  const pattern = rule.freq === 'DAILY'
+    ? translate(locale, 'recurrence.daily', { count: rule.interval })
+    : translate(locale, 'recurrence.weekly', { count: rule.interval, days });
+
+  if (rule.count !== null) {
+    return translate(locale, 'recurrence.times', { pattern, count: rule.count });
+  }
+
+  const until = localizeDate(locale, parseDateKey(rule.until) as Date, { month: 'short', day: 'numeric', year: 'numeric' });
+  return translate(locale, 'recurrence.until', { pattern, date: until });
+}
+
+/**
+ * Start times of the occurrences of a rule, beginning with the first lesson
+ * Every occurrence keeps the local time of day of start, so a weekly 16:00
+ * lesson stays at 16:00 when the clocks change. Days before start and days
+ * that do not match BYDAY are skipped.
+ */
+export function expandRecurrence(start: Date, rule: RecurrenceRule): Date[] {
+  const occurrences: Date[] = [];
+  const limit = rule.count ?? MAX_OCCURRENCES;
+  const lastDay = rule.until ? parseDateKey(rule.until) : null;
+  const time = formatTime(start);
+  const firstDay = startOfDay(start);
+
+  // Adds the occurrence on the given day - false once the rule has ended
+  const add = (day: Date) => {
+    if (lastDay && day > lastDay) return false;
+    occurrences.push(withTime(day, time));
+    return occurrences.length < limit;
+  };
+
+  if (rule.freq === 'DAILY') {
+    let offset = 0;
+    while (add(addDays(firstDay, offset))) {
+      offset += rule.interval;
+    }
+    return occurrences;
+  }
+
+  const days = rule.byDay.length > 0 ? rule.byDay : [weekdayOf(start)];
+  const firstMonday = addDays(firstDay, -((firstDay.getDay() + 6) % 7));
+  for (let week = 0; ; week += rule.interval) {
+    for (const day of days) {
+      const date = addDays(firstMonday, week * 7 + WEEK_ORDER.indexOf(day));
+      if (date < firstDay) continue;
+      if (!add(date)) return occurrences;
+    }
+  }
+}
+
+/**
+ * Occurrences of a series: the pattern without cancelled occurrences and with
+ * rescheduled occurrences moved to their new time, room and teacher
+ */
+export function expandSeries(
+  series: Pick<LessonSeries, 'start' | 'end' | 'recurrence' | 'roomId' | 'teacherId' | 'note' | 'exceptions'>
+): SeriesOccurrence[] {
+  const rule = parseRecurrence(series.recurrence);
+  if (!rule) {
+    return [];
+  }
+
+  const duration = Date.parse(series.end) - Date.parse(series.start);
+  return expandRecurrence(new Date(series.start), rule).flatMap(start => {
+    const date = toDateKey(start);
+    const exception = series.exceptions.find(item => item.date === date);
+    if (exception?.status === 'cancelled') {
+      return [];
+    }
+    if (exception?.lesson) {
+      return [{ date, ...exception.lesson }];
+    }
+
+    return [{
+      date,
+      start: start.toISOString(),
+      end: new Date(start.getTime() + duration).toISOString(),
+      roomId: series.roomId,
+      teacherId: series.teacherId,
+      note: series.note,
+    }];
+  });
+}
+
+/**
+ * Split a rule at an occurrence for "this and following" changes
+ * - before: the occurrences up to the day before - null when the occurrence is the first
+ * - after: the remaining occurrences, starting with the one on the given date
+ */
+export function splitRecurrence(
+  start: Date,
+  rule: RecurrenceRule,
+  date: string
+): { before: RecurrenceRule | null; after: RecurrenceRule } {
+  const previous = expandRecurrence(start, rule).filter(occurrence => toDateKey(occurrence) < date).length;
+
+  return {
+    before: previous === 0 ? null : { ...rule, count: previous, until: null },
+    after: rule.count === null ? rule : { ...rule, count: rule.count - previous },
+  };
+}
+
+/**
+ * Whole days between two local dates, counting a day across a DST change as one
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY);
+}
@@ -0,0 +1,38 @@
+/**
+ * XLSX Utilities Test Suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toXlsx } from './xlsx';
+
+const decoder = new TextDecoder();
+
+describe('XLSX Utilities', () => {
+  it('should produce a ZIP package with the workbook parts', () => {
+    const text = decoder.decode(toXlsx([['Name']]));
+
+    expect(text.startsWith('PK')).toBe(true);
+    expect(text).toContain('[Content_Types].xml');
+    expect(text).toContain('xl/workbook.xml');
+    expect(text).toContain('xl/worksheets/sheet1.xml');
+  });
+
+  it('should write strings inline and numbers as values', () => {
+    const text = decoder.decode(toXlsx([['Name', 'Age'], ['Jane', 42]]));
+
+    expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Jane</t></is></c>');
+    expect(text).toContain('<c r="B2"><v>42</v></c>');
+  });
+
+  it('should escape XML special characters', () => {
+    const text = decoder.decode(toXlsx([['Tom & "Jerry" <3']]));
+
+    expect(text).toContain('Tom &amp; &quot;Jerry&quot; &lt;3');
+  });
+
+  it('should name the sheet', () => {
+    const text = decoder.decode(toXlsx([['x']], 'Users'));
+
+    expect(text).toContain('<sheet name="Users" sheetId="1" r:id="rId1"/>');
+  });
+});
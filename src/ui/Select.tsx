@@ -8,6 +8,10 @@
 import { Select as AntSelect } from 'antd';
 import type { SelectProps as AntSelectProps } from 'antd';
 import { useState, useEffect } from 'react';
+import { locationAPI } from './location';
+import type { CountryOption } from './location';
+import { roleOptionsAPI } from './roles';
+import type { RoleOption } from './roles';
 
 /**
  * Standard Select component with consistent defaults
@@ -16,49 +20,6 @@ export function Select(props: AntSelectProps) {
   return <AntSelect {...props} />;
 }
 
-/**
- * Country/Province option interfaces for backend data
- */
-export interface CountryOption {
-  value: string;
-  label: string;
-}
-
-export interface ProvinceOption {
-  value: string;
-  label: string;
-  countryCode: string;
-}
-
-/**
- * API service functions (to be implemented with actual backend endpoints)
- */
-export const locationAPI = {
-  /**
-   * Fetch countries from backend API
-   * Replace with actual API endpoint
-   */
-  async fetchCountries(): Promise<CountryOption[]> {
-    // TODO: Replace with actual API call
-    // const response = await fetch('/api/countries');
-    // return response.json();
-    
-    throw new Error('locationAPI.fetchCountries() must be implemented with actual backend endpoint');
-  },
-
-  /**
-   * Fetch provinces by country from backend API
-   * Replace with actual API endpoint
-   */
-  async fetchProvinces(countryCode: string): Promise<ProvinceOption[]> {
-    // TODO: Replace with actual API call
-    // const response = await fetch(`/api/provinces?country=${countryCode}`);
-    // return response.json();
-    
-    throw new Error('locationAPI.fetchProvinces() must be implemented with actual backend endpoint');
-  }
-};
-
 /**
  * Country Select component with backend API integration
  */
@@ -205,21 +166,46 @@ export function CascadingCountryProvinceSelect({
 }
 
 /**
- * Role Select component for user roles
- * Based on design system specifications
+ * Role Select component with backend API integration
+ * Values are role ULIDs (`roleId`) unless `valueField="name"` is given,
+ * which the user list filter uses since it filters by role name.
  */
-export function RoleSelect(props: AntSelectProps) {
-  const roleOptions = [
-    { value: 'admin', label: 'Administrator' },
-    { value: 'teacher', label: 'Teacher' },
-    { value: 'student', label: 'Student' },
-    { value: 'staff', label: 'Staff' },
-  ];
+export function RoleSelect({
+  valueField = 'id',
+  ...props
+}: AntSelectProps & {
+  valueField?: 'id' | 'name';
+}) {
+  const [roles, setRoles] = useState<RoleOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRoles = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setRoles(await roleOptionsAPI.fetchRoles());
+      } catch (err) {
+        setError('Failed to load roles');
+        console.error('Error loading roles:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRoles();
+  }, []);
 
   return (
     <Select
       placeholder="Select Role"
-      options={roleOptions}
+      options={roles.map(role => ({
+        value: valueField === 'name' ? role.label : role.value,
+        label: role.label,
+      }))}
+      loading={loading}
+      status={error ? 'error' : undefined}
       {...props}
     />
   );
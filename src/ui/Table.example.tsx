@@ -121,7 +121,7 @@ export function TableExamples() {
         <Table
           dataSource={data}
           columns={[
-            TableColumns.name((id) => message.info(`Navigate to user ${id}`)),
+            TableColumns.name((id) => ({ to: `/users/${id}` })),
             TableColumns.email(),
             TableColumns.role(),
             TableColumns.status(),
@@ -187,7 +187,7 @@ export function TableExamples() {
           dataSource={data}
           columns={[
             {
-              ...TableColumns.name((id) => message.info(`User ID: ${id}`)),
+              ...TableColumns.name((id) => ({ to: `/users/${id}` })),
               sorter: true,
             },
             {
@@ -291,7 +291,7 @@ export function TableExamples() {
             <strong>Custom Columns with Helpers:</strong>
             <div style={{ background: '#f5f5f5', padding: 8, borderRadius: 4, marginTop: 4 }}>
               {`const columns = [
-  TableColumns.name(onNavigate),
+  TableColumns.name(getLink),
   TableColumns.email(),
   TableColumns.status(),
   TableColumns.actions({ onEdit, onDelete })
@@ -10,10 +10,13 @@
  */
 
 import { Table as AntTable, Space, Popconfirm } from 'antd';
+import { Link, type To } from 'react-router-dom';
 import type { TableProps as AntTableProps, ColumnType } from 'antd/es/table';
 import { Button } from './Button';
 import { renderStatusTag } from './Tag';
 import type { StatusVariant } from './types';
+import { useTranslation } from '../shared/hooks/useTranslation';
+import * as i18n from '../shared/i18n';
 
 /**
  * Standard Table component with MYC defaults
@@ -21,20 +24,22 @@ import type { StatusVariant } from './types';
 export function Table<T = any>({
   size = 'middle',
   rowKey = 'id',
-  pagination = { 
-    pageSize: 10, 
-    showTotal: (total, range) => `${range[0]}-${range[1]} of ${total} items`,
-    showSizeChanger: true,
-    showQuickJumper: true,
-    pageSizeOptions: ['10', '20', '50', '100']
-  },
+  pagination,
   ...props
 }: AntTableProps<T>) {
+  const { t } = useTranslation();
+
   return (
     <AntTable<T>
       size={size}
       rowKey={rowKey}
-      pagination={pagination}
+      pagination={pagination ?? {
+        pageSize: 10,
+        showTotal: (total, range) => t('table.totalItems', { start: range[0], end: range[1], count: total }),
+        showSizeChanger: true,
+        showQuickJumper: true,
+        pageSizeOptions: ['10', '20', '50', '100']
+      }}
       {...props}
     />
   );
@@ -150,22 +155,22 @@ export const TableActions = {
   )
 };
 
+/**
+ * Target of a clickable name - a real link so it can be opened in a new tab
+ */
+export interface TableRowLink {
+  to: To;
+  state?: unknown;
+}
+
 /**
  * Helper for rendering clickable name columns
  */
 export const ClickableNameColumn = {
-  render: (
-    name: string, 
-    record: any, 
-    onNavigate: (id: string | number) => void
-  ) => (
-    <Button 
-      variant="link" 
-      onClick={() => onNavigate(record.id)}
-      style={{ padding: 0, height: 'auto', fontWeight: 'normal' }}
-    >
+  render: (name: string, link: TableRowLink) => (
+    <Link to={link.to} state={link.state}>
       {name}
-    </Button>
+    </Link>
   )
 };
 
@@ -183,11 +188,11 @@ export const TableColumns = {
   /**
    * Clickable name column
    */
-  name: (onNavigate: (id: string | number) => void): ColumnType<any> => ({
-    title: 'Name',
+  name: (getLink: (id: string | number) => TableRowLink): ColumnType<any> => ({
+    title: i18n.t('common.name'),
     dataIndex: 'name',
     key: 'name',
-    render: (name, record) => ClickableNameColumn.render(name, record, onNavigate),
+    render: (name, record) => ClickableNameColumn.render(name, getLink(record.id)),
     sorter: (a, b) => (a.name || '').localeCompare(b.name || ''),
   }),
 
@@ -195,7 +200,7 @@ export const TableColumns = {
    * Email column
    */
   email: (): ColumnType<any> => ({
-    title: 'Email',
+    title: i18n.t('common.email'),
     dataIndex: 'email',
     key: 'email',
     sorter: (a, b) => (a.email || '').localeCompare(b.email || ''),
@@ -205,7 +210,7 @@ export const TableColumns = {
    * Phone column
    */
   phone: (): ColumnType<any> => ({
-    title: 'Phone',
+    title: i18n.t('common.phone'),
     dataIndex: 'phone',
     key: 'phone',
     render: (phone) => phone || '—',
@@ -215,7 +220,7 @@ export const TableColumns = {
    * Role column
    */
   role: (): ColumnType<any> => ({
-    title: 'Role',
+    title: i18n.t('common.role'),
     dataIndex: 'role',
     key: 'role',
     filters: [
@@ -231,7 +236,7 @@ export const TableColumns = {
    * Status column with tags
    */
   status: (): ColumnType<any> => ({
-    title: 'Status',
+    title: i18n.t('common.status'),
     dataIndex: 'status',
     key: 'status',
     render: StatusColumn.render,
@@ -252,7 +257,7 @@ export const TableColumns = {
     onDelete?: (record: any) => void | Promise<void>;
     onResetPassword?: (record: any) => void | Promise<void>;
   }): ColumnType<any> => ({
-    title: 'Actions',
+    title: i18n.t('common.actions'),
     key: 'actions',
     width: 200,
     render: (_, record) => (
@@ -295,7 +300,7 @@ export function UserTable({
 } & Omit<AntTableProps<any>, 'dataSource' | 'columns' | 'loading'>) {
   
   const columns = [
-    TableColumns.name((id) => onView?.({ id })),
+    TableColumns.name((id) => ({ to: `/users/${id}` })),
     TableColumns.email(),
     TableColumns.phone(),
     TableColumns.role(),
@@ -6,7 +6,20 @@
 import React, { useEffect } from 'react';
 import { ConfigProvider } from 'antd';
 import type { ConfigProviderProps } from 'antd/es/config-provider';
+import enGB from 'antd/locale/en_GB';
+import enUS from 'antd/locale/en_US';
+import frCA from 'antd/locale/fr_CA';
 import { antdThemeConfig, injectCSSVariables } from './theme';
+import { useLocaleStore } from '../shared/stores/localeStore';
+import type { SupportedLocale } from '../shared/i18n';
+
+// Ant Design locale of each app locale - Australia and Singapore use British conventions
+const ANTD_LOCALES: Record<SupportedLocale, ConfigProviderProps['locale']> = {
+  'en-CA': enUS,
+  'fr-CA': frCA,
+  'en-AU': enGB,
+  'en-SG': enGB,
+};
 
 interface MYCThemeProviderProps {
   children: React.ReactNode;
@@ -18,6 +31,8 @@ interface MYCThemeProviderProps {
  * 
  * Provides MYC design system theme configuration to all child components.
  * Automatically injects CSS variables for design tokens.
+ * Ant Design's built-in texts (pagination, date pickers, modals) follow the
+ * locale chosen in the language switcher.
  * 
  * @param children - Child components to wrap with theme
  * @param theme - Optional theme overrides (will be merged with MYC theme)
@@ -31,6 +46,13 @@ export function MYCThemeProvider({
     injectCSSVariables();
   }, []);
 
+  const locale = useLocaleStore(state => state.locale);
+
+  // Keep the document language in step for screen readers and the browser
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
   // Merge custom theme with MYC theme if provided
   const mergedTheme = theme 
     ? {
@@ -41,7 +63,7 @@ export function MYCThemeProvider({
     : antdThemeConfig;
 
   return (
-    <ConfigProvider theme={mergedTheme}>
+    <ConfigProvider theme={mergedTheme} locale={ANTD_LOCALES[locale] ?? enUS}>
       {children}
     </ConfigProvider>
   );
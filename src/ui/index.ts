@@ -17,8 +17,11 @@ export { MYCThemeProvider } from './ThemeProvider';
 export { Button } from './Button';
 export { PageTitle, SectionTitle, BodyText, MutedText, Paragraph } from './Typography';
 export { Input, InputPassword, InputEmail, InputTextArea } from './Input';
-export { Select, CountrySelect, ProvinceSelect, CascadingCountryProvinceSelect, RoleSelect, locationAPI } from './Select';
-export type { CountryOption, ProvinceOption } from './Select';
+export { Select, CountrySelect, ProvinceSelect, CascadingCountryProvinceSelect, RoleSelect } from './Select';
+export { locationAPI } from './location';
+export type { CountryOption, ProvinceOption } from './location';
+export { roleOptionsAPI } from './roles';
+export type { RoleOption } from './roles';
 export { Tag, StatusTag, ActiveTag, InactiveTag, PendingTag, renderStatusTag } from './Tag';
 export { Card } from './Card';
 export type { CardProps } from './Card';
@@ -26,6 +29,7 @@ export { Modal, ConfirmModal } from './Modal';
 export type { ModalProps } from './Modal';
 export { Form, FormItem, LabeledInput, LabeledSelect, FormActions, useForm, FormProvider } from './Form';
 export { Table, TableActions, ClickableNameColumn, StatusColumn, TableColumns, UserTable } from './Table';
+export type { TableRowLink } from './Table';
 
 // Re-export commonly used types for convenience
 export type { 
@@ -0,0 +1,51 @@
+/**
+ * MYC Location Options
+ *
+ * Country/Province option loaders used by CountrySelect, ProvinceSelect
+ * and features that resolve location labels (e.g. CSV import).
+ * Backed by GET /countries and GET /countries/{id}/provinces.
+ */
+
+import { countryAPI } from '@/shared/api/location';
+
+/**
+ * Country/Province option interfaces for backend data
+ */
+export interface CountryOption {
+  value: string; // Country ULID
+  label: string;
+}
+
+export interface ProvinceOption {
+  value: string;       // Province ULID
+  label: string;
+  countryCode: string; // ULID of the province's country
+}
+
+/**
+ * Location API service functions
+ */
+export const locationAPI = {
+  /**
+   * Fetch countries as select options
+   */
+  async fetchCountries(): Promise<CountryOption[]> {
+    const response = await countryAPI.listCountries();
+    return response.data.map(country => ({
+      value: country.id,
+      label: country.name,
+    }));
+  },
+
+  /**
+   * Fetch the provinces of a country as select options
+   */
+  async fetchProvinces(countryId: string): Promise<ProvinceOption[]> {
+    const response = await countryAPI.listProvinces(countryId);
+    return response.data.map(province => ({
+      value: province.id,
+      label: province.name,
+      countryCode: province.countryId,
+    }));
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * MYC Role Options
+ *
+ * Role option loader used by RoleSelect and by features that resolve
+ * role labels (e.g. CSV import). Backed by GET /roles.
+ */
+
+import { roleAPI } from '@/shared/api/role';
+
+/**
+ * Role option interface for backend data
+ */
+export interface RoleOption {
+  value: string; // Role ULID
+  label: string; // Role name
+  color: string; // Tag colour from the role metadata
+}
+
+/**
+ * Role API service functions
+ */
+export const roleOptionsAPI = {
+  /**
+   * Fetch roles as select options
+   */
+  async fetchRoles(): Promise<RoleOption[]> {
+    const response = await roleAPI.listRoles();
+    return response.data.map(role => ({
+      value: role.id,
+      label: role.name,
+      color: role.color,
+    }));
+  },
+};